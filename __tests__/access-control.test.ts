@@ -0,0 +1,83 @@
+import { SpaceAccessControl } from '../lib/dxos/utils/access-control'
+
+describe('space access control', () => {
+  const createSpace = (moderationLevel: 'open' | 'moderated' | 'strict', allowInvites = true) => {
+    const objects: any[] = [
+      { type: 'community', settings: { allowInvites, moderationLevel, contentPolicy: '' } },
+      { type: 'member', userId: 'owner', role: 'owner' },
+      { type: 'member', userId: 'admin', role: 'admin' },
+      { type: 'member', userId: 'member', role: 'member' },
+      { type: 'member', userId: 'viewer', role: 'viewer' },
+      { type: 'invitation', id: 'inv-1', createdBy: 'admin' }
+    ]
+    return {
+      id: 'space-1',
+      db: {
+        query: (filter: Record<string, any>) => ({
+          run: () => objects.filter(object => Object.keys(filter).every(key => object[key] === filter[key]))
+        })
+      }
+    }
+  }
+  const member = (space: any, userId: string) => SpaceAccessControl.getMember(space, userId)
+
+  it('should enforce role capabilities on writes', () => {
+    const space = createSpace('moderated')
+    const memory = { type: 'memory', authorId: 'member' }
+
+    expect(SpaceAccessControl.authorize(space, { action: 'memory.create', actorId: 'member', object: memory }).allowed).toBe(true)
+    expect(SpaceAccessControl.authorize(space, { action: 'memory.create', actorId: 'viewer', object: memory }).allowed).toBe(false)
+    expect(SpaceAccessControl.authorize(space, { action: 'memory.create', actorId: 'stranger', object: memory }).reason)
+      .toMatch(/Not a member/)
+    expect(SpaceAccessControl.authorize(space, { action: 'object.remove', actorId: 'member', object: { type: 'memory', authorId: 'admin' } }).allowed)
+      .toBe(false)
+    expect(SpaceAccessControl.authorize(space, { action: 'object.remove', actorId: 'admin', object: memory }).allowed).toBe(true)
+    expect(SpaceAccessControl.authorize(space, { action: 'object.add', actorId: 'owner', object: { type: 'access_denial' } }).allowed)
+      .toBe(false)
+  })
+
+  it('should only let the owner manage admins', () => {
+    const space = createSpace('open')
+    const role = (actorId: string, target: string, newRole: string) => SpaceAccessControl.authorize(space, {
+      action: 'member.role', actorId, object: member(space, target), changes: { role: newRole }
+    }).allowed
+
+    expect(role('admin', 'member', 'viewer')).toBe(true)
+    expect(role('admin', 'member', 'admin')).toBe(false)
+    expect(role('owner', 'member', 'admin')).toBe(true)
+    expect(role('member', 'viewer', 'member')).toBe(false)
+    expect(role('owner', 'owner', 'admin')).toBe(false)
+
+    const remove = (actorId: string, target: string) => SpaceAccessControl.authorize(space, {
+      action: 'member.remove', actorId, object: member(space, target)
+    }).allowed
+    expect(remove('admin', 'owner')).toBe(false)
+    expect(remove('admin', 'admin')).toBe(true) // leaving
+    expect(remove('member', 'viewer')).toBe(false)
+  })
+
+  it('should apply the moderation level and invitation rules', () => {
+    const invite = (space: any, actorId: string) => SpaceAccessControl.authorize(space, {
+      action: 'invitation.create', actorId, object: { type: 'invitation', createdBy: actorId }
+    }).allowed
+
+    expect(invite(createSpace('open'), 'member')).toBe(true)
+    expect(invite(createSpace('open', false), 'member')).toBe(false)
+    expect(invite(createSpace('moderated'), 'member')).toBe(false)
+    expect(invite(createSpace('moderated'), 'admin')).toBe(true)
+
+    const strict = createSpace('strict')
+    expect(SpaceAccessControl.authorize(strict, { action: 'object.add', actorId: 'member', object: { type: 'connection' } }).allowed)
+      .toBe(false)
+    expect(SpaceAccessControl.authorize(strict, { action: 'memory.create', actorId: 'member', object: { type: 'memory' } }).allowed)
+      .toBe(true)
+
+    const join = { action: 'member.add' as const, actorId: 'newcomer', invitationId: 'inv-1' }
+    expect(SpaceAccessControl.authorize(strict, { ...join, object: { type: 'member', userId: 'newcomer', role: 'member' } }).allowed)
+      .toBe(true)
+    expect(SpaceAccessControl.authorize(strict, { ...join, object: { type: 'member', userId: 'newcomer', role: 'admin' } }).allowed)
+      .toBe(false)
+    expect(SpaceAccessControl.authorize(strict, { ...join, invitationId: 'inv-2', object: { type: 'member', userId: 'newcomer', role: 'member' } }).allowed)
+      .toBe(false)
+  })
+})
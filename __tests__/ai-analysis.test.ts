@@ -0,0 +1,59 @@
+import { AIAnalysisService, LexiconAnalysisEngine } from '../utils/ai-analysis'
+import { WorkerAnalysisBackend } from '../utils/ai-analysis/worker-backend'
+import { blobToBytes } from '../utils/memory-repository'
+
+describe('local analysis', () => {
+  it('should produce worker-shaped analysis with the keyword engine', () => {
+    const analysis = LexiconAnalysisEngine.analyze({
+      content: 'Beach trip with my sister. We loved the beach, the sunset and the beach bonfire.'
+    })
+
+    expect(analysis.title).toBe('Beach trip with my sister')
+    expect(analysis.tags[0]).toBe('beach')
+    expect(analysis.sentiment.sentiment).toBe('positive')
+    expect(analysis.categories).toBe('travel')
+    expect(analysis.aiGenerated).toBe(false)
+    expect(LexiconAnalysisEngine.sentiment('It was not fun at all').sentiment).toBe('negative')
+  })
+
+  it('should fall back to the keyword engine when the backend fails', async () => {
+    AIAnalysisService.setBackend({
+      name: 'local',
+      analyze: jest.fn().mockRejectedValue(new Error('offline')),
+      embed: jest.fn().mockRejectedValue(new Error('offline')),
+      isAvailable: jest.fn().mockResolvedValue(false)
+    })
+
+    const result = await AIAnalysisService.analyzeMemoryWithFallback({ content: 'Graduation day at the university', title: 'Graduation' })
+    expect(result.success).toBe(true)
+    expect(result.analysis).toMatchObject({ title: 'Graduation', categories: 'education' })
+    expect(result.analysis.tags).toContain('graduation')
+
+    AIAnalysisService.setBackend(null)
+  })
+
+  it('should not send the photo location to the worker', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    let sent: FormData | undefined
+    global.fetch = jest.fn(async (_url: string, init: RequestInit) => {
+      sent = init.body as FormData
+      return { ok: true, status: 200, json: async () => ({ success: true }) }
+    }) as unknown as typeof fetch
+
+    // SOI, an APP1 segment standing in for the GPS EXIF, then a scan whose
+    // data holds a stuffed 0xff and a restart marker
+    const scan = [0xff, 0xda, 0, 2, 7, 0xff, 0, 0xff, 0xd0, 8, 0xff, 0xd9]
+    const photo = new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 0, 6, 0x47, 0x50, 0x53, 0].concat(scan))
+
+    await new WorkerAnalysisBackend('https://worker.test').analyze({
+      title: 'Porch',
+      file: new File([photo], 'porch.jpg', { type: 'image/jpeg' }),
+      exif: { takenAt: 1_700_000_000_000, camera: 'Pixel 7', location: { latitude: 52.37, longitude: 4.89 } }
+    })
+
+    expect(JSON.parse(sent!.get('exif') as string)).toEqual({ takenAt: 1_700_000_000_000, camera: 'Pixel 7' })
+    const file = sent!.get('file') as File
+    expect(file.name).toBe('porch.jpg')
+    expect(Array.from(await blobToBytes(file))).toEqual([0xff, 0xd8].concat(scan))
+  })
+})
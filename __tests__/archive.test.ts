@@ -0,0 +1,111 @@
+import { ArchiveService } from '../utils/archive'
+import { LocalStorage } from '../utils/storage'
+import { EncryptionService } from '../utils/encryption'
+import { CryptoService } from '../utils/crypto'
+import { Memory } from '../types/memory'
+
+describe('archives', () => {
+  let mockMemory: Memory
+  let store: Record<string, string>
+
+  beforeEach(() => {
+    mockMemory = {
+      id: 'memory123',
+      title: 'Test Memory',
+      content: 'This is a test memory content',
+      memoryNote: 'Test note',
+      visibility: 'public',
+      fileType: 'text',
+      ipfsCid: 'QmTestMemoryCID',
+      ipfsUrl: 'https://ipfs.io/ipfs/QmTestMemoryCID',
+      ipfsGatewayUrl: 'https://gateway.pinata.cloud/ipfs/QmTestMemoryCID',
+      timestamp: Date.now(),
+      authorId: 'user123',
+      authorName: 'Test User',
+      tags: ['test', 'memory']
+    }
+
+    store = {}
+    Object.defineProperty(window, 'localStorage', {
+      value: {
+        getItem: jest.fn((key: string) => store[key] ?? null),
+        setItem: jest.fn((key: string, value: string) => { store[key] = value }),
+        removeItem: jest.fn((key: string) => { delete store[key] }),
+        clear: jest.fn(() => Object.keys(store).forEach(key => delete store[key]))
+      },
+      writable: true
+    })
+  })
+
+  it('should round-trip memories with their files and dedupe on import', async () => {
+    const withFile = { ...mockMemory, fileType: 'image' as const, fileName: 'photo.png', mimeType: 'image/png', fileData: 'data:image/png;base64,aGVsbG8=' }
+    const allMemories = jest.spyOn(LocalStorage, 'getAllMemories').mockReturnValue([withFile])
+    const saveMemory = jest.spyOn(LocalStorage, 'saveMemory').mockImplementation(() => {})
+
+    try {
+      const archive = await ArchiveService.exportArchive()
+      const { contents, files } = await ArchiveService.readArchive(archive)
+      expect(contents.manifest.counts).toMatchObject({ memories: 1, files: 1 })
+      expect(contents.memories[0]).not.toHaveProperty('fileData')
+      expect(new TextDecoder().decode(files.get('files/memory123/photo.png'))).toBe('hello')
+
+      // Same memory already in the vault
+      expect((await ArchiveService.importArchive(archive)).duplicates).toBe(1)
+
+      // Edited locally since the export: a conflict, local copy kept
+      allMemories.mockReturnValue([{ ...withFile, content: 'Edited on this device' }])
+      const conflicted = await ArchiveService.importArchive(archive)
+      expect(conflicted.conflicts).toEqual([expect.objectContaining({ memoryId: 'memory123', reason: 'different-content', resolution: 'skipped' })])
+      expect(saveMemory).not.toHaveBeenCalled()
+
+      // Empty vault on a new device
+      allMemories.mockReturnValue([])
+      const imported = await ArchiveService.importArchive(archive)
+      expect(imported.imported).toBe(1)
+      expect(saveMemory).toHaveBeenCalledWith(expect.objectContaining({ id: 'memory123', fileData: withFile.fileData }))
+    } finally {
+      allMemories.mockRestore()
+      saveMemory.mockRestore()
+    }
+  })
+
+  it('should carry passphrase-protected keys so encrypted memories open on a new device', async () => {
+    const { envelope, keyId } = await EncryptionService.encryptBytes('user123', new TextEncoder().encode('private photo'))
+    const agreementKey = await EncryptionService.getOrCreateAgreementKey('user123')
+    const { publicKey } = await CryptoService.getOrCreateSigningKey('user123')
+    const wrapped = await EncryptionService.wrapContentKey(EncryptionService.generateContentKey(), 'user123', agreementKey)
+    const encrypted = { ...mockMemory, visibility: 'private' as const, encrypted: true, encryptionKeyId: keyId }
+    const allMemories = jest.spyOn(LocalStorage, 'getAllMemories').mockReturnValue([encrypted])
+    const saveMemory = jest.spyOn(LocalStorage, 'saveMemory').mockImplementation(() => {})
+
+    try {
+      const archive = await ArchiveService.exportArchive({ passphrase: 'correct horse' })
+      const { contents, files } = await ArchiveService.readArchive(archive)
+      expect(contents.keys?.ciphertext).toBeDefined()
+      const { secret } = EncryptionService.exportKeys().identitySecrets[keyId]
+      expect(new TextDecoder().decode(files.get('keys.json'))).not.toContain(secret)
+
+      // A new device with an empty vault and no keys
+      Object.keys(store).forEach(key => delete store[key])
+      allMemories.mockReturnValue([])
+      await expect(EncryptionService.decryptBytes(envelope, keyId)).rejects.toThrow()
+
+      await expect(ArchiveService.importArchive(archive, { passphrase: 'wrong' })).rejects.toThrow('Wrong passphrase')
+      expect(saveMemory).not.toHaveBeenCalled()
+
+      const withoutPassphrase = await ArchiveService.importArchive(archive)
+      expect(withoutPassphrase.keysImported).toBe(0)
+      expect(withoutPassphrase.warnings[0]).toContain('passphrase')
+
+      const report = await ArchiveService.importArchive(archive, { passphrase: 'correct horse' })
+      expect(report.keysImported).toBe(3)
+      expect(saveMemory).toHaveBeenCalledWith(expect.objectContaining({ id: 'memory123', encryptionKeyId: keyId }))
+      expect(new TextDecoder().decode(await EncryptionService.decryptBytes(envelope, keyId))).toBe('private photo')
+      expect(await EncryptionService.unwrapContentKey('user123', wrapped)).toBeDefined()
+      expect(CryptoService.getPublicKey('user123')).toBe(publicKey)
+    } finally {
+      allMemories.mockRestore()
+      saveMemory.mockRestore()
+    }
+  })
+})
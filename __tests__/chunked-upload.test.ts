@@ -0,0 +1,102 @@
+import { ChunkedUploadService } from '../utils/chunked-upload'
+import { EncryptionService, MAX_ENCRYPTED_FILE_SIZE } from '../utils/encryption'
+
+function createFile(bytes: Uint8Array, name: string, lastModified = 1_700_000_000_000): File {
+  const file = new File([bytes as BlobPart], name, { lastModified })
+  // jsdom has no Blob.arrayBuffer
+  return Object.assign(file, { arrayBuffer: async () => bytes.slice().buffer })
+}
+
+function readBytes(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(blob)
+  })
+}
+
+const json = (body: unknown, status = 200) => ({ ok: status < 400, status, json: async () => body })
+
+describe('chunked uploads', () => {
+  beforeEach(() => {
+    const store: Record<string, string> = {}
+    Object.defineProperty(window, 'localStorage', {
+      value: {
+        getItem: (key: string) => store[key] ?? null,
+        setItem: (key: string, value: string) => { store[key] = value },
+        removeItem: (key: string) => { delete store[key] },
+        clear: () => Object.keys(store).forEach(key => delete store[key])
+      },
+      configurable: true
+    })
+  })
+
+  it('should resume under the source file key with only the missing parts', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    const file = createFile(new Uint8Array(10), 'video.enc')
+    const received = new Set<number>()
+    const inits: any[] = []
+    let failPart = 1
+
+    global.fetch = jest.fn(async (url: string, init: RequestInit) => {
+      if (url === '/api/pinata/chunked/init') {
+        const body = JSON.parse(init.body as string)
+        inits.push(body)
+        const resumed = body.uploadId === 'upload-1'
+        return json({ uploadId: 'upload-1', chunkSize: 4, totalChunks: 3, receivedChunks: Array.from(received), resumed })
+      }
+      if (url.startsWith('/api/pinata/chunked/part')) {
+        const index = Number(new URL(url, 'http://localhost').searchParams.get('index'))
+        if (index === failPart) return json({ error: 'Part rejected' }, 400)
+        received.add(index)
+        return json({ success: true })
+      }
+      return json({ cid: 'bafy-video', size: 10, timestamp: new Date().toISOString() })
+    }) as unknown as typeof fetch
+
+    await expect(ChunkedUploadService.upload(file, undefined, { resumeKey: 'key_1:video.mp4:10:1' })).rejects.toThrow('Part rejected')
+    expect(Array.from(received)).toEqual([0])
+
+    // Re-encrypted bytes come back as a new File, the source key still matches
+    failPart = -1
+    const retry = createFile(new Uint8Array(10), 'video.enc', Date.now())
+    const progress: number[] = []
+    const result = await ChunkedUploadService.upload(retry, undefined, {
+      resumeKey: 'key_1:video.mp4:10:1',
+      onProgress: update => progress.push(update.uploadedChunks)
+    })
+
+    expect(result.cid).toBe('bafy-video')
+    expect(inits.map(init => init.uploadId)).toEqual([undefined, 'upload-1'])
+    expect(progress).toEqual([1, 2, 3])
+    expect(localStorage.getItem('etherith_chunked_uploads')).toBe('{}')
+  })
+
+  it('should encrypt the same file to the same bytes and other files under other IVs', async () => {
+    const porch = new TextEncoder().encode('Grandpa singing on the porch')
+    const encrypt = async (bytes: Uint8Array, name: string) => {
+      const { file, keyId } = await EncryptionService.encryptFile('alice', createFile(bytes, name))
+      return { bytes: await readBytes(file), keyId }
+    }
+
+    const first = await encrypt(porch, 'porch.m4a')
+    const again = await encrypt(porch, 'porch-copy.m4a')
+    const other = await encrypt(new TextEncoder().encode('Grandma singing in the kitchen'), 'kitchen.m4a')
+
+    expect(Array.from(again.bytes)).toEqual(Array.from(first.bytes))
+    expect(Array.from(other.bytes.slice(4, 16))).not.toEqual(Array.from(first.bytes.slice(4, 16)))
+
+    const plaintext = await EncryptionService.decryptBytes(first.bytes, first.keyId)
+    expect(new TextDecoder().decode(plaintext)).toBe('Grandpa singing on the porch')
+  })
+
+  it('should refuse private files too large to encrypt in memory', async () => {
+    const file = createFile(new Uint8Array(1), 'wedding.mp4')
+    Object.defineProperty(file, 'size', { value: MAX_ENCRYPTED_FILE_SIZE + 1 })
+    const read = jest.spyOn(file, 'arrayBuffer')
+
+    await expect(EncryptionService.encryptFile('alice', file)).rejects.toThrow('Private files can be at most 256MB')
+    expect(read).not.toHaveBeenCalled()
+  })
+})
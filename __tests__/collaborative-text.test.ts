@@ -0,0 +1,33 @@
+import { CollaborativeText } from '../utils/collaborative-text'
+import { diffText, mapOffset } from '../utils/text-diff'
+
+describe('collaborative text', () => {
+  const fields = { content: 'Grandma baked bread.', memoryNote: '' }
+
+  it('should merge concurrent edits from peers that share a genesis', () => {
+    const alice = CollaborativeText.fromVersion('00aa', '01', fields)
+    const bob = CollaborativeText.fromVersion('00aa', '02', fields)
+
+    const aliceChange = alice.edit('content', 'Grandma baked rye bread.')!
+    const bobChange = bob.edit('memoryNote', 'Every Sunday')!
+    const bobSecond = bob.edit('content', 'Grandma baked bread!')!
+
+    expect(alice.applyChanges([bobChange, bobSecond])).toBe(true)
+    expect(bob.applyChanges([aliceChange])).toBe(true)
+    expect(bob.applyChanges([aliceChange])).toBe(false)
+
+    expect(alice.fields).toEqual({ content: 'Grandma baked rye bread!', memoryNote: 'Every Sunday' })
+    expect(bob.fields).toEqual(alice.fields)
+  })
+
+  it('should keep cursors on the same character across remote edits', () => {
+    const alice = CollaborativeText.fromVersion('00aa', '01', fields)
+    const bob = CollaborativeText.fromVersion('00aa', '02', fields)
+
+    const cursor = bob.cursorAt('content', 14) // before "bread"
+    bob.applyChanges([alice.edit('content', 'Our grandma baked bread.')!])
+
+    expect(bob.offsetOf('content', cursor)).toBe(18)
+    expect(mapOffset(14, diffText(fields.content, bob.fields.content))).toBe(18)
+  })
+})
@@ -0,0 +1,35 @@
+import { FileSyncOutbox } from '../utils/file-sync-outbox'
+
+describe('file sync outbox', () => {
+  const meta = (id: string, time: number, vectorClock: Record<string, number>) => ({
+    id, time, vectorClock, added: 0, reasons: ['file:f1'], subprotocol: '1.0.0',
+    channels: ['file:f1'], nodeId: 'alice:1', userId: 'alice'
+  })
+  const action = { type: 'file/delete' as const, fileId: 'f1', soft: true, authorId: 'alice' }
+
+  it('should queue each action once and drop it when acknowledged', async () => {
+    const outbox = new FileSyncOutbox(null)
+
+    expect(await outbox.put(action, meta('1 alice:1 0', 1, { 'alice:1': 1 }))).toBe(true)
+    expect(await outbox.put(action, meta('1 alice:1 0', 1, { 'alice:1': 1 }))).toBe(false)
+    await outbox.put(action, meta('2 alice:1 0', 2, { 'alice:1': 2 }))
+
+    expect(outbox.stats().depth).toBe(2)
+    expect(outbox.fileIds()).toEqual(['f1'])
+
+    expect((await outbox.acknowledge('1 alice:1 0'))?.id).toBe('1 alice:1 0')
+    expect(await outbox.acknowledge('1 alice:1 0')).toBeUndefined()
+    expect(outbox.stats().depth).toBe(1)
+  })
+
+  it('should replay in causal order even when clocks and wall time disagree', async () => {
+    const outbox = new FileSyncOutbox(null)
+
+    // The later edit was stamped with an earlier wall clock
+    await outbox.put(action, meta('b', 5, { 'alice:1': 1, 'bob:1': 1 }))
+    await outbox.put(action, meta('c', 3, { 'alice:1': 2, 'bob:1': 1 }))
+    await outbox.put(action, meta('a', 4, { 'alice:1': 1 }))
+
+    expect(outbox.list().map(entry => entry.id)).toEqual(['a', 'b', 'c'])
+  })
+})
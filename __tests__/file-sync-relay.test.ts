@@ -0,0 +1,98 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { FileAccessRegistry } from '../utils/file-sync-relay/access'
+import { RelayLog } from '../utils/file-sync-relay/log'
+
+describe('file sync relay', () => {
+  const permissions = { owner: 'alice', readers: ['bob'], writers: [], public: false, accessLevel: 'read' as const }
+  const create = { type: 'file/create', fileId: 'f1', authorId: 'alice', permissions }
+
+  it('should only accept actions the sender is allowed to make', () => {
+    const access = new FileAccessRegistry()
+    expect(access.authorize({ ...create, authorId: 'mallory' }, 'mallory')).toMatch(/owned by their creator/)
+    expect(access.authorize(create, 'mallory')).toMatch(/signed-in user/)
+    expect(access.authorize(create, 'alice')).toBeNull()
+    access.apply(create)
+
+    expect(access.authorize(create, 'alice')).toMatch(/already exists/)
+    expect(access.authorize({ type: 'file/update', fileId: 'f1', authorId: 'bob' }, 'bob')).toMatch(/edit/)
+    expect(access.authorize({ type: 'file/presence', fileId: 'f1', userId: 'bob' }, 'bob')).toBeNull()
+    expect(access.authorize({ type: 'file/presence', fileId: 'f1', userId: 'carol' }, 'carol')).toMatch(/read/)
+    expect(access.authorize({ type: 'file/permission', fileId: 'f1', authorId: 'bob', permissions }, 'bob'))
+      .toMatch(/Only the owner/)
+  })
+
+  it('should deliver to readers before and after a permission change', () => {
+    const access = new FileAccessRegistry()
+    access.apply(create)
+
+    const shared = { ...permissions, readers: ['carol'], public: true }
+    const channels = access.deliveryChannels(
+      { type: 'file/permission', fileId: 'f1', authorId: 'alice', permissions: shared },
+      { channels: ['file:f1'] }
+    )
+
+    expect(channels.sort()).toEqual(
+      ['file:f1', 'public:files', 'user:alice:files', 'user:bob:files', 'user:carol:files']
+    )
+    expect(access.canSubscribe('user:bob:files', 'bob')).toBe(true)
+    expect(access.canSubscribe('user:bob:files', 'carol')).toBe(false)
+    expect(access.canSubscribe('file:f1', 'carol')).toBe(false)
+  })
+
+  it('should number logged actions for replay', async () => {
+    const log = new RelayLog()
+    const meta = {
+      id: '1 a:1 0', time: 1, added: 0, reasons: ['file:f1'], subprotocol: '1.0.0',
+      channels: [], nodeId: 'a:1', userId: 'alice'
+    }
+
+    await log.add(create, meta)
+    await log.add({ type: 'file/update', fileId: 'f1' }, { ...meta, id: '2 a:1 0' })
+
+    expect(log.has('1 a:1 0')).toBe(true)
+    expect(log.since(1).map(entry => entry.meta.added)).toEqual([2])
+  })
+
+  it('should compact entries a replay no longer needs', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'relay-log-'))
+    const filePath = path.join(directory, 'log.jsonl')
+    let sequence = 0
+    const meta = () => ({
+      id: `${++sequence} a:1 0`, time: sequence, added: 0, reasons: ['file:f1'], subprotocol: '1.0.0',
+      channels: [], nodeId: 'a:1', userId: 'alice'
+    })
+    const text = { type: 'file/text', fileId: 'f1', changes: [] }
+
+    try {
+      const log = new RelayLog(filePath)
+      await log.load()
+      await log.add(create, meta())
+      await log.add(text, meta())
+      await log.add({ type: 'file/permission', fileId: 'f1', permissions }, meta())
+      await log.add({ type: 'file/update', fileId: 'f1', content: 'v2' }, meta())
+      await log.add(text, meta())
+      await log.add({ type: 'file/permission', fileId: 'f1', permissions }, meta())
+      await log.add({ ...create, fileId: 'f2' }, meta())
+
+      const kept = ['file/create', 'file/update', 'file/text', 'file/permission', 'file/create']
+      expect(log.since(0).map(entry => entry.action.type)).toEqual(kept)
+      expect(log.has('2 a:1 0')).toBe(true)
+
+      // Loading drops the compacted lines from the file as well
+      const reloaded = new RelayLog(filePath)
+      expect((await reloaded.load()).map(entry => entry.meta.added)).toEqual([1, 4, 5, 6, 7])
+      expect((await fs.readFile(filePath, 'utf8')).trim().split('\n')).toHaveLength(5)
+
+      await reloaded.add({ type: 'file/delete', fileId: 'f1', soft: false }, meta())
+      expect(reloaded.since(0).map(entry => [entry.action.fileId, entry.action.type])).toEqual([
+        ['f2', 'file/create'],
+        ['f1', 'file/delete']
+      ])
+      expect(reloaded.since(7).map(entry => entry.meta.added)).toEqual([8])
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true })
+    }
+  })
+})
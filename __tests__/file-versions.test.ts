@@ -0,0 +1,174 @@
+import { setImmediate as nextMacrotask } from 'timers'
+import { LoguxClient, LoguxFileSyncEngine } from '../utils/logux-file-sync'
+import { FileAction, FilePermissions, LoguxFileMeta } from '../types/logux-file-sync'
+
+// Just enough of IndexedDB for the sync engine: keyPath stores, indexes
+// queried with getAll, and requests that complete asynchronously
+function createIndexedDB() {
+  const request = (run: () => unknown) => {
+    const req: any = {}
+    Promise.resolve().then(() => {
+      req.result = run()
+      req.onsuccess?.()
+    })
+    return req
+  }
+
+  const stores = new Map<string, { keyPath: string; records: Map<string, any>; indexes: Record<string, string> }>()
+  const objectStore = (name: string) => {
+    const store = stores.get(name)!
+    return {
+      put: (value: any) => request(() => store.records.set(value[store.keyPath], { ...value })),
+      get: (key: string) => request(() => store.records.get(key)),
+      getAll: () => request(() => Array.from(store.records.values())),
+      delete: (key: string) => request(() => store.records.delete(key)),
+      index: (index: string) => ({
+        getAll: (value: unknown) => request(() =>
+          Array.from(store.records.values()).filter(record => record[store.indexes[index]] === value)
+        )
+      })
+    }
+  }
+
+  const db = {
+    objectStoreNames: { contains: (name: string) => stores.has(name) },
+    createObjectStore: (name: string, { keyPath }: { keyPath: string }) => {
+      const store = { keyPath, records: new Map(), indexes: {} as Record<string, string> }
+      stores.set(name, store)
+      return { createIndex: (index: string, path: string) => { store.indexes[index] = path } }
+    },
+    transaction: () => ({ objectStore })
+  }
+
+  return {
+    open: () => {
+      const req: any = {}
+      Promise.resolve().then(() => {
+        req.result = db
+        req.onupgradeneeded?.({ target: req })
+        req.onsuccess?.()
+      })
+      return req
+    }
+  }
+}
+
+// Local log that applies every added action straight away, as the relay echo would
+function createClient() {
+  const handlers: { type: string; callback: (action: FileAction, meta: LoguxFileMeta) => void }[] = []
+  const added: FileAction[] = []
+  let sequence = 0
+
+  const client: LoguxClient & { added: FileAction[] } = {
+    added,
+    node: { id: 'node-alice' },
+    subscribe: async () => {},
+    unsubscribe: async () => {},
+    log: {
+      on: (filter, callback) => { handlers.push({ type: filter.type, callback }) },
+      add: async (action, meta = {}) => {
+        added.push(action)
+        const full = { id: `${++sequence} node-alice 0`, time: Date.now(), ...meta } as LoguxFileMeta
+        handlers.filter(handler => handler.type === action.type).forEach(handler => handler.callback(action, full))
+      }
+    }
+  }
+  return client
+}
+
+// Action handlers run detached and hash with WebCrypto, so poll on real ticks
+async function waitFor(check: () => Promise<boolean> | boolean): Promise<void> {
+  for (let attempt = 0; attempt < 2000; attempt++) {
+    if (await check()) return
+    await new Promise(resolve => nextMacrotask(resolve))
+  }
+  throw new Error('Timed out waiting for the sync engine')
+}
+
+const permissions: FilePermissions = { owner: 'alice', readers: [], writers: [], public: false, accessLevel: 'write' }
+
+describe('file version history', () => {
+  let client: ReturnType<typeof createClient>
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: 1_700_000_000_000 })
+    Object.defineProperty(window, 'indexedDB', { value: createIndexedDB(), configurable: true })
+    client = createClient()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  async function createEngine(options = {}) {
+    const engine = new LoguxFileSyncEngine(client, 'alice', options)
+    const fileId = await engine.createFile('story.txt', 'Grandma baked bread.', 'text/plain', permissions)
+    await waitFor(async () => (await engine.getVersionHistory(fileId)).length === 1)
+    return { engine, fileId }
+  }
+
+  async function update(engine: LoguxFileSyncEngine, fileId: string, content: string, count: number) {
+    jest.advanceTimersByTime(1000)
+    await engine.updateFile(fileId, content)
+    await waitFor(async () => (await engine.getVersionHistory(fileId)).length === count)
+  }
+
+  it('should list, diff and restore versions', async () => {
+    const { engine, fileId } = await createEngine()
+    await update(engine, fileId, 'Grandma baked rye bread.', 2)
+
+    const [latest, first] = await engine.getVersionHistory(fileId)
+    expect(latest).toMatchObject({ operation: 'update', content: 'Grandma baked rye bread.', parentVersions: [first.version] })
+    expect(first).toMatchObject({ operation: 'create', content: 'Grandma baked bread.', authorId: 'alice' })
+
+    const diff = await engine.diffVersions(fileId, first.version, latest.version)
+    expect(diff.operations).toEqual([expect.objectContaining({ type: 'insert', position: 14, content: 'rye ' })])
+
+    jest.advanceTimersByTime(1000)
+    await engine.restoreVersion(fileId, first.version)
+    await waitFor(async () => (await engine.getVersionHistory(fileId)).length === 3)
+
+    const [restored] = await engine.getVersionHistory(fileId)
+    expect(restored).toMatchObject({ operation: 'restore', content: 'Grandma baked bread.', parentVersions: [latest.version] })
+    expect(engine.getFile(fileId)?.content).toBe('Grandma baked bread.')
+  })
+
+  it('should prune versions beyond the retention policy but keep the current one', async () => {
+    const { engine, fileId } = await createEngine({ versionRetention: { maxVersions: 2 } })
+    await update(engine, fileId, 'Grandma baked rye bread.', 2)
+    jest.advanceTimersByTime(1000)
+    await engine.updateFile(fileId, 'Grandma baked rye bread on Sundays.')
+    await waitFor(() => engine.getFile(fileId)?.content === 'Grandma baked rye bread on Sundays.')
+    await waitFor(async () => (await engine.getVersionHistory(fileId)).length === 2)
+
+    const history = await engine.getVersionHistory(fileId)
+    expect(history.map(record => record.content)).toEqual(['Grandma baked rye bread on Sundays.', 'Grandma baked rye bread.'])
+    expect(history[0].version).toBe(engine.getFile(fileId)?.version)
+  })
+
+  it('should log text edits once typing pauses and keep them as a version later', async () => {
+    const { engine, fileId } = await createEngine()
+    const version = engine.getFile(fileId)!.version
+
+    await engine.editText(fileId, 'content', 'Grandma baked rye bread.')
+    await engine.editText(fileId, 'content', 'Grandma baked rye bread!')
+    expect(client.added.filter(action => action.type === 'file/text')).toHaveLength(0)
+
+    jest.advanceTimersByTime(500)
+    await waitFor(() => client.added.some(action => action.type === 'file/text'))
+    const text = client.added.filter(action => action.type === 'file/text')
+    expect(text).toHaveLength(1)
+    expect(text[0]).toMatchObject({ fileId, authorId: 'alice' })
+    expect((text[0] as { changes: string[] }).changes).toHaveLength(2)
+    expect(await engine.getVersionHistory(fileId)).toHaveLength(1)
+
+    jest.advanceTimersByTime(10000)
+    await waitFor(async () => (await engine.getVersionHistory(fileId)).length === 2)
+
+    const [snapshot] = await engine.getVersionHistory(fileId)
+    expect(snapshot).toMatchObject({ operation: 'text', content: 'Grandma baked rye bread!', parentVersions: [version] })
+    // The file version still names the content the edits started from
+    expect(engine.getFile(fileId)?.version).toBe(version)
+    expect((await engine.getVersion(fileId, version))?.content).toBe('Grandma baked bread.')
+  })
+})
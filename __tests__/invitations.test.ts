@@ -0,0 +1,95 @@
+import { InvitationService } from '../lib/dxos/utils/invitations'
+import { SpaceAccessControl } from '../lib/dxos/utils/access-control'
+
+describe('space invitations', () => {
+  beforeEach(() => {
+    const store: Record<string, string> = {}
+    Object.defineProperty(window, 'localStorage', {
+      value: {
+        getItem: jest.fn((key: string) => store[key] ?? null),
+        setItem: jest.fn((key: string, value: string) => { store[key] = value }),
+        removeItem: jest.fn((key: string) => { delete store[key] }),
+        clear: jest.fn(() => Object.keys(store).forEach(key => delete store[key]))
+      },
+      writable: true
+    })
+  })
+
+  const createInvitation = (overrides: Record<string, any> = {}): any => ({
+    id: 'inv-signed',
+    type: 'invitation',
+    spaceId: 'space-1',
+    createdBy: 'owner',
+    createdAt: Date.now(),
+    expiresAt: Date.now() + 60000,
+    maxUses: 2,
+    currentUses: 0,
+    ...overrides
+  })
+
+  it('should sign invitation terms into the link', async () => {
+    const invitation = createInvitation()
+    const code = await InvitationService.issue(invitation)
+    const token = InvitationService.decode(`https://etherith.app/join/${code}`)!
+
+    expect(token.invitationId).toBe('inv-signed')
+    expect(await InvitationService.verify(token)).toBe(true)
+    expect(await InvitationService.verify({ ...token, maxUses: 100 })).toBe(false)
+    expect(InvitationService.decode('not-a-token')).toBeNull()
+  })
+
+  it('should keep the auth code out of the link', async () => {
+    const invitation = createInvitation()
+    const code = await InvitationService.issue(invitation, { requiresAuth: true, dxosInvitation: 'dxos-code' })
+    const token = InvitationService.decode(code)!
+
+    expect(token).toMatchObject({ requiresAuth: true, dxosInvitation: 'dxos-code' })
+    expect(Object.keys(token).sort()).toEqual([
+      'createdBy', 'dxosInvitation', 'expiresAt', 'invitationId', 'issuedAt', 'maxUses',
+      'publicKey', 'requiresAuth', 'signature', 'spaceId', 'v'
+    ])
+    expect(await InvitationService.verify({ ...token, requiresAuth: false })).toBe(false)
+
+    const authCode = InvitationService.createAuthCode()
+    expect(authCode).toMatch(/^[A-HJ-NP-Z2-9]{8}$/)
+    expect(InvitationService.createAuthCode()).not.toBe(authCode)
+  })
+
+  it('should enforce expiry, use limits and revocation from the signed terms', async () => {
+    const invitation = createInvitation()
+    invitation.token = await InvitationService.issue(invitation)
+    const redemptions: any[] = []
+    const space = {
+      id: 'space-1',
+      db: {
+        query: (filter: Record<string, any>) => ({
+          run: () => {
+            if (filter.type === 'invitation_redemption') return redemptions
+            if (filter.type === 'invitation') return [invitation]
+            if (filter.type === 'member') return [{ type: 'member', userId: 'owner', role: 'owner' }]
+            return []
+          }
+        })
+      }
+    }
+
+    expect(InvitationService.getStatus(invitation)).toBe('active')
+    // Raising the limit on the stored object does not change the signed terms
+    invitation.maxUses = 100
+    redemptions.push(
+      InvitationService.createRedemption(space, invitation.id, 'a', 'A', 'joined'),
+      InvitationService.createRedemption(space, invitation.id, 'b', 'B', 'joined')
+    )
+    expect(InvitationService.countUses(space, invitation)).toBe(2)
+    expect(InvitationService.getStatus(invitation, 2)).toBe('exhausted')
+    expect(InvitationService.getStatus(invitation, 0, Date.now() + 120000)).toBe('expired')
+
+    const join = { action: 'member.add' as const, actorId: 'newcomer', invitationId: invitation.id,
+      object: { type: 'member', userId: 'newcomer', role: 'member' } }
+    expect(SpaceAccessControl.authorize(space, join).reason).toMatch(/exhausted/)
+
+    redemptions.length = 0
+    invitation.revokedAt = Date.now()
+    expect(SpaceAccessControl.authorize(space, join).reason).toMatch(/revoked/)
+  })
+})
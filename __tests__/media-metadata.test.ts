@@ -0,0 +1,101 @@
+import { MediaMetadataService } from '../utils/media-metadata'
+import { LexiconAnalysisEngine } from '../utils/ai-analysis'
+import { blobToBytes } from '../utils/memory-repository'
+
+describe('media metadata', () => {
+  // A big-endian JPEG with a camera model, date taken and GPS position
+  const buildExifJpeg = (): ArrayBuffer => {
+    const tiff = new DataView(new ArrayBuffer(198))
+    const ascii = (offset: number, text: string) => {
+      Array.from(text).forEach((char, index) => tiff.setUint8(offset + index, char.charCodeAt(0)))
+    }
+    const entry = (offset: number, tag: number, type: number, count: number, value: number) => {
+      tiff.setUint16(offset, tag)
+      tiff.setUint16(offset + 2, type)
+      tiff.setUint32(offset + 4, count)
+      tiff.setUint32(offset + 8, value)
+    }
+    const rationals = (offset: number, values: number[]) => values.forEach((value, index) => {
+      tiff.setUint32(offset + index * 8, value)
+      tiff.setUint32(offset + index * 8 + 4, 1)
+    })
+
+    ascii(0, 'MM')
+    tiff.setUint16(2, 0x002a)
+    tiff.setUint32(4, 8)
+
+    tiff.setUint16(8, 3)
+    entry(10, 0x0110, 2, 8, 50)
+    entry(22, 0x8769, 4, 1, 58)
+    entry(34, 0x8825, 4, 1, 96)
+    ascii(50, 'Pixel 7')
+
+    tiff.setUint16(58, 1)
+    entry(60, 0x9003, 2, 20, 76)
+    ascii(76, '2019:07:14 18:32:05')
+
+    tiff.setUint16(96, 4)
+    entry(98, 0x0001, 2, 2, 0)
+    ascii(106, 'N')
+    entry(110, 0x0002, 5, 3, 150)
+    entry(122, 0x0003, 2, 2, 0)
+    ascii(130, 'W')
+    entry(134, 0x0004, 5, 3, 174)
+    rationals(150, [51, 30, 36])
+    rationals(174, [0, 7, 30])
+
+    const jpeg = new Uint8Array(4 + 2 + 6 + 198 + 2)
+    jpeg.set([0xff, 0xd8, 0xff, 0xe1, 0, 2 + 6 + 198])
+    jpeg.set([0x45, 0x78, 0x69, 0x66, 0, 0], 6)
+    jpeg.set(new Uint8Array(tiff.buffer), 12)
+    jpeg.set([0xff, 0xd9], 12 + 198)
+    return jpeg.buffer
+  }
+
+  it('should read the date taken and camera, and the location only with consent', () => {
+    const metadata = MediaMetadataService.parseExif(buildExifJpeg())
+    expect(metadata).toEqual({
+      takenAt: new Date(2019, 6, 14, 18, 32, 5).getTime(),
+      camera: 'Pixel 7',
+      width: undefined,
+      height: undefined
+    })
+
+    const withLocation = MediaMetadataService.parseExif(buildExifJpeg(), true)
+    expect(withLocation?.location).toEqual({ latitude: 51.51, longitude: -0.125, altitude: undefined })
+
+    expect(MediaMetadataService.parseExif(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toBeNull()
+    expect(MediaMetadataService.describe(metadata)).toBe('Taken 14 July 2019 with Pixel 7')
+  })
+
+  it('should strip EXIF from a JPEG and keep the image data', async () => {
+    const jpeg = new Uint8Array(buildExifJpeg())
+    // Phones append previews, with their own EXIF, after the image
+    const file = new File([jpeg, jpeg], 'porch.jpg', { type: 'image/jpeg' })
+
+    const stripped = await MediaMetadataService.stripMetadata(file)
+    const bytes = await blobToBytes(stripped!)
+    expect(Array.from(bytes)).toEqual([0xff, 0xd8, 0xff, 0xd9])
+    expect(MediaMetadataService.parseExif(bytes.buffer as ArrayBuffer, true)).toBeNull()
+    expect(stripped!.name).toBe('porch.jpg')
+
+    // Truncated headers can't be cleaned, so nothing is returned to upload
+    expect(await MediaMetadataService.stripMetadata(new File([jpeg.slice(0, 20)], 'cut.jpg', { type: 'image/jpeg' }))).toBeNull()
+    const png = new File([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], 'scan.png', { type: 'image/png' })
+    expect(await MediaMetadataService.stripMetadata(png)).toBe(png)
+  })
+
+  it('should place photos on the timeline at the date they were taken', () => {
+    const takenAt = new Date(2019, 6, 14).getTime()
+    expect(MediaMetadataService.getTimelineDate({ timestamp: Date.now(), takenAt })).toBe(takenAt)
+    expect(MediaMetadataService.getTimelineDate({ timestamp: 1000 })).toBe(1000)
+
+    const analysis = LexiconAnalysisEngine.analyze({
+      content: 'Picnic in the park',
+      fileType: 'image',
+      exif: { takenAt, camera: 'Pixel 7' }
+    })
+    expect(analysis.tags).toContain('2019')
+    expect(analysis.memoryNote).toContain('Taken 14 July 2019 with Pixel 7')
+  })
+})
@@ -0,0 +1,221 @@
+import { MemorySearchService } from '../utils/memory-search'
+import { RegistryManager } from '../utils/registry'
+import { LocalStorage } from '../utils/storage'
+import { AIAnalysisService } from '../utils/ai-analysis'
+import { Memory } from '../types/memory'
+import { InvertedIndex, tokenize } from '../utils/search-index'
+
+describe('memory search', () => {
+  let mockMemory: Memory
+
+  beforeEach(() => {
+    mockMemory = {
+      id: 'memory123',
+      title: 'Test Memory',
+      content: 'This is a test memory content',
+      memoryNote: 'Test note',
+      visibility: 'public',
+      fileType: 'text',
+      ipfsCid: 'QmTestMemoryCID',
+      ipfsUrl: 'https://ipfs.io/ipfs/QmTestMemoryCID',
+      ipfsGatewayUrl: 'https://gateway.pinata.cloud/ipfs/QmTestMemoryCID',
+      timestamp: Date.now(),
+      authorId: 'user123',
+      authorName: 'Test User',
+      tags: ['test', 'memory']
+    }
+
+    const store: Record<string, string> = {}
+    Object.defineProperty(window, 'localStorage', {
+      value: {
+        getItem: jest.fn((key: string) => store[key] ?? null),
+        setItem: jest.fn((key: string, value: string) => { store[key] = value }),
+        removeItem: jest.fn((key: string) => { delete store[key] }),
+        clear: jest.fn(() => Object.keys(store).forEach(key => delete store[key]))
+      },
+      writable: true
+    })
+  })
+
+  it('should rank local and discovered memories and keep the index current', () => {
+    MemorySearchService.invalidate()
+    const gardenNote = { ...mockMemory, id: 'memory789', title: 'Summer evenings', content: 'We sat in the garden until dark' }
+    const allMemories = jest.spyOn(LocalStorage, 'getAllMemories').mockReturnValue([mockMemory, gardenNote])
+
+    try {
+      const discovered = {
+        id: 'discovery1',
+        registryId: 'registry_friend',
+        registryCid: 'QmFriendRegistry',
+        discoveredAt: Date.now(),
+        source: 'subscription' as const,
+        memory: {
+          ...mockMemory,
+          id: 'friendMemory',
+          title: 'Grandmother garden',
+          content: 'Roses along the fence',
+          authorId: 'friend456',
+          authorName: 'Friend',
+          ipfsCid: 'QmFriendMemoryCID',
+          ipfsUrl: 'https://ipfs.io/ipfs/QmFriendMemoryCID',
+          ipfsGatewayUrl: 'https://gateway.pinata.cloud/ipfs/QmFriendMemoryCID',
+          registryVersion: '1.0.0',
+          sharingPermissions: 'public' as const,
+          contentHash: 'hash'
+        }
+      }
+
+      // Built before the discovery arrives, so it has to be indexed on add
+      expect(MemorySearchService.search('garden', { includeDiscovered: true })).toHaveLength(1)
+      RegistryManager.addDiscoveredMemory(discovered)
+
+      const results = MemorySearchService.search('garden', { includeDiscovered: true })
+      expect(results.map(result => result.memory.id)).toEqual(['friendMemory', 'memory789'])
+      expect(results[0].source).toBe('discovered')
+      expect(results[0].score).toBeGreaterThan(results[1].score)
+
+      // Prefix and typo tolerant
+      expect(MemorySearchService.search('grandm', { includeDiscovered: true })[0].memory.id).toBe('friendMemory')
+      expect(MemorySearchService.search('gardne roses', { includeDiscovered: true }).map(r => r.memory.id)).toEqual(['friendMemory'])
+
+      const registries = RegistryManager.searchRegistries({ query: 'roses' })
+      expect(registries).toHaveLength(1)
+      expect(registries[0].registryId).toBe('registry_friend')
+      expect(registries[0].relevanceScore).toBeGreaterThan(0)
+
+      // Own memories only unless discovered ones are asked for
+      expect(LocalStorage.searchMemories('garden').map(memory => memory.id)).toEqual(['memory789'])
+    } finally {
+      allMemories.mockRestore()
+    }
+  })
+
+  it('should match words in non-Latin scripts', () => {
+    expect(tokenize('Бабушкин сад, 1962')).toEqual(['бабушкин', 'сад', '1962'])
+    expect(tokenize('Γιαγιά στον κήπο')).toEqual(['γιαγια', 'στον', 'κηπο'])
+
+    const index = new InvertedIndex()
+    index.add('russian', [{ text: 'Бабушкин сад летом' }])
+    index.add('arabic', [{ text: 'حديقة جدتي في الصيف' }])
+    index.add('japanese', [{ text: '祖母の庭で夏を過ごした。' }])
+    index.add('chinese', [{ text: '奶奶家的花园' }])
+
+    expect(index.search('сад').map(hit => hit.id)).toEqual(['russian'])
+    expect(index.search('бабуш').map(hit => hit.id)).toEqual(['russian'])
+    expect(index.search('حديقة').map(hit => hit.id)).toEqual(['arabic'])
+    // No spaces between words, so any part of the run matches
+    expect(index.search('祖母の庭').map(hit => hit.id)).toEqual(['japanese'])
+    expect(index.search('花园').map(hit => hit.id)).toEqual(['chinese'])
+    expect(index.search('庭').map(hit => hit.id)).toEqual(['japanese'])
+    expect(index.search('花庭')).toEqual([])
+  })
+
+  it('should find memories by meaning and relate local and discovered ones', async () => {
+    MemorySearchService.invalidate()
+    // Two-topic vectors: gardening and the sea
+    const topics = [/garden|roses|tomato|flower/i, /beach|surf|sea/i]
+    const embed = jest.fn(async (texts: string[]) => texts.map(text => ({
+      model: 'test-model',
+      vector: topics.map(topic => (topic.test(text) ? 1 : 0) as number).concat(0.1)
+    })))
+    AIAnalysisService.setBackend({ name: 'worker', analyze: jest.fn(), embed, isAvailable: jest.fn() })
+
+    const gardenNote = { ...mockMemory, id: 'memory789', title: 'Tomatoes', content: 'Picking tomatoes with grandma' }
+    const beachNote = { ...mockMemory, id: 'memory790', title: 'Surf trip', content: 'A week at the beach' }
+    const allMemories = jest.spyOn(LocalStorage, 'getAllMemories').mockReturnValue([gardenNote, beachNote])
+    const saveMemory = jest.spyOn(LocalStorage, 'saveMemory').mockImplementation(memory => MemorySearchService.indexMemory(memory))
+
+    try {
+      const results = await MemorySearchService.semanticSearch('flowers my grandmother grew')
+      expect(results.map(result => result.memory.id)).toEqual(['memory789'])
+      expect(results[0].score).toBeGreaterThan(0.9)
+      expect(saveMemory).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'memory790',
+        embedding: { model: 'test-model', vector: [0, 1, 0.1] }
+      }))
+
+      RegistryManager.addDiscoveredMemory({
+        id: 'discovery1',
+        registryId: 'registry_friend',
+        registryCid: 'QmFriendRegistry',
+        discoveredAt: Date.now(),
+        source: 'subscription' as const,
+        memory: {
+          ...mockMemory,
+          id: 'friendMemory',
+          title: 'Roses along the fence',
+          authorId: 'friend456',
+          ipfsCid: mockMemory.ipfsCid!,
+          ipfsUrl: mockMemory.ipfsUrl!,
+          ipfsGatewayUrl: mockMemory.ipfsGatewayUrl!,
+          registryVersion: '1.0.0',
+          sharingPermissions: 'public' as const,
+          contentHash: 'hash'
+        }
+      })
+
+      const related = await MemorySearchService.related({ ...gardenNote, embedding: { model: 'test-model', vector: [1, 0, 0.1] } })
+      expect(related.map(result => result.memory.id)).toEqual(['friendMemory'])
+      expect(related[0].source).toBe('discovered')
+      expect(RegistryManager.getDiscoveredMemories()[0].relevanceScore).toBeGreaterThan(0.4)
+    } finally {
+      allMemories.mockRestore()
+      saveMemory.mockRestore()
+      AIAnalysisService.setBackend(null)
+      MemorySearchService.invalidate()
+    }
+  })
+
+  it('should keep private memories on this device when searching by meaning', async () => {
+    MemorySearchService.invalidate()
+    const embed = jest.fn(async (texts: string[]) => texts.map(() => ({ model: 'test-model', vector: [1, 0] })))
+    AIAnalysisService.setBackend({ name: 'worker', analyze: jest.fn(), embed, isAvailable: jest.fn() })
+
+    const diary = { ...mockMemory, id: 'memory791', visibility: 'private' as const, content: 'Secret diary entry' }
+    const sealed = { ...mockMemory, id: 'memory792', encrypted: true, content: 'Sealed letter' }
+    const analysed = { ...diary, id: 'memory793', embedding: { model: 'test-model', vector: [0.9, 0.1] } }
+    const allMemories = jest.spyOn(LocalStorage, 'getAllMemories').mockReturnValue([diary, sealed, analysed])
+
+    try {
+      const results = await MemorySearchService.semanticSearch('diary', { authorId: mockMemory.authorId })
+      expect(results.map(result => result.memory.id)).toEqual(['memory793'])
+      expect(embed).toHaveBeenCalledTimes(1)
+      expect(embed).toHaveBeenCalledWith(['diary'])
+
+      await MemorySearchService.related(diary)
+      expect(embed).toHaveBeenCalledTimes(1)
+
+      // An opened invite-only entry from a friend stays off the worker too
+      RegistryManager.addDiscoveredMemory({
+        id: 'discovery2',
+        registryId: 'registry_friend',
+        registryCid: 'QmFriendRegistry',
+        discoveredAt: Date.now(),
+        source: 'subscription' as const,
+        memory: {
+          ...mockMemory,
+          id: 'friendLetter',
+          title: 'Letter to you',
+          content: 'A sealed diary letter',
+          authorId: 'friend456',
+          ipfsCid: mockMemory.ipfsCid!,
+          ipfsUrl: mockMemory.ipfsUrl!,
+          ipfsGatewayUrl: mockMemory.ipfsGatewayUrl!,
+          registryVersion: '1.0.0',
+          sharingPermissions: 'invite-only' as const,
+          contentHash: 'hash',
+          sealed: { algorithm: 'AES-GCM-256' as const, iv: 'iv', ciphertext: 'ciphertext', keys: [] },
+          contentKey: 'key'
+        }
+      })
+      await MemorySearchService.semanticSearch('diary letter', { includeDiscovered: true })
+      expect(embed).toHaveBeenCalledTimes(2)
+      expect(embed).toHaveBeenLastCalledWith(['diary letter'])
+    } finally {
+      RegistryManager.removeDiscoveredMemory('registry_friend', 'friendLetter')
+      allMemories.mockRestore()
+      AIAnalysisService.setBackend(null)
+      MemorySearchService.invalidate()
+    }
+  })
+})
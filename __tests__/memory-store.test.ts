@@ -0,0 +1,64 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import handler from '../pages/api/memories'
+import { getMemoryStore, setMemoryStore, InMemoryMemoryStore } from '../utils/memory-store'
+import { requireApiUser } from '../utils/api-auth'
+
+jest.mock('../utils/api-auth', () => ({
+  requireApiUser: jest.fn()
+}))
+
+function createResponse() {
+  const res = { statusCode: 0, body: undefined as any } as any
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code
+    return res
+  })
+  res.json = jest.fn((body: unknown) => {
+    res.body = body
+    return res
+  })
+  return res as NextApiResponse & { statusCode: number; body: any }
+}
+
+async function post(userId: string, body: Record<string, unknown>) {
+  (requireApiUser as jest.Mock).mockResolvedValue({ id: userId, name: userId })
+  const res = createResponse()
+  await handler({ method: 'POST', body, query: {} } as unknown as NextApiRequest, res)
+  return res
+}
+
+describe('memory store API', () => {
+  beforeEach(() => {
+    setMemoryStore(new InMemoryMemoryStore())
+  })
+
+  afterAll(() => {
+    setMemoryStore(null)
+  })
+
+  it('should keep the active store on globalThis', () => {
+    const store = new InMemoryMemoryStore()
+    setMemoryStore(store)
+    expect((globalThis as any).__etherithMemoryStore).toBe(store)
+    expect(getMemoryStore()).toBe(store)
+  })
+
+  it('should scope client ids to their author', async () => {
+    const memory = { id: 'local-1', title: 'Private', fileType: 'text', visibility: 'private' }
+
+    const first = await post('alice', memory)
+    expect(first.statusCode).toBe(201)
+    expect(first.body.memory.id).toBe('alice-local-1')
+
+    // Another user's id does not clash with (or reveal) alice's memory
+    const other = await post('bob', memory)
+    expect(other.statusCode).toBe(201)
+    expect(other.body.memory.id).toBe('bob-local-1')
+
+    const repeat = await post('alice', memory)
+    expect(repeat.statusCode).toBe(409)
+
+    expect((await getMemoryStore().getMemory('alice-local-1'))?.authorId).toBe('alice')
+    expect((await getMemoryStore().getMemory('bob-local-1'))?.authorId).toBe('bob')
+  })
+})
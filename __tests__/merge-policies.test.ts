@@ -0,0 +1,88 @@
+import { MergePolicies } from '../lib/dxos/utils/merge-policies'
+import { SyncService } from '../lib/dxos/utils/sync'
+
+// Keep the real DXOS client out of sync service tests
+jest.mock('../lib/dxos/client', () => ({
+  dxosClient: {
+    isConnected: jest.fn(() => false),
+    getNetworkSnapshot: jest.fn(() => null)
+  }
+}))
+
+jest.mock('../lib/dxos/real-client', () => ({
+  EtherithDXOSClient: class {},
+  dxosClient: {
+    getIdentity: () => ({ id: 'owner' }),
+    addObject: jest.fn(async (space: any, object: any) => space.objects.push(object))
+  }
+}))
+
+describe('merge policies', () => {
+  it('should merge memory fields by strategy and flag colliding text', () => {
+    const base = { id: 'm1', type: 'memory', title: 'Trip', content: 'Day one\nDay two\n', tags: ['a', 'b'], reactions: { '❤️': 1 }, timestamp: 100 }
+    const local = { ...base, title: 'Trip north', content: 'Day one!\nDay two\n', tags: ['a', 'c'], reactions: { '❤️': 3 }, timestamp: 200 }
+    const remote = { ...base, content: 'Day one\nDay two, later\n', tags: ['a', 'b', 'd'], reactions: { '❤️': 2, '👍': 1 }, timestamp: 300 }
+
+    const { merged, conflicts } = MergePolicies.merge('memory', local, remote, base)
+    expect(conflicts).toEqual([])
+    expect(merged).toMatchObject({
+      title: 'Trip north',
+      content: 'Day one!\nDay two, later\n',
+      tags: ['a', 'c', 'd'],
+      reactions: { '❤️': 3, '👍': 1 },
+      timestamp: 300
+    })
+
+    const clash = MergePolicies.merge('memory', { ...local, content: 'Day 1\n' }, { ...remote, content: 'First day\n' }, base)
+    expect(clash.conflicts.map(c => c.field)).toEqual(['content'])
+    expect(clash.merged.content).toBe('Day 1\n')
+  })
+
+  it('should queue only field conflicts for review', () => {
+    const local = { id: 'c1', type: 'community', description: 'Ours', members: ['a'], admins: ['a'], createdAt: 1 }
+    const remote = { id: 'c1', type: 'community', description: 'Theirs', members: ['b'], admins: ['a'], createdAt: 1 }
+
+    const merged = SyncService.handleConflict('c1', { ...local, description: 'Same' }, { ...remote, description: 'Same' })
+    expect(merged.type).toBe('merge')
+    expect(merged.resolvedVersion.members).toEqual(['a', 'b'])
+
+    const manual = SyncService.handleConflict('c1', local, remote, { spaceId: 'space-1' })
+    expect(manual.type).toBe('manual')
+    expect(manual.fieldConflicts?.map(c => c.field)).toEqual(['description'])
+    expect(SyncService.getPendingConflicts().map(c => c.id)).toContain(manual.id)
+
+    SyncService.resolveConflict(manual.id, 'merge', { ...manual.mergedVersion, description: 'Both' }, 'me')
+    expect(manual.resolvedVersion).toMatchObject({ description: 'Both', members: ['a', 'b'] })
+    expect(SyncService.getPendingConflicts()).toEqual([])
+  })
+
+  it('should merge a copy of a stored object into it instead of adding it again', async () => {
+    const { MainDXOSClient } = jest.requireActual('../lib/dxos/client')
+    const client = new MainDXOSClient()
+    const stored = { id: 'c2', type: 'community', description: 'Ours', members: ['owner'], admins: ['owner'], createdAt: 1 }
+    const objects: any[] = [{ type: 'member', userId: 'owner', role: 'owner' }, stored]
+    const space = {
+      id: 'space-2',
+      objects,
+      db: {
+        query: (filter: Record<string, any>) => ({
+          run: () => objects.filter(object => Object.keys(filter).every(key => object[key] === filter[key]))
+        })
+      }
+    }
+
+    await client.addObject(space, { ...stored, members: ['friend'] })
+    expect(objects).toHaveLength(2)
+    expect(stored.members).toEqual(['friend', 'owner'])
+
+    // Colliding text is held for review and not written
+    await client.addObject(space, { ...stored, description: 'Theirs' })
+    expect(stored.description).toBe('Ours')
+    const [conflict] = SyncService.getPendingConflicts().filter(pending => pending.spaceId === 'space-2')
+    expect(conflict.fieldConflicts?.map(c => c.field)).toEqual(['description'])
+
+    // Choosing a version doesn't resolve the conflict by itself
+    expect(SyncService.getResolvedVersion(conflict, 'local').description).toBe('Theirs')
+    expect(SyncService.getPendingConflicts()).toContain(conflict)
+  })
+})
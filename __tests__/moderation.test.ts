@@ -0,0 +1,36 @@
+import { SpaceAccessControl } from '../lib/dxos/utils/access-control'
+import { ModerationService } from '../lib/dxos/utils/moderation'
+
+describe('moderation', () => {
+  const createSpace = (moderationLevel: 'open' | 'moderated' | 'strict') => {
+    const objects: any[] = [
+      { type: 'community', settings: { allowInvites: true, moderationLevel, contentPolicy: '' } },
+      { type: 'member', userId: 'owner', role: 'owner' },
+      { type: 'member', userId: 'admin', role: 'admin' },
+      { type: 'member', userId: 'member', role: 'member' }
+    ]
+    return {
+      id: 'space-1',
+      db: {
+        query: (filter: Record<string, any>) => ({
+          run: () => objects.filter(object => Object.keys(filter).every(key => object[key] === filter[key]))
+        })
+      }
+    }
+  }
+
+  it('should queue memories from non-moderators in moderated spaces', async () => {
+    expect(SpaceAccessControl.requiresModeration(createSpace('open'), 'member')).toBe(false)
+    expect(SpaceAccessControl.requiresModeration(createSpace('moderated'), 'member')).toBe(true)
+    expect(SpaceAccessControl.requiresModeration(createSpace('strict'), 'admin')).toBe(false)
+
+    const item = await ModerationService.createItem(createSpace('moderated'), { type: 'memory', title: 'Harvest' }, 'member')
+    expect(item.status).toBe('pending')
+    expect(item.memory.type).toBeUndefined()
+    expect(item.checks).toBeUndefined()
+
+    const rejected = ModerationService.createDecisionNotification({ ...item, status: 'rejected', reason: 'Off topic' })
+    expect(rejected.notification.userId).toBe('member')
+    expect(rejected.notification.message).toMatch(/not approved: Off topic/)
+  })
+})
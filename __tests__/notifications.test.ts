@@ -0,0 +1,100 @@
+import { NotificationService } from '../utils/notifications'
+import { SpaceNotificationService } from '../lib/dxos/utils/space-notifications'
+import { Memory } from '../types/memory'
+
+describe('notifications', () => {
+  let mockMemory: Memory
+
+  beforeEach(() => {
+    mockMemory = {
+      id: 'memory123',
+      title: 'Test Memory',
+      content: 'This is a test memory content',
+      memoryNote: 'Test note',
+      visibility: 'public',
+      fileType: 'text',
+      ipfsCid: 'QmTestMemoryCID',
+      ipfsUrl: 'https://ipfs.io/ipfs/QmTestMemoryCID',
+      ipfsGatewayUrl: 'https://gateway.pinata.cloud/ipfs/QmTestMemoryCID',
+      timestamp: Date.now(),
+      authorId: 'user123',
+      authorName: 'Test User',
+      tags: ['test', 'memory']
+    }
+
+    const store: Record<string, string> = {}
+    Object.defineProperty(window, 'localStorage', {
+      value: {
+        getItem: jest.fn((key: string) => store[key] ?? null),
+        setItem: jest.fn((key: string, value: string) => { store[key] = value }),
+        removeItem: jest.fn((key: string) => { delete store[key] }),
+        clear: jest.fn(() => Object.keys(store).forEach(key => delete store[key]))
+      },
+      writable: true
+    })
+  })
+
+  const comment = {
+    id: 'c1',
+    memoryId: 'memory123',
+    userId: 'friend',
+    username: 'Friend',
+    content: 'Lovely photo',
+    timestamp: Date.now()
+  }
+
+  it('should notify authors about comments from others once', () => {
+    expect(NotificationService.notifyComment(comment, mockMemory, 'user123')).not.toBeNull()
+    expect(NotificationService.notifyComment(comment, mockMemory, 'user123')).toBeNull()
+    expect(NotificationService.notifyComment({ ...comment, id: 'c2', userId: 'user123' }, mockMemory, 'user123')).toBeNull()
+
+    expect(NotificationService.getUnreadCount()).toBe(1)
+    NotificationService.markAllRead()
+    expect(NotificationService.getUnreadCount()).toBe(0)
+  })
+
+  it('should not bring back dismissed notifications', () => {
+    const first = NotificationService.notifyComment({ ...comment, id: 'c4' }, mockMemory, 'user123')!
+    NotificationService.notifyComment({ ...comment, id: 'c5' }, mockMemory, 'user123')
+
+    NotificationService.remove(first.id)
+    expect(NotificationService.notifyComment({ ...comment, id: 'c4' }, mockMemory, 'user123')).toBeNull()
+    expect(NotificationService.getAll()).toHaveLength(1)
+
+    NotificationService.clear()
+    expect(NotificationService.notifyComment({ ...comment, id: 'c5' }, mockMemory, 'user123')).toBeNull()
+    expect(NotificationService.notifyComment({ ...comment, id: 'c6' }, mockMemory, 'user123')).not.toBeNull()
+    expect(NotificationService.getAll()).toHaveLength(1)
+  })
+
+  it('should hide muted notification types', () => {
+    NotificationService.notifyComment({ ...comment, id: 'c3' }, mockMemory, 'user123')
+    NotificationService.setMuted('memory_comment', true)
+
+    expect(NotificationService.getVisible()).toHaveLength(0)
+    expect(NotificationService.getAll()).toHaveLength(1)
+
+    NotificationService.setMuted('memory_comment', false)
+    expect(NotificationService.getVisible()).toHaveLength(1)
+  })
+
+  it('should collect connection requests, joins and decisions from a space', () => {
+    const objects: any[] = [
+      { type: 'member', userId: 'me', displayName: 'Me', role: 'owner' },
+      { type: 'member', userId: 'alice', displayName: 'Alice', role: 'member', invitationId: 'inv-1', joinedAt: 5 },
+      { type: 'invitation', id: 'inv-1', createdBy: 'me' },
+      { type: 'connection', id: 'conn-1', fromUserId: 'alice', toUserId: 'me', status: 'pending', timestamp: 1 },
+      { type: 'connection', id: 'conn-2', fromUserId: 'me', toUserId: 'bob', status: 'pending', timestamp: 2 },
+      { type: 'notification', notification: { id: 'n1', userId: 'me', type: 'memory_moderated', message: 'ok', timestamp: 3 } },
+      { type: 'notification', notification: { id: 'n2', userId: 'alice', type: 'memory_moderated', message: 'ok', timestamp: 4 } }
+    ]
+    const space = {
+      id: 'space-1',
+      db: { query: (filter: Record<string, any>) => ({ run: () => objects.filter(object => object.type === filter.type) }) }
+    }
+
+    const notifications = SpaceNotificationService.collect(space, 'me')
+    expect(notifications.map(n => n.type).sort()).toEqual(['community_invitation', 'connection_request', 'memory_moderated'])
+    expect(notifications.find(n => n.type === 'connection_request')?.message).toMatch(/^Alice wants to connect/)
+  })
+})
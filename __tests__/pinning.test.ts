@@ -0,0 +1,119 @@
+import { getPinningProvider, setPinningProvider, getReplicaProviders, InMemoryPinningProvider } from '../utils/pinning'
+import { NextApiRequest, NextApiResponse } from 'next'
+import { ReplicationService } from '../utils/pinning/replication'
+import handler from '../pages/api/pinata/replicas'
+import { setMemoryStore, InMemoryMemoryStore } from '../utils/memory-store'
+import { requireApiUser } from '../utils/api-auth'
+import { Memory } from '../types/memory'
+
+jest.mock('../utils/api-auth', () => ({
+  requireApiUser: jest.fn()
+}))
+
+describe('pinning providers', () => {
+  const env = process.env
+
+  beforeEach(() => {
+    process.env = { ...env }
+    delete process.env.PINNING_PROVIDER
+    delete process.env.PINNING_PROVIDERS
+    delete process.env.PINATA_JWT
+    setPinningProvider(null)
+  })
+
+  afterAll(() => {
+    process.env = env
+    setPinningProvider(null)
+  })
+
+  it('should fall back to the in-memory provider outside production', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    expect(getPinningProvider().name).toBe('memory')
+    expect(getReplicaProviders().map(provider => provider.name)).toEqual(['memory'])
+  })
+
+  it('should refuse the in-memory fallback in production unless asked for', () => {
+    process.env = { ...process.env, NODE_ENV: 'production' }
+    expect(() => getPinningProvider()).toThrow('No pinning provider configured')
+
+    process.env.PINNING_PROVIDER = 'memory'
+    expect(getPinningProvider().name).toBe('memory')
+
+    setPinningProvider(null)
+    delete process.env.PINNING_PROVIDER
+    process.env.PINATA_JWT = 'jwt'
+    expect(getPinningProvider().name).toBe('pinata')
+  })
+})
+
+describe('replication', () => {
+  it('should report missing providers when fewer than required are configured', async () => {
+    const provider = new InMemoryPinningProvider(new Map())
+    const { cid } = await provider.uploadJSON({ title: 'Memory' })
+
+    const report = await ReplicationService.check(cid, 2, [provider])
+    expect(report.replicaCount).toBe(1)
+    expect(report.requiredReplicas).toBe(2)
+    expect(report.missingProviders).toBe(1)
+    expect(report.healthy).toBe(false)
+  })
+
+  it('should still require as many replicas as the policy asks when providers allow it', async () => {
+    const primary = new InMemoryPinningProvider(new Map())
+    const backup = new InMemoryPinningProvider(new Map())
+    const { cid } = await primary.uploadJSON({ title: 'Memory' })
+
+    const report = await ReplicationService.check(cid, 2, [primary, backup])
+    expect(report.replicaCount).toBe(1)
+    expect(report.healthy).toBe(false)
+  })
+
+  it('should not report health without any provider', async () => {
+    expect((await ReplicationService.check('cid', 2, [])).healthy).toBe(false)
+  })
+})
+
+describe('replica repair API', () => {
+  const repair = async (cid: string) => {
+    const res = { statusCode: 0, body: undefined as any } as any
+    res.status = jest.fn((code: number) => {
+      res.statusCode = code
+      return res
+    })
+    res.json = jest.fn((body: unknown) => {
+      res.body = body
+      return res
+    })
+    await handler({ method: 'POST', body: { cid }, query: {} } as unknown as NextApiRequest, res as NextApiResponse)
+    return res
+  }
+
+  beforeEach(async () => {
+    const store = new InMemoryMemoryStore()
+    await store.saveMemory({ id: 'porch', authorId: 'alice', ipfsCid: 'QmAlice', visibility: 'public', timestamp: 1 } as Memory)
+    setMemoryStore(store)
+  })
+
+  afterAll(() => {
+    setMemoryStore(null)
+  })
+
+  it('should require a signed-in user', async () => {
+    (requireApiUser as jest.Mock).mockImplementation(async (_req, res) => {
+      res.status(401).json({ error: 'Not authenticated' })
+      return null
+    })
+    expect((await repair('QmAlice')).statusCode).toBe(401)
+  })
+
+  it('should only repair CIDs of the user\'s own memories', async () => {
+    (requireApiUser as jest.Mock).mockResolvedValue({ id: 'bob', name: 'Bob' })
+    expect((await repair('QmAlice')).statusCode).toBe(403)
+
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    (requireApiUser as jest.Mock).mockResolvedValue({ id: 'alice', name: 'Alice' })
+    const res = await repair('QmAlice')
+    expect(res.statusCode).toBe(200)
+    expect(res.body.report.cid).toBe('QmAlice')
+  })
+})
@@ -0,0 +1,95 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { NextApiRequest, NextApiResponse } from 'next'
+import handler from '../pages/api/registry/head'
+import { RegistryHeadStore } from '../utils/registry-heads'
+import { CryptoService, SIGNATURE_ALGORITHM } from '../utils/crypto'
+import { requireApiUser } from '../utils/api-auth'
+import { RegistryHead } from '../types/registry'
+
+jest.mock('../utils/api-auth', () => ({
+  requireApiUser: jest.fn()
+}))
+
+async function signHead(userId: string, registryId: string, publishedAt: number): Promise<RegistryHead> {
+  const head: RegistryHead = { registryId, userId, cid: `Qm${registryId}${publishedAt}`, publishedAt }
+  const { publicKey } = await CryptoService.getOrCreateSigningKey(userId)
+  head.signature = {
+    algorithm: SIGNATURE_ALGORITHM,
+    publicKey,
+    value: await CryptoService.sign(userId, CryptoService.canonicalJSON(head)),
+    signedAt: publishedAt
+  }
+  return head
+}
+
+async function put(sessionUserId: string, head: RegistryHead) {
+  (requireApiUser as jest.Mock).mockResolvedValue({ id: sessionUserId, name: sessionUserId })
+  const res = { statusCode: 0, body: undefined as any } as any
+  res.status = jest.fn((code: number) => {
+    res.statusCode = code
+    return res
+  })
+  res.json = jest.fn((body: unknown) => {
+    res.body = body
+    return res
+  })
+  await handler({ method: 'PUT', body: head, query: {} } as unknown as NextApiRequest, res as NextApiResponse)
+  return res
+}
+
+describe('registry heads', () => {
+  const env = process.env
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'registry-heads-'))
+    process.env = { ...env, MEMORY_STORE_DIR: directory }
+
+    const store: Record<string, string> = {}
+    Object.defineProperty(window, 'localStorage', {
+      value: {
+        getItem: (key: string) => store[key] ?? null,
+        setItem: (key: string, value: string) => { store[key] = value },
+        removeItem: (key: string) => { delete store[key] },
+        clear: () => Object.keys(store).forEach(key => delete store[key])
+      },
+      configurable: true
+    })
+  })
+
+  afterEach(async () => {
+    process.env = env
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('should only accept heads from the registry author', async () => {
+    const victimHead = await signHead('alice', 'reg_alice_1', 1)
+
+    // Mallory can't publish as alice, or claim alice's registry id with her own key
+    expect((await put('mallory', victimHead)).statusCode).toBe(403)
+    expect((await put('mallory', await signHead('mallory', 'reg_alice_1', 1))).statusCode).toBe(400)
+    expect(await RegistryHeadStore.get('reg_alice_1')).toBeNull()
+
+    const res = await put('alice', victimHead)
+    expect(res.statusCode).toBe(200)
+    expect(await RegistryHeadStore.get('reg_alice_1')).toEqual(victimHead)
+  })
+
+  it('should keep a bounded number of registries per author and expire old heads', async () => {
+    const now = Date.now()
+    for (let index = 1; index <= 6; index++) {
+      expect((await put('alice', await signHead('alice', `reg_alice_${index}`, now + index))).statusCode).toBe(200)
+    }
+    expect(await RegistryHeadStore.get('reg_alice_1')).toBeNull()
+    expect(await RegistryHeadStore.get('reg_alice_6')).not.toBeNull()
+
+    const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now + 366 * 24 * 60 * 60 * 1000)
+    try {
+      expect(await RegistryHeadStore.get('reg_alice_6')).toBeNull()
+    } finally {
+      dateNow.mockRestore()
+    }
+  })
+})
@@ -2,6 +2,10 @@ import { RegistryManager } from '../utils/registry'
 import { OfflineRegistryManager } from '../utils/offline-registry'
 import { PrivacyManager } from '../utils/privacy-controls'
 import { LocalStorage } from '../utils/storage'
+import { MemoryRepository } from '../utils/memory-repository'
+import { EncryptionService } from '../utils/encryption'
+import { IPFSService } from '../utils/ipfs'
+import { CryptoService } from '../utils/crypto'
 import { UserProfile, Memory } from '../types/memory'
 import { UserRegistry, RegistrySubscription } from '../types/registry'
 
@@ -13,6 +17,11 @@ jest.mock('../utils/ipfs', () => ({
       size: 1024,
       timestamp: Date.now()
     }),
+    uploadSealedFileToIPFS: jest.fn().mockResolvedValue({
+      cid: 'QmSealedCID',
+      size: 1024,
+      timestamp: Date.now()
+    }),
     getIPFSGatewayUrl: jest.fn((cid: string) => `https://gateway.pinata.cloud/ipfs/${cid}`),
     getIPFSUrl: jest.fn((cid: string) => `https://ipfs.io/ipfs/${cid}`)
   }
@@ -105,14 +114,14 @@ describe('Registry System', () => {
     })
 
     describe('updateRegistryFromMemories', () => {
-      it('should update registry with public memories that have IPFS CIDs', () => {
+      it('should update registry with public memories that have IPFS CIDs', async () => {
         // First create a registry
         RegistryManager.createRegistry(mockUserProfile)
 
         // Mock LocalStorage.getPublicMemories to return our test memory
         jest.spyOn(LocalStorage, 'getPublicMemories').mockReturnValue([mockMemory])
 
-        const updatedRegistry = RegistryManager.updateRegistryFromMemories()
+        const updatedRegistry = await RegistryManager.updateRegistryFromMemories()
 
         expect(updatedRegistry.publicMemories).toHaveLength(1)
         expect(updatedRegistry.publicMemories[0].id).toBe(mockMemory.id)
@@ -120,7 +129,7 @@ describe('Registry System', () => {
         expect(updatedRegistry.metadata.totalEntries).toBe(1)
       })
 
-      it('should exclude memories without IPFS CIDs', () => {
+      it('should exclude memories without IPFS CIDs', async () => {
         const memoryWithoutCid = { ...mockMemory, ipfsCid: undefined }
 
         RegistryManager.createRegistry(mockUserProfile)
@@ -128,18 +137,18 @@ describe('Registry System', () => {
         // Mock LocalStorage.getPublicMemories to return memory without CID
         jest.spyOn(LocalStorage, 'getPublicMemories').mockReturnValue([memoryWithoutCid])
 
-        const updatedRegistry = RegistryManager.updateRegistryFromMemories()
+        const updatedRegistry = await RegistryManager.updateRegistryFromMemories()
 
         expect(updatedRegistry.publicMemories).toHaveLength(0)
       })
 
-      it('should exclude private memories', () => {
+      it('should exclude private memories', async () => {
         RegistryManager.createRegistry(mockUserProfile)
 
         // Mock LocalStorage.getPublicMemories to return empty array for private memory
         jest.spyOn(LocalStorage, 'getPublicMemories').mockReturnValue([])
 
-        const updatedRegistry = RegistryManager.updateRegistryFromMemories()
+        const updatedRegistry = await RegistryManager.updateRegistryFromMemories()
 
         expect(updatedRegistry.publicMemories).toHaveLength(0)
       })
@@ -192,6 +201,8 @@ describe('Registry System', () => {
           ipfsMetadata: {}
         }
 
+        await RegistryManager.signRegistry(mockRegistry)
+
         // Mock fetching registry from IPFS
         jest.spyOn(RegistryManager, 'fetchRegistryFromIPFS').mockResolvedValue(mockRegistry)
 
@@ -204,6 +215,17 @@ describe('Registry System', () => {
         expect(subscription.displayName).toBe('Other User')
         expect(subscription.autoSync).toBe(true)
         expect(subscription.tags).toEqual(['tag1', 'tag2'])
+        expect(subscription.publicKey).toBe(mockRegistry.signature!.publicKey)
+      })
+
+      it('should refuse to subscribe to unsigned registries', async () => {
+        const unsignedRegistry = RegistryManager.createRegistry({ ...mockUserProfile, id: 'other_user' })
+
+        jest.spyOn(RegistryManager, 'fetchRegistryFromIPFS').mockResolvedValue(unsignedRegistry)
+        jest.spyOn(RegistryManager, 'getSubscriptions').mockReturnValue([])
+
+        await expect(RegistryManager.addSubscription('QmUnsignedCID', false))
+          .rejects.toThrow('Registry signature is missing or invalid')
       })
 
       it('should prevent duplicate subscriptions', async () => {
@@ -227,6 +249,326 @@ describe('Registry System', () => {
     })
   })
 
+  describe('registry signatures', () => {
+    it('should publish registries with SHA-256 content hashes and a valid signature', async () => {
+      RegistryManager.createRegistry(mockUserProfile)
+      jest.spyOn(LocalStorage, 'getPublicMemories').mockReturnValue([mockMemory])
+
+      await RegistryManager.publishRegistry()
+
+      const { IPFSService } = jest.requireMock('../utils/ipfs')
+      const published: UserRegistry = IPFSService.uploadToIPFS.mock.calls
+        .map((call: [string]) => JSON.parse(call[0]))
+        .find((data: any) => data.format === 'etherith-registry-v1')
+
+      expect(published.publicMemories[0].contentHash).toMatch(/^[0-9a-f]{64}$/)
+      expect(published.signature?.publicKey).toBe(published.userProfile.publicKey)
+      await expect(RegistryManager.verifyRegistrySignature(published)).resolves.toBe(true)
+    })
+
+    it('should detect tampered registry content', async () => {
+      const registry = RegistryManager.createRegistry(mockUserProfile)
+      await RegistryManager.signRegistry(registry)
+
+      const tampered: UserRegistry = {
+        ...registry,
+        userProfile: { ...registry.userProfile, displayName: 'Impostor' }
+      }
+
+      await expect(RegistryManager.verifyRegistrySignature(tampered)).resolves.toBe(false)
+    })
+
+    it('should reject a sync when the registry is signed by a different key', async () => {
+      const registry = RegistryManager.createRegistry({ ...mockUserProfile, id: 'other_user' })
+      const { publicKey: pinnedKey } = await RegistryManager.signRegistry(registry)
+
+      // Same userId, freshly generated key: an impersonation attempt
+      localStorage.removeItem('etherith_signing_keys')
+      const impostorRegistry = RegistryManager.createRegistry({ ...mockUserProfile, id: 'other_user' })
+      impostorRegistry.registryId = registry.registryId
+      await RegistryManager.signRegistry(impostorRegistry)
+
+      const subscription: RegistrySubscription = {
+        id: 'sub1',
+        registryId: registry.registryId,
+        registryCid: 'QmOtherRegistryCID',
+        userId: 'other_user',
+        publicKey: pinnedKey,
+        displayName: 'Other User',
+        subscribedAt: Date.now(),
+        syncEnabled: true,
+        autoSync: true,
+        syncFrequency: 'daily'
+      }
+
+      jest.spyOn(RegistryManager, 'getSubscriptions').mockReturnValue([subscription])
+      jest.spyOn(RegistryManager, 'fetchRegistryFromIPFS').mockResolvedValue(impostorRegistry)
+
+      const operation = await RegistryManager.syncSubscription('sub1')
+
+      expect(operation.status).toBe('failed')
+      expect(operation.errors?.join(' ')).toContain('different key')
+    })
+  })
+
+  describe('incremental sync', () => {
+    it('should apply edits and removals from the published change log', async () => {
+      const { IPFSService } = jest.requireMock('../utils/ipfs')
+      const originalUpload = IPFSService.uploadToIPFS.getMockImplementation()
+      const published: Record<string, any> = {}
+      let publishCount = 0
+
+      IPFSService.uploadToIPFS.mockImplementation(async (data: string) => {
+        const cid = `QmPublished${++publishCount}`
+        published[cid] = JSON.parse(data)
+        return { cid, size: data.length, timestamp: Date.now() }
+      })
+
+      try {
+        jest.spyOn(RegistryManager, 'fetchRegistryFromIPFS').mockImplementation(async cid => published[cid])
+        jest.spyOn(RegistryManager, 'fetchChangeLogFromIPFS').mockImplementation(async cid => published[cid])
+
+        const secondMemory = { ...mockMemory, id: 'memory456', title: 'Second Memory' }
+        RegistryManager.createRegistry(mockUserProfile)
+        const publicMemories = jest.spyOn(LocalStorage, 'getPublicMemories').mockReturnValue([mockMemory, secondMemory])
+        const v1 = await RegistryManager.publishRegistry()
+
+        let subscriptions: RegistrySubscription[] = [{
+          id: 'sub1',
+          registryId: published[v1.cid].registryId,
+          registryCid: v1.cid,
+          userId: mockUserProfile.id,
+          displayName: mockUserProfile.displayName,
+          subscribedAt: Date.now(),
+          syncEnabled: true,
+          autoSync: true,
+          syncFrequency: 'daily'
+        }]
+        jest.spyOn(RegistryManager, 'getSubscriptions').mockImplementation(() => subscriptions)
+        jest.spyOn(RegistryManager, 'saveSubscriptions').mockImplementation(subs => { subscriptions = subs })
+
+        const fullSync = await RegistryManager.syncSubscription('sub1')
+        expect(fullSync.type).toBe('full')
+        expect(fullSync.memoriesDownloaded).toBe(2)
+
+        // Author edits one memory and unpublishes the other
+        publicMemories.mockReturnValue([{ ...mockMemory, title: 'Edited Memory' }])
+        const v2 = await RegistryManager.publishRegistry()
+        expect(published[v2.cid].previousCid).toBe(v1.cid)
+        subscriptions = subscriptions.map(sub => ({ ...sub, registryCid: v2.cid }))
+
+        const incrementalSync = await RegistryManager.syncSubscription('sub1')
+        expect(incrementalSync.type).toBe('incremental')
+        expect(incrementalSync.memoriesUpdated).toBe(1)
+        expect(incrementalSync.memoriesRemoved).toBe(1)
+
+        const discovered = RegistryManager.getDiscoveredMemories()
+        expect(discovered).toHaveLength(1)
+        expect(discovered[0].memory.title).toBe('Edited Memory')
+        expect(subscriptions[0].lastSyncedCid).toBe(v2.cid)
+      } finally {
+        IPFSService.uploadToIPFS.mockImplementation(originalUpload)
+      }
+    })
+  })
+
+  describe('registry heads', () => {
+    const originalFetch = global.fetch
+
+    afterEach(() => {
+      global.fetch = originalFetch
+    })
+
+    it('should follow the published head and skip empty change logs', async () => {
+      const { IPFSService } = jest.requireMock('../utils/ipfs')
+      const originalUpload = IPFSService.uploadToIPFS.getMockImplementation()
+      const published: Record<string, any> = {}
+      const heads: Record<string, any> = {}
+      let publishCount = 0
+
+      IPFSService.uploadToIPFS.mockImplementation(async (data: string) => {
+        const cid = `QmPublished${++publishCount}`
+        published[cid] = JSON.parse(data)
+        return { cid, size: data.length, timestamp: Date.now() }
+      })
+
+      // Stands in for /api/registry/head
+      global.fetch = jest.fn(async (url: string, init?: RequestInit) => {
+        if (init?.method === 'PUT') {
+          const head = JSON.parse(init.body as string)
+          heads[head.registryId] = head
+          return { ok: true, status: 200, json: async () => ({ success: true, head }) }
+        }
+        const head = heads[new URL(url, 'http://localhost').searchParams.get('registryId')!]
+        return head
+          ? { ok: true, status: 200, json: async () => ({ success: true, head }) }
+          : { ok: false, status: 404, json: async () => ({ error: 'Registry head not found' }) }
+      }) as unknown as typeof fetch
+
+      try {
+        jest.spyOn(RegistryManager, 'fetchRegistryFromIPFS').mockImplementation(async cid => published[cid])
+        jest.spyOn(RegistryManager, 'fetchChangeLogFromIPFS').mockImplementation(async cid => published[cid])
+
+        RegistryManager.createRegistry(mockUserProfile)
+        const publicMemories = jest.spyOn(LocalStorage, 'getPublicMemories').mockReturnValue([mockMemory])
+        const v1 = await RegistryManager.publishRegistry()
+
+        let subscriptions: RegistrySubscription[] = [{
+          id: 'sub1',
+          registryId: published[v1.cid].registryId,
+          registryCid: v1.cid,
+          userId: mockUserProfile.id,
+          publicKey: published[v1.cid].signature.publicKey,
+          displayName: mockUserProfile.displayName,
+          subscribedAt: Date.now(),
+          syncEnabled: true,
+          autoSync: true,
+          syncFrequency: 'daily'
+        }]
+        jest.spyOn(RegistryManager, 'getSubscriptions').mockImplementation(() => subscriptions)
+        jest.spyOn(RegistryManager, 'saveSubscriptions').mockImplementation(subs => { subscriptions = subs })
+        expect((await RegistryManager.syncSubscription('sub1')).type).toBe('full')
+
+        // A new version is found through the head, without being handed its CID
+        publicMemories.mockReturnValue([mockMemory, { ...mockMemory, id: 'memory456', title: 'Second Memory' }])
+        await new Promise(resolve => setTimeout(resolve, 2))
+        const v2 = await RegistryManager.publishRegistry()
+        const added = await RegistryManager.syncSubscription('sub1')
+        expect(added).toMatchObject({ type: 'incremental', toCid: v2.cid, memoriesDownloaded: 1 })
+
+        // Republishing without changes uploads no change log and syncs nothing
+        const uploads = publishCount
+        await new Promise(resolve => setTimeout(resolve, 2))
+        const v3 = await RegistryManager.publishRegistry()
+        expect(publishCount).toBe(uploads + 1)
+        expect(published[v3.cid].changeLogCid).toBe(published[v2.cid].changeLogCid)
+
+        const unchanged = await RegistryManager.syncSubscription('sub1')
+        expect(unchanged).toMatchObject({ type: 'incremental', status: 'completed', memoriesFound: 0 })
+        expect(subscriptions[0].lastSyncedCid).toBe(v3.cid)
+
+        // The next change log still links up with the version synced last
+        publicMemories.mockReturnValue([mockMemory])
+        await new Promise(resolve => setTimeout(resolve, 2))
+        await RegistryManager.publishRegistry()
+        const removed = await RegistryManager.syncSubscription('sub1')
+        expect(removed).toMatchObject({ type: 'incremental', memoriesRemoved: 1 })
+      } finally {
+        IPFSService.uploadToIPFS.mockImplementation(originalUpload)
+      }
+    })
+
+    it('should ignore heads signed by another key', async () => {
+      const registry = RegistryManager.createRegistry(mockUserProfile)
+      const { publicKey } = await RegistryManager.signRegistry(registry)
+      const subscription: RegistrySubscription = {
+        id: 'sub1',
+        registryId: registry.registryId,
+        registryCid: 'QmKnownCID',
+        userId: mockUserProfile.id,
+        publicKey,
+        displayName: mockUserProfile.displayName,
+        subscribedAt: Date.now(),
+        syncEnabled: true,
+        autoSync: true,
+        syncFrequency: 'daily'
+      }
+
+      const head = { registryId: registry.registryId, userId: mockUserProfile.id, cid: 'QmForgedCID', publishedAt: Date.now() }
+      localStorage.removeItem('etherith_signing_keys')
+      const { publicKey: forgedKey } = await CryptoService.getOrCreateSigningKey(mockUserProfile.id)
+      const forged = {
+        ...head,
+        signature: {
+          algorithm: 'ECDSA-P256-SHA256' as const,
+          publicKey: forgedKey,
+          value: await CryptoService.sign(mockUserProfile.id, CryptoService.canonicalJSON(head)),
+          signedAt: Date.now()
+        }
+      }
+
+      expect(await RegistryManager.verifyRegistryHead(forged, subscription)).toBe(false)
+      expect(await RegistryManager.verifyRegistryHead(forged, { ...subscription, publicKey: forgedKey })).toBe(true)
+    })
+  })
+
+  describe('restricted sharing', () => {
+    it('should seal invite-only entries for invited recipients and rotate keys on revoke', async () => {
+      const friend = {
+        userId: 'friend456',
+        displayName: 'Friend',
+        encryptionKey: await EncryptionService.getOrCreateAgreementKey('friend456'),
+        grantedAt: Date.now()
+      }
+      const resolveRecipient = jest.spyOn(RegistryManager, 'resolveRecipient').mockResolvedValue(friend)
+
+      try {
+        await RegistryManager.issueInvite(mockMemory.id, 'QmFriendRegistry')
+        const restricted = { ...mockMemory, sharingPermission: 'invite-only' as const }
+
+        const entry = await RegistryManager.memoryToRegistryEntry(restricted)
+        expect(entry).toMatchObject({ title: '', content: '', tags: [], ipfsCid: '' })
+        expect(entry.sealed?.keys.map(key => key.recipientId).sort()).toEqual(['friend456', 'user123'])
+
+        const opened = await RegistryManager.openSealedEntry(entry, 'friend456')
+        expect(opened).toMatchObject({ title: mockMemory.title, content: mockMemory.content, tags: mockMemory.tags })
+
+        // The file is pinned again, encrypted with the entry's content key
+        expect(opened.ipfsCid).toBe('QmSealedCID')
+        const [envelope] = (IPFSService.uploadSealedFileToIPFS as jest.Mock).mock.calls[0]
+        expect(new TextDecoder().decode(envelope)).not.toContain(mockMemory.content)
+        const file = await EncryptionService.decryptBytesWithContentKey(opened.contentKey!, envelope)
+        expect(new TextDecoder().decode(file)).toBe(mockMemory.content)
+        expect(PrivacyManager.canAccessMemory(entry, 'friend456').canAccess).toBe(true)
+
+        expect(await RegistryManager.openSealedEntry(entry, 'stranger789')).toBe(entry)
+        expect(PrivacyManager.canAccessMemory(entry, 'stranger789').canAccess).toBe(false)
+
+        // Unchanged content and recipients keep the same seal between publishes
+        const republished = await RegistryManager.memoryToRegistryEntry(restricted)
+        expect(republished.sealed?.ciphertext).toBe(entry.sealed?.ciphertext)
+
+        expect(RegistryManager.revokeInvite(mockMemory.id, 'friend456')).toBe(true)
+        const revoked = await RegistryManager.memoryToRegistryEntry(restricted)
+        expect(revoked.sealed?.ciphertext).not.toBe(entry.sealed?.ciphertext)
+        expect(revoked.sealed?.keys.map(key => key.recipientId)).toEqual(['user123'])
+      } finally {
+        resolveRecipient.mockRestore()
+      }
+    })
+
+    it('should publish restricted memories whose file is stored as a blob', async () => {
+      const photo = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 1, 2, 3])
+      const restricted = {
+        ...mockMemory,
+        fileType: 'image' as const,
+        mimeType: 'image/jpeg',
+        fileData: 'blob:http://localhost/porch-photo',
+        sharingPermission: 'subscribers-only' as const
+      }
+      RegistryManager.createRegistry(mockUserProfile)
+      const getPublicMemories = jest.spyOn(LocalStorage, 'getPublicMemories').mockReturnValue([restricted])
+      const isRepositoryReady = jest.spyOn(LocalStorage, 'isRepositoryReady').mockReturnValue(true)
+      const getBlob = jest.spyOn(MemoryRepository, 'getBlob').mockResolvedValue(new Blob([photo], { type: 'image/jpeg' }))
+
+      try {
+        const result = await RegistryManager.publishRegistry()
+        expect(result.cid).toBe('QmTestCID123')
+        expect(getBlob).toHaveBeenCalledWith(restricted.id)
+
+        const entry = RegistryManager.getRegistry()!.publicMemories[0]
+        const opened = await RegistryManager.openSealedEntry(entry, 'user123')
+        const [envelope] = (IPFSService.uploadSealedFileToIPFS as jest.Mock).mock.calls[0]
+        const file = await EncryptionService.decryptBytesWithContentKey(opened.contentKey!, envelope)
+        expect(Array.from(new Uint8Array(file))).toEqual(Array.from(photo))
+      } finally {
+        getPublicMemories.mockRestore()
+        isRepositoryReady.mockRestore()
+        getBlob.mockRestore()
+      }
+    })
+  })
+
   describe('OfflineRegistryManager', () => {
     describe('offline queue management', () => {
       it('should queue registry updates when offline', async () => {
@@ -328,6 +670,15 @@ describe('Registry System', () => {
         expect(result.reason).toContain('IPFS')
       })
 
+      it('should prevent sharing memories pinned as ciphertext', () => {
+        const encryptedMemory = { ...mockMemory, encrypted: true, encryptionKeyId: 'key_0123456789abcdef' }
+
+        const result = PrivacyManager.canShareMemory(encryptedMemory)
+
+        expect(result.canShare).toBe(false)
+        expect(result.reason).toContain('encrypted')
+      })
+
       it('should allow sharing valid public memories', () => {
         const result = PrivacyManager.canShareMemory(mockMemory)
 
@@ -336,8 +687,8 @@ describe('Registry System', () => {
     })
 
     describe('data anonymization', () => {
-      it('should anonymize memory entries based on level', () => {
-        const publicEntry = RegistryManager.memoryToRegistryEntry(mockMemory)
+      it('should anonymize memory entries based on level', async () => {
+        const publicEntry = await RegistryManager.memoryToRegistryEntry(mockMemory)
 
         const minimal = PrivacyManager.anonymizeMemoryEntry(publicEntry, 'minimal')
         expect(minimal.authorName).toBe(mockMemory.authorName) // Name preserved
@@ -364,7 +715,7 @@ describe('Registry System', () => {
       jest.spyOn(LocalStorage, 'getPublicMemories').mockReturnValue([mockMemory])
 
       // 2. Update with memories
-      const updatedRegistry = RegistryManager.updateRegistryFromMemories()
+      const updatedRegistry = await RegistryManager.updateRegistryFromMemories()
       expect(updatedRegistry.publicMemories).toHaveLength(1)
 
       // 3. Publish to IPFS
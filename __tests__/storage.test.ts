@@ -0,0 +1,163 @@
+import { setImmediate as nextMacrotask } from 'timers'
+import { Memory } from '../types/memory'
+
+// Keyed object stores whose transactions complete once their requests ran
+function createIndexedDB() {
+  const stores = new Map<string, { keyPath: string; records: Map<string, any> }>()
+
+  const transaction = () => {
+    const tx: any = {}
+    const request = (run: () => unknown) => {
+      const req: any = {}
+      Promise.resolve().then(() => {
+        req.result = run()
+        req.onsuccess?.()
+      })
+      return req
+    }
+
+    tx.objectStore = (name: string) => {
+      const store = stores.get(name)!
+      return {
+        put: (value: any) => request(() => store.records.set(value[store.keyPath], { ...value })),
+        get: (key: string) => request(() => store.records.get(key)),
+        getAll: () => request(() => Array.from(store.records.values())),
+        delete: (key: string) => request(() => store.records.delete(key)),
+        clear: () => request(() => store.records.clear())
+      }
+    }
+    nextMacrotask(() => tx.oncomplete?.())
+    return tx
+  }
+
+  const db = {
+    objectStoreNames: { contains: (name: string) => stores.has(name) },
+    createObjectStore: (name: string, { keyPath }: { keyPath: string }) => {
+      stores.set(name, { keyPath, records: new Map() })
+      return { createIndex: () => {} }
+    },
+    transaction
+  }
+
+  return {
+    stores,
+    open: () => {
+      const req: any = {}
+      Promise.resolve().then(() => {
+        req.result = db
+        req.onupgradeneeded?.({ target: req })
+        req.onsuccess?.()
+      })
+      return req
+    }
+  }
+}
+
+async function waitFor(check: () => boolean): Promise<void> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (check()) return
+    await new Promise(resolve => nextMacrotask(resolve))
+  }
+  throw new Error('Timed out waiting for the memory repository')
+}
+
+function createMemory(id: string, title: string): Memory {
+  return {
+    id,
+    title,
+    content: `${title} story`,
+    memoryNote: '',
+    visibility: 'private',
+    fileType: 'text',
+    ipfsCid: '',
+    ipfsUrl: '',
+    ipfsGatewayUrl: '',
+    timestamp: Date.now(),
+    authorId: 'alice',
+    authorName: 'Alice',
+    tags: []
+  }
+}
+
+describe('local memory storage', () => {
+  let indexedDB: ReturnType<typeof createIndexedDB>
+  let LocalStorage: typeof import('../utils/storage').LocalStorage
+  let MemoryRepository: typeof import('../utils/memory-repository').MemoryRepository
+  let NotificationService: typeof import('../utils/notifications').NotificationService
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    const store: Record<string, string> = {}
+    Object.defineProperty(window, 'localStorage', {
+      value: {
+        getItem: (key: string) => store[key] ?? null,
+        setItem: (key: string, value: string) => { store[key] = value },
+        removeItem: (key: string) => { delete store[key] },
+        clear: () => Object.keys(store).forEach(key => delete store[key])
+      },
+      configurable: true
+    })
+    indexedDB = createIndexedDB()
+    Object.defineProperty(window, 'indexedDB', { value: indexedDB, configurable: true })
+
+    // Fresh static state for every test
+    jest.isolateModules(() => {
+      LocalStorage = require('../utils/storage').LocalStorage
+      MemoryRepository = require('../utils/memory-repository').MemoryRepository
+      NotificationService = require('../utils/notifications').NotificationService
+    })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should serve legacy memories while migrating and keep writes made meanwhile', async () => {
+    localStorage.setItem('etherith_memories', JSON.stringify([createMemory('porch', 'Porch')]))
+
+    const ready = LocalStorage.initialize()
+    expect(LocalStorage.getAllMemories().map(memory => memory.id)).toEqual(['porch'])
+    LocalStorage.saveMemory(createMemory('kitchen', 'Kitchen'))
+    expect(LocalStorage.getAllMemories().map(memory => memory.id)).toEqual(['porch', 'kitchen'])
+
+    await ready
+    expect(LocalStorage.isRepositoryReady()).toBe(true)
+    expect(localStorage.getItem('etherith_memories')).toBeNull()
+    expect(LocalStorage.getAllMemories().map(memory => memory.id).sort()).toEqual(['kitchen', 'porch'])
+
+    const records = indexedDB.stores.get('memories')!.records
+    await waitFor(() => records.has('kitchen'))
+    expect(Array.from(records.keys()).sort()).toEqual(['kitchen', 'porch'])
+  })
+
+  it('should apply deletes made while migrating', async () => {
+    localStorage.setItem('etherith_memories', JSON.stringify([createMemory('porch', 'Porch')]))
+
+    const ready = LocalStorage.initialize()
+    expect(LocalStorage.deleteMemory('porch')).toBe(true)
+    expect(LocalStorage.getAllMemories()).toEqual([])
+
+    await ready
+    expect(LocalStorage.getAllMemories()).toEqual([])
+    const records = indexedDB.stores.get('memories')!.records
+    await waitFor(() => !records.has('porch'))
+  })
+
+  it('should notify the user when a memory could not be written', async () => {
+    localStorage.setItem('etherith_user_profile', JSON.stringify({ id: 'alice', displayName: 'Alice' }))
+    await LocalStorage.initialize()
+    jest.spyOn(MemoryRepository, 'putMemory').mockRejectedValueOnce(new Error('Quota exceeded'))
+
+    LocalStorage.saveMemory(createMemory('porch', 'Porch'))
+    await waitFor(() => NotificationService.getAll().length > 0)
+
+    expect(NotificationService.getAll()[0]).toMatchObject({
+      userId: 'alice',
+      type: 'storage_error',
+      memoryId: 'porch',
+      message: 'Could not save "Porch" on this device: Quota exceeded'
+    })
+  })
+})
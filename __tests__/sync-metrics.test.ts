@@ -0,0 +1,49 @@
+import { SyncMetrics } from '../lib/dxos/utils/sync-metrics'
+
+describe('sync metrics', () => {
+  const key = (hex: string) => ({ toHex: () => hex })
+  const timeframe = (total: number) => ({
+    totalMessages: () => total,
+    newMessages: (base: { totalMessages: () => number }) => total - base.totalMessages()
+  })
+
+  it('should read peers, lag and traffic for a space from the client', () => {
+    const space = {
+      id: 'space-1',
+      key: key('aa'),
+      members: { get: () => [
+        { identity: { identityKey: key('me') }, presence: 1 },
+        { identity: { identityKey: key('alice') }, presence: 1 },
+        { identity: { identityKey: key('bob') }, presence: 0 }
+      ] },
+      pipeline: { get: () => ({ currentDataTimeframe: timeframe(7), targetDataTimeframe: timeframe(10) }) }
+    }
+    const networkStatus = {
+      connectionInfo: [
+        { topic: key('aa'), connections: [
+          { state: 'CONNECTED', remotePeerId: key('p1'), streams: [{ bytesSent: 100, bytesReceived: 300 }] },
+          { state: 'CLOSED', remotePeerId: key('p2'), streams: [{ bytesSent: 50, bytesReceived: 0 }] }
+        ] },
+        { topic: key('bb'), connections: [{ state: 'CONNECTED', remotePeerId: key('p3') }] }
+      ]
+    }
+
+    const metrics = SyncMetrics.fromSpace(space, networkStatus, 'me', 40)
+    expect(metrics).toMatchObject({
+      peersCount: 1,
+      onlineMembers: 1,
+      replicationLag: 3,
+      bytesSent: 150,
+      bytesReceived: 300,
+      latency: 40
+    })
+
+    const history = [
+      SyncMetrics.summarize([metrics], 1000),
+      SyncMetrics.summarize([{ ...metrics, bytesReceived: 2300, latency: undefined }], 3000)
+    ]
+    expect(history[0].networkLatency).toBe(40)
+    expect(SyncMetrics.throughput(history)).toEqual([{ timestamp: 3000, sent: 0, received: 1000 }])
+    expect(SyncMetrics.appendSample(history, history[1], 2)).toEqual([history[1], history[1]])
+  })
+})
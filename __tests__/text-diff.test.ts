@@ -0,0 +1,52 @@
+import { diffText, applyDiffOperations, mergeText } from '../utils/text-diff'
+
+describe('text diff and merge', () => {
+  const base = 'line one\nline two\nline three\nline four\n'
+
+  it('should produce minimal operations that rebuild the new text', () => {
+    const updated = 'line one\nline 2\nline three\nline four\nline five\n'
+    const operations = diffText(base, updated)
+
+    expect(operations).toEqual([
+      { type: 'replace', position: 14, content: '2', length: 3 },
+      { type: 'insert', position: base.length, content: 'line five\n' }
+    ])
+    expect(applyDiffOperations(base, operations)).toBe(updated)
+    expect(diffText(base, base)).toEqual([])
+  })
+
+  it('should replace the changed middle in one operation when the texts are too far apart', () => {
+    const lines = (prefix: string) => Array.from({ length: 3000 }, (_, i) => `${prefix} ${i}\n`).join('')
+    const before = `title\n${lines('old')}end\n`
+    const after = `title\n${lines('new')}end\n`
+
+    const operations = diffText(before, after)
+    expect(operations).toEqual([
+      { type: 'replace', position: 6, content: lines('new'), length: lines('old').length }
+    ])
+    expect(applyDiffOperations(before, operations)).toBe(after)
+  })
+
+  it('should merge edits to separate regions', () => {
+    const ours = base.replace('line one', 'line 1')
+    const theirs = base.replace('line four', 'line 4')
+
+    const result = mergeText(base, ours, theirs)
+    expect(result.conflicts).toEqual([])
+    expect(result.content).toBe('line 1\nline two\nline three\nline 4\n')
+  })
+
+  it('should report overlapping edits as conflicts', () => {
+    const result = mergeText(
+      base,
+      base.replace('line two', 'ours two'),
+      base.replace('line two', 'theirs two'),
+      { ours: 'v1', theirs: 'v2' }
+    )
+
+    expect(result.conflicts).toEqual([
+      { baseStart: 1, base: 'line two\n', ours: 'ours two\n', theirs: 'theirs two\n' }
+    ])
+    expect(result.content).toContain('<<<<<<< v1\nours two\n=======\ntheirs two\n>>>>>>> v2\n')
+  })
+})
@@ -0,0 +1,27 @@
+import { VectorIndex, cosineSimilarity } from '../utils/vector-index'
+import { LexiconAnalysisEngine } from '../utils/ai-analysis'
+
+describe('vector index', () => {
+  it('should rank documents by cosine similarity', () => {
+    const index = new VectorIndex()
+    index.add('garden', [1, 0, 0.1])
+    index.add('beach', [0, 1, 0.1])
+    index.add('empty', [0, 0, 0])
+
+    expect(index.size).toBe(2)
+    expect(index.search([2, 0, 0.2]).map(hit => hit.id)).toEqual(['garden', 'beach'])
+    expect(index.search([1, 0, 0.1], { minScore: 0.5 }).map(hit => hit.id)).toEqual(['garden'])
+    expect(index.search([1, 0, 0.1], { exclude: ['garden'], limit: 1 }).map(hit => hit.id)).toEqual(['beach'])
+    expect(() => index.add('short', [1, 0])).toThrow()
+  })
+
+  it('should embed without a model by hashing words', () => {
+    const garden = LexiconAnalysisEngine.embed("My grandmother's gardens")
+    const similar = LexiconAnalysisEngine.embed('The garden my grandmother planted')
+    const unrelated = LexiconAnalysisEngine.embed('Surfing at the beach')
+
+    expect(garden.model).toBe('lexicon-hash-256')
+    expect(cosineSimilarity(garden.vector, similar.vector)).toBeGreaterThan(0.5)
+    expect(cosineSimilarity(garden.vector, unrelated.vector)).toBeLessThan(0.2)
+  })
+})
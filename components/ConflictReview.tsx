@@ -0,0 +1,222 @@
+/**
+ * Conflict Review Component
+ * Lists sync conflicts awaiting a decision with side-by-side field diffs
+ */
+
+import React, { useState, useEffect } from 'react'
+import { useDXOS } from '../lib/dxos/context'
+import { SyncService, ConflictResolution } from '../lib/dxos/utils/sync'
+import { MergePolicies } from '../lib/dxos/utils/merge-policies'
+import { CryptoService } from '../utils/crypto'
+
+interface ConflictReviewProps {
+  onClose?: () => void
+}
+
+type FieldChoice = 'local' | 'remote' | 'edited'
+
+const cellStyle: React.CSSProperties = {
+  padding: '6px',
+  verticalAlign: 'top',
+  borderTop: '1px solid #333'
+}
+
+const valueStyle: React.CSSProperties = {
+  margin: 0,
+  fontFamily: 'monospace',
+  fontSize: '0.75rem',
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-word',
+  maxHeight: '160px',
+  overflow: 'auto'
+}
+
+const formatValue = (value: any): string =>
+  value === undefined ? '—' : typeof value === 'string' ? value : JSON.stringify(value, null, 2)
+
+const differs = (a: any, b: any) => CryptoService.canonicalJSON(a) !== CryptoService.canonicalJSON(b)
+
+export const ConflictReview: React.FC<ConflictReviewProps> = ({ onClose }) => {
+  const { client, identity, spaces } = useDXOS()
+  const [conflicts, setConflicts] = useState<ConflictResolution[]>(SyncService.getPendingConflicts())
+  const [choices, setChoices] = useState<Record<string, Record<string, FieldChoice>>>({})
+  const [edits, setEdits] = useState<Record<string, Record<string, string>>>({})
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => SyncService.subscribeSyncStatus(() => {
+    setConflicts(SyncService.getPendingConflicts())
+  }), [])
+
+  const setChoice = (conflictId: string, field: string, choice: FieldChoice) => {
+    setChoices(prev => ({ ...prev, [conflictId]: { ...prev[conflictId], [field]: choice } }))
+  }
+
+  const setEdit = (conflictId: string, field: string, value: string) => {
+    setEdits(prev => ({ ...prev, [conflictId]: { ...prev[conflictId], [field]: value } }))
+    setChoice(conflictId, field, 'edited')
+  }
+
+  // Write the chosen version back to the object in its space
+  const applyToSpace = async (conflict: ConflictResolution, version: any) => {
+    const space = conflict.spaceId ? spaces.find(s => s.id === conflict.spaceId) : undefined
+    if (!client || !space) throw new Error('The space this conflict belongs to is not open')
+    if (!version) return
+
+    const objects: any[] = space.db.query({ type: conflict.objectType }).run() || []
+    const object = objects.find(o => o.id === conflict.objectId)
+    if (!object) return
+
+    const { id, type, ...changes } = version
+    await client.updateObject(space, object, changes)
+  }
+
+  const resolve = async (conflict: ConflictResolution, resolution: 'local' | 'remote' | 'merge') => {
+    setError(null)
+
+    let customVersion: any
+    if (resolution === 'merge') {
+      const fieldConflicts = conflict.fieldConflicts || []
+      customVersion = { ...conflict.mergedVersion }
+      fieldConflicts.forEach(({ field, local, remote }) => {
+        const choice = choices[conflict.id]?.[field]
+        customVersion[field] = choice === 'remote' ? remote : choice === 'edited' ? edits[conflict.id]?.[field] : local
+      })
+    }
+
+    if (!SyncService.getPendingConflicts().some(pending => pending.id === conflict.id)) {
+      setError('This conflict was already resolved')
+      setConflicts(SyncService.getPendingConflicts())
+      return
+    }
+
+    // The conflict stays queued until the chosen version is saved
+    try {
+      await applyToSpace(conflict, SyncService.getResolvedVersion(conflict, resolution, customVersion))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the resolved version')
+      return
+    }
+
+    SyncService.resolveConflict(conflict.id, resolution, customVersion, identity?.id)
+    console.log('⚖️ Resolved conflict:', conflict.objectId, resolution)
+    setConflicts(SyncService.getPendingConflicts())
+  }
+
+  const renderConflict = (conflict: ConflictResolution) => {
+    const { localVersion, remoteVersion, mergedVersion } = conflict
+    const conflicting = new Map((conflict.fieldConflicts || []).map(fieldConflict => [fieldConflict.field, fieldConflict]))
+    const fields = Array.from(new Set([...Object.keys(localVersion || {}), ...Object.keys(remoteVersion || {})]))
+      .filter(field => differs(localVersion?.[field], remoteVersion?.[field]))
+    const undecided = Array.from(conflicting.keys()).filter(field => !choices[conflict.id]?.[field])
+
+    return (
+      <div key={conflict.id} className="debug-section">
+        <h3>
+          {conflict.objectType || 'object'} · {conflict.objectId}
+        </h3>
+        <div style={{ fontSize: '0.8rem', color: '#888', marginBottom: '8px' }}>
+          Detected {new Date(conflict.timestamp).toLocaleString()}
+          {conflict.baseVersion ? '' : ' · no common ancestor, newer version wins for plain fields'}
+        </div>
+
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.8rem' }}>
+          <thead>
+            <tr style={{ textAlign: 'left' }}>
+              <th style={{ width: '15%' }}>Field</th>
+              <th style={{ width: '35%' }}>This device</th>
+              <th style={{ width: '35%' }}>Remote</th>
+              <th style={{ width: '15%' }}>Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map(field => {
+              const fieldConflict = conflicting.get(field)
+              const choice = choices[conflict.id]?.[field]
+
+              return (
+                <tr key={field} style={{ background: fieldConflict ? 'rgba(255, 152, 0, 0.08)' : undefined }}>
+                  <td style={cellStyle}>
+                    <strong>{field}</strong>
+                    <div style={{ color: '#888' }}>{MergePolicies.getStrategy(conflict.objectType, field)}</div>
+                  </td>
+                  <td style={cellStyle}>
+                    <pre style={valueStyle}>{formatValue(localVersion?.[field])}</pre>
+                  </td>
+                  <td style={cellStyle}>
+                    <pre style={valueStyle}>{formatValue(remoteVersion?.[field])}</pre>
+                  </td>
+                  <td style={cellStyle}>
+                    {fieldConflict ? (
+                      <>
+                        <label style={{ display: 'block' }}>
+                          <input
+                            type="radio"
+                            checked={choice === 'local'}
+                            onChange={() => setChoice(conflict.id, field, 'local')}
+                          /> This device
+                        </label>
+                        <label style={{ display: 'block' }}>
+                          <input
+                            type="radio"
+                            checked={choice === 'remote'}
+                            onChange={() => setChoice(conflict.id, field, 'remote')}
+                          /> Remote
+                        </label>
+                        {typeof fieldConflict.local === 'string' && (
+                          <textarea
+                            value={edits[conflict.id]?.[field] ?? fieldConflict.suggestion ?? fieldConflict.local}
+                            onChange={(e) => setEdit(conflict.id, field, e.target.value)}
+                            rows={4}
+                            style={{ width: '100%', fontFamily: 'monospace', fontSize: '0.75rem' }}
+                            aria-label={`Edit merged ${field}`}
+                          />
+                        )}
+                      </>
+                    ) : (
+                      <pre style={valueStyle}>{formatValue(mergedVersion?.[field])}</pre>
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+
+        <div style={{ display: 'flex', gap: '8px', marginTop: '10px' }}>
+          <button className="debug-btn" onClick={() => resolve(conflict, 'local')}>Keep this device</button>
+          <button className="debug-btn" onClick={() => resolve(conflict, 'remote')}>Keep remote</button>
+          <button
+            className="debug-btn primary"
+            onClick={() => resolve(conflict, 'merge')}
+            disabled={undecided.length > 0}
+            title={undecided.length > 0 ? `Choose a value for ${undecided.join(', ')}` : undefined}
+          >
+            Apply merge
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="online-users-debug-overlay">
+      <div className="online-users-debug-modal">
+        <div className="debug-header">
+          <h2>⚖️ Sync Conflicts ({conflicts.length})</h2>
+          <button onClick={onClose} className="close-button">×</button>
+        </div>
+
+        <div className="debug-content">
+          {error && <div style={{ color: '#f44336', marginBottom: '10px' }}>{error}</div>}
+          {conflicts.length === 0 ? (
+            <div style={{ color: '#666', textAlign: 'center', padding: '20px' }}>
+              No conflicts waiting for review.
+            </div>
+          ) : (
+            conflicts.map(renderConflict)
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
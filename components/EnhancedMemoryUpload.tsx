@@ -4,6 +4,7 @@ import { Memory, MemoryUpload } from '../types/memory'
 import { LocalStorage } from '../utils/storage'
 import { IPFSService } from '../utils/ipfs'
 import { AIAnalysisService } from '../utils/ai-analysis'
+import { MediaMetadataService } from '../utils/media-metadata'
 import { VisibilityStep } from './VisibilityStep'
 import { VisibilityIndicator } from './VisibilityIndicator'
 import { getNetworkDiscovery } from '../utils/network-discovery'
@@ -268,16 +269,18 @@ export const EnhancedMemoryUpload: React.FC<EnhancedMemoryUploadProps> = ({
         authorName: localUserProfile.displayName,
         authorAvatar: localUserProfile.avatar,
         authorContact: localUserProfile.contactLink,
-        tags: memoryData.tags
+        tags: memoryData.tags,
+        embedding: aiAnalysis?.embedding || undefined,
+        ...(await MediaMetadataService.memoryFields(selectedFile || undefined, aiAnalysis))
       }
 
       setUploadProgress(25)
 
-      // Handle file upload if present
-      if (selectedFile) {
-        // Convert file to base64 for local storage
-        const base64Data = await fileToBase64(selectedFile)
-        memory.fileData = base64Data
+      // Small files are kept on this device as base64; large ones only go
+      // through the chunked upload below, encrypted when private
+      const largeFile = selectedFile && IPFSService.usesChunkedUpload(selectedFile) ? selectedFile : null
+      if (selectedFile && !largeFile) {
+        memory.fileData = await fileToBase64(selectedFile)
       }
 
       setUploadProgress(50)
@@ -301,6 +304,9 @@ export const EnhancedMemoryUpload: React.FC<EnhancedMemoryUploadProps> = ({
               authorName: memory.authorName,
               fileType: memory.fileType,
               tags: memory.tags
+            }, progress => {
+              // Map the IPFS transfer onto the 50-75% band of the overall progress
+              setUploadProgress(50 + Math.round(25 * progress.uploadedBytes / progress.totalBytes))
             })
           } else {
             console.log('📝 [DEBUG] Uploading text content to IPFS')
@@ -335,9 +341,24 @@ export const EnhancedMemoryUpload: React.FC<EnhancedMemoryUploadProps> = ({
 
           setUploadProgress(75)
         } catch (ipfsError) {
+          // A large file is not kept locally, so without IPFS it would be lost
+          if (largeFile) throw ipfsError
           console.warn('❌ [DEBUG] IPFS upload failed, continuing with local save:', ipfsError)
           // Continue with local save even if IPFS fails
         }
+      } else if (largeFile) {
+        console.log('🔒 [DEBUG] Private memory too large for local storage - uploading encrypted')
+        const ipfsResult = await IPFSService.uploadEncryptedFileToIPFS(largeFile, localUserProfile.id, progress => {
+          setUploadProgress(50 + Math.round(25 * progress.uploadedBytes / progress.totalBytes))
+        })
+
+        memory.ipfsCid = ipfsResult.cid
+        memory.ipfsUrl = IPFSService.getIPFSUrl(ipfsResult.cid)
+        memory.ipfsGatewayUrl = IPFSService.getIPFSGatewayUrl(ipfsResult.cid)
+        memory.encrypted = true
+        memory.encryptionKeyId = ipfsResult.encryptionKeyId
+
+        setUploadProgress(75)
       } else {
         console.log('🔒 [DEBUG] Private memory - skipping IPFS upload')
       }
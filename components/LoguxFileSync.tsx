@@ -3,7 +3,7 @@
  * Provides UI for shared file management with real-time collaboration
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useLoguxFileSync } from '../hooks/useLoguxFileSync';
 import {
@@ -11,7 +11,26 @@ import {
   FileConflict,
   FilePermissions,
   ConflictResolution,
+  CollaborativeField,
+  CursorPosition,
+  UserPresence,
+  FileVersionRecord,
 } from '../types/logux-file-sync';
+import { diffText, diffSequences, mapOffset, splitLines } from '../utils/text-diff';
+
+// Colours for other editors' cursors and selections
+const CURSOR_COLORS = ['#F59E0B', '#10B981', '#EC4899', '#3B82F6', '#8B5CF6'];
+
+// Unchanged lines shown around each change in a version diff
+const DIFF_CONTEXT_LINES = 3;
+
+const VERSION_OPERATION_ICONS: Record<FileVersionRecord['operation'], string> = {
+  create: '🆕',
+  update: '✏️',
+  merge: '🔀',
+  restore: '⏪',
+  text: '⌨️',
+};
 
 interface LoguxFileSyncProps {
   userId: string;
@@ -42,8 +61,14 @@ export default function LoguxFileSync({
     deleteFile,
     moveFile,
     getFile,
+    getVersionHistory,
+    restoreVersion,
     getFilePresence,
     updatePresence,
+    openDocument,
+    editText,
+    updateCursor,
+    resolveCursor,
     resolveConflict,
     refreshSync,
     exportFiles,
@@ -138,6 +163,40 @@ export default function LoguxFileSync({
     }
   }, [updateFile]);
 
+  // Collaborative editing needs no lock: open the shared document and edit live
+  const handleStartEdit = useCallback(async (fileId: string) => {
+    try {
+      await openDocument(fileId);
+      setEditingFileId(fileId);
+    } catch (error) {
+      console.error('Failed to open file for editing:', error);
+      alert('Failed to open file for editing. Please try again.');
+    }
+  }, [openDocument]);
+
+  const handleEditText = useCallback(async (
+    fileId: string,
+    field: CollaborativeField,
+    text: string
+  ) => {
+    try {
+      await editText(fileId, field, text);
+    } catch (error) {
+      console.error('Failed to edit file:', error);
+    }
+  }, [editText]);
+
+  const handleRestoreVersion = useCallback(async (fileId: string, version: string) => {
+    if (!confirm('Restore this version? It will be saved as a new version.')) return;
+
+    try {
+      await restoreVersion(fileId, version);
+    } catch (error) {
+      console.error('Failed to restore version:', error);
+      alert('Failed to restore version. Please try again.');
+    }
+  }, [restoreVersion]);
+
   // Handle conflict resolution
   const handleResolveConflict = useCallback(async (
     conflict: FileConflict,
@@ -328,9 +387,13 @@ export default function LoguxFileSync({
             <FileDetailPanel
               file={selectedFile}
               isEditing={editingFileId === selectedFile.id}
-              onStartEdit={() => setEditingFileId(selectedFile.id)}
-              onSaveEdit={(content) => handleEditFile(selectedFile.id, content)}
-              onCancelEdit={() => setEditingFileId(null)}
+              onStartEdit={() => handleStartEdit(selectedFile.id)}
+              onStopEdit={() => setEditingFileId(null)}
+              onEditText={(field, text) => handleEditText(selectedFile.id, field, text)}
+              onCursorChange={(field, start, end) => updateCursor(selectedFile.id, field, start, end)}
+              resolveCursor={(field, position) => resolveCursor(selectedFile.id, field, position)}
+              getVersionHistory={getVersionHistory}
+              onRestoreVersion={handleRestoreVersion}
               presence={getFilePresence(selectedFile.id)}
               showPresence={showPresence && showCollaboration}
               currentUserId={userId}
@@ -521,9 +584,13 @@ interface FileDetailPanelProps {
   file: SyncedFile;
   isEditing: boolean;
   onStartEdit: () => void;
-  onSaveEdit: (content: string) => Promise<void>;
-  onCancelEdit: () => void;
-  presence: any[];
+  onStopEdit: () => void;
+  onEditText: (field: CollaborativeField, text: string) => Promise<void>;
+  onCursorChange: (field: CollaborativeField, selectionStart: number, selectionEnd: number) => Promise<void>;
+  resolveCursor: (field: CollaborativeField, position: CursorPosition) => number;
+  getVersionHistory: (fileId: string) => Promise<FileVersionRecord[]>;
+  onRestoreVersion: (fileId: string, version: string) => Promise<void>;
+  presence: UserPresence[];
   showPresence: boolean;
   currentUserId: string;
 }
@@ -532,21 +599,21 @@ function FileDetailPanel({
   file,
   isEditing,
   onStartEdit,
-  onSaveEdit,
-  onCancelEdit,
+  onStopEdit,
+  onEditText,
+  onCursorChange,
+  resolveCursor,
+  getVersionHistory,
+  onRestoreVersion,
   presence,
   showPresence,
   currentUserId,
 }: FileDetailPanelProps) {
-  const [editContent, setEditContent] = useState(file.content);
-
-  useEffect(() => {
-    setEditContent(file.content);
-  }, [file.content]);
+  const [showHistory, setShowHistory] = useState(false);
 
-  const handleSave = async () => {
-    await onSaveEdit(editContent);
-  };
+  const remotePresence = showPresence
+    ? presence.filter(user => user.userId !== currentUserId)
+    : [];
 
   const canEdit = file.permissions.owner === currentUserId ||
                   file.permissions.writers.includes(currentUserId);
@@ -557,20 +624,21 @@ function FileDetailPanel({
       <div className="detail-header">
         <h3>{file.name}</h3>
         <div className="detail-actions">
+          <button
+            className={`btn-history ${showHistory ? 'active' : ''}`}
+            onClick={() => setShowHistory(!showHistory)}
+          >
+            History
+          </button>
           {canEdit && !isEditing && (
             <button className="btn-edit" onClick={onStartEdit}>
               Edit
             </button>
           )}
           {isEditing && (
-            <>
-              <button className="btn-save" onClick={handleSave}>
-                Save
-              </button>
-              <button className="btn-cancel" onClick={onCancelEdit}>
-                Cancel
-              </button>
-            </>
+            <button className="btn-save" onClick={onStopEdit}>
+              Done
+            </button>
           )}
         </div>
       </div>
@@ -594,17 +662,50 @@ function FileDetailPanel({
       {/* File Content */}
       <div className="detail-content">
         {isEditing ? (
-          <textarea
-            value={editContent}
-            onChange={(e) => setEditContent(e.target.value)}
-            className="content-editor"
-            rows={20}
-          />
+          <>
+            <CollaborativeEditor
+              field="content"
+              value={file.content}
+              rows={20}
+              remotePresence={remotePresence}
+              onEditText={onEditText}
+              onCursorChange={onCursorChange}
+              resolveCursor={resolveCursor}
+            />
+            <h4 className="memory-note-label">Memory Note</h4>
+            <CollaborativeEditor
+              field="memoryNote"
+              value={file.memoryNote || ''}
+              rows={6}
+              remotePresence={remotePresence}
+              onEditText={onEditText}
+              onCursorChange={onCursorChange}
+              resolveCursor={resolveCursor}
+            />
+          </>
         ) : (
-          <pre className="content-viewer">{file.content}</pre>
+          <>
+            <pre className="content-viewer">{file.content}</pre>
+            {file.memoryNote && (
+              <>
+                <h4 className="memory-note-label">Memory Note</h4>
+                <pre className="content-viewer">{file.memoryNote}</pre>
+              </>
+            )}
+          </>
         )}
       </div>
 
+      {/* Version History */}
+      {showHistory && (
+        <VersionHistoryPanel
+          file={file}
+          canRestore={canEdit}
+          getVersionHistory={getVersionHistory}
+          onRestoreVersion={onRestoreVersion}
+        />
+      )}
+
       {/* File Metadata */}
       <div className="detail-metadata">
         <h4>File Information</h4>
@@ -635,6 +736,295 @@ function FileDetailPanel({
   );
 }
 
+// Collaborative Editor Component
+interface CollaborativeEditorProps {
+  field: CollaborativeField;
+  value: string;
+  rows: number;
+  remotePresence: UserPresence[];
+  onEditText: (field: CollaborativeField, text: string) => Promise<void>;
+  onCursorChange: (field: CollaborativeField, selectionStart: number, selectionEnd: number) => Promise<void>;
+  resolveCursor: (field: CollaborativeField, position: CursorPosition) => number;
+}
+
+function CollaborativeEditor({
+  field,
+  value,
+  rows,
+  remotePresence,
+  onEditText,
+  onCursorChange,
+  resolveCursor,
+}: CollaborativeEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const textRef = useRef(value);
+  const pendingSelection = useRef<[number, number] | null>(null);
+  const [text, setText] = useState(value);
+
+  // Remote edits replace the text; keep the local caret on the same character
+  useLayoutEffect(() => {
+    if (value === textRef.current) return;
+
+    const textarea = textareaRef.current;
+    if (textarea && document.activeElement === textarea) {
+      const operations = diffText(textRef.current, value);
+      pendingSelection.current = [
+        mapOffset(textarea.selectionStart, operations),
+        mapOffset(textarea.selectionEnd, operations),
+      ];
+    }
+
+    textRef.current = value;
+    setText(value);
+  }, [value]);
+
+  useLayoutEffect(() => {
+    if (pendingSelection.current && textareaRef.current) {
+      textareaRef.current.setSelectionRange(...pendingSelection.current);
+      pendingSelection.current = null;
+    }
+  }, [text]);
+
+  const handleChange = (event: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const { value: nextText, selectionStart, selectionEnd } = event.target;
+    textRef.current = nextText;
+    setText(nextText);
+    onEditText(field, nextText);
+    onCursorChange(field, selectionStart, selectionEnd);
+  };
+
+  const handleSelect = (event: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd } = event.currentTarget;
+    onCursorChange(field, selectionStart, selectionEnd);
+  };
+
+  const handleScroll = (event: React.UIEvent<HTMLTextAreaElement>) => {
+    if (overlayRef.current) {
+      overlayRef.current.scrollTop = event.currentTarget.scrollTop;
+    }
+  };
+
+  const cursors = remotePresence
+    .filter(user => user.field === field && user.cursor)
+    .map((user, index) => {
+      const caret = resolveCursor(field, user.cursor!);
+      const anchor = user.selection ? resolveCursor(field, user.selection.start) : caret;
+      return {
+        user,
+        caret,
+        start: Math.min(anchor, caret),
+        end: Math.max(anchor, caret),
+        color: CURSOR_COLORS[index % CURSOR_COLORS.length],
+      };
+    });
+
+  return (
+    <div className="collaborative-editor">
+      <textarea
+        ref={textareaRef}
+        value={text}
+        onChange={handleChange}
+        onSelect={handleSelect}
+        onScroll={handleScroll}
+        className="content-editor"
+        rows={rows}
+      />
+
+      {/* Other editors' cursors, drawn over transparent copies of the text */}
+      <div className="remote-cursors" ref={overlayRef} aria-hidden="true">
+        {cursors.map(({ user, caret, start, end, color }) => {
+          const caretMarker = (
+            <span
+              className="remote-caret"
+              style={{ borderColor: color }}
+              data-name={user.userName}
+            />
+          );
+
+          return (
+            <div key={user.userId} className="remote-cursor-layer">
+              {text.slice(0, start)}
+              {caret === start && caretMarker}
+              <mark style={{ backgroundColor: `${color}33` }}>{text.slice(start, end)}</mark>
+              {caret !== start && caretMarker}
+              {text.slice(end)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// Version History Component
+interface VersionHistoryPanelProps {
+  file: SyncedFile;
+  canRestore: boolean;
+  getVersionHistory: (fileId: string) => Promise<FileVersionRecord[]>;
+  onRestoreVersion: (fileId: string, version: string) => Promise<void>;
+}
+
+function VersionHistoryPanel({
+  file,
+  canRestore,
+  getVersionHistory,
+  onRestoreVersion,
+}: VersionHistoryPanelProps) {
+  const [versions, setVersions] = useState<FileVersionRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [compared, setCompared] = useState<string[]>([]);
+
+  // Reload whenever the file moves to a new version
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+
+    getVersionHistory(file.id)
+      .then(history => {
+        if (!cancelled) setVersions(history);
+      })
+      .catch(error => console.error('Failed to load version history:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file.id, file.version, getVersionHistory]);
+
+  // Keep at most two versions selected, dropping the oldest selection
+  const toggleCompared = (version: string) => {
+    setCompared(previous => previous.includes(version)
+      ? previous.filter(v => v !== version)
+      : [...previous, version].slice(-2));
+  };
+
+  const [older, newer] = versions
+    .filter(record => compared.includes(record.version))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  return (
+    <div className="version-history">
+      <h4>Version History</h4>
+
+      {isLoading && versions.length === 0 ? (
+        <p className="version-history-empty">Loading versions...</p>
+      ) : versions.length === 0 ? (
+        <p className="version-history-empty">No earlier versions are stored for this file.</p>
+      ) : (
+        <>
+          <p className="version-history-hint">Select two versions to compare them.</p>
+          <ul className="version-list">
+            {versions.map((record) => {
+              const isCurrent = record.version === file.version;
+
+              return (
+                <li key={record.id} className={`version-item ${isCurrent ? 'current' : ''}`}>
+                  <label className="version-select">
+                    <input
+                      type="checkbox"
+                      checked={compared.includes(record.version)}
+                      onChange={() => toggleCompared(record.version)}
+                    />
+                    <span className="version-operation" title={record.operation}>
+                      {VERSION_OPERATION_ICONS[record.operation]}
+                    </span>
+                    <span className="version-id">{record.version.slice(0, 14)}</span>
+                  </label>
+                  <div className="version-meta">
+                    <span className="author">by {record.authorId}</span>
+                    <span className="time">{formatDate(record.timestamp)}</span>
+                    <span className="size">{formatFileSize(record.size)}</span>
+                  </div>
+                  {isCurrent ? (
+                    <span className="version-current">Current</span>
+                  ) : canRestore && (
+                    <button
+                      className="btn-restore"
+                      onClick={() => onRestoreVersion(file.id, record.version)}
+                    >
+                      Restore
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+
+      {older && newer && (
+        <div className="version-diff">
+          <div className="version-diff-header">
+            {older.version.slice(0, 14)} → {newer.version.slice(0, 14)}
+          </div>
+          <VersionDiff oldText={older.content} newText={newer.content} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface DiffRow {
+  type: 'context' | 'added' | 'removed' | 'skipped';
+  text: string;
+}
+
+// Unified line diff with a few unchanged lines around each change
+function buildDiffRows(oldText: string, newText: string): DiffRow[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const hunks = diffSequences(oldLines, newLines);
+  const rows: DiffRow[] = [];
+
+  const addContext = (from: number, to: number, afterChange: boolean, beforeChange: boolean) => {
+    const head = afterChange ? Math.min(to, from + DIFF_CONTEXT_LINES) : from;
+    const tail = beforeChange ? Math.max(head, to - DIFF_CONTEXT_LINES) : to;
+
+    oldLines.slice(from, head).forEach(line => rows.push({ type: 'context', text: line }));
+    if (tail > head) rows.push({ type: 'skipped', text: `${tail - head} unchanged lines` });
+    oldLines.slice(tail, to).forEach(line => rows.push({ type: 'context', text: line }));
+  };
+
+  let cursor = 0;
+  hunks.forEach((hunk, index) => {
+    addContext(cursor, hunk.oldStart, index > 0, true);
+    oldLines.slice(hunk.oldStart, hunk.oldEnd).forEach(line => rows.push({ type: 'removed', text: line }));
+    newLines.slice(hunk.newStart, hunk.newEnd).forEach(line => rows.push({ type: 'added', text: line }));
+    cursor = hunk.oldEnd;
+  });
+  if (hunks.length > 0) addContext(cursor, oldLines.length, true, false);
+
+  return rows;
+}
+
+const DIFF_PREFIXES: Record<DiffRow['type'], string> = {
+  context: '  ',
+  added: '+ ',
+  removed: '- ',
+  skipped: '… ',
+};
+
+function VersionDiff({ oldText, newText }: { oldText: string; newText: string }) {
+  const rows = buildDiffRows(oldText, newText);
+
+  if (rows.length === 0) {
+    return <p className="version-history-empty">These versions have the same content.</p>;
+  }
+
+  return (
+    <pre className="diff-rows">
+      {rows.map((row, index) => (
+        <div key={index} className={`diff-row ${row.type}`}>
+          {DIFF_PREFIXES[row.type]}{row.text.replace(/\n$/, '')}
+        </div>
+      ))}
+    </pre>
+  );
+}
+
 // Conflicts List Component
 interface ConflictsListProps {
   conflicts: FileConflict[];
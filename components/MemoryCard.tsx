@@ -3,6 +3,7 @@ import { useSession } from 'next-auth/react'
 import { Memory, MemoryReaction, MemoryComment } from '../types/memory'
 import { IPFSService } from '../utils/ipfs'
 import { LocalStorage } from '../utils/storage'
+import { MediaMetadataService } from '../utils/media-metadata'
 
 interface MemoryCardProps {
   memory: Memory
@@ -159,6 +160,9 @@ export default function MemoryCard({ memory, onView, onDelete, showAuthor = true
     })
   }
 
+  // Photos sit on the timeline at the date they were taken
+  const timelineDate = MediaMetadataService.getTimelineDate(memory)
+
   const getFileIcon = (fileType: string) => {
     switch (fileType) {
       case 'image': return '🖼️'
@@ -232,8 +236,8 @@ export default function MemoryCard({ memory, onView, onDelete, showAuthor = true
             <div className="author-info">
               <div className="author-name">{memory.authorName}</div>
               <div className="post-meta">
-                <time className="timestamp" dateTime={new Date(memory.timestamp).toISOString()}>
-                  {formatDate(memory.timestamp)}
+                <time className="timestamp" dateTime={new Date(timelineDate).toISOString()}>
+                  {formatDate(timelineDate)}
                 </time>
                 <span className="separator" aria-hidden="true">•</span>
                 <span className="file-type">
@@ -277,8 +281,8 @@ export default function MemoryCard({ memory, onView, onDelete, showAuthor = true
                 <span aria-hidden="true">{getFileIcon(memory.fileType)}</span>
                 <span className="sr-only">{memory.fileType} file</span>
               </span>
-              <time className="timestamp" dateTime={new Date(memory.timestamp).toISOString()}>
-                {formatDate(memory.timestamp)}
+              <time className="timestamp" dateTime={new Date(timelineDate).toISOString()}>
+                {formatDate(timelineDate)}
               </time>
             </div>
           )}
@@ -3,6 +3,7 @@ import { MemoryUpload } from '../types/memory'
 import { IPFSService, IPFSSimulator } from '../utils/ipfs'
 import { LocalStorage } from '../utils/storage'
 import { AIAnalysisService } from '../utils/ai-analysis'
+import { MediaMetadataService } from '../utils/media-metadata'
 import { AIAnalysis } from '../types/ai-analysis'
 
 interface MemoryUploadProps {
@@ -27,6 +28,7 @@ export default function MemoryUploadComponent({ onUploadComplete, onClose }: Mem
   const [useAI, setUseAI] = useState(true)
   const [currentStep, setCurrentStep] = useState(1)
   const [filePreview, setFilePreview] = useState<string | null>(null)
+  const [allowLocation, setAllowLocation] = useState(() => MediaMetadataService.hasLocationConsent())
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   const totalSteps = 4
@@ -121,7 +123,7 @@ export default function MemoryUploadComponent({ onUploadComplete, onClose }: Mem
         })
       }, 300)
 
-      let ipfsResult
+      let ipfsResult: { cid: string; encryptionKeyId?: string }
       let fileData: string | undefined = ''
       let fileName = ''
       let fileSize = 0
@@ -136,10 +138,15 @@ export default function MemoryUploadComponent({ onUploadComplete, onClose }: Mem
         tags: upload.tags || []
       }
 
+      // Private memories are encrypted on this device before pinning
+      const encrypt = upload.visibility === 'private'
+
       if (upload.file) {
-        setUploadStage('Uploading file to IPFS...')
+        setUploadStage(encrypt ? 'Encrypting and uploading file to IPFS...' : 'Uploading file to IPFS...')
         // Upload file to IPFS via Pinata
-        ipfsResult = await IPFSService.uploadFileToIPFS(upload.file, metadata)
+        ipfsResult = encrypt
+          ? await IPFSService.uploadEncryptedFileToIPFS(upload.file, userProfile.id)
+          : await IPFSService.uploadFileToIPFS(upload.file, metadata)
         
         setUploadStage('Processing file data...')
         // Only store base64 for small files (< 1MB) to avoid localStorage quota issues
@@ -159,9 +166,11 @@ export default function MemoryUploadComponent({ onUploadComplete, onClose }: Mem
         fileSize = upload.file.size
         mimeType = upload.file.type
       } else {
-        setUploadStage('Uploading text to IPFS...')
+        setUploadStage(encrypt ? 'Encrypting and uploading text to IPFS...' : 'Uploading text to IPFS...')
         // Upload text content to IPFS via Pinata
-        ipfsResult = await IPFSService.uploadToIPFS(upload.content, metadata)
+        ipfsResult = encrypt
+          ? await IPFSService.uploadEncryptedTextToIPFS(upload.content, userProfile.id)
+          : await IPFSService.uploadToIPFS(upload.content, metadata)
       }
 
       clearInterval(progressInterval)
@@ -183,12 +192,16 @@ export default function MemoryUploadComponent({ onUploadComplete, onClose }: Mem
         ipfsCid: ipfsResult.cid,
         ipfsUrl: IPFSService.getIPFSUrl(ipfsResult.cid),
         ipfsGatewayUrl: IPFSService.getIPFSGatewayUrl(ipfsResult.cid),
+        encrypted: encrypt,
+        encryptionKeyId: ipfsResult.encryptionKeyId,
         timestamp: Date.now(),
         authorId: userProfile.id,
         authorName: userProfile.displayName,
         authorAvatar: userProfile.avatar,
         authorContact: userProfile.contactLink,
-        tags: upload.tags || []
+        tags: upload.tags || [],
+        embedding: aiAnalysis?.embedding || undefined,
+        ...(await MediaMetadataService.memoryFields(upload.file, aiAnalysis))
       }
 
       // Save to local storage
@@ -406,6 +419,19 @@ export default function MemoryUploadComponent({ onUploadComplete, onClose }: Mem
                         Remove
                       </button>
                     </div>
+                    {upload.file.type.startsWith('image/') && (
+                      <label className="location-consent">
+                        <input
+                          type="checkbox"
+                          checked={allowLocation}
+                          onChange={(e) => {
+                            MediaMetadataService.setLocationConsent(e.target.checked)
+                            setAllowLocation(e.target.checked)
+                          }}
+                        />
+                        Keep where my photos were taken (GPS from the camera)
+                      </label>
+                    )}
                   </div>
                 )}
               </div>
@@ -497,6 +523,34 @@ export default function MemoryUploadComponent({ onUploadComplete, onClose }: Mem
                         <label>Suggested Memory Note:</label>
                         <div className="suggestion-value">{aiAnalysis.memoryNote}</div>
                       </div>
+
+                      {aiAnalysis.media?.caption && (
+                        <div className="ai-suggestion">
+                          <label>In this photo:</label>
+                          <div className="suggestion-value">{aiAnalysis.media.caption}</div>
+                        </div>
+                      )}
+
+                      {aiAnalysis.media?.ocrText && (
+                        <div className="ai-suggestion">
+                          <label>Text in the image:</label>
+                          <div className="suggestion-value">{aiAnalysis.media.ocrText}</div>
+                        </div>
+                      )}
+
+                      {aiAnalysis.media?.transcript && (
+                        <div className="ai-suggestion">
+                          <label>Transcript:</label>
+                          <div className="suggestion-value">{aiAnalysis.media.transcript}</div>
+                        </div>
+                      )}
+
+                      {aiAnalysis.media?.exif && MediaMetadataService.describe(aiAnalysis.media.exif) && (
+                        <div className="ai-suggestion">
+                          <label>Photo details:</label>
+                          <div className="suggestion-value">{MediaMetadataService.describe(aiAnalysis.media.exif)}</div>
+                        </div>
+                      )}
                     </div>
                   </div>
                 )}
@@ -1,25 +1,91 @@
 import { useState, useEffect } from 'react'
-import { Memory } from '../types/memory'
+import { Memory, ReplicationReport } from '../types/memory'
 import { IPFSService } from '../utils/ipfs'
+import { PreservationService } from '../utils/preservation'
+import { EncryptionService } from '../utils/encryption'
+import { MediaMetadataService } from '../utils/media-metadata'
+import { MemorySearchService, MemorySearchResult } from '../utils/memory-search'
 
 interface MemoryViewerProps {
   memory: Memory
   onClose: () => void
   onEdit?: (memory: Memory) => void
   onDelete?: (memory: Memory) => void
+  onSelectMemory?: (memory: Memory) => void // Open a related memory
   canEdit?: boolean
   canDelete?: boolean
 }
 
-export default function MemoryViewer({ memory, onClose, onEdit, onDelete, canEdit = false, canDelete = false }: MemoryViewerProps) {
+export default function MemoryViewer({ memory, onClose, onEdit, onDelete, onSelectMemory, canEdit = false, canDelete = false }: MemoryViewerProps) {
   const [isVerifying, setIsVerifying] = useState(false)
   const [verificationStatus, setVerificationStatus] = useState<{
     exists: boolean
     replicas: number
     lastSeen: number
+    decryptable?: boolean
+    decryptError?: string
   } | null>(null)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [hasVerified, setHasVerified] = useState(false)
+  const [decryptedUrl, setDecryptedUrl] = useState<string | null>(null)
+  const [isDecrypting, setIsDecrypting] = useState(false)
+  const [decryptError, setDecryptError] = useState<string | null>(null)
+  const [replication, setReplication] = useState<ReplicationReport | null>(memory.replication || null)
+  const [isRepairing, setIsRepairing] = useState(false)
+  const [related, setRelated] = useState<MemorySearchResult[]>([])
+
+  // Memories close in meaning, from this device and subscribed registries
+  useEffect(() => {
+    let cancelled = false
+    MemorySearchService.related(memory)
+      .then(results => {
+        if (!cancelled) setRelated(results)
+      })
+      .catch(error => console.warn('⚠️ Could not find related memories:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [memory])
+
+  // Encrypted memories without a local copy are fetched from IPFS and decrypted here
+  useEffect(() => {
+    const canDecrypt = (memory.encrypted && memory.encryptionKeyId) || memory.contentKey
+    if (!canDecrypt || !memory.ipfsCid || memory.fileData || memory.fileType === 'text') {
+      return
+    }
+
+    let cancelled = false
+    let objectUrl: string | null = null
+
+    setIsDecrypting(true)
+    setDecryptError(null)
+    const url = IPFSService.getIPFSGatewayUrl(memory.ipfsCid)
+    const decrypt = memory.contentKey
+      ? EncryptionService.fetchAndDecryptWithContentKey(url, memory.contentKey, memory.mimeType)
+      : EncryptionService.fetchAndDecrypt(url, memory.encryptionKeyId!, memory.mimeType)
+    decrypt
+      .then(blob => {
+        if (cancelled) return
+        objectUrl = URL.createObjectURL(blob)
+        setDecryptedUrl(objectUrl)
+      })
+      .catch(error => {
+        console.error('Decryption failed:', error)
+        if (!cancelled) {
+          setDecryptError(error instanceof Error ? error.message : 'Unable to decrypt content')
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsDecrypting(false)
+      })
+
+    return () => {
+      cancelled = true
+      if (objectUrl) URL.revokeObjectURL(objectUrl)
+      setDecryptedUrl(null)
+    }
+  }, [memory.encrypted, memory.encryptionKeyId, memory.contentKey, memory.ipfsCid, memory.fileData, memory.fileType, memory.mimeType])
 
   useEffect(() => {
     if (memory.ipfsCid && !memory.fileData) {
@@ -37,8 +103,21 @@ export default function MemoryViewer({ memory, onClose, onEdit, onDelete, canEdi
     setIsVerifying(true)
     setHasVerified(false)
     try {
-      const result = await IPFSService.verifyPreservation(memory.ipfsCid)
-      setVerificationStatus(result)
+      const report = await PreservationService.checkReplication(memory)
+      setReplication(report)
+      const result = IPFSService.summarizeReplication(report)
+
+      // A pinned ciphertext only counts as preserved for us if it still decrypts
+      if (result.exists && memory.encrypted && memory.encryptionKeyId) {
+        const decryption = await IPFSService.verifyEncryptedContent(
+          memory.ipfsCid,
+          memory.encryptionKeyId,
+          memory.fileType === 'text'
+        )
+        setVerificationStatus({ ...result, decryptable: decryption.decryptable, decryptError: decryption.error })
+      } else {
+        setVerificationStatus(result)
+      }
     } catch (error) {
       console.error('Verification failed:', error)
       setVerificationStatus({ exists: false, replicas: 0, lastSeen: 0 })
@@ -48,6 +127,21 @@ export default function MemoryViewer({ memory, onClose, onEdit, onDelete, canEdi
     }
   }
 
+  const handleRepairReplication = async () => {
+    if (!memory.ipfsCid) return
+
+    setIsRepairing(true)
+    try {
+      const report = await PreservationService.repairReplication(memory)
+      setReplication(report)
+      setVerificationStatus(prev => ({ ...prev, ...IPFSService.summarizeReplication(report) }))
+    } catch (error) {
+      console.error('Replica repair failed:', error)
+    } finally {
+      setIsRepairing(false)
+    }
+  }
+
   const handleDeleteClick = () => {
     setShowDeleteConfirm(true)
   }
@@ -73,6 +167,12 @@ export default function MemoryViewer({ memory, onClose, onEdit, onDelete, canEdi
     })
   }
 
+  const timelineDate = MediaMetadataService.getTimelineDate(memory)
+  const photoDetails = [
+    memory.camera,
+    memory.location ? `${memory.location.latitude.toFixed(4)}, ${memory.location.longitude.toFixed(4)}` : ''
+  ].filter(Boolean).join(' · ')
+
   const getFileIcon = (fileType: string) => {
     switch (fileType) {
       case 'image': return '🖼️'
@@ -95,11 +195,13 @@ export default function MemoryViewer({ memory, onClose, onEdit, onDelete, canEdi
 
     // Only show IPFS-related messages if we don't have local file data
     const needsIpfsLoading = !memory.fileData && memory.ipfsUrl
-    const showLoadingState = needsIpfsLoading && isVerifying && !hasVerified
-    const showErrorState = needsIpfsLoading && hasVerified && verificationStatus && !verificationStatus.exists
+    const showLoadingState = needsIpfsLoading && (isDecrypting || (isVerifying && !hasVerified))
+    const showErrorState = needsIpfsLoading && (!!decryptError || (hasVerified && verificationStatus && !verificationStatus.exists))
+    const loadingNotice = memory.encrypted ? '🔐 Decrypting from IPFS...' : `📦 Loading from IPFS - ${memory.ipfsUrl}`
+    const errorNotice = decryptError ? `🔒 Unable to decrypt: ${decryptError}` : '❌ Content not available on IPFS'
 
-    // Determine the source URL - prefer local data, fallback to IPFS
-    const mediaUrl = memory.fileData || memory.ipfsUrl
+    // Determine the source URL - prefer local data, fallback to IPFS (never the raw ciphertext)
+    const mediaUrl = memory.fileData || (memory.encrypted ? decryptedUrl || undefined : memory.ipfsUrl)
 
     if (memory.fileType === 'image') {
       return (
@@ -116,12 +218,12 @@ export default function MemoryViewer({ memory, onClose, onEdit, onDelete, canEdi
           />
           {showLoadingState && (
             <div className="ipfs-notice">
-              <small>📦 Loading from IPFS - {memory.ipfsUrl}</small>
+              <small>{loadingNotice}</small>
             </div>
           )}
           {showErrorState && (
             <div className="ipfs-error">
-              <small>❌ Content not available on IPFS</small>
+              <small>{errorNotice}</small>
             </div>
           )}
         </div>
@@ -137,12 +239,12 @@ export default function MemoryViewer({ memory, onClose, onEdit, onDelete, canEdi
           </video>
           {showLoadingState && (
             <div className="ipfs-notice">
-              <small>📦 Loading from IPFS - {memory.ipfsUrl}</small>
+              <small>{loadingNotice}</small>
             </div>
           )}
           {showErrorState && (
             <div className="ipfs-error">
-              <small>❌ Content not available on IPFS</small>
+              <small>{errorNotice}</small>
             </div>
           )}
         </div>
@@ -158,12 +260,12 @@ export default function MemoryViewer({ memory, onClose, onEdit, onDelete, canEdi
           </audio>
           {showLoadingState && (
             <div className="ipfs-notice">
-              <small>📦 Loading from IPFS - {memory.ipfsUrl}</small>
+              <small>{loadingNotice}</small>
             </div>
           )}
           {showErrorState && (
             <div className="ipfs-error">
-              <small>❌ Content not available on IPFS</small>
+              <small>{errorNotice}</small>
             </div>
           )}
         </div>
@@ -187,12 +289,12 @@ export default function MemoryViewer({ memory, onClose, onEdit, onDelete, canEdi
           )}
           {showLoadingState && (
             <div className="ipfs-notice">
-              <small>📦 Loading from IPFS - {memory.ipfsUrl}</small>
+              <small>{loadingNotice}</small>
             </div>
           )}
           {showErrorState && (
             <div className="ipfs-error">
-              <small>❌ Content not available on IPFS</small>
+              <small>{errorNotice}</small>
             </div>
           )}
         </div>
@@ -248,9 +350,10 @@ export default function MemoryViewer({ memory, onClose, onEdit, onDelete, canEdi
                 )}
                 <div>
                   <div className="author-name">{memory.authorName}</div>
-                  <time className="memory-date" dateTime={new Date(memory.timestamp).toISOString()}>
-                    {formatDate(memory.timestamp)}
+                  <time className="memory-date" dateTime={new Date(timelineDate).toISOString()}>
+                    {formatDate(timelineDate)}
                   </time>
+                  {photoDetails && <div className="memory-photo-details">{photoDetails}</div>}
                 </div>
               </div>
               <div className={`visibility ${memory.visibility}`} aria-label={`${memory.visibility} memory`}>
@@ -276,8 +379,16 @@ export default function MemoryViewer({ memory, onClose, onEdit, onDelete, canEdi
           <div className="memory-content-section">
             <h3>Content</h3>
             {renderFileContent()}
+            {memory.caption && <p className="memory-caption">{memory.caption}</p>}
           </div>
 
+          {(memory.ocrText || memory.transcript) && (
+            <div className="memory-content-section">
+              <h3>{memory.transcript ? 'Transcript' : 'Text in Image'}</h3>
+              <pre>{memory.transcript || memory.ocrText}</pre>
+            </div>
+          )}
+
           <div className="preservation-proof-section">
             <h3>Proof of Preservation</h3>
             {memory.ipfsCid ? (
@@ -347,11 +458,22 @@ export default function MemoryViewer({ memory, onClose, onEdit, onDelete, canEdi
                         <div>
                           <span className="status-icon" aria-hidden="true">✅</span>
                           <div>
-                            <div className="status-text">Preserved on IPFS</div>
+                            <div className="status-text">
+                              {replication && !replication.healthy
+                                ? `Under-replicated (${replication.replicaCount}/${replication.requiredReplicas} providers)`
+                                : 'Preserved on IPFS'}
+                            </div>
                             <div className="status-details">
                               {verificationStatus.replicas} replicas • 
                               Last seen: {formatDate(verificationStatus.lastSeen)}
                             </div>
+                            {verificationStatus.decryptable !== undefined && (
+                              <div className="status-details">
+                                {verificationStatus.decryptable
+                                  ? '🔐 Encrypted • decrypts with your key on this device'
+                                  : `🔒 Encrypted • ${verificationStatus.decryptError || 'cannot be decrypted'}`}
+                              </div>
+                            )}
                           </div>
                         </div>
                       ) : (
@@ -368,12 +490,75 @@ export default function MemoryViewer({ memory, onClose, onEdit, onDelete, canEdi
                       )}
                     </div>
                   )}
+
+                  {replication && (
+                    <div className="replication-report" aria-label="Replication report">
+                      <div className="replication-summary">
+                        {replication.healthy ? '🛡️' : '⚠️'} {replication.replicaCount} of {replication.requiredReplicas} required replicas •
+                        Last verified: {formatDate(replication.checkedAt)}
+                      </div>
+                      <ul className="replica-list">
+                        {replication.replicas.map(replica => (
+                          <li key={replica.provider} className={`replica ${replica.pinned ? 'pinned' : 'missing'}`}>
+                            <span aria-hidden="true">{replica.pinned ? '✅' : '❌'}</span>
+                            <span className="replica-provider">{replica.provider}</span>
+                            {replica.pinned && replica.pinnedAt && (
+                              <span className="replica-date">pinned {formatDate(new Date(replica.pinnedAt).getTime())}</span>
+                            )}
+                            {replica.repaired && <span className="replica-repaired">re-pinned</span>}
+                            {replica.error && <span className="replica-error">{replica.error}</span>}
+                          </li>
+                        ))}
+                        {!!replication.missingProviders && (
+                          <li className="replica missing">
+                            <span aria-hidden="true">❌</span>
+                            <span className="replica-provider">
+                              {replication.missingProviders} more {replication.missingProviders === 1 ? 'provider' : 'providers'} needed
+                            </span>
+                            <span className="replica-error">Configure more pinning providers to meet the policy</span>
+                          </li>
+                        )}
+                      </ul>
+                      {replication.replicas.some(replica => !replica.pinned) && (
+                        <button
+                          className="verify-button"
+                          onClick={handleRepairReplication}
+                          disabled={isRepairing}
+                        >
+                          {isRepairing ? 'Re-pinning...' : 'Re-pin Missing Replicas'}
+                        </button>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             ) : (
               <p className="no-proof">No IPFS proof available</p>
             )}
           </div>
+
+          {related.length > 0 && (
+            <div className="related-memories-section">
+              <h3>Related Memories</h3>
+              <ul className="related-memories" aria-label="Related memories">
+                {related.map(result => (
+                  <li key={result.discovery ? `discovered:${result.discovery.id}` : result.memory.id}>
+                    <button
+                      className="related-memory"
+                      onClick={() => onSelectMemory?.(result.memory)}
+                      disabled={!onSelectMemory}
+                    >
+                      <span className="related-memory-title">{result.memory.title}</span>
+                      <span className="related-memory-meta">
+                        {result.source === 'discovered' && `🌐 ${result.memory.authorName} · `}
+                        {new Date(MediaMetadataService.getTimelineDate(result.memory)).toLocaleDateString()}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
 
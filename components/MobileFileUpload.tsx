@@ -4,6 +4,7 @@ import { Memory, MemoryUpload } from '../types/memory'
 import { LocalStorage } from '../utils/storage'
 import { IPFSService } from '../utils/ipfs'
 import { AIAnalysisService } from '../utils/ai-analysis'
+import { MediaMetadataService } from '../utils/media-metadata'
 import { RegistryManager } from '../utils/registry'
 import { SyncStatusIndicator } from './SyncStatusIndicator'
 
@@ -33,6 +34,7 @@ export const MobileFileUpload: React.FC<MobileFileUploadProps> = ({
   const [uploading, setUploading] = useState(false)
   const [uploadProgress, setUploadProgress] = useState(0)
   const [aiSuggestions, setAiSuggestions] = useState<any>(null)
+  const [allowLocation, setAllowLocation] = useState(() => MediaMetadataService.hasLocationConsent())
   const [error, setError] = useState<string | null>(null)
 
   const fileInputRef = useRef<HTMLInputElement>(null)
@@ -177,14 +179,19 @@ export const MobileFileUpload: React.FC<MobileFileUploadProps> = ({
         authorName: userProfile.displayName,
         authorAvatar: userProfile.avatar,
         authorContact: userProfile.contactLink,
-        tags: uploadData.tags || []
+        tags: uploadData.tags || [],
+        embedding: aiSuggestions?.embedding || undefined,
+        ...(await MediaMetadataService.memoryFields(selectedFile, aiSuggestions))
       }
 
       setUploadProgress(25)
 
-      // Convert file to base64 for local storage
-      const base64Data = await fileToBase64(selectedFile)
-      memory.fileData = base64Data
+      // Small files are kept on this device as base64; large ones only go
+      // through the chunked upload below, encrypted when private
+      const largeFile = IPFSService.usesChunkedUpload(selectedFile)
+      if (!largeFile) {
+        memory.fileData = await fileToBase64(selectedFile)
+      }
 
       setUploadProgress(50)
 
@@ -197,14 +204,29 @@ export const MobileFileUpload: React.FC<MobileFileUploadProps> = ({
             authorName: memory.authorName,
             fileType: memory.fileType,
             tags: memory.tags
+          }, progress => {
+            // Map the IPFS transfer onto the 50-75% band of the overall progress
+            setUploadProgress(50 + Math.round(25 * progress.uploadedBytes / progress.totalBytes))
           })
 
           memory.ipfsCid = ipfsResult.cid
           memory.ipfsUrl = IPFSService.getIPFSUrl(ipfsResult.cid)
           memory.ipfsGatewayUrl = IPFSService.getIPFSGatewayUrl(ipfsResult.cid)
         } catch (ipfsError) {
+          // A large file is not kept locally, so without IPFS it would be lost
+          if (largeFile) throw ipfsError
           console.warn('IPFS upload failed, saving locally:', ipfsError)
         }
+      } else if (largeFile) {
+        const ipfsResult = await IPFSService.uploadEncryptedFileToIPFS(selectedFile, userProfile.id, progress => {
+          setUploadProgress(50 + Math.round(25 * progress.uploadedBytes / progress.totalBytes))
+        })
+
+        memory.ipfsCid = ipfsResult.cid
+        memory.ipfsUrl = IPFSService.getIPFSUrl(ipfsResult.cid)
+        memory.ipfsGatewayUrl = IPFSService.getIPFSGatewayUrl(ipfsResult.cid)
+        memory.encrypted = true
+        memory.encryptionKeyId = ipfsResult.encryptionKeyId
       }
 
       setUploadProgress(75)
@@ -428,9 +450,26 @@ export const MobileFileUpload: React.FC<MobileFileUploadProps> = ({
                 ))}
               </div>
             )}
+            {aiSuggestions.media?.caption && (
+              <p className="ai-caption">{aiSuggestions.media.caption}</p>
+            )}
           </div>
         )}
 
+        {selectedFile?.type.startsWith('image/') && (
+          <label className="location-consent">
+            <input
+              type="checkbox"
+              checked={allowLocation}
+              onChange={(e) => {
+                MediaMetadataService.setLocationConsent(e.target.checked)
+                setAllowLocation(e.target.checked)
+              }}
+            />
+            Keep where my photos were taken
+          </label>
+        )}
+
         {/* Current Tags */}
         {uploadData.tags && uploadData.tags.length > 0 && (
           <div className="current-tags">
@@ -1,14 +1,60 @@
 import React, { useState, useEffect } from 'react'
 import { getNetworkDiscovery } from '../utils/network-discovery'
+import { SyncService, SyncStatus } from '../lib/dxos/utils/sync'
+import { SyncMetrics } from '../lib/dxos/utils/sync-metrics'
 
 interface NetworkDiagnosticsProps {
   onClose?: () => void
 }
 
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Minimal line chart of a metric over the sync history
+const Sparkline: React.FC<{ label: string, values: (number | undefined)[], color: string, format?: (value: number) => string }> = ({
+  label,
+  values,
+  color,
+  format = value => String(value)
+}) => {
+  const width = 240
+  const height = 48
+  const defined = values.filter((value): value is number => typeof value === 'number')
+  const max = Math.max(...defined, 1)
+  const step = values.length > 1 ? width / (values.length - 1) : width
+
+  const points = values
+    .map((value, index) => typeof value === 'number'
+      ? `${(index * step).toFixed(1)},${(height - (value / max) * (height - 4) - 2).toFixed(1)}`
+      : null)
+    .filter(Boolean)
+    .join(' ')
+
+  return (
+    <div style={{ marginBottom: '10px' }}>
+      <div style={{ fontSize: '0.8rem', display: 'flex', justifyContent: 'space-between', width: `${width}px` }}>
+        <span>{label}</span>
+        <span style={{ color }}>{defined.length > 0 ? format(defined[defined.length - 1]) : '–'}</span>
+      </div>
+      <svg width={width} height={height} style={{ background: '#1a1a1a', borderRadius: '4px' }} role="img" aria-label={label}>
+        {points && <polyline points={points} fill="none" stroke={color} strokeWidth={1.5} />}
+      </svg>
+    </div>
+  )
+}
+
 export const NetworkDiagnostics: React.FC<NetworkDiagnosticsProps> = ({ onClose }) => {
   const [diagnostics, setDiagnostics] = useState<any>({})
   const [isRunning, setIsRunning] = useState(false)
   const [logs, setLogs] = useState<string[]>([])
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(SyncService.getSyncStatus())
+
+  useEffect(() => SyncService.subscribeSyncStatus(setSyncStatus), [])
+
+  const throughput = SyncMetrics.throughput(syncStatus.history)
 
   const addLog = (message: string) => {
     const timestamp = new Date().toLocaleTimeString()
@@ -221,6 +267,72 @@ export const NetworkDiagnostics: React.FC<NetworkDiagnosticsProps> = ({ onClose
             </button>
           </div>
 
+          {/* DXOS Sync */}
+          <div className="debug-section">
+            <h3>🔄 DXOS Sync</h3>
+            <div style={{ fontSize: '0.9rem', marginBottom: '10px' }}>
+              Health {SyncService.getSyncHealthScore()}% · {syncStatus.peersCount} peer connections ·
+              latency {syncStatus.networkLatency !== undefined ? `${syncStatus.networkLatency} ms` : 'unknown'} ·
+              {' '}{syncStatus.replicationLag} messages behind
+            </div>
+
+            {syncStatus.history.length > 1 ? (
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '20px' }}>
+                <Sparkline label="Peers" values={syncStatus.history.map(sample => sample.peersCount)} color="#00ff88" />
+                <Sparkline
+                  label="Round trip"
+                  values={syncStatus.history.map(sample => sample.networkLatency)}
+                  color="#4da3ff"
+                  format={value => `${value} ms`}
+                />
+                <Sparkline label="Replication lag" values={syncStatus.history.map(sample => sample.replicationLag)} color="#ffb84d" />
+                <Sparkline
+                  label="Received"
+                  values={throughput.map(rate => rate.received)}
+                  color="#c77dff"
+                  format={value => `${formatBytes(value)}/s`}
+                />
+                <Sparkline
+                  label="Sent"
+                  values={throughput.map(rate => rate.sent)}
+                  color="#ff6b9d"
+                  format={value => `${formatBytes(value)}/s`}
+                />
+              </div>
+            ) : (
+              <div style={{ color: '#666', padding: '10px 0' }}>Collecting sync metrics...</div>
+            )}
+
+            {syncStatus.spaces.length > 0 && (
+              <table style={{ width: '100%', fontSize: '0.8rem', borderCollapse: 'collapse', marginTop: '10px' }}>
+                <thead>
+                  <tr style={{ textAlign: 'left' }}>
+                    <th>Space</th>
+                    <th>Peers</th>
+                    <th>Members online</th>
+                    <th>Lag</th>
+                    <th>Sent</th>
+                    <th>Received</th>
+                    <th>Latency</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {syncStatus.spaces.map(space => (
+                    <tr key={space.spaceId}>
+                      <td title={space.spaceId}>{space.name || `${space.spaceId.slice(0, 8)}…`}</td>
+                      <td>{space.peersCount}</td>
+                      <td>{space.onlineMembers}</td>
+                      <td>{space.replicationLag}</td>
+                      <td>{formatBytes(space.bytesSent)}</td>
+                      <td>{formatBytes(space.bytesReceived)}</td>
+                      <td>{space.latency !== undefined ? `${space.latency} ms` : '–'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
           {/* Results */}
           {Object.keys(diagnostics).length > 0 && (
             <div className="debug-section">
@@ -0,0 +1,188 @@
+/**
+ * Notification Center Component
+ * Bell with unread badge, inbox of notifications and per-type mute settings
+ */
+
+import React, { useState, useEffect, useRef } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useNotifications } from '../hooks/useNotifications'
+import { NOTIFICATION_LABELS } from '../utils/notifications'
+import { NotificationType } from '../types/notification'
+import SafeTimestamp from './SafeTimestamp'
+
+interface NotificationCenterProps {
+  className?: string
+  onSelectMemory?: (memoryId: string) => void
+}
+
+const NOTIFICATION_ICONS: Record<NotificationType, string> = {
+  connection_request: '🤝',
+  memory_shared: '📬',
+  community_invitation: '🏛️',
+  memory_moderated: '🛡️',
+  memory_comment: '💬',
+  memory_reaction: '❤️',
+  storage_error: '⚠️'
+}
+
+export default function NotificationCenter({ className = '', onSelectMemory }: NotificationCenterProps) {
+  const {
+    notifications,
+    unreadCount,
+    preferences,
+    markRead,
+    markAllRead,
+    remove,
+    clear,
+    setMuted,
+    setBrowserDelivery
+  } = useNotifications()
+  const [open, setOpen] = useState(false)
+  const [showSettings, setShowSettings] = useState(false)
+  const [browserSupported, setBrowserSupported] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    setBrowserSupported('Notification' in window)
+  }, [])
+
+  // Close when clicking outside the panel
+  useEffect(() => {
+    if (!open) return
+
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  const handleSelect = (id: string, memoryId?: string) => {
+    markRead(id)
+    if (memoryId && onSelectMemory) {
+      onSelectMemory(memoryId)
+      setOpen(false)
+    }
+  }
+
+  const handleBrowserToggle = async (enabled: boolean) => {
+    const granted = await setBrowserDelivery(enabled)
+    if (enabled && !granted) {
+      console.warn('⚠️ Browser notifications were not permitted')
+    }
+  }
+
+  return (
+    <div className={`notification-center ${className}`} ref={containerRef}>
+      <button
+        className="notification-bell"
+        onClick={() => setOpen(!open)}
+        aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : 'Notifications'}
+        aria-expanded={open}
+        title="Notifications"
+      >
+        <span aria-hidden="true">🔔</span>
+        {unreadCount > 0 && (
+          <span className="notification-badge" aria-hidden="true">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            className="notification-panel"
+            role="dialog"
+            aria-label="Notifications"
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+          >
+            <div className="notification-panel-header">
+              <h3>Notifications</h3>
+              <div className="notification-panel-actions">
+                {unreadCount > 0 && (
+                  <button onClick={markAllRead}>Mark all read</button>
+                )}
+                <button
+                  onClick={() => setShowSettings(!showSettings)}
+                  aria-pressed={showSettings}
+                  title="Notification settings"
+                >
+                  ⚙️
+                </button>
+              </div>
+            </div>
+
+            {showSettings ? (
+              <div className="notification-settings">
+                <p>Show notifications for:</p>
+                {(Object.keys(NOTIFICATION_LABELS) as NotificationType[]).map(type => (
+                  <label key={type} className="notification-setting">
+                    <input
+                      type="checkbox"
+                      checked={!preferences.muted.includes(type)}
+                      onChange={(e) => setMuted(type, !e.target.checked)}
+                    />
+                    {NOTIFICATION_ICONS[type]} {NOTIFICATION_LABELS[type]}
+                  </label>
+                ))}
+
+                {browserSupported && (
+                  <label className="notification-setting browser">
+                    <input
+                      type="checkbox"
+                      checked={preferences.browser}
+                      onChange={(e) => handleBrowserToggle(e.target.checked)}
+                    />
+                    Alert me while Etherith is in the background
+                  </label>
+                )}
+
+                {notifications.length > 0 && (
+                  <button className="notification-clear" onClick={clear}>
+                    Clear all notifications
+                  </button>
+                )}
+              </div>
+            ) : notifications.length === 0 ? (
+              <div className="notification-empty">You&apos;re all caught up</div>
+            ) : (
+              <ul className="notification-list">
+                {notifications.map(notification => (
+                  <li
+                    key={notification.id}
+                    className={`notification-item ${notification.read ? '' : 'unread'}`}
+                  >
+                    <button
+                      className="notification-body"
+                      onClick={() => handleSelect(notification.id, notification.memoryId)}
+                    >
+                      <span className="notification-icon" aria-hidden="true">
+                        {NOTIFICATION_ICONS[notification.type]}
+                      </span>
+                      <span className="notification-text">
+                        <span>{notification.message}</span>
+                        <SafeTimestamp timestamp={notification.timestamp} className="notification-time" fallback="" />
+                      </span>
+                    </button>
+                    <button
+                      className="notification-dismiss"
+                      onClick={() => remove(notification.id)}
+                      aria-label="Dismiss notification"
+                    >
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
@@ -1,6 +1,23 @@
-import React from 'react'
+import React, { useState, useEffect } from 'react'
 import { motion } from 'framer-motion'
 import { useBackgroundSync, formatNextSyncTime, formatLastSyncTime } from '../hooks/useBackgroundSync'
+import { SyncService, SyncStatus } from '../lib/dxos/utils/sync'
+
+// Inline because the compact variant renders without the styled-jsx block
+const outboxBadgeStyle: React.CSSProperties = {
+  position: 'absolute',
+  top: -6,
+  right: -10,
+  minWidth: 16,
+  padding: '0 4px',
+  background: '#ff9800',
+  borderRadius: 8,
+  color: '#1a1a1a',
+  fontSize: 10,
+  fontWeight: 600,
+  lineHeight: '16px',
+  textAlign: 'center'
+}
 
 interface SyncStatusIndicatorProps {
   compact?: boolean
@@ -14,6 +31,24 @@ export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
   className = ''
 }) => {
   const { status, syncNow } = useBackgroundSync()
+  const [peerStatus, setPeerStatus] = useState<SyncStatus | null>(null)
+
+  useEffect(() => {
+    if (!showDetails) return
+    return SyncService.subscribeSyncStatus(setPeerStatus)
+  }, [showDetails])
+
+  const peerText = peerStatus
+    ? [
+        `${peerStatus.peersCount} peer${peerStatus.peersCount === 1 ? '' : 's'}`,
+        peerStatus.networkLatency !== undefined ? `${peerStatus.networkLatency} ms` : null,
+        peerStatus.replicationLag > 0 ? `${peerStatus.replicationLag} behind` : null
+      ].filter(Boolean).join(' · ')
+    : 'Unknown'
+  const queued = status.outboxDepth > 0
+  const queueText = queued
+    ? `${status.outboxDepth} change${status.outboxDepth === 1 ? '' : 's'} queued, oldest ${formatLastSyncTime(status.oldestQueuedAt).toLowerCase()}`
+    : 'No queued changes'
 
   const getStatusIcon = () => {
     if (status.syncInProgress) return '🔄'
@@ -26,6 +61,7 @@ export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
     if (status.syncInProgress) return 'Syncing...'
     if (!status.online) return 'Offline'
     if (!status.enabled) return 'Sync paused'
+    if (queued) return `${status.outboxDepth} queued`
     return 'Synced'
   }
 
@@ -48,11 +84,13 @@ export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
           repeat: status.syncInProgress ? Infinity : 0,
           ease: 'linear'
         }}
-        title={getStatusText()}
+        style={{ position: 'relative' }}
+        title={queued ? `${getStatusText()} · ${queueText}` : getStatusText()}
       >
         <span style={{ color: getStatusColor() }}>
           {getStatusIcon()}
         </span>
+        {queued && <span style={outboxBadgeStyle}>{status.outboxDepth}</span>}
       </motion.div>
     )
   }
@@ -102,12 +140,24 @@ export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
               {formatNextSyncTime(status.nextSyncTime)}
             </span>
           </div>
+          <div className="sync-detail">
+            <span className="detail-label">Outbox:</span>
+            <span className="detail-value">
+              {queueText}
+            </span>
+          </div>
           <div className="sync-detail">
             <span className="detail-label">Connection:</span>
             <span className="detail-value">
               {status.online ? '🌐 Online' : '📡 Offline'}
             </span>
           </div>
+          <div className="sync-detail">
+            <span className="detail-label">Peers:</span>
+            <span className="detail-value">
+              {peerText}
+            </span>
+          </div>
         </div>
       )}
 
@@ -120,7 +120,7 @@ export const VisibilityController: React.FC<VisibilityControllerProps> = ({
 
       // Update registry if needed
       if (impact?.willAffectRegistry) {
-        RegistryManager.updateRegistryFromMemories()
+        await RegistryManager.updateRegistryFromMemories()
       }
 
       onVisibilityChange?.(updatedMemories)
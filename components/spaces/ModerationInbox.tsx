@@ -0,0 +1,265 @@
+/**
+ * Moderation Inbox Component
+ * Lets space admins approve or reject queued memories and review denied actions
+ */
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { useDXOS } from '../../lib/dxos/context'
+import { SpaceAccessControl, AccessDenialRecord } from '../../lib/dxos/utils/access-control'
+import { ModerationItem } from '../../lib/dxos/utils/moderation'
+
+interface ModerationInboxProps {
+  className?: string
+  spaceId?: string
+  refreshInterval?: number
+}
+
+export default function ModerationInbox({
+  className = '',
+  spaceId,
+  refreshInterval = 10000
+}: ModerationInboxProps) {
+  const { client, identity, currentSpace, spaces } = useDXOS()
+  const targetSpace = spaceId ? spaces.find(s => s.id === spaceId) : currentSpace
+
+  const [activeTab, setActiveTab] = useState<'queue' | 'denials'>('queue')
+  const [queue, setQueue] = useState<ModerationItem[]>([])
+  const [denials, setDenials] = useState<AccessDenialRecord[]>([])
+  const [reasons, setReasons] = useState<Record<string, string>>({})
+  const [reviewingId, setReviewingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const canModerate = !!(targetSpace && identity && SpaceAccessControl.can(targetSpace, identity.id, 'moderate'))
+  const settings = targetSpace ? SpaceAccessControl.getSettings(targetSpace) : null
+
+  const refresh = useCallback(() => {
+    if (!client || !targetSpace || !identity || !canModerate) return
+
+    try {
+      setQueue(client.getModerationQueue(targetSpace, identity.id))
+      setDenials(client.getAccessDenials(targetSpace))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load moderation queue')
+    }
+  }, [client, targetSpace, identity, canModerate])
+
+  useEffect(() => {
+    refresh()
+    const interval = setInterval(refresh, refreshInterval)
+    return () => clearInterval(interval)
+  }, [refresh, refreshInterval])
+
+  const handleReview = async (item: ModerationItem, decision: 'approved' | 'rejected') => {
+    if (!client || !targetSpace || !identity) return
+
+    setReviewingId(item.id)
+    setError(null)
+    try {
+      await client.reviewModeration(targetSpace, item.id, decision, reasons[item.id], identity.id)
+      setReasons(prev => {
+        const next = { ...prev }
+        delete next[item.id]
+        return next
+      })
+      console.log(`✅ Memory ${decision}:`, item.id)
+      refresh()
+    } catch (err) {
+      console.error('Failed to review memory:', err)
+      setError(err instanceof Error ? err.message : 'Failed to review memory')
+    } finally {
+      setReviewingId(null)
+    }
+  }
+
+  const handleMarkReviewed = async (denial: AccessDenialRecord) => {
+    if (!client || !targetSpace || !identity) return
+
+    try {
+      await client.markDenialReviewed(targetSpace, denial.id)
+      refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update denied action')
+    }
+  }
+
+  const renderChecks = (item: ModerationItem) => {
+    if (!item.checks) return null
+
+    return (
+      <div className="moderation-checks">
+        {item.checks.safetyFlags.length > 0 ? (
+          <div className="safety-flags">
+            ⚠️ {item.checks.safetyFlags.join(', ')}
+          </div>
+        ) : (
+          <div className="safety-clear">✅ No safety concerns found</div>
+        )}
+        <div className="ai-summary">
+          🤖 {item.checks.category || 'uncategorized'}
+          {item.checks.sentiment && ` · ${item.checks.sentiment}`}
+          {item.checks.tags && item.checks.tags.length > 0 && ` · ${item.checks.tags.join(', ')}`}
+          {!item.checks.aiGenerated && ' (basic analysis)'}
+        </div>
+      </div>
+    )
+  }
+
+  const renderQueueTab = () => (
+    <motion.div
+      className="moderation-queue"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+    >
+      {settings?.contentPolicy && (
+        <div className="content-policy">
+          <strong>Content policy:</strong> {settings.contentPolicy}
+        </div>
+      )}
+
+      {queue.length === 0 ? (
+        <div className="empty-state">
+          <p>No memories waiting for review</p>
+        </div>
+      ) : (
+        <div className="moderation-list">
+          {queue.map(item => (
+            <motion.div
+              key={item.id}
+              className={`moderation-card ${item.checks?.safetyFlags.length ? 'flagged' : ''}`}
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+            >
+              <div className="moderation-header">
+                <h4>{item.memory.title || 'Untitled memory'}</h4>
+                <span className="moderation-meta">
+                  {item.memory.authorName || item.authorId} · {new Date(item.submittedAt).toLocaleString()}
+                </span>
+              </div>
+
+              <p className="moderation-content">
+                {(item.memory.content || '').slice(0, 280)}
+                {(item.memory.content || '').length > 280 && '…'}
+              </p>
+
+              {renderChecks(item)}
+
+              <textarea
+                value={reasons[item.id] || ''}
+                onChange={(e) => setReasons(prev => ({ ...prev, [item.id]: e.target.value }))}
+                placeholder="Reason (required to reject, shared with the author)"
+                className="form-input"
+                rows={2}
+              />
+
+              <div className="moderation-actions">
+                <button
+                  onClick={() => handleReview(item, 'approved')}
+                  disabled={reviewingId === item.id}
+                  className="action-button approve"
+                >
+                  ✅ Approve
+                </button>
+                <button
+                  onClick={() => handleReview(item, 'rejected')}
+                  disabled={reviewingId === item.id || !reasons[item.id]?.trim()}
+                  className="action-button reject"
+                >
+                  🚫 Reject
+                </button>
+              </div>
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  )
+
+  const renderDenialsTab = () => (
+    <motion.div
+      className="denied-actions"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+    >
+      {denials.length === 0 ? (
+        <div className="empty-state">
+          <p>No denied actions</p>
+        </div>
+      ) : (
+        <div className="denial-list">
+          {denials.map(denial => (
+            <div key={denial.id} className={`denial-card ${denial.reviewedAt ? 'reviewed' : ''}`}>
+              <div className="denial-header">
+                <code>{denial.action}</code>
+                <span className="moderation-meta">
+                  {denial.actorId.slice(0, 12)} · {new Date(denial.timestamp).toLocaleString()}
+                </span>
+              </div>
+              <p>{denial.reason}</p>
+              {denial.reviewedAt ? (
+                <small>Reviewed {new Date(denial.reviewedAt).toLocaleDateString()}</small>
+              ) : (
+                <button onClick={() => handleMarkReviewed(denial)} className="action-button">
+                  Mark reviewed
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </motion.div>
+  )
+
+  if (!identity || !targetSpace) {
+    return (
+      <div className={`moderation-inbox ${className}`}>
+        <div className="auth-required">
+          <p>Select a space to review its moderation queue.</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!canModerate) {
+    return (
+      <div className={`moderation-inbox ${className}`}>
+        <p className="permission-warning">
+          Only space owners and admins can review the moderation queue.
+        </p>
+      </div>
+    )
+  }
+
+  const unreviewedDenials = denials.filter(denial => !denial.reviewedAt).length
+
+  return (
+    <div className={`moderation-inbox ${className}`}>
+      <div className="invitation-tabs">
+        <button
+          onClick={() => setActiveTab('queue')}
+          className={`tab-button ${activeTab === 'queue' ? 'active' : ''}`}
+        >
+          Queue ({queue.length})
+        </button>
+        <button
+          onClick={() => setActiveTab('denials')}
+          className={`tab-button ${activeTab === 'denials' ? 'active' : ''}`}
+        >
+          Denied ({unreviewedDenials})
+        </button>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      <div className="invitation-content">
+        <AnimatePresence mode="wait">
+          {activeTab === 'queue' && renderQueueTab()}
+          {activeTab === 'denials' && renderDenialsTab()}
+        </AnimatePresence>
+      </div>
+    </div>
+  )
+}
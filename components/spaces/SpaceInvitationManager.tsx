@@ -5,8 +5,9 @@
 
 import React, { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { useDXOS, useMutation, useQuery } from '../../lib/dxos/context'
+import { useDXOS, useQuery } from '../../lib/dxos/context'
 import { useSpaceUtils, SpaceInvitation } from '../../lib/dxos/utils/spaces'
+import { InvitationService } from '../../lib/dxos/utils/invitations'
 
 interface SpaceInvitationManagerProps {
   className?: string
@@ -19,15 +20,20 @@ export default function SpaceInvitationManager({
   spaceId,
   onInvitationCreated
 }: SpaceInvitationManagerProps) {
-  const { identity, currentSpace, spaces } = useDXOS()
-  const { addObject, removeObject } = useMutation()
-  const { createSpaceInvitation, useSpaceInvitation, hasPermission } = useSpaceUtils()
+  const { identity, currentSpace, spaces, joinSpace, setCurrentSpace } = useDXOS()
+  const {
+    createSpaceInvitation,
+    useSpaceInvitation,
+    revokeInvitation,
+    getInvitationRedemptions,
+    hasPermission
+  } = useSpaceUtils()
 
   const targetSpace = spaceId ? spaces.find(s => s.id === spaceId) : currentSpace
 
   // Query existing invitations
   const { data: invitations, loading: invitationsLoading, refetch: refetchInvitations } = useQuery<SpaceInvitation>(
-    targetSpace ? { spaceId: targetSpace.id } : {}
+    targetSpace ? { type: 'invitation', spaceId: targetSpace.id } : { type: 'invitation' }
   )
 
   const [activeTab, setActiveTab] = useState<'create' | 'manage' | 'join'>('create')
@@ -35,6 +41,8 @@ export default function SpaceInvitationManager({
   const [joinCode, setJoinCode] = useState('')
   const [joinAuthCode, setJoinAuthCode] = useState('')
   const [isJoining, setIsJoining] = useState(false)
+  const [joinError, setJoinError] = useState<string | null>(null)
+  const [authCodes, setAuthCodes] = useState<Record<string, string>>({})
 
   // Invitation creation form
   const [invitationForm, setInvitationForm] = useState({
@@ -63,7 +71,7 @@ export default function SpaceInvitationManager({
 
     setIsCreating(true)
     try {
-      const invitation = await createSpaceInvitation(targetSpace, identity.id, {
+      const invitation = await createSpaceInvitation(targetSpace, {
         expiresIn: invitationForm.expiresIn,
         maxUses: invitationForm.maxUses,
         requireAuth: invitationForm.requireAuth,
@@ -73,6 +81,10 @@ export default function SpaceInvitationManager({
         }
       })
 
+      // Only a hash is kept in the space, so the code can be shown this session only
+      if (invitation.authCode) {
+        setAuthCodes(prev => ({ ...prev, [invitation.id]: invitation.authCode! }))
+      }
       await refetchInvitations()
       onInvitationCreated?.(invitation)
 
@@ -97,31 +109,40 @@ export default function SpaceInvitationManager({
     if (!joinCode || !identity) return
 
     setIsJoining(true)
+    setJoinError(null)
     try {
-      // Find the invitation by code (simplified - in real implementation, would be more secure)
-      const invitation = invitations.find(inv => inv.id === joinCode)
-      if (!invitation) {
+      // Codes and full links both carry the signed invitation, including its space
+      const token = InvitationService.decode(joinCode)
+      if (!token) {
         throw new Error('Invalid invitation code')
       }
+      let space = spaces.find(s => s.id === token.spaceId)
+      if (!space && token.dxosInvitation) {
+        space = await joinSpace(token.dxosInvitation, joinAuthCode.trim().toUpperCase() || undefined)
+      }
+      if (!space || space.id !== token.spaceId) {
+        throw new Error('This space is not available on this device yet')
+      }
 
       const result = await useSpaceInvitation(
-        targetSpace,
-        invitation.id,
+        space,
+        joinCode,
         identity.id,
-        identity.displayName,
-        joinAuthCode || undefined
+        identity.displayName
       )
 
       if (result.success) {
-        console.log('✅ Successfully joined space:', targetSpace?.id)
+        console.log('✅ Successfully joined space:', space.id)
         setJoinCode('')
         setJoinAuthCode('')
+        setCurrentSpace(space)
         await refetchInvitations()
       } else {
         throw new Error(result.error)
       }
     } catch (error) {
       console.error('Failed to join space:', error)
+      setJoinError(error instanceof Error ? error.message : 'Failed to join space')
     } finally {
       setIsJoining(false)
     }
@@ -129,20 +150,24 @@ export default function SpaceInvitationManager({
 
   // Revoke invitation
   const handleRevokeInvitation = async (invitation: SpaceInvitation) => {
-    if (!targetSpace) return
+    if (!targetSpace || !identity) return
 
-    try {
-      await removeObject(invitation)
+    const result = await revokeInvitation(targetSpace, invitation)
+    if (result.success) {
       await refetchInvitations()
       console.log('✅ Invitation revoked:', invitation.id)
-    } catch (error) {
-      console.error('Failed to revoke invitation:', error)
+    } else {
+      console.error('Failed to revoke invitation:', result.error)
     }
   }
 
   // Copy invitation link
   const copyInvitationLink = (invitation: SpaceInvitation) => {
-    const inviteUrl = `${window.location.origin}/space/join?code=${invitation.id}&space=${invitation.spaceId}`
+    const inviteUrl = InvitationService.getLink(window.location.origin, invitation)
+    if (!inviteUrl) {
+      console.warn('⚠️ This invitation predates signed links; create a new one to share')
+      return
+    }
 
     if (navigator.clipboard) {
       navigator.clipboard.writeText(inviteUrl)
@@ -178,12 +203,13 @@ export default function SpaceInvitationManager({
 
   // Get invitation status
   const getInvitationStatus = (invitation: SpaceInvitation) => {
-    const isExpired = invitation.expiresAt && Date.now() > invitation.expiresAt
-    const isMaxedOut = invitation.maxUses && invitation.currentUses >= invitation.maxUses
+    const uses = targetSpace ? InvitationService.countUses(targetSpace, invitation) : invitation.currentUses
+    const status = InvitationService.getStatus(invitation, uses)
 
-    if (isExpired) return { status: 'expired', color: 'red' }
-    if (isMaxedOut) return { status: 'maxed', color: 'orange' }
-    return { status: 'active', color: 'green' }
+    if (status === 'revoked') return { status, color: 'gray' }
+    if (status === 'expired') return { status, color: 'red' }
+    if (status === 'exhausted') return { status: 'maxed', color: 'orange' }
+    return { status, color: 'green' }
   }
 
   const renderCreateTab = () => (
@@ -283,6 +309,7 @@ export default function SpaceInvitationManager({
         <div className="invitations-list">
           {invitations.map(invitation => {
             const status = getInvitationStatus(invitation)
+            const redemptions = targetSpace ? getInvitationRedemptions(targetSpace, invitation.id) : []
 
             return (
               <motion.div
@@ -308,7 +335,8 @@ export default function SpaceInvitationManager({
                   <div className="detail-item">
                     <span className="label">Uses:</span>
                     <span className="value">
-                      {invitation.currentUses} / {invitation.maxUses || '∞'}
+                      {targetSpace ? InvitationService.countUses(targetSpace, invitation) : invitation.currentUses}
+                      {' / '}{invitation.maxUses || '∞'}
                     </span>
                   </div>
                   <div className="detail-item">
@@ -321,14 +349,28 @@ export default function SpaceInvitationManager({
                       {new Date(invitation.createdAt).toLocaleDateString()}
                     </span>
                   </div>
-                  {invitation.authCode && (
+                  {InvitationService.decode(invitation.token)?.requiresAuth && (
                     <div className="detail-item">
                       <span className="label">Auth Code:</span>
-                      <span className="value auth-code">{invitation.authCode}</span>
+                      <span className="value auth-code">{authCodes[invitation.id] || 'shown once, when created'}</span>
                     </div>
                   )}
                 </div>
 
+                {redemptions.length > 0 && (
+                  <div className="invitation-redemptions">
+                    <span className="label">Recent attempts:</span>
+                    <ul>
+                      {redemptions.slice(0, 5).map(redemption => (
+                        <li key={redemption.id} className={`redemption ${redemption.outcome}`}>
+                          {redemption.displayName} · {redemption.outcome.replace('_', ' ')} ·{' '}
+                          {new Date(redemption.timestamp).toLocaleString()}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 <div className="invitation-actions">
                   <button
                     onClick={() => copyInvitationLink(invitation)}
@@ -340,6 +382,7 @@ export default function SpaceInvitationManager({
                   <button
                     onClick={() => handleRevokeInvitation(invitation)}
                     className="action-button revoke"
+                    disabled={status.status === 'revoked'}
                   >
                     🗑️ Revoke
                   </button>
@@ -360,7 +403,7 @@ export default function SpaceInvitationManager({
       exit={{ opacity: 0, y: -20 }}
     >
       <h3>Join Space</h3>
-      <p>Enter an invitation code to join a space.</p>
+      <p>Paste an invitation link or code to join a space.</p>
 
       <div className="form-section">
         <label>Invitation Code</label>
@@ -384,6 +427,8 @@ export default function SpaceInvitationManager({
         />
       </div>
 
+      {joinError && <div className="error-message">{joinError}</div>}
+
       <button
         onClick={handleJoinSpace}
         disabled={isJoining || !joinCode}
@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react'
 import { backgroundSync } from '../utils/background-sync'
+import { getOutboxStats } from '../utils/file-sync-outbox'
 
 interface SyncStatus {
   enabled: boolean
@@ -7,6 +8,9 @@ interface SyncStatus {
   syncInProgress: boolean
   nextSyncTime: number | null
   lastSyncTime: number | null
+  // File sync actions waiting for the relay
+  outboxDepth: number
+  oldestQueuedAt: number | null
 }
 
 interface UseBackgroundSyncReturn {
@@ -22,7 +26,9 @@ export const useBackgroundSync = (): UseBackgroundSyncReturn => {
     online: typeof navigator !== 'undefined' ? navigator.onLine : true,
     syncInProgress: false,
     nextSyncTime: null,
-    lastSyncTime: null
+    lastSyncTime: null,
+    outboxDepth: 0,
+    oldestQueuedAt: null
   })
 
   const [lastSyncTime, setLastSyncTime] = useState<number | null>(null)
@@ -31,9 +37,12 @@ export const useBackgroundSync = (): UseBackgroundSyncReturn => {
   useEffect(() => {
     const updateStatus = () => {
       const currentStatus = backgroundSync.getStatus()
+      const outbox = getOutboxStats()
       setStatus(prev => ({
         ...currentStatus,
-        lastSyncTime: lastSyncTime
+        lastSyncTime: lastSyncTime,
+        outboxDepth: outbox.depth,
+        oldestQueuedAt: outbox.oldestQueuedAt
       }))
     }
 
@@ -50,6 +59,7 @@ export const useBackgroundSync = (): UseBackgroundSyncReturn => {
     if (typeof window !== 'undefined') {
       window.addEventListener('online', handleOnline)
       window.addEventListener('offline', handleOffline)
+      window.addEventListener('file-sync-outbox', updateStatus)
     }
 
     return () => {
@@ -57,6 +67,7 @@ export const useBackgroundSync = (): UseBackgroundSyncReturn => {
       if (typeof window !== 'undefined') {
         window.removeEventListener('online', handleOnline)
         window.removeEventListener('offline', handleOffline)
+        window.removeEventListener('file-sync-outbox', updateStatus)
       }
     }
   }, [lastSyncTime])
@@ -5,26 +5,18 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { LoguxFileSyncEngine } from '../utils/logux-file-sync';
+import { LoguxWebSocketClient, SyncConnectionState } from '../utils/logux-ws-client';
 import {
   SyncedFile,
   FileConflict,
   FilePermissions,
   ConflictResolution,
+  CollaborativeField,
+  CursorPosition,
+  FileVersionRecord,
+  FilePresenceAction,
 } from '../types/logux-file-sync';
 
-// Mock Logux client for demonstration
-interface LoguxClient {
-  log: {
-    add: (action: any, meta?: any) => Promise<void>;
-    on: (filter: any, callback: (action: any, meta: any) => void) => void;
-  };
-  node: {
-    id: string;
-  };
-  subscribe: (channel: string) => Promise<void>;
-  unsubscribe: (channel: string) => Promise<void>;
-}
-
 export interface UseLoguxFileSyncOptions {
   userId: string;
   autoSync?: boolean;
@@ -47,6 +39,10 @@ export interface UseLoguxFileSyncReturn {
   subscribeToFile: (fileId: string) => Promise<void>;
   unsubscribeFromFile: (fileId: string) => Promise<void>;
 
+  // Version history
+  getVersionHistory: (fileId: string) => Promise<FileVersionRecord[]>;
+  restoreVersion: (fileId: string, version: string) => Promise<void>;
+
   // Conflict management
   conflicts: FileConflict[];
   resolveConflict: (conflictId: string, resolution: ConflictResolution) => Promise<void>;
@@ -60,6 +56,10 @@ export interface UseLoguxFileSyncReturn {
   // Collaboration
   getFilePresence: (fileId: string) => any[];
   updatePresence: (fileId: string, status: 'viewing' | 'editing' | 'idle') => Promise<void>;
+  openDocument: (fileId: string) => Promise<void>;
+  editText: (fileId: string, field: CollaborativeField, text: string) => Promise<void>;
+  updateCursor: (fileId: string, field: CollaborativeField, selectionStart: number, selectionEnd: number) => Promise<void>;
+  resolveCursor: (fileId: string, field: CollaborativeField, position: CursorPosition) => number;
 
   // Utilities
   refreshSync: () => Promise<void>;
@@ -68,6 +68,14 @@ export interface UseLoguxFileSyncReturn {
   importFiles: (data: File) => Promise<void>;
 }
 
+type SyncStatus = 'connected' | 'disconnected' | 'syncing' | 'error';
+
+const CONNECTION_SYNC_STATUS: Record<SyncConnectionState, SyncStatus> = {
+  connected: 'connected',
+  connecting: 'syncing',
+  disconnected: 'disconnected',
+};
+
 export function useLoguxFileSync(options: UseLoguxFileSyncOptions): UseLoguxFileSyncReturn {
   const { userId, autoSync = true, syncInterval = 30000, offlineSupport = true } = options;
 
@@ -77,44 +85,28 @@ export function useLoguxFileSync(options: UseLoguxFileSyncOptions): UseLoguxFile
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [isSyncing, setIsSyncing] = useState(false);
   const [lastSyncTime, setLastSyncTime] = useState(0);
-  const [syncStatus, setSyncStatus] = useState<'connected' | 'disconnected' | 'syncing' | 'error'>('disconnected');
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('disconnected');
 
   // Refs for stable references
   const syncEngineRef = useRef<LoguxFileSyncEngine | null>(null);
-  const clientRef = useRef<LoguxClient | null>(null);
+  const clientRef = useRef<LoguxWebSocketClient | null>(null);
 
   // Initialize Logux client and sync engine
   useEffect(() => {
+    let stopStateListener: (() => void) | null = null;
+
     const initializeSync = async () => {
       try {
-        // Create mock Logux client (replace with actual Logux client)
-        const client: LoguxClient = {
-          log: {
-            add: async (action, meta) => {
-              console.log('Logux action:', action, meta);
-              // In real implementation, this would sync with Logux server
-            },
-            on: (filter, callback) => {
-              console.log('Logux listener registered:', filter);
-              // In real implementation, this would listen to Logux actions
-            }
-          },
-          node: {
-            id: `node_${userId}_${Date.now()}`
-          },
-          subscribe: async (channel) => {
-            console.log('Subscribed to channel:', channel);
-          },
-          unsubscribe: async (channel) => {
-            console.log('Unsubscribed from channel:', channel);
-          }
-        };
+        // Actions apply locally at once and reach other nodes through the relay
+        const client = new LoguxWebSocketClient({ userId });
+        stopStateListener = client.onStateChange(state => {
+          setSyncStatus(CONNECTION_SYNC_STATUS[state]);
+          if (state === 'connected') setLastSyncTime(Date.now());
+        });
 
         clientRef.current = client;
         syncEngineRef.current = new LoguxFileSyncEngine(client, userId);
-
-        setSyncStatus('connected');
-        setLastSyncTime(Date.now());
+        client.connect();
 
         // Load initial files
         const initialFiles = syncEngineRef.current.getAllFiles();
@@ -133,6 +125,13 @@ export function useLoguxFileSync(options: UseLoguxFileSyncOptions): UseLoguxFile
 
     return () => {
       // Cleanup
+      stopStateListener?.();
+      const engine = syncEngineRef.current;
+      const client = clientRef.current;
+      // Log text typed just before leaving, then disconnect
+      (engine ? engine.flushAllText() : Promise.resolve())
+        .catch(error => console.warn('Failed to save pending text:', error))
+        .then(() => client?.disconnect());
       syncEngineRef.current = null;
       clientRef.current = null;
     };
@@ -142,7 +141,7 @@ export function useLoguxFileSync(options: UseLoguxFileSyncOptions): UseLoguxFile
   useEffect(() => {
     const handleOnline = () => {
       setIsOnline(true);
-      setSyncStatus('connected');
+      clientRef.current?.connect();
       if (autoSync) {
         refreshSync();
       }
@@ -150,7 +149,7 @@ export function useLoguxFileSync(options: UseLoguxFileSyncOptions): UseLoguxFile
 
     const handleOffline = () => {
       setIsOnline(false);
-      setSyncStatus('disconnected');
+      clientRef.current?.disconnect();
     };
 
     window.addEventListener('online', handleOnline);
@@ -200,14 +199,21 @@ export function useLoguxFileSync(options: UseLoguxFileSyncOptions): UseLoguxFile
       );
     };
 
+    // The relay refused one of our actions, so this node is out of step with it
+    const handleSyncDenied = () => {
+      setSyncStatus('error');
+    };
+
     window.addEventListener('file-sync-change', handleFileChange as EventListener);
     window.addEventListener('file-sync-conflict', handleConflictDetected as EventListener);
     window.addEventListener('file-sync-conflict-resolved', handleConflictResolved as EventListener);
+    window.addEventListener('file-sync-denied', handleSyncDenied);
 
     return () => {
       window.removeEventListener('file-sync-change', handleFileChange as EventListener);
       window.removeEventListener('file-sync-conflict', handleConflictDetected as EventListener);
       window.removeEventListener('file-sync-conflict-resolved', handleConflictResolved as EventListener);
+      window.removeEventListener('file-sync-denied', handleSyncDenied);
     };
   }, []);
 
@@ -300,6 +306,26 @@ export function useLoguxFileSync(options: UseLoguxFileSyncOptions): UseLoguxFile
     await syncEngineRef.current.unsubscribeFromFile(fileId);
   }, []);
 
+  // Version history
+  const getVersionHistory = useCallback(async (fileId: string): Promise<FileVersionRecord[]> => {
+    if (!syncEngineRef.current) return [];
+    return syncEngineRef.current.getVersionHistory(fileId);
+  }, []);
+
+  const restoreVersion = useCallback(async (fileId: string, version: string): Promise<void> => {
+    if (!syncEngineRef.current) {
+      throw new Error('Sync engine not initialized');
+    }
+
+    setIsSyncing(true);
+    try {
+      await syncEngineRef.current.restoreVersion(fileId, version);
+      setLastSyncTime(Date.now());
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
   // Conflict resolution
   const resolveConflict = useCallback(async (
     conflictId: string,
@@ -330,7 +356,7 @@ export function useLoguxFileSync(options: UseLoguxFileSyncOptions): UseLoguxFile
   ): Promise<void> => {
     if (!clientRef.current) return;
 
-    const action = {
+    const action: FilePresenceAction = {
       type: 'file/presence',
       fileId,
       userId,
@@ -344,6 +370,42 @@ export function useLoguxFileSync(options: UseLoguxFileSyncOptions): UseLoguxFile
     });
   }, [userId]);
 
+  const openDocument = useCallback(async (fileId: string): Promise<void> => {
+    if (!syncEngineRef.current) return;
+    await syncEngineRef.current.openDocument(fileId);
+  }, []);
+
+  const editText = useCallback(async (
+    fileId: string,
+    field: CollaborativeField,
+    text: string
+  ): Promise<void> => {
+    if (!syncEngineRef.current) {
+      throw new Error('Sync engine not initialized');
+    }
+
+    await syncEngineRef.current.editText(fileId, field, text);
+    setLastSyncTime(Date.now());
+  }, []);
+
+  const updateCursor = useCallback(async (
+    fileId: string,
+    field: CollaborativeField,
+    selectionStart: number,
+    selectionEnd: number
+  ): Promise<void> => {
+    if (!syncEngineRef.current) return;
+    await syncEngineRef.current.updateCursor(fileId, field, selectionStart, selectionEnd);
+  }, []);
+
+  const resolveCursor = useCallback((
+    fileId: string,
+    field: CollaborativeField,
+    position: CursorPosition
+  ): number => {
+    return syncEngineRef.current?.resolveCursor(fileId, field, position) ?? position.offset;
+  }, []);
+
   // Utilities
   const refreshSync = useCallback(async (): Promise<void> => {
     if (!syncEngineRef.current || !isOnline) return;
@@ -358,7 +420,9 @@ export function useLoguxFileSync(options: UseLoguxFileSyncOptions): UseLoguxFile
       setConflicts(allConflicts);
 
       setLastSyncTime(Date.now());
-      setSyncStatus('connected');
+      if (clientRef.current) {
+        setSyncStatus(CONNECTION_SYNC_STATUS[clientRef.current.connectionState]);
+      }
     } catch (error) {
       console.error('Sync refresh failed:', error);
       setSyncStatus('error');
@@ -383,6 +447,10 @@ export function useLoguxFileSync(options: UseLoguxFileSyncOptions): UseLoguxFile
         }
       }
 
+      // Replay everything from the relay next time instead of only what was missed
+      clientRef.current?.resetSynced();
+      await clientRef.current?.outbox.clear();
+
       setFiles([]);
       setConflicts([]);
       setLastSyncTime(0);
@@ -458,6 +526,10 @@ export function useLoguxFileSync(options: UseLoguxFileSyncOptions): UseLoguxFile
     subscribeToFile,
     unsubscribeFromFile,
 
+    // Version history
+    getVersionHistory,
+    restoreVersion,
+
     // Conflict management
     conflicts,
     resolveConflict,
@@ -471,6 +543,10 @@ export function useLoguxFileSync(options: UseLoguxFileSyncOptions): UseLoguxFile
     // Collaboration
     getFilePresence,
     updatePresence,
+    openDocument,
+    editText,
+    updateCursor,
+    resolveCursor,
 
     // Utilities
     refreshSync,
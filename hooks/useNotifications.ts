@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react'
+import { NotificationService, NOTIFICATIONS_EVENT } from '../utils/notifications'
+import { SpaceNotificationService } from '../lib/dxos/utils/space-notifications'
+import { useDXOS } from '../lib/dxos/context'
+import { Notification, NotificationPreferences, NotificationType } from '../types/notification'
+
+// How often spaces are checked for connection requests, joins and moderation decisions
+const SPACE_POLL_INTERVAL = 15000
+
+interface UseNotificationsReturn {
+  notifications: Notification[]
+  unreadCount: number
+  preferences: NotificationPreferences
+  markRead: (id: string) => void
+  markAllRead: () => void
+  remove: (id: string) => void
+  clear: () => void
+  setMuted: (type: NotificationType, muted: boolean) => void
+  setBrowserDelivery: (enabled: boolean) => Promise<boolean>
+}
+
+export const useNotifications = (): UseNotificationsReturn => {
+  const { identity, spaces } = useDXOS()
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [preferences, setPreferences] = useState<NotificationPreferences>({ muted: [], browser: false })
+
+  const refresh = useCallback(() => {
+    setNotifications(NotificationService.getVisible())
+    setPreferences(NotificationService.getPreferences())
+  }, [])
+
+  // Follow changes from this tab and from other tabs
+  useEffect(() => {
+    refresh()
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key?.startsWith('etherith_notification')) refresh()
+    }
+
+    window.addEventListener(NOTIFICATIONS_EVENT, refresh)
+    window.addEventListener('storage', handleStorage)
+    return () => {
+      window.removeEventListener(NOTIFICATIONS_EVENT, refresh)
+      window.removeEventListener('storage', handleStorage)
+    }
+  }, [refresh])
+
+  // Collect notifications addressed to this identity from every joined space
+  useEffect(() => {
+    const identityId = identity?.id
+    if (!identityId || spaces.length === 0) return
+
+    const collect = () => {
+      spaces.forEach(space => {
+        SpaceNotificationService.collect(space, identityId).forEach(notification => {
+          NotificationService.notify(notification)
+        })
+      })
+    }
+
+    collect()
+    const interval = setInterval(collect, SPACE_POLL_INTERVAL)
+    return () => clearInterval(interval)
+  }, [identity, spaces])
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(n => !n.read).length,
+    preferences,
+    markRead: (id) => NotificationService.markRead(id),
+    markAllRead: () => NotificationService.markAllRead(),
+    remove: (id) => NotificationService.remove(id),
+    clear: () => NotificationService.clear(),
+    setMuted: (type, muted) => NotificationService.setMuted(type, muted),
+    setBrowserDelivery: (enabled) => NotificationService.setBrowserDelivery(enabled)
+  }
+}
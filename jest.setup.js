@@ -17,12 +17,13 @@ Object.defineProperty(navigator, 'onLine', {
 // Mock fetch
 global.fetch = jest.fn()
 
-// Mock crypto for hash generation (simplified for testing)
-global.crypto = {
-  subtle: {
-    digest: jest.fn().mockResolvedValue(new ArrayBuffer(32))
-  }
-}
+// Use Node's Web Crypto so hashing and signing behave like the browser
+const { webcrypto } = require('crypto')
+const { TextEncoder, TextDecoder } = require('util')
+
+Object.defineProperty(global, 'crypto', { value: webcrypto, writable: true })
+global.TextEncoder = TextEncoder
+global.TextDecoder = TextDecoder
 
 // Reset mocks before each test
 beforeEach(() => {
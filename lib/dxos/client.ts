@@ -5,9 +5,15 @@
 
 // Real DXOS implementation
 import { EtherithDXOSClient, dxosClient, UserProfile, OnlineUser } from './real-client'
+import { SpaceAccessControl, SpaceWriteRequest, AccessDenialRecord } from './utils/access-control'
+import { ModerationService, ModerationItem } from './utils/moderation'
+import { MergePolicies } from './utils/merge-policies'
+import { SyncService } from './utils/sync'
+import type { InvitationRedemption } from './utils/invitations'
+import type { Notification } from '../../types/notification'
 
 // Export types and classes for use throughout the application
-export type { UserProfile, OnlineUser }
+export type { UserProfile, OnlineUser, Notification }
 export { EtherithDXOSClient }
 
 // Memory interface
@@ -44,16 +50,17 @@ export interface Community {
   members: string[]
   admins: string[]
   createdAt: number
+  settings?: {
+    allowInvites: boolean
+    moderationLevel: 'open' | 'moderated' | 'strict'
+    contentPolicy: string
+  }
 }
 
-// Notification interface
-export interface Notification {
-  id: string
-  userId: string
-  type: 'connection_request' | 'memory_shared' | 'community_invitation'
-  message: string
-  timestamp: number
-  read: boolean
+// Writes are made by the local identity; only someone redeeming an invitation writes as themselves
+export interface SpaceWriteContext {
+  invitationId?: string
+  redeemerId?: string
 }
 
 /**
@@ -118,10 +125,17 @@ export class MainDXOSClient {
   /**
    * Join an existing space via invitation
    */
-  async joinSpace(invitationCode: string, authCode?: string): Promise<void> {
+  async joinSpace(invitationCode: string, authCode?: string): Promise<any> {
     return this.realClient.joinSpace(invitationCode, authCode)
   }
 
+  /**
+   * Open a DXOS invitation to a space, for an invitation link to carry
+   */
+  async shareSpace(space: any, lifetimeSeconds?: number, authCode?: string): Promise<string> {
+    return this.realClient.shareSpace(space, lifetimeSeconds, authCode)
+  }
+
   /**
    * Get or create the global Discord space
    */
@@ -139,10 +153,187 @@ export class MainDXOSClient {
   /**
    * Add an object to a space
    */
-  async addObject(space: any, object: any): Promise<void> {
+  async addObject(space: any, object: any, context: SpaceWriteContext = {}): Promise<void> {
+    // A copy of an object the space already holds is a concurrent update of it
+    const existing = this.findExistingObject(space, object)
+    if (existing) {
+      return this.mergeIntoObject(space, existing, object, context)
+    }
+
+    const request: SpaceWriteRequest = {
+      ...this.writeContext(context),
+      action: SpaceAccessControl.actionForObject(object),
+      object
+    }
+    await this.authorizeWrite(space, request)
+
+    // Members' memories in moderated spaces wait for an admin first
+    if (request.action === 'memory.create' && SpaceAccessControl.requiresModeration(space, request.actorId)) {
+      const item = await ModerationService.createItem(space, object, request.actorId)
+      await this.realClient.addObject(space, item)
+      console.log('🛡️ [DXOS] Memory queued for moderation:', { spaceId: space.id, itemId: item.id })
+      return
+    }
+
     return this.realClient.addObject(space, object)
   }
 
+  private findExistingObject(space: any, object: any): any | undefined {
+    if (!object?.id || !MergePolicies.isMergeable(object.type)) return undefined
+    try {
+      const objects: any[] = space.db.query({ type: object.type }).run() || []
+      return objects.find(candidate => candidate.id === object.id)
+    } catch (error) {
+      console.error('Failed to look up existing object:', error)
+      return undefined
+    }
+  }
+
+  /**
+   * Merge a local version into the stored object field by field. Fields that
+   * can't be merged wait in the sync conflict queue and nothing is written.
+   */
+  private async mergeIntoObject(space: any, existing: any, object: any, context: SpaceWriteContext): Promise<void> {
+    const conflict = SyncService.handleConflict(object.id, object, { ...existing }, {
+      objectType: object.type,
+      spaceId: space.id
+    })
+    if (!conflict.resolvedVersion) {
+      console.log('⚖️ [DXOS] Update held for conflict review:', { spaceId: space.id, objectId: object.id })
+      return
+    }
+
+    const { id, type, ...changes } = conflict.resolvedVersion
+    await this.updateObject(space, existing, changes, context)
+  }
+
+  /**
+   * Change fields of an object already in a space
+   */
+  async updateObject(
+    space: any,
+    object: any,
+    changes: Record<string, any>,
+    context: SpaceWriteContext = {}
+  ): Promise<void> {
+    const action = object?.type === 'member'
+      ? 'member.role'
+      : object?.type === 'invitation' && context.invitationId ? 'invitation.redeem' : 'object.update'
+
+    await this.authorizeWrite(space, { ...this.writeContext(context), action, object, changes })
+    Object.assign(object, changes)
+  }
+
+  /**
+   * Remove an object from a space
+   */
+  async removeObject(space: any, object: any, context: SpaceWriteContext = {}): Promise<void> {
+    await this.authorizeWrite(space, {
+      ...this.writeContext(context),
+      action: object?.type === 'member' ? 'member.remove' : 'object.remove',
+      object
+    })
+    space.db.remove(object)
+  }
+
+  /**
+   * Memories waiting for review, for moderators
+   */
+  getModerationQueue(space: any, reviewerId: string = this.getActorId()): ModerationItem[] {
+    if (!SpaceAccessControl.can(space, reviewerId, 'moderate')) {
+      throw new Error('Only moderators can review the moderation queue')
+    }
+    return ModerationService.getItems(space, 'pending')
+  }
+
+  /**
+   * Approve or reject a queued memory and notify its author
+   */
+  async reviewModeration(
+    space: any,
+    itemId: string,
+    decision: 'approved' | 'rejected',
+    reason?: string,
+    reviewerId: string = this.getActorId()
+  ): Promise<void> {
+    const item = this.getModerationQueue(space, reviewerId).find(queued => queued.id === itemId)
+    if (!item) throw new Error('Moderation item not found or already reviewed')
+    if (decision === 'rejected' && !reason?.trim()) throw new Error('A reason is required to reject a memory')
+
+    if (decision === 'approved') {
+      await this.realClient.addObject(space, { ...item.memory, type: 'memory', createdAt: Date.now() })
+    }
+
+    item.status = decision
+    item.reason = reason?.trim() || undefined
+    item.reviewedBy = reviewerId
+    item.reviewedAt = Date.now()
+
+    await this.realClient.addObject(space, ModerationService.createDecisionNotification(item))
+  }
+
+  /**
+   * Denied writes in a space, for admins to review
+   */
+  getAccessDenials(space: any): AccessDenialRecord[] {
+    return SpaceAccessControl.getDenials(space, this.getActorId())
+  }
+
+  /**
+   * Mark a denied write as reviewed
+   */
+  async markDenialReviewed(space: any, denialId: string): Promise<void> {
+    const denial = this.getAccessDenials(space).find(record => record.id === denialId)
+    if (!denial) throw new Error('Denied action not found')
+
+    denial.reviewedBy = this.getActorId()
+    denial.reviewedAt = Date.now()
+  }
+
+  /**
+   * Keep an invitation redemption attempt in the space's audit trail
+   */
+  async recordRedemption(space: any, redemption: InvitationRedemption): Promise<void> {
+    try {
+      await this.realClient.addObject(space, redemption)
+      console.log('🎟️ [DXOS] Invitation redemption:', { spaceId: space.id, outcome: redemption.outcome })
+    } catch (error) {
+      console.error('Failed to record invitation redemption:', error)
+    }
+  }
+
+  /**
+   * Id of the local identity, which makes every write
+   */
+  getActorId(): string {
+    const identity = this.getIdentity()
+    return identity?.id || identity?.identityKey?.toHex() || ''
+  }
+
+  private writeContext(context: SpaceWriteContext): Pick<SpaceWriteRequest, 'actorId' | 'invitationId'> {
+    return {
+      actorId: context.invitationId && context.redeemerId ? context.redeemerId : this.getActorId(),
+      invitationId: context.invitationId
+    }
+  }
+
+  // Every space write passes here; refusals are kept in the space for admins
+  private async authorizeWrite(space: any, request: SpaceWriteRequest): Promise<void> {
+    const decision = SpaceAccessControl.authorize(space, request)
+    if (decision.allowed) return
+
+    const reason = decision.reason || 'Not allowed'
+    console.warn('🚫 [DXOS] Denied space write:', { spaceId: space?.id, action: request.action, reason })
+
+    try {
+      await this.realClient.addObject(space, SpaceAccessControl.createDenialRecord(space, request, reason))
+    } catch (error) {
+      console.error('Failed to record denied space write:', error)
+    }
+
+    throw new Error(`Access denied: ${reason}`)
+  }
+
   /**
    * Get online users from all spaces
    */
@@ -150,6 +341,13 @@ export class MainDXOSClient {
     return this.realClient.getOnlineUsers()
   }
 
+  /**
+   * Mesh network status and open spaces, for sync metrics
+   */
+  getNetworkSnapshot(): { networkStatus: any, spaces: any[], identityKey?: string } | null {
+    return this.realClient.getNetworkSnapshot()
+  }
+
   /**
    * Destroy the client
    */
@@ -162,13 +360,21 @@ export class MainDXOSClient {
   /**
    * Create a memory in a space
    */
-  async createMemory(space: any, memory: Memory): Promise<void> {
+  async createMemory(
+    space: any,
+    memory: Memory,
+    context: SpaceWriteContext = {}
+  ): Promise<'published' | 'pending'> {
     const memoryObject = {
       ...memory,
       type: 'memory',
       createdAt: Date.now()
     }
-    return this.addObject(space, memoryObject)
+    const { actorId } = this.writeContext(context)
+    const status = SpaceAccessControl.requiresModeration(space, actorId) ? 'pending' : 'published'
+
+    await this.addObject(space, memoryObject, context)
+    return status
   }
 
   /**
@@ -242,7 +448,7 @@ export const createMemory = async (spaceOrMemory: any, memory?: Memory): Promise
   // Handle both calling patterns: createMemory(memory) and createMemory(space, memory)
   if (memory) {
     // Two argument version: createMemory(space, memory)
-    return mainDXOSClient.createMemory(spaceOrMemory, memory)
+    await mainDXOSClient.createMemory(spaceOrMemory, memory)
   } else {
     // Single argument version: createMemory(memory) - need to get current space
     const memoryObj = spaceOrMemory as Memory
@@ -273,11 +479,15 @@ export const createConnection = async (space: any, connection: Connection): Prom
   return mainDXOSClient.addObject(space, connectionObject)
 }
 
-export const createCommunity = async (space: any, community: Community): Promise<void> => {
+export const createCommunity = async (
+  space: any,
+  community: Community,
+  context: SpaceWriteContext = {}
+): Promise<void> => {
   const communityObject = {
     ...community,
     type: 'community',
     createdAt: Date.now()
   }
-  return mainDXOSClient.addObject(space, communityObject)
+  return mainDXOSClient.addObject(space, communityObject, context)
 }
\ No newline at end of file
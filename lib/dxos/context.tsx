@@ -21,7 +21,7 @@ interface DXOSContextType {
   initialize: () => Promise<void>
   createIdentity: (displayName?: string, discordData?: any) => Promise<any>
   createSpace: (name?: string) => Promise<any>
-  joinSpace: (invitationCode: string, authCode?: string) => Promise<void>
+  joinSpace: (invitationCode: string, authCode?: string) => Promise<any>
   setCurrentSpace: (space: any) => void
   joinGlobalDiscordSpace: () => Promise<any>
   getOrCreateGlobalDiscordSpace: () => Promise<any>
@@ -279,10 +279,11 @@ export function DXOSProvider({ children, autoInitialize = true }: DXOSProviderPr
   const joinSpace = useCallback(async (invitationCode: string, authCode?: string) => {
     try {
       setError(null)
-      await dxosClient.joinSpace(invitationCode, authCode)
+      const space = await dxosClient.joinSpace(invitationCode, authCode)
 
       const updatedSpaces = dxosClient.getSpaces()
       setSpaces(updatedSpaces)
+      return space
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to join space'
       setError(errorMessage)
@@ -628,8 +629,7 @@ export function useMutation() {
       throw new Error('DXOS client or space not available')
     }
 
-    // Remove object from space database
-    currentSpace.db.remove(object)
+    await client.removeObject(currentSpace, object)
   }, [client, currentSpace])
 
   return {
@@ -10,6 +10,9 @@ let Config: any;
 // Import public memory sync service
 import { publicMemorySync } from './utils/public-memory-sync';
 
+// How long a DXOS space invitation stays open when the link has no expiry
+const DEFAULT_SHARE_LIFETIME = 365 * 24 * 60 * 60;
+
 // Dynamic import to handle WASM loading issues
 async function loadDXOS() {
   try {
@@ -373,18 +376,64 @@ export class EtherithDXOSClient {
   }
 
   /**
-   * Join an existing space via invitation
+   * Join an existing space via invitation; resolves with the space once the
+   * host has admitted this device
    */
-  async joinSpace(invitationCode: string, authCode?: string): Promise<void> {
+  async joinSpace(invitationCode: string, authCode?: string): Promise<any> {
+    let subscription: any
     try {
+      const { Invitation } = await import('@dxos/client/invitations')
       const invitation = this.client.spaces.join(invitationCode)
       if (authCode) {
-        await invitation.authenticate({ authCode })
+        await invitation.authenticate(authCode)
       }
-      console.log('✅ [REAL DXOS] Successfully joined space')
+
+      const spaceKey = await new Promise<any>((resolve, reject) => {
+        subscription = invitation.subscribe(
+          (update: any) => {
+            if (update.state === Invitation.State.SUCCESS) {
+              resolve(update.spaceKey)
+            } else if (update.state >= Invitation.State.CANCELLED) {
+              reject(new Error(`Invitation ended: ${Invitation.State[update.state]}`))
+            }
+          },
+          reject
+        )
+      })
+
+      const space = this.client.spaces.get(spaceKey)
+      await space?.waitUntilReady()
+      console.log('✅ [REAL DXOS] Successfully joined space:', space?.id)
+      return space
     } catch (error) {
       console.error('❌ [REAL DXOS] Failed to join space:', error)
       throw error
+    } finally {
+      subscription?.unsubscribe()
+    }
+  }
+
+  /**
+   * Open a reusable DXOS invitation to a space and return its code, which
+   * `joinSpace` accepts on the invitee's device. With an `authCode` this device
+   * admits the invitee only after they enter it; the code isn't in the result.
+   */
+  async shareSpace(space: any, lifetimeSeconds: number = DEFAULT_SHARE_LIFETIME, authCode?: string): Promise<string> {
+    try {
+      const { Invitation, InvitationEncoder } = await import('@dxos/client/invitations')
+      const invitation = space.share({
+        authMethod: authCode ? Invitation.AuthMethod.SHARED_SECRET : Invitation.AuthMethod.NONE,
+        authCode,
+        multiUse: true,
+        persistent: true,
+        lifetime: lifetimeSeconds
+      })
+      const code = InvitationEncoder.encode(invitation.get())
+      console.log('📨 [REAL DXOS] Space shared:', { id: space.id, lifetimeSeconds })
+      return code
+    } catch (error) {
+      console.error('❌ [REAL DXOS] Failed to share space:', error)
+      throw error
     }
   }
 
@@ -585,6 +634,27 @@ export class EtherithDXOSClient {
     return this.initialized && this.client.status.get()?.client === 'ready'
   }
 
+  /**
+   * Mesh network status, open spaces and our identity key, read without
+   * logging so sync monitoring can poll it
+   */
+  getNetworkSnapshot(): { networkStatus: any, spaces: any[], identityKey?: string } | null {
+    if (!this.dxosLoaded || !this.client) {
+      return null
+    }
+
+    try {
+      return {
+        networkStatus: this.client.mesh.networkStatus.get(),
+        spaces: this.client.spaces.get(),
+        identityKey: this.client.halo.identity.get()?.identityKey?.toHex()
+      }
+    } catch (error) {
+      console.warn('⚠️ [REAL DXOS] Could not read network status:', error)
+      return null
+    }
+  }
+
   /**
    * Destroy the client
    */
@@ -0,0 +1,318 @@
+/**
+ * DXOS Space Access Control
+ * Decides which space writes a member's role and the space's moderation level allow
+ */
+
+import type { SpaceMember, SpaceOptions } from './spaces'
+import { InvitationService } from './invitations'
+
+export type SpaceRole = SpaceMember['role']
+export type SpaceCapability = 'read' | 'write' | 'admin' | 'invite' | 'moderate' | 'delete'
+export type SpaceSettings = NonNullable<SpaceOptions['settings']>
+
+export type SpaceWriteAction =
+  | 'memory.create'
+  | 'object.add'
+  | 'object.update'
+  | 'object.remove'
+  | 'member.add'
+  | 'member.remove'
+  | 'member.role'
+  | 'invitation.create'
+  | 'invitation.redeem'
+
+export interface SpaceWriteRequest {
+  action: SpaceWriteAction
+  actorId: string
+  object?: any
+  changes?: Record<string, any>
+  // Set while a user redeems an invitation, before they are a member
+  invitationId?: string
+}
+
+export interface AccessDecision {
+  allowed: boolean
+  reason?: string
+}
+
+export interface AccessDenialRecord {
+  id: string
+  type: 'access_denial'
+  spaceId: string
+  actorId: string
+  action: SpaceWriteAction
+  reason: string
+  objectType?: string
+  objectId?: string
+  timestamp: number
+  reviewedBy?: string
+  reviewedAt?: number
+}
+
+export const ROLE_CAPABILITIES: Record<SpaceRole, SpaceCapability[]> = {
+  owner: ['read', 'write', 'admin', 'invite', 'moderate', 'delete'],
+  admin: ['read', 'write', 'admin', 'invite', 'moderate'],
+  member: ['read', 'write'],
+  viewer: ['read']
+}
+
+export const DEFAULT_SPACE_SETTINGS: SpaceSettings = {
+  allowInvites: true,
+  moderationLevel: 'open',
+  contentPolicy: ''
+}
+
+// Objects the access layer itself writes; clients may never forge them
+const PROTECTED_TYPES = ['access_denial', 'moderation_item', 'invitation_redemption']
+
+const allow = (): AccessDecision => ({ allowed: true })
+const deny = (reason: string): AccessDecision => ({ allowed: false, reason })
+
+/**
+ * Space Access Control Service
+ * Spaces without a member roster (the global Discord space, spaces created
+ * before roles existed) stay unmanaged and accept any write.
+ */
+export class SpaceAccessControl {
+  /**
+   * Get the member roster of a space
+   */
+  static getMembers(space: any): SpaceMember[] {
+    try {
+      return space.db.query({ type: 'member' }).run() || []
+    } catch (error) {
+      console.error('Failed to read space members:', error)
+      return []
+    }
+  }
+
+  static getMember(space: any, userId: string): SpaceMember | undefined {
+    return this.getMembers(space).find(member => member.userId === userId)
+  }
+
+  /**
+   * Get space settings stored on the community object
+   */
+  static getSettings(space: any): SpaceSettings {
+    try {
+      const communities = space.db.query({ type: 'community' }).run() || []
+      return { ...DEFAULT_SPACE_SETTINGS, ...communities[0]?.settings }
+    } catch {
+      return DEFAULT_SPACE_SETTINGS
+    }
+  }
+
+  /**
+   * Capabilities of a user, adjusted for the space's settings
+   */
+  static getCapabilities(space: any, userId: string): SpaceCapability[] {
+    const member = this.getMember(space, userId)
+    if (!member) return []
+
+    const capabilities = ROLE_CAPABILITIES[member.role] || ['read']
+    const settings = this.getSettings(space)
+
+    // Open spaces that allow invites let every writer bring people in
+    if (settings.moderationLevel === 'open' && settings.allowInvites && capabilities.includes('write')) {
+      return capabilities.includes('invite') ? capabilities : [...capabilities, 'invite']
+    }
+    if (!settings.allowInvites && !capabilities.includes('admin')) {
+      return capabilities.filter(capability => capability !== 'invite')
+    }
+    return capabilities
+  }
+
+  static can(space: any, userId: string, capability: SpaceCapability): boolean {
+    return this.getCapabilities(space, userId).includes(capability)
+  }
+
+  /**
+   * Whether a user's new memories wait for review before they appear
+   */
+  static requiresModeration(space: any, userId: string): boolean {
+    if (this.getSettings(space).moderationLevel === 'open') return false
+    if (this.getMembers(space).length === 0) return false
+    return !this.can(space, userId, 'moderate')
+  }
+
+  /**
+   * Map an object about to be added to the write it represents
+   */
+  static actionForObject(object: any): SpaceWriteAction {
+    switch (object?.type) {
+      case 'memory':
+        return 'memory.create'
+      case 'member':
+        return 'member.add'
+      case 'invitation':
+        return 'invitation.create'
+      default:
+        return 'object.add'
+    }
+  }
+
+  /**
+   * Decide whether a write is allowed
+   */
+  static authorize(space: any, request: SpaceWriteRequest): AccessDecision {
+    const { action, actorId, object, changes = {} } = request
+
+    if (!actorId) return deny('No identity to authorize the write')
+    if (PROTECTED_TYPES.includes(object?.type)) return deny(`${object.type} records are written by the space itself`)
+
+    const members = this.getMembers(space)
+    if (members.length === 0) {
+      if (action === 'member.add' && (object?.role !== 'owner' || object?.userId !== actorId)) {
+        return deny('The first member of a space must be its creator as owner')
+      }
+      return allow()
+    }
+
+    // Joining is the only write a non-member can make
+    if (request.invitationId) return this.authorizeRedemption(space, request)
+
+    const actor = members.find(member => member.userId === actorId)
+    if (!actor) return deny('Not a member of this space')
+
+    const capabilities = this.getCapabilities(space, actorId)
+    const has = (capability: SpaceCapability) => capabilities.includes(capability)
+    const settings = this.getSettings(space)
+    const authorId = object?.authorId || object?.createdBy
+    const isOwnObject = !authorId || authorId === actorId
+
+    switch (action) {
+      case 'memory.create':
+        return has('write') ? allow() : deny('Viewers cannot add memories')
+
+      case 'object.add':
+        if (!has('write')) return deny('Viewers cannot add to this space')
+        if (settings.moderationLevel === 'strict' && !has('moderate')) {
+          return deny('Only moderators can add objects other than memories in a strict space')
+        }
+        return allow()
+
+      case 'object.update':
+      case 'object.remove':
+        if (object?.type === 'member') return this.authorizeMemberChange(space, request, actor)
+        if (!has('write')) return deny('Viewers cannot change this space')
+        if (!isOwnObject && !has('moderate')) return deny('Only moderators can change content by other members')
+        if (settings.moderationLevel === 'strict' && !has('moderate') && object?.type !== 'memory') {
+          return deny('Only moderators can change objects other than memories in a strict space')
+        }
+        return allow()
+
+      case 'member.add':
+        if (!has('admin')) return deny('Only admins can add members directly')
+        if (object?.role === 'owner') return deny('A space has exactly one owner')
+        if (object?.role === 'admin' && actor.role !== 'owner') return deny('Only the owner can add admins')
+        if (members.some(member => member.userId === object?.userId)) return deny('User is already a member')
+        return allow()
+
+      case 'member.remove':
+      case 'member.role':
+        return this.authorizeMemberChange(space, { ...request, changes }, actor)
+
+      case 'invitation.create':
+        return has('invite') ? allow() : deny('Not allowed to invite people to this space')
+
+      case 'invitation.redeem':
+        return deny('Invitations can only be redeemed while joining')
+    }
+  }
+
+  /**
+   * Role changes and removals, including members leaving on their own
+   */
+  private static authorizeMemberChange(
+    space: any,
+    request: SpaceWriteRequest,
+    actor: SpaceMember
+  ): AccessDecision {
+    const target = request.object as SpaceMember | undefined
+    if (!target) return deny('Member not found')
+
+    const removing = request.action === 'member.remove' || request.action === 'object.remove'
+    const newRole = request.changes?.role as SpaceRole | undefined
+
+    if (removing) {
+      if (target.role === 'owner') return deny('Cannot remove space owner')
+      if (target.userId === actor.userId) return allow()
+    } else if (!newRole || Object.keys(request.changes || {}).some(key => key !== 'role' && key !== 'permissions')) {
+      return deny('Only the role of a member can be changed')
+    }
+
+    if (!this.can(space, actor.userId, 'admin')) return deny('Only admins can manage members')
+    if (target.userId === actor.userId) return deny('Members cannot change their own role')
+    if (target.role === 'owner') return deny('The owner role cannot be changed')
+    if (newRole === 'owner') return deny('Ownership cannot be transferred')
+    if ((target.role === 'admin' || newRole === 'admin') && actor.role !== 'owner') {
+      return deny('Only the owner can grant or revoke admin')
+    }
+    return allow()
+  }
+
+  /**
+   * A non-member redeeming an invitation may add themselves and count the use
+   */
+  private static authorizeRedemption(space: any, request: SpaceWriteRequest): AccessDecision {
+    const { action, actorId, object, changes = {}, invitationId } = request
+
+    let invitations: any[] = []
+    try {
+      invitations = space.db.query({ type: 'invitation', id: invitationId }).run() || []
+    } catch {
+      invitations = []
+    }
+    if (invitations.length === 0) return deny('Invitation not found')
+
+    if (action === 'member.add') {
+      const status = InvitationService.getStatus(invitations[0], InvitationService.countUses(space, invitations[0]))
+      if (status !== 'active') return deny(`Invitation is ${status}`)
+      if (object?.userId !== actorId) return deny('Invitations only admit the person redeeming them')
+      if (object?.role !== 'member' && object?.role !== 'viewer') return deny('Invitations cannot grant elevated roles')
+      if (this.getMember(space, actorId)) return deny('User is already a member')
+      return allow()
+    }
+
+    if (action === 'invitation.redeem') {
+      const onlyUses = Object.keys(changes).every(key => key === 'currentUses')
+      return object?.id === invitationId && onlyUses ? allow() : deny('Only the invitation use count can change')
+    }
+
+    return deny('Not a member of this space')
+  }
+
+  /**
+   * Build the audit record for a refused write
+   */
+  static createDenialRecord(space: any, request: SpaceWriteRequest, reason: string): AccessDenialRecord {
+    return {
+      id: `denial-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      type: 'access_denial',
+      spaceId: space.id,
+      actorId: request.actorId,
+      action: request.action,
+      reason,
+      objectType: request.object?.type,
+      objectId: request.object?.id || request.object?.userId,
+      timestamp: Date.now()
+    }
+  }
+
+  /**
+   * Denied writes in a space, newest first; admins only
+   */
+  static getDenials(space: any, reviewerId: string): AccessDenialRecord[] {
+    if (this.getMembers(space).length > 0 && !this.can(space, reviewerId, 'admin')) {
+      throw new Error('Only admins can review denied actions')
+    }
+
+    try {
+      const denials: AccessDenialRecord[] = space.db.query({ type: 'access_denial' }).run() || []
+      return denials.slice().sort((a, b) => b.timestamp - a.timestamp)
+    } catch (error) {
+      console.error('Failed to read denied actions:', error)
+      return []
+    }
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * DXOS Space Invitation Tokens
+ * Signed invitation links and the redemption audit trail
+ */
+
+import { CryptoService } from '../../../utils/crypto'
+import type { SpaceInvitation } from './spaces'
+
+// Terms of an invitation, fixed when it is created
+export interface InvitationClaims {
+  v: 1
+  invitationId: string
+  spaceId: string
+  createdBy: string
+  issuedAt: number
+  expiresAt?: number
+  maxUses?: number
+  requiresAuth: boolean // The host checks the auth code when the invitee fetches the space
+  dxosInvitation?: string // DXOS invitation that brings the space to the invitee's device
+}
+
+export interface InvitationToken extends InvitationClaims {
+  publicKey: string // Creator's signing key, base64 SPKI
+  signature: string
+}
+
+export type InvitationStatus = 'active' | 'expired' | 'exhausted' | 'revoked'
+
+export type RedemptionOutcome =
+  | 'joined'
+  | 'invalid'
+  | 'expired'
+  | 'exhausted'
+  | 'revoked'
+  | 'auth_failed'
+  | 'already_member'
+
+export interface InvitationRedemption {
+  id: string
+  type: 'invitation_redemption'
+  spaceId: string
+  invitationId: string
+  userId: string
+  displayName: string
+  outcome: RedemptionOutcome
+  timestamp: number
+}
+
+export const REDEMPTION_ERRORS: Record<Exclude<RedemptionOutcome, 'joined'>, string> = {
+  invalid: 'Invalid invitation link',
+  expired: 'Invitation has expired',
+  exhausted: 'Invitation usage limit reached',
+  revoked: 'Invitation has been revoked',
+  auth_failed: 'Invalid authentication code',
+  already_member: 'User is already a member'
+}
+
+export const JOIN_PATH = '/join/'
+
+const claimsOf = (token: InvitationClaims): InvitationClaims => ({
+  v: token.v,
+  invitationId: token.invitationId,
+  spaceId: token.spaceId,
+  createdBy: token.createdBy,
+  issuedAt: token.issuedAt,
+  expiresAt: token.expiresAt,
+  maxUses: token.maxUses,
+  requiresAuth: token.requiresAuth,
+  dxosInvitation: token.dxosInvitation
+})
+
+// Unambiguous characters; 32 of them, so a random byte maps without bias
+const AUTH_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const AUTH_CODE_LENGTH = 8
+
+/**
+ * Invitation Service
+ * The signed token is the source of truth for expiry and use limits; the
+ * invitation object in the space only carries what changes afterwards
+ * (uses and revocation), so editing it cannot extend an invitation.
+ */
+export class InvitationService {
+  /**
+   * Sign the terms of a new invitation and return its link code
+   */
+  static async issue(
+    invitation: SpaceInvitation,
+    options: { requiresAuth?: boolean; dxosInvitation?: string } = {}
+  ): Promise<string> {
+    const claims: InvitationClaims = {
+      v: 1,
+      invitationId: invitation.id,
+      spaceId: invitation.spaceId,
+      createdBy: invitation.createdBy,
+      issuedAt: invitation.createdAt,
+      expiresAt: invitation.expiresAt,
+      maxUses: invitation.maxUses,
+      requiresAuth: !!options.requiresAuth,
+      dxosInvitation: options.dxosInvitation
+    }
+
+    const { publicKey } = await CryptoService.getOrCreateSigningKey(invitation.createdBy)
+    const signature = await CryptoService.sign(invitation.createdBy, CryptoService.canonicalJSON(claims))
+    return this.encode({ ...claims, publicKey, signature })
+  }
+
+  static encode(token: InvitationToken): string {
+    return btoa(CryptoService.canonicalJSON(token))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '')
+  }
+
+  /**
+   * Read a token from a link code or a full invitation link
+   */
+  static decode(codeOrLink: string | undefined): InvitationToken | null {
+    if (!codeOrLink) return null
+
+    const trimmed = codeOrLink.trim()
+    const code = trimmed.includes(JOIN_PATH)
+      ? trimmed.slice(trimmed.lastIndexOf(JOIN_PATH) + JOIN_PATH.length).split(/[?#]/)[0]
+      : trimmed
+
+    try {
+      const base64 = decodeURIComponent(code).replace(/-/g, '+').replace(/_/g, '/')
+      const token = JSON.parse(atob(base64))
+      if (token?.v !== 1 || !token.invitationId || !token.spaceId || !token.signature) return null
+      return token
+    } catch {
+      return null
+    }
+  }
+
+  static async verify(token: InvitationToken): Promise<boolean> {
+    return CryptoService.verify(token.publicKey, CryptoService.canonicalJSON(claimsOf(token)), token.signature)
+  }
+
+  /**
+   * Code the invitee enters to be admitted. It stays on the creator's device,
+   * which checks it as the DXOS host, so the link alone is not enough.
+   */
+  static createAuthCode(): string {
+    return Array.from(crypto.getRandomValues(new Uint8Array(AUTH_CODE_LENGTH)))
+      .map(byte => AUTH_CODE_ALPHABET[byte % AUTH_CODE_ALPHABET.length])
+      .join('')
+  }
+
+  static getLink(origin: string, invitation: SpaceInvitation): string | null {
+    return invitation.token ? `${origin}${JOIN_PATH}${invitation.token}` : null
+  }
+
+  /**
+   * Whether an invitation can still be redeemed, judged by its signed terms
+   */
+  static getStatus(invitation: SpaceInvitation, uses: number = invitation.currentUses, now: number = Date.now()): InvitationStatus {
+    const terms = this.decode(invitation.token) || invitation
+
+    if (invitation.revokedAt) return 'revoked'
+    if (terms.expiresAt && now > terms.expiresAt) return 'expired'
+    if (terms.maxUses && uses >= terms.maxUses) return 'exhausted'
+    return 'active'
+  }
+
+  /**
+   * Redemption attempts, newest first
+   */
+  static getRedemptions(space: any, invitationId?: string): InvitationRedemption[] {
+    try {
+      const redemptions: InvitationRedemption[] = space.db.query({ type: 'invitation_redemption' }).run() || []
+      return redemptions
+        .filter(redemption => !invitationId || redemption.invitationId === invitationId)
+        .sort((a, b) => b.timestamp - a.timestamp)
+    } catch (error) {
+      console.error('Failed to read invitation redemptions:', error)
+      return []
+    }
+  }
+
+  /**
+   * Uses so far; successful redemptions count even if a peer's use counter
+   * update was lost in a concurrent join
+   */
+  static countUses(space: any, invitation: SpaceInvitation): number {
+    const joined = this.getRedemptions(space, invitation.id)
+      .filter(redemption => redemption.outcome === 'joined').length
+    return Math.max(invitation.currentUses || 0, joined)
+  }
+
+  static createRedemption(
+    space: any,
+    invitationId: string,
+    userId: string,
+    displayName: string,
+    outcome: RedemptionOutcome
+  ): InvitationRedemption {
+    return {
+      id: `redemption-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      type: 'invitation_redemption',
+      spaceId: space.id,
+      invitationId,
+      userId,
+      displayName,
+      outcome,
+      timestamp: Date.now()
+    }
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * DXOS Merge Policies
+ * Field-level merge strategies for conflicting versions of space objects
+ */
+
+import { CryptoService } from '../../../utils/crypto'
+import { mergeText } from '../../../utils/text-diff'
+
+// How one field is merged:
+// - lww: value from the most recently written version
+// - union: set union of arrays (removals on either side are kept when a base is known)
+// - max: largest number, or largest value per key of a counter record
+// - text: three-way text merge, conflicting only when both sides edit the same lines
+// - keep: fixed at creation, the local value always wins
+export type FieldStrategy = 'lww' | 'union' | 'max' | 'text' | 'keep'
+
+export type MergePolicy = Record<string, FieldStrategy>
+
+export type MergeableType = 'memory' | 'user_profile' | 'connection' | 'community'
+
+export const MERGE_POLICIES: Record<MergeableType, MergePolicy> = {
+  memory: {
+    id: 'keep',
+    authorId: 'keep',
+    createdAt: 'keep',
+    content: 'text',
+    tags: 'union',
+    reactions: 'max',
+    timestamp: 'max',
+    updatedAt: 'max'
+  },
+  user_profile: {
+    id: 'keep',
+    joinedAt: 'keep',
+    bio: 'text',
+    lastActive: 'max',
+    socialStats: 'max'
+  },
+  connection: {
+    id: 'keep',
+    fromUserId: 'keep',
+    toUserId: 'keep',
+    createdAt: 'keep',
+    updatedAt: 'max'
+  },
+  community: {
+    id: 'keep',
+    createdAt: 'keep',
+    description: 'text',
+    members: 'union',
+    admins: 'union'
+  }
+}
+
+// A field both sides changed in ways no strategy can combine
+export interface FieldConflict {
+  field: string
+  strategy: FieldStrategy
+  local: any
+  remote: any
+  base?: any
+  suggestion?: any // Best effort merge, e.g. text with conflict markers
+}
+
+export interface MergeResult {
+  merged: Record<string, any>
+  conflicts: FieldConflict[]
+}
+
+const same = (a: unknown, b: unknown) => CryptoService.canonicalJSON(a) === CryptoService.canonicalJSON(b)
+
+// Versions carry no per-field clocks, so the object's own write time orders them
+const writtenAt = (version: any): number =>
+  version?.updatedAt || version?.timestamp || version?.lastActive || version?.createdAt || 0
+
+const unionOf = (local: any[] = [], remote: any[] = [], base?: any[]): any[] => {
+  const key = (item: any) => CryptoService.canonicalJSON(item)
+  const removed = new Set<string>()
+
+  if (base) {
+    const localKeys = new Set(local.map(key))
+    const remoteKeys = new Set(remote.map(key))
+    base.forEach(item => {
+      if (!localKeys.has(key(item)) || !remoteKeys.has(key(item))) removed.add(key(item))
+    })
+  }
+
+  const seen = new Set<string>()
+  return [...local, ...remote].filter(item => {
+    const itemKey = key(item)
+    if (seen.has(itemKey) || removed.has(itemKey)) return false
+    seen.add(itemKey)
+    return true
+  })
+}
+
+const maxOf = (local: any, remote: any): any => {
+  if (typeof local === 'number' || typeof remote === 'number') {
+    return Math.max(Number(local) || 0, Number(remote) || 0)
+  }
+
+  const merged: Record<string, number> = { ...(remote || {}) }
+  Object.keys(local || {}).forEach(key => {
+    merged[key] = Math.max(local[key] || 0, merged[key] || 0)
+  })
+  return merged
+}
+
+/**
+ * Merge Policies
+ */
+export class MergePolicies {
+  static isMergeable(objectType: string | undefined): objectType is MergeableType {
+    return !!objectType && objectType in MERGE_POLICIES
+  }
+
+  /**
+   * Strategy for a field; fields without a policy are last-writer-wins
+   */
+  static getStrategy(objectType: string | undefined, field: string): FieldStrategy {
+    if (field === 'type') return 'keep'
+    return (this.isMergeable(objectType) && MERGE_POLICIES[objectType][field]) || 'lww'
+  }
+
+  /**
+   * Merge two versions of an object field by field. With the common ancestor
+   * (`base`) a field changed on one side only takes that side's value;
+   * without it every differing field goes through its strategy.
+   */
+  static merge(objectType: string | undefined, local: any, remote: any, base?: any): MergeResult {
+    const merged: Record<string, any> = {}
+    const conflicts: FieldConflict[] = []
+    const localIsNewer = writtenAt(local) >= writtenAt(remote)
+
+    const fields = new Set([...Object.keys(remote || {}), ...Object.keys(local || {})])
+    fields.forEach(field => {
+      const localValue = local?.[field]
+      const remoteValue = remote?.[field]
+      const baseValue = base?.[field]
+      const strategy = this.getStrategy(objectType, field)
+
+      if (same(localValue, remoteValue)) {
+        merged[field] = localValue
+        return
+      }
+
+      if (strategy === 'keep') {
+        merged[field] = localValue !== undefined ? localValue : remoteValue
+        return
+      }
+
+      if (base && strategy !== 'union' && strategy !== 'max') {
+        if (same(localValue, baseValue)) {
+          merged[field] = remoteValue
+          return
+        }
+        if (same(remoteValue, baseValue)) {
+          merged[field] = localValue
+          return
+        }
+      }
+
+      switch (strategy) {
+        case 'union':
+          merged[field] = unionOf(localValue, remoteValue, base ? baseValue || [] : undefined)
+          return
+        case 'max':
+          merged[field] = maxOf(localValue, remoteValue)
+          return
+        case 'text': {
+          if (typeof baseValue === 'string' && typeof localValue === 'string' && typeof remoteValue === 'string') {
+            const result = mergeText(baseValue, localValue, remoteValue, { ours: 'local', theirs: 'remote' })
+            if (result.conflicts.length === 0) {
+              merged[field] = result.content
+              return
+            }
+            conflicts.push({ field, strategy, local: localValue, remote: remoteValue, base: baseValue, suggestion: result.content })
+          } else {
+            conflicts.push({ field, strategy, local: localValue, remote: remoteValue, base: baseValue })
+          }
+          // Keep the local text until someone decides
+          merged[field] = localValue
+          return
+        }
+        default:
+          merged[field] = localIsNewer ? localValue : remoteValue
+      }
+    })
+
+    return { merged, conflicts }
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * DXOS Space Moderation
+ * Queue of memories waiting for review in 'moderated' and 'strict' spaces
+ */
+
+import { PrivacyManager } from '../../../utils/privacy-controls'
+import { AIAnalysisService } from '../../../utils/ai-analysis'
+import type { Memory as VaultMemory } from '../../../types/memory'
+import type { Memory, Notification } from '../client'
+import { SpaceAccessControl } from './access-control'
+
+export type ModerationStatus = 'pending' | 'approved' | 'rejected'
+
+// Automatic checks run before a memory enters a strict space's queue
+export interface ModerationChecks {
+  safetyFlags: string[]
+  category?: string
+  tags?: string[]
+  sentiment?: 'positive' | 'negative' | 'neutral'
+  aiGenerated: boolean
+  checkedAt: number
+}
+
+export interface ModerationItem {
+  id: string
+  type: 'moderation_item'
+  spaceId: string
+  memory: Memory & Record<string, any>
+  authorId: string
+  submittedAt: number
+  level: 'moderated' | 'strict'
+  status: ModerationStatus
+  checks?: ModerationChecks
+  reviewedBy?: string
+  reviewedAt?: number
+  reason?: string
+}
+
+// Notification delivered to the author through the space
+export interface NotificationRecord {
+  id: string
+  type: 'notification'
+  spaceId: string
+  notification: Notification
+}
+
+/**
+ * Moderation Service
+ * Builds queue items and decisions; MainDXOSClient stores them in the space
+ */
+export class ModerationService {
+  /**
+   * Run content safety and AI categorization on a memory
+   */
+  static async screen(memory: Memory & Record<string, any>): Promise<ModerationChecks> {
+    const safetyFlags = PrivacyManager.checkContentSafety({
+      title: memory.title || '',
+      content: memory.content || '',
+      memoryNote: memory.memoryNote || ''
+    } as VaultMemory)
+
+    // Falls back to keyword tags when the AI worker is unreachable
+    const { analysis } = await AIAnalysisService.analyzeMemoryWithFallback({
+      title: memory.title,
+      content: memory.content,
+      memoryNote: memory.memoryNote,
+      fileType: memory.fileType as VaultMemory['fileType']
+    })
+
+    return {
+      safetyFlags,
+      category: analysis.categories,
+      tags: analysis.tags,
+      sentiment: analysis.sentiment?.sentiment,
+      aiGenerated: analysis.aiGenerated,
+      checkedAt: Date.now()
+    }
+  }
+
+  /**
+   * Build the queue item for a memory submitted to a moderated space
+   */
+  static async createItem(space: any, memory: any, authorId: string): Promise<ModerationItem> {
+    const level = SpaceAccessControl.getSettings(space).moderationLevel === 'strict' ? 'strict' : 'moderated'
+    const content = { ...memory }
+    delete content.type
+
+    return {
+      id: `mod-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      type: 'moderation_item',
+      spaceId: space.id,
+      memory: content,
+      authorId,
+      submittedAt: Date.now(),
+      level,
+      status: 'pending',
+      checks: level === 'strict' ? await this.screen(content) : undefined
+    }
+  }
+
+  /**
+   * Get queue items, oldest first
+   */
+  static getItems(space: any, status?: ModerationStatus): ModerationItem[] {
+    try {
+      const items: ModerationItem[] = space.db.query({ type: 'moderation_item' }).run() || []
+      return items
+        .filter(item => !status || item.status === status)
+        .sort((a, b) => a.submittedAt - b.submittedAt)
+    } catch (error) {
+      console.error('Failed to read moderation queue:', error)
+      return []
+    }
+  }
+
+  /**
+   * Tell the author what happened to their memory
+   */
+  static createDecisionNotification(item: ModerationItem): NotificationRecord {
+    const title = item.memory.title || 'Your memory'
+    const message = item.status === 'approved'
+      ? `"${title}" was approved and is now visible in the space`
+      : `"${title}" was not approved${item.reason ? `: ${item.reason}` : ''}`
+
+    return {
+      id: `notification-${item.id}`,
+      type: 'notification',
+      spaceId: item.spaceId,
+      notification: {
+        id: `notification-${item.id}`,
+        userId: item.authorId,
+        type: 'memory_moderated',
+        message,
+        timestamp: Date.now(),
+        read: false,
+        actorId: item.reviewedBy,
+        spaceId: item.spaceId
+      }
+    }
+  }
+}
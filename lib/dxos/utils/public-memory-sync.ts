@@ -4,6 +4,7 @@
  */
 
 import { EtherithDXOSClient } from '../real-client'
+import { dxosClient } from '../client'
 
 export interface PublicMemorySync {
   id: string
@@ -252,8 +253,8 @@ export class PublicMemorySyncService {
             const existing = await space.db.query({ id: item.memoryId }).run()
             if (existing && existing.length > 0) continue
 
-            // Add the memory to this space
-            await space.db.add({
+            // Add the memory to this space, as any other write the target space authorizes
+            await dxosClient.addObject(space, {
               ...memoryData,
               type: 'cross_space_memory',
               originalSpaceId: item.spaceId,
@@ -0,0 +1,127 @@
+/**
+ * DXOS Space Notifications
+ * Derives notifications for the local identity from objects in a space
+ */
+
+import type { Notification } from '../../../types/notification'
+import { SpaceAccessControl } from './access-control'
+import type { SpaceInvitation } from './spaces'
+import type { NotificationRecord } from './moderation'
+
+/**
+ * Space Notification Service
+ * Notification ids are derived from the objects they describe, so collecting
+ * the same space again yields the same notifications.
+ */
+export class SpaceNotificationService {
+  /**
+   * Everything in a space that concerns an identity
+   */
+  static collect(space: any, identityId: string): Notification[] {
+    if (!space || !identityId) return []
+
+    return [
+      ...this.connectionNotifications(space, identityId),
+      ...this.invitationNotifications(space, identityId),
+      ...this.storedNotifications(space, identityId)
+    ]
+  }
+
+  /**
+   * Incoming connection requests and answers to our own
+   */
+  private static connectionNotifications(space: any, identityId: string): Notification[] {
+    const names = this.memberNames(space)
+    const notifications: Notification[] = []
+
+    this.query(space, 'connection').forEach(connection => {
+      if (connection.status === 'pending' && connection.toUserId === identityId && connection.fromUserId !== identityId) {
+        notifications.push({
+          id: `connection-${connection.id}-pending`,
+          userId: identityId,
+          type: 'connection_request',
+          message: `${names[connection.fromUserId] || 'Someone'} wants to connect with you`,
+          timestamp: connection.timestamp,
+          read: false,
+          actorId: connection.fromUserId,
+          spaceId: space.id
+        })
+      }
+
+      if (connection.status === 'accepted' && connection.fromUserId === identityId && connection.updatedAt) {
+        notifications.push({
+          id: `connection-${connection.id}-accepted`,
+          userId: identityId,
+          type: 'connection_request',
+          message: `${names[connection.toUserId] || 'Someone'} accepted your connection request`,
+          timestamp: connection.updatedAt,
+          read: false,
+          actorId: connection.toUserId,
+          spaceId: space.id
+        })
+      }
+    })
+
+    return notifications
+  }
+
+  /**
+   * People who joined through invitations we created
+   */
+  private static invitationNotifications(space: any, identityId: string): Notification[] {
+    const invitations: SpaceInvitation[] = this.query(space, 'invitation')
+    const ownInvitations = invitations
+      .filter(invitation => invitation.createdBy === identityId)
+      .map(invitation => invitation.id)
+    if (ownInvitations.length === 0) return []
+
+    const spaceName = this.spaceName(space)
+    return SpaceAccessControl.getMembers(space)
+      .filter(member => member.invitationId && ownInvitations.includes(member.invitationId) && member.userId !== identityId)
+      .map(member => ({
+        id: `invitation-${member.invitationId}-${member.userId}`,
+        userId: identityId,
+        type: 'community_invitation' as const,
+        message: `${member.displayName} joined ${spaceName} with your invitation`,
+        timestamp: member.joinedAt,
+        read: false,
+        actorId: member.userId,
+        spaceId: space.id
+      }))
+  }
+
+  /**
+   * Notifications written into the space for us, such as moderation decisions
+   */
+  private static storedNotifications(space: any, identityId: string): Notification[] {
+    const records: NotificationRecord[] = this.query(space, 'notification')
+    return records
+      .filter(record => record.notification?.userId === identityId)
+      .map(record => ({ ...record.notification, read: false }))
+  }
+
+  private static memberNames(space: any): Record<string, string> {
+    const names: Record<string, string> = {}
+    SpaceAccessControl.getMembers(space).forEach(member => {
+      names[member.userId] = member.displayName
+    })
+    this.query(space, 'user_profile').forEach(profile => {
+      if (profile.id && profile.displayName) names[profile.id] = profile.displayName
+    })
+    return names
+  }
+
+  private static spaceName(space: any): string {
+    const communities = this.query(space, 'community')
+    return communities[0]?.name || space.properties?.name || 'your space'
+  }
+
+  private static query(space: any, type: string): any[] {
+    try {
+      return space.db.query({ type }).run() || []
+    } catch (error) {
+      console.error(`Failed to read ${type} objects:`, error)
+      return []
+    }
+  }
+}
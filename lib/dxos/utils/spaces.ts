@@ -4,6 +4,8 @@
  */
 
 import { dxosClient, Community, createCommunity } from '../client'
+import { SpaceAccessControl, ROLE_CAPABILITIES, SpaceCapability, AccessDenialRecord } from './access-control'
+import { InvitationService, InvitationRedemption, RedemptionOutcome, REDEMPTION_ERRORS } from './invitations'
 
 export interface SpaceOptions {
   name?: string
@@ -19,23 +21,29 @@ export interface SpaceOptions {
 
 export interface SpaceInvitation {
   id: string
+  type?: 'invitation'
   spaceId: string
   createdBy: string
   createdAt: number
   expiresAt?: number
   maxUses?: number
   currentUses: number
-  authCode?: string
+  authCode?: string // Returned to the creator once; never stored in the space or the token
   metadata?: Record<string, any>
+  token?: string // Signed link code; its terms override the fields above
+  revokedAt?: number
+  revokedBy?: string
 }
 
 export interface SpaceMember {
+  type?: 'member'
   userId: string
   displayName: string
   role: 'owner' | 'admin' | 'member' | 'viewer'
   joinedAt: number
   lastActive: number
   permissions: string[]
+  invitationId?: string // Set when the member joined through an invitation
 }
 
 /**
@@ -43,14 +51,12 @@ export interface SpaceMember {
  */
 export class SpaceService {
   /**
-   * Create a new enhanced space
+   * Create a new enhanced space, owned by the local identity
    */
-  static async createEnhancedSpace(
-    creatorId: string,
-    options: SpaceOptions
-  ): Promise<{ space: any; community: Community }> {
+  static async createEnhancedSpace(options: SpaceOptions): Promise<{ space: any; community: Community }> {
     // Create DXOS space
     const space = await dxosClient.createSpace(options.name)
+    const creatorId = dxosClient.getActorId()
 
     // Create community metadata object
     const communityData: Community = {
@@ -59,20 +65,22 @@ export class SpaceService {
       description: options.description || '',
       members: [creatorId],
       admins: [creatorId],
-      createdAt: Date.now()
+      createdAt: Date.now(),
+      settings: options.settings
     }
 
     // Add community metadata to space
     await createCommunity(space, communityData)
 
-    // Add creator as owner
+    // Add creator as owner; from here on the roster decides who may write
     const ownerMember: SpaceMember = {
+      type: 'member',
       userId: creatorId,
       displayName: 'Space Owner',
       role: 'owner',
       joinedAt: Date.now(),
       lastActive: Date.now(),
-      permissions: ['read', 'write', 'admin', 'invite', 'moderate']
+      permissions: SpaceService.getRolePermissions('owner')
     }
 
     await dxosClient.addObject(space, ownerMember)
@@ -81,11 +89,10 @@ export class SpaceService {
   }
 
   /**
-   * Create space invitation
+   * Create space invitation, signed by the local identity
    */
   static async createSpaceInvitation(
     space: any,
-    creatorId: string,
     options: {
       expiresIn?: number // milliseconds
       maxUses?: number
@@ -93,96 +100,132 @@ export class SpaceService {
       metadata?: Record<string, any>
     } = {}
   ): Promise<SpaceInvitation> {
+    const authCode = options.requireAuth ? InvitationService.createAuthCode() : undefined
     const invitation: SpaceInvitation = {
       id: `inv-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      type: 'invitation',
       spaceId: space.id,
-      createdBy: creatorId,
+      createdBy: dxosClient.getActorId(),
       createdAt: Date.now(),
       expiresAt: options.expiresIn ? Date.now() + options.expiresIn : undefined,
       maxUses: options.maxUses,
       currentUses: 0,
-      authCode: options.requireAuth ? Math.random().toString(36).slice(2, 8) : undefined,
       metadata: options.metadata
     }
 
+    // The link carries a DXOS invitation so invitees without the space can fetch
+    // it; with an auth code, this device only admits them once they enter it
+    const lifetime = options.expiresIn ? Math.ceil(options.expiresIn / 1000) : undefined
+    const dxosInvitation = await dxosClient.shareSpace(space, lifetime, authCode)
+    invitation.token = await InvitationService.issue(invitation, { requiresAuth: !!authCode, dxosInvitation })
+
     await dxosClient.addObject(space, invitation)
-    return invitation
+    return { ...invitation, authCode }
   }
 
   /**
-   * Use space invitation
+   * Use space invitation; `code` is the signed link code or the full link.
+   * Auth codes are checked by the inviting device when the invitee fetches the
+   * space with the link's DXOS invitation, before this runs.
    */
   static async useSpaceInvitation(
     space: any,
-    invitationId: string,
+    code: string,
     userId: string,
-    displayName: string,
-    authCode?: string
+    displayName: string
   ): Promise<{ success: boolean; member?: SpaceMember; error?: string }> {
-    try {
-      // Find invitation
-      const invitations = space.db.query({ type: 'invitation', id: invitationId }).run()
+    const token = InvitationService.decode(code)
+    if (!token || token.spaceId !== space?.id) {
+      return { success: false, error: REDEMPTION_ERRORS.invalid }
+    }
 
-      if (invitations.length === 0) {
-        return { success: false, error: 'Invitation not found' }
-      }
+    // Every attempt on a known invitation is kept for the space's admins
+    const fail = async (outcome: Exclude<RedemptionOutcome, 'joined'>) => {
+      await dxosClient.recordRedemption(
+        space,
+        InvitationService.createRedemption(space, token.invitationId, userId, displayName, outcome)
+      )
+      return { success: false, error: REDEMPTION_ERRORS[outcome] }
+    }
 
+    try {
+      const invitations: SpaceInvitation[] = space.db.query({ type: 'invitation', id: token.invitationId }).run()
       const invitation = invitations[0]
 
-      // Check expiration
-      if (invitation.expiresAt && Date.now() > invitation.expiresAt) {
-        return { success: false, error: 'Invitation has expired' }
+      // The presented link must be the one stored in the space, signed by the invitation's creator
+      const stored = InvitationService.decode(invitation?.token)
+      if (!invitation || !stored || stored.signature !== token.signature || token.createdBy !== invitation.createdBy) {
+        return fail('invalid')
       }
-
-      // Check usage limit
-      if (invitation.maxUses && invitation.currentUses >= invitation.maxUses) {
-        return { success: false, error: 'Invitation usage limit reached' }
+      if (!(await InvitationService.verify(token))) {
+        return fail('invalid')
       }
 
-      // Check auth code
-      if (invitation.authCode && authCode !== invitation.authCode) {
-        return { success: false, error: 'Invalid authentication code' }
+      const status = InvitationService.getStatus(invitation, InvitationService.countUses(space, invitation))
+      if (status !== 'active') {
+        return fail(status)
       }
 
-      // Check if user is already a member
-      const existingMembers = space.db.query({ type: 'member', userId }).run()
-      if (existingMembers.length > 0) {
-        return { success: false, error: 'User is already a member' }
+      if (SpaceAccessControl.getMember(space, userId)) {
+        return fail('already_member')
       }
 
       // Create new member
       const newMember: SpaceMember = {
+        type: 'member',
         userId,
         displayName,
         role: 'member',
         joinedAt: Date.now(),
         lastActive: Date.now(),
-        permissions: ['read', 'write']
+        permissions: SpaceService.getRolePermissions('member'),
+        invitationId: invitation.id
       }
 
-      await dxosClient.addObject(space, newMember)
+      const context = { invitationId: invitation.id, redeemerId: userId }
+      await dxosClient.addObject(space, newMember, context)
 
       // Update invitation usage
-      invitation.currentUses++
-      // removeObject not implemented - skipping: // await dxosClient.removeObject(space,invitations[0])
-      await dxosClient.addObject(space, invitation)
-
-      // Update community member count
-      const communities = space.db.query({ type: 'community', id: space.id }).run()
-      if (communities.length > 0) {
-        const community = communities[0]
-        community.memberCount++
-        // removeObject not implemented - skipping: // await dxosClient.removeObject(space,communities[0])
-        await dxosClient.addObject(space, community)
-      }
+      await dxosClient.updateObject(space, invitation, { currentUses: invitation.currentUses + 1 }, context)
+      await dxosClient.recordRedemption(
+        space,
+        InvitationService.createRedemption(space, invitation.id, userId, displayName, 'joined')
+      )
 
       return { success: true, member: newMember }
     } catch (error) {
       console.error('Failed to use invitation:', error)
-      return { success: false, error: 'Failed to join space' }
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to join space' }
+    }
+  }
+
+  /**
+   * Revoke an invitation; it stays in the space so its link keeps failing as revoked
+   */
+  static async revokeInvitation(
+    space: any,
+    invitation: SpaceInvitation
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      await dxosClient.updateObject(space, invitation, {
+        revokedAt: Date.now(),
+        revokedBy: dxosClient.getActorId()
+      })
+
+      return { success: true }
+    } catch (error) {
+      console.error('Failed to revoke invitation:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to revoke invitation' }
     }
   }
 
+  /**
+   * Get redemption attempts, newest first
+   */
+  static getInvitationRedemptions(space: any, invitationId?: string): InvitationRedemption[] {
+    return InvitationService.getRedemptions(space, invitationId)
+  }
+
   /**
    * Get space members
    */
@@ -201,38 +244,24 @@ export class SpaceService {
   static async updateMemberRole(
     space: any,
     targetUserId: string,
-    newRole: SpaceMember['role'],
-    updatedBy: string
+    newRole: SpaceMember['role']
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      // Check if updater has permission
-      const updaters = space.db.query({ type: 'member', userId: updatedBy }).run()
-      if (updaters.length === 0 || !updaters[0].permissions.includes('admin')) {
-        return { success: false, error: 'Insufficient permissions' }
-      }
-
-      // Find target member
-      const members = space.db.query({ type: 'member', userId: targetUserId }).run()
-      if (members.length === 0) {
+      const member = SpaceAccessControl.getMember(space, targetUserId)
+      if (!member) {
         return { success: false, error: 'Member not found' }
       }
 
-      const member = members[0]
-
-      // Update role and permissions
-      const updatedMember: SpaceMember = {
-        ...member,
+      // Who may change which role is decided by the access layer
+      await dxosClient.updateObject(space, member, {
         role: newRole,
-        permissions: this.getRolePermissions(newRole)
-      }
-
-      // removeObject not implemented - skipping: // await dxosClient.removeObject(space,member)
-      await dxosClient.addObject(space, updatedMember)
+        permissions: SpaceService.getRolePermissions(newRole)
+      })
 
       return { success: true }
     } catch (error) {
       console.error('Failed to update member role:', error)
-      return { success: false, error: 'Failed to update role' }
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update role' }
     }
   }
 
@@ -241,44 +270,20 @@ export class SpaceService {
    */
   static async removeMember(
     space: any,
-    targetUserId: string,
-    removedBy: string
+    targetUserId: string
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      // Check permissions
-      const removers = space.db.query({ type: 'member', userId: removedBy }).run()
-      if (removers.length === 0 || !removers[0].permissions.includes('admin')) {
-        return { success: false, error: 'Insufficient permissions' }
-      }
-
-      // Find and remove member
-      const members = space.db.query({ type: 'member', userId: targetUserId }).run()
-      if (members.length === 0) {
+      const member = SpaceAccessControl.getMember(space, targetUserId)
+      if (!member) {
         return { success: false, error: 'Member not found' }
       }
 
-      const member = members[0]
-
-      // Can't remove owner
-      if (member.role === 'owner') {
-        return { success: false, error: 'Cannot remove space owner' }
-      }
-
-      // removeObject not implemented - skipping: // await dxosClient.removeObject(space,member)
-
-      // Update community member count
-      const communities = space.db.query({ type: 'community', id: space.id }).run()
-      if (communities.length > 0) {
-        const community = communities[0]
-        community.memberCount = Math.max(0, community.memberCount - 1)
-        // removeObject not implemented - skipping: // await dxosClient.removeObject(space,communities[0])
-        await dxosClient.addObject(space, community)
-      }
+      await dxosClient.removeObject(space, member)
 
       return { success: true }
     } catch (error) {
       console.error('Failed to remove member:', error)
-      return { success: false, error: 'Failed to remove member' }
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to remove member' }
     }
   }
 
@@ -286,18 +291,7 @@ export class SpaceService {
    * Get role permissions
    */
   static getRolePermissions(role: SpaceMember['role']): string[] {
-    switch (role) {
-      case 'owner':
-        return ['read', 'write', 'admin', 'invite', 'moderate', 'delete']
-      case 'admin':
-        return ['read', 'write', 'admin', 'invite', 'moderate']
-      case 'member':
-        return ['read', 'write']
-      case 'viewer':
-        return ['read']
-      default:
-        return ['read']
-    }
+    return (ROLE_CAPABILITIES[role] || ROLE_CAPABILITIES.viewer).slice()
   }
 
   /**
@@ -309,16 +303,21 @@ export class SpaceService {
     permission: string
   ): Promise<boolean> {
     try {
-      const members = space.db.query({ type: 'member', userId }).run()
-      if (members.length === 0) return false
-
-      return members[0].permissions.includes(permission)
+      // Role and moderation level decide, not the permissions copied onto the member
+      return SpaceAccessControl.can(space, userId, permission as SpaceCapability)
     } catch (error) {
       console.error('Failed to check permission:', error)
       return false
     }
   }
 
+  /**
+   * Get denied writes for admins to review
+   */
+  static async getAccessDenials(space: any): Promise<AccessDenialRecord[]> {
+    return dxosClient.getAccessDenials(space)
+  }
+
   /**
    * Get space activity summary
    */
@@ -367,11 +366,14 @@ export function useSpaceUtils() {
     createEnhancedSpace: SpaceService.createEnhancedSpace,
     createSpaceInvitation: SpaceService.createSpaceInvitation,
     useSpaceInvitation: SpaceService.useSpaceInvitation,
+    revokeInvitation: SpaceService.revokeInvitation,
+    getInvitationRedemptions: SpaceService.getInvitationRedemptions,
     getSpaceMembers: SpaceService.getSpaceMembers,
     updateMemberRole: SpaceService.updateMemberRole,
     removeMember: SpaceService.removeMember,
     hasPermission: SpaceService.hasPermission,
     getSpaceActivity: SpaceService.getSpaceActivity,
+    getAccessDenials: SpaceService.getAccessDenials,
     getRolePermissions: SpaceService.getRolePermissions
   }
 }
\ No newline at end of file
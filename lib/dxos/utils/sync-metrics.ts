@@ -0,0 +1,150 @@
+/**
+ * DXOS Sync Metrics
+ * Per-space peer, replication and traffic figures read from the DXOS client
+ */
+
+export interface SpaceSyncMetrics {
+  spaceId: string
+  name?: string
+  peersCount: number // Open peer connections in the space swarm
+  onlineMembers: number // Other members whose presence is online
+  replicationLag: number // Feed messages known to peers but not yet processed here
+  bytesSent: number
+  bytesReceived: number
+  latency?: number // Average ping round trip in ms
+}
+
+export interface SyncSample {
+  timestamp: number
+  peersCount: number
+  replicationLag: number
+  bytesSent: number
+  bytesReceived: number
+  networkLatency?: number
+}
+
+export const SYNC_HISTORY_LIMIT = 120 // 10 minutes at the 5 second update interval
+
+// Echo timeframes are TimeframeVector objects; newMessages counts what
+// `target` has beyond `current`
+const messagesBehind = (target: any, current: any): number => {
+  if (!target || typeof target.newMessages !== 'function') return 0
+  if (!current) return typeof target.totalMessages === 'function' ? target.totalMessages() : 0
+  return Math.max(target.newMessages(current), 0)
+}
+
+const toHex = (key: any): string | undefined =>
+  key && typeof key.toHex === 'function' ? key.toHex() : undefined
+
+const readObservable = (observable: any): any =>
+  observable && typeof observable.get === 'function' ? observable.get() : observable
+
+/**
+ * Sync Metrics
+ * Pure helpers so the figures can be computed from any snapshot of a space
+ * and the mesh network status
+ */
+export class SyncMetrics {
+  /**
+   * Metrics for one space; `networkStatus` is the mesh status from the client
+   * and `localIdentityKey` excludes ourselves from the member count
+   */
+  static fromSpace(space: any, networkStatus: any, localIdentityKey?: string, latency?: number): SpaceSyncMetrics {
+    const spaceKey = toHex(space.key)
+    const swarms: any[] = (networkStatus?.connectionInfo || [])
+      .filter((swarm: any) => spaceKey && toHex(swarm.topic) === spaceKey)
+
+    const remotePeers = new Set<string>()
+    let bytesSent = 0
+    let bytesReceived = 0
+
+    swarms.forEach(swarm => {
+      (swarm.connections || []).forEach((connection: any) => {
+        if (connection.state === 'CONNECTED') {
+          remotePeers.add(toHex(connection.remotePeerId) || connection.sessionId)
+        }
+        (connection.streams || []).forEach((stream: any) => {
+          bytesSent += stream.bytesSent || 0
+          bytesReceived += stream.bytesReceived || 0
+        })
+      })
+    })
+
+    let members: any[] = []
+    let pipeline: any
+    try {
+      members = readObservable(space.members) || []
+      pipeline = readObservable(space.pipeline)
+    } catch (error) {
+      console.warn('⚠️ Could not read space state for sync metrics:', space.id, error)
+    }
+
+    const onlineMembers = members.filter(member =>
+      member.presence === 1 && toHex(member.identity?.identityKey) !== localIdentityKey
+    ).length
+
+    const replicationLag = pipeline
+      ? messagesBehind(pipeline.targetControlTimeframe, pipeline.currentControlTimeframe) +
+        messagesBehind(pipeline.targetDataTimeframe, pipeline.currentDataTimeframe)
+      : 0
+
+    return {
+      spaceId: space.id,
+      name: space.properties?.name,
+      peersCount: remotePeers.size,
+      onlineMembers,
+      replicationLag,
+      bytesSent,
+      bytesReceived,
+      latency
+    }
+  }
+
+  /**
+   * Totals across spaces for the history chart and health score
+   */
+  static summarize(spaces: SpaceSyncMetrics[], timestamp: number = Date.now()): SyncSample {
+    const latencies = spaces
+      .map(space => space.latency)
+      .filter((latency): latency is number => typeof latency === 'number')
+
+    return {
+      timestamp,
+      peersCount: spaces.reduce((sum, space) => sum + space.peersCount, 0),
+      replicationLag: spaces.reduce((sum, space) => sum + space.replicationLag, 0),
+      bytesSent: spaces.reduce((sum, space) => sum + space.bytesSent, 0),
+      bytesReceived: spaces.reduce((sum, space) => sum + space.bytesReceived, 0),
+      networkLatency: latencies.length > 0
+        ? Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length)
+        : undefined
+    }
+  }
+
+  /**
+   * Append a sample, keeping the most recent `limit`
+   */
+  static appendSample(history: SyncSample[], sample: SyncSample, limit: number = SYNC_HISTORY_LIMIT): SyncSample[] {
+    return [...history, sample].slice(-limit)
+  }
+
+  /**
+   * Bytes per second between consecutive samples; counters reset when
+   * connections close, so drops are treated as a fresh start
+   */
+  static throughput(history: SyncSample[]): { timestamp: number, sent: number, received: number }[] {
+    return history.slice(1).map((sample, index) => {
+      const previous = history[index]
+      const seconds = Math.max((sample.timestamp - previous.timestamp) / 1000, 1)
+      const sent = sample.bytesSent >= previous.bytesSent ? sample.bytesSent - previous.bytesSent : sample.bytesSent
+      const received = sample.bytesReceived >= previous.bytesReceived
+        ? sample.bytesReceived - previous.bytesReceived
+        : sample.bytesReceived
+
+      return {
+        timestamp: sample.timestamp,
+        sent: Math.round(sent / seconds),
+        received: Math.round(received / seconds)
+      }
+    })
+  }
+}
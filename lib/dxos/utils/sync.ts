@@ -4,6 +4,10 @@
  */
 
 import { dxosClient } from '../client'
+import { SyncMetrics, SpaceSyncMetrics, SyncSample } from './sync-metrics'
+import { MergePolicies, FieldConflict } from './merge-policies'
+
+export type { SpaceSyncMetrics, SyncSample, FieldConflict }
 
 export interface SyncStatus {
   isConnected: boolean
@@ -12,19 +16,35 @@ export interface SyncStatus {
   lastSyncTime: number
   syncErrors: string[]
   pendingOperations: number
+  pendingConflicts: number
   networkLatency?: number
+  replicationLag: number
+  spaces: SpaceSyncMetrics[] // Per-space breakdown
+  history: SyncSample[] // Rolling totals, oldest first
 }
 
 export interface ConflictResolution {
   id: string
+  objectId: string
+  objectType?: string
+  spaceId?: string
   type: 'merge' | 'override' | 'manual'
   localVersion: any
   remoteVersion: any
+  baseVersion?: any // Common ancestor, when known
+  mergedVersion?: any // Policy merge, with local values for conflicting fields
+  fieldConflicts?: FieldConflict[] // Fields left for manual review
   resolvedVersion?: any
   timestamp: number
   resolvedBy?: string
 }
 
+export interface ConflictOptions {
+  objectType?: string
+  spaceId?: string
+  baseVersion?: any
+}
+
 export interface SyncOperation {
   id: string
   type: 'create' | 'update' | 'delete'
@@ -36,6 +56,9 @@ export interface SyncOperation {
   error?: string
 }
 
+// Gossip channel for latency probes between peers in a space
+const SYNC_PING_CHANNEL = 'etherith-sync-ping'
+
 /**
  * Sync Service for managing DXOS synchronization
  */
@@ -46,13 +69,23 @@ export class SyncService {
     peersCount: 0,
     lastSyncTime: 0,
     syncErrors: [],
-    pendingOperations: 0
+    pendingOperations: 0,
+    pendingConflicts: 0,
+    replicationLag: 0,
+    spaces: [],
+    history: []
   }
 
   private static syncOperations: Map<string, SyncOperation> = new Map()
   private static conflictQueue: ConflictResolution[] = []
   private static listeners: Set<(status: SyncStatus) => void> = new Set()
 
+  // Latency probes: one gossip listener per space, pings awaiting a pong,
+  // and the last few round trips per space
+  private static pingListeners: Map<string, () => void> = new Map()
+  private static pendingPings: Map<string, { spaceId: string, sentAt: number }> = new Map()
+  private static roundTrips: Map<string, number[]> = new Map()
+
   /**
    * Initialize sync monitoring
    */
@@ -66,9 +99,9 @@ export class SyncService {
       this.syncStatus.isOnline = navigator.onLine
     }
 
-    // Start periodic sync status updates
+    // Start periodic metric collection
     setInterval(() => {
-      this.updateSyncStatus()
+      this.collectMetrics()
     }, 5000) // Every 5 seconds
   }
 
@@ -76,7 +109,11 @@ export class SyncService {
    * Get current sync status
    */
   static getSyncStatus(): SyncStatus {
-    return { ...this.syncStatus }
+    return {
+      ...this.syncStatus,
+      spaces: [...this.syncStatus.spaces],
+      history: [...this.syncStatus.history]
+    }
   }
 
   /**
@@ -99,16 +136,14 @@ export class SyncService {
    */
   private static updateSyncStatus() {
     try {
-      // Mock implementation - in real DXOS, this would query actual peer connections
       // Check if client is available and connected
       const isConnected = dxosClient.isConnected()
 
       this.syncStatus = {
         ...this.syncStatus,
         isConnected: isConnected,
-        peersCount: Math.floor(Math.random() * 5), // Mock peer count
-        lastSyncTime: Date.now(),
-        pendingOperations: this.syncOperations.size
+        pendingOperations: this.syncOperations.size,
+        pendingConflicts: this.conflictQueue.length
       }
 
       // Notify all listeners
@@ -124,6 +159,113 @@ export class SyncService {
     }
   }
 
+  /**
+   * Read peer connections, replication lag and traffic for every open space
+   * from the DXOS client, then append the totals to the history
+   */
+  private static collectMetrics() {
+    try {
+      const snapshot = dxosClient.getNetworkSnapshot()
+      const spaces: any[] = snapshot?.spaces || []
+
+      // Drop probes for spaces that are no longer open
+      const openIds = new Set(spaces.map(space => space.id))
+      Array.from(this.pingListeners.keys())
+        .filter(spaceId => !openIds.has(spaceId))
+        .forEach(spaceId => {
+          this.pingListeners.get(spaceId)?.()
+          this.pingListeners.delete(spaceId)
+          this.roundTrips.delete(spaceId)
+        })
+
+      const metrics = spaces.map(space =>
+        SyncMetrics.fromSpace(space, snapshot?.networkStatus, snapshot?.identityKey, this.getLatency(space.id))
+      )
+      const sample = SyncMetrics.summarize(metrics)
+
+      metrics
+        .filter(spaceMetrics => spaceMetrics.peersCount > 0)
+        .forEach(spaceMetrics => {
+          const space = spaces.find(s => s.id === spaceMetrics.spaceId)
+          this.sendPing(space)
+        })
+
+      // Caught up with every peer we can reach
+      const isCaughtUp = spaces.length > 0 && sample.replicationLag === 0 && sample.peersCount > 0
+
+      this.syncStatus = {
+        ...this.syncStatus,
+        peersCount: sample.peersCount,
+        replicationLag: sample.replicationLag,
+        networkLatency: sample.networkLatency,
+        lastSyncTime: isCaughtUp ? sample.timestamp : this.syncStatus.lastSyncTime,
+        spaces: metrics,
+        history: SyncMetrics.appendSample(this.syncStatus.history, sample)
+      }
+    } catch (error) {
+      console.error('Failed to collect sync metrics:', error)
+    }
+
+    this.updateSyncStatus()
+  }
+
+  /**
+   * Broadcast a ping on the space's gossip channel; peers answer with a pong
+   * and the round trip is recorded when it arrives
+   */
+  private static async sendPing(space: any) {
+    if (!space || typeof space.postMessage !== 'function') return
+
+    this.listenForPings(space)
+
+    const nonce = `ping-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    this.pendingPings.set(nonce, { spaceId: space.id, sentAt: Date.now() })
+
+    // Unanswered pings expire after two update intervals
+    setTimeout(() => this.pendingPings.delete(nonce), 10000)
+
+    try {
+      await space.postMessage(SYNC_PING_CHANNEL, {
+        '@type': 'google.protobuf.Struct',
+        value: { kind: 'ping', nonce }
+      })
+    } catch (error) {
+      this.pendingPings.delete(nonce)
+      console.warn('⚠️ Failed to send latency ping:', space.id, error)
+    }
+  }
+
+  private static listenForPings(space: any) {
+    if (this.pingListeners.has(space.id) || typeof space.listen !== 'function') return
+
+    const cleanup = space.listen(SYNC_PING_CHANNEL, (message: any) => {
+      const payload = message?.payload?.value || message?.payload || {}
+
+      if (payload.kind === 'ping' && !this.pendingPings.has(payload.nonce)) {
+        space.postMessage(SYNC_PING_CHANNEL, {
+          '@type': 'google.protobuf.Struct',
+          value: { kind: 'pong', nonce: payload.nonce }
+        }).catch((error: unknown) => console.warn('⚠️ Failed to answer latency ping:', error))
+        return
+      }
+
+      const pending = payload.kind === 'pong' ? this.pendingPings.get(payload.nonce) : undefined
+      if (!pending) return
+
+      // Several peers may answer the same ping; each answer is one sample
+      const samples = [...(this.roundTrips.get(pending.spaceId) || []), Date.now() - pending.sentAt]
+      this.roundTrips.set(pending.spaceId, samples.slice(-10))
+    })
+
+    this.pingListeners.set(space.id, cleanup)
+  }
+
+  private static getLatency(spaceId: string): number | undefined {
+    const samples = this.roundTrips.get(spaceId)
+    if (!samples || samples.length === 0) return undefined
+    return Math.round(samples.reduce((sum, sample) => sum + sample, 0) / samples.length)
+  }
+
   /**
    * Handle network connectivity changes
    */
@@ -233,13 +375,18 @@ export class SyncService {
   static handleConflict(
     objectId: string,
     localVersion: any,
-    remoteVersion: any
+    remoteVersion: any,
+    options: ConflictOptions = {}
   ): ConflictResolution {
     const conflict: ConflictResolution = {
       id: `conflict-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      objectId,
+      objectType: options.objectType || localVersion?.type || remoteVersion?.type,
+      spaceId: options.spaceId,
       type: 'manual', // Default to manual resolution
       localVersion,
       remoteVersion,
+      baseVersion: options.baseVersion,
       timestamp: Date.now()
     }
 
@@ -251,6 +398,8 @@ export class SyncService {
     } else {
       // Add to manual resolution queue
       this.conflictQueue.push(conflict)
+      console.log('⚖️ Conflict needs review:', objectId, conflict.fieldConflicts?.map(c => c.field))
+      this.updateSyncStatus()
     }
 
     return conflict
@@ -262,6 +411,19 @@ export class SyncService {
   private static autoResolveConflict(conflict: ConflictResolution): any | null {
     const { localVersion, remoteVersion } = conflict
 
+    // Known object types merge field by field
+    if (MergePolicies.isMergeable(conflict.objectType)) {
+      const { merged, conflicts } = MergePolicies.merge(
+        conflict.objectType,
+        localVersion,
+        remoteVersion,
+        conflict.baseVersion
+      )
+      conflict.mergedVersion = merged
+      conflict.fieldConflicts = conflicts
+      return conflicts.length === 0 ? merged : null
+    }
+
     // Simple last-write-wins for timestamp-based objects
     if (localVersion.timestamp && remoteVersion.timestamp) {
       return localVersion.timestamp > remoteVersion.timestamp ? localVersion : remoteVersion
@@ -300,28 +462,35 @@ export class SyncService {
     if (conflictIndex === -1) return false
 
     const conflict = this.conflictQueue[conflictIndex]
-
-    switch (resolution) {
-      case 'local':
-        conflict.resolvedVersion = conflict.localVersion
-        break
-      case 'remote':
-        conflict.resolvedVersion = conflict.remoteVersion
-        break
-      case 'merge':
-        conflict.resolvedVersion = customVersion || this.autoResolveConflict(conflict)
-        break
-    }
-
+    conflict.resolvedVersion = this.getResolvedVersion(conflict, resolution, customVersion)
     conflict.resolvedBy = resolvedBy
     conflict.type = resolution === 'merge' ? 'merge' : 'override'
 
     // Remove from queue
     this.conflictQueue.splice(conflictIndex, 1)
+    this.updateSyncStatus()
 
     return true
   }
 
+  /**
+   * The version a resolution would keep, without resolving the conflict
+   */
+  static getResolvedVersion(
+    conflict: ConflictResolution,
+    resolution: 'local' | 'remote' | 'merge',
+    customVersion?: any
+  ): any {
+    switch (resolution) {
+      case 'local':
+        return conflict.localVersion
+      case 'remote':
+        return conflict.remoteVersion
+      case 'merge':
+        return customVersion || conflict.mergedVersion || this.autoResolveConflict(conflict)
+    }
+  }
+
   /**
    * Get pending conflicts
    */
@@ -351,8 +520,11 @@ export class SyncService {
       score += 20
     }
 
-    // Peer connections (30 points)
+    // Peer connections (30 points), less while we are still catching up
     score += Math.min(status.peersCount * 10, 30)
+    if (status.replicationLag > 0) {
+      score -= 10
+    }
 
     // Recent sync activity (20 points)
     const timeSinceLastSync = Date.now() - status.lastSyncTime
@@ -369,7 +541,7 @@ export class SyncService {
       score += 5
     }
 
-    return Math.min(score, 100)
+    return Math.max(Math.min(score, 100), 0)
   }
 
   /**
@@ -1,12 +1,22 @@
 import type { AppProps } from 'next/app'
 import Head from 'next/head'
+import { useEffect, useState } from 'react'
 import { SessionProvider } from 'next-auth/react'
 import ErrorBoundary from '../components/ErrorBoundary'
 import { DXOSProvider } from '../lib/dxos/context'
+import { LocalStorage } from '../utils/storage'
 import '../styles/globals.css'
 import '../styles/online-users-debug.css'
 
 export default function App({ Component, pageProps: { session, ...pageProps } }: AppProps) {
+  const [storageReady, setStorageReady] = useState(false)
+
+  useEffect(() => {
+    // Pages read memories synchronously, so they render once the repository
+    // is open and legacy localStorage data has been migrated
+    LocalStorage.initialize().then(() => setStorageReady(true))
+  }, [])
+
   return (
     <ErrorBoundary>
       <SessionProvider session={session}>
@@ -29,7 +39,13 @@ export default function App({ Component, pageProps: { session, ...pageProps } }:
               }}
             />
           </Head>
-          <Component {...pageProps} />
+          {storageReady ? (
+            <Component {...pageProps} />
+          ) : (
+            <div className="min-h-screen flex items-center justify-center text-gray-500">
+              Opening your archive...
+            </div>
+          )}
         </DXOSProvider>
       </SessionProvider>
     </ErrorBoundary>
@@ -0,0 +1,49 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { AIAnalysisInput } from '../../../types/ai-analysis'
+import { requireApiUser } from '../../../utils/api-auth'
+import { getLocalAIEngine, analyzeLocally } from '../../../utils/ai-analysis/server'
+import { toAnalysisResponse } from '../../../utils/ai-analysis/input'
+
+const FILE_TYPES = ['text', 'document', 'audio', 'image', 'video']
+
+// GET reports the active engine; POST analyzes an AIAnalysisInput and answers
+// in the same shape as the Cloudflare worker
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const user = await requireApiUser(req, res)
+  if (!user) return
+
+  try {
+    if (req.method === 'GET') {
+      const engine = getLocalAIEngine()
+      return res.status(200).json({ engine: engine.name, available: await engine.isAvailable() })
+    }
+
+    const body = req.body || {}
+    if (typeof body.content !== 'string' || !body.content.trim()) {
+      return res.status(400).json({ error: 'content is required' })
+    }
+    if (body.fileType !== undefined && !FILE_TYPES.includes(body.fileType)) {
+      return res.status(400).json({ error: `fileType must be one of ${FILE_TYPES.join(', ')}` })
+    }
+
+    const input: AIAnalysisInput = {
+      content: body.content,
+      title: typeof body.title === 'string' ? body.title : undefined,
+      memoryNote: typeof body.memoryNote === 'string' ? body.memoryNote : undefined,
+      fileType: body.fileType,
+      fileInfo: body.fileInfo || null
+    }
+
+    res.status(200).json(toAnalysisResponse(input, await analyzeLocally(input)))
+  } catch (error) {
+    console.error('Local analysis API error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Analysis failed'
+    })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { requireApiUser } from '../../../utils/api-auth'
+import { embedLocally } from '../../../utils/ai-analysis/server'
+
+// Embedding models take around 512 tokens per text; keep batches small
+const MAX_TEXTS = 64
+const MAX_TEXT_LENGTH = 4000
+
+// POST { texts: string[] } answers { embeddings: MemoryEmbedding[] } in the same order
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const user = await requireApiUser(req, res)
+  if (!user) return
+
+  const texts = req.body?.texts
+  if (!Array.isArray(texts) || texts.length === 0 || !texts.every(text => typeof text === 'string')) {
+    return res.status(400).json({ error: 'texts must be a non-empty array of strings' })
+  }
+  if (texts.length > MAX_TEXTS) {
+    return res.status(400).json({ error: `At most ${MAX_TEXTS} texts per request` })
+  }
+
+  try {
+    const embeddings = await embedLocally(texts.map((text: string) => text.slice(0, MAX_TEXT_LENGTH)))
+    res.status(200).json({ embeddings })
+  } catch (error) {
+    console.error('Local embedding API error:', error)
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Embedding failed' })
+  }
+}
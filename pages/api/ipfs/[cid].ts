@@ -0,0 +1,30 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getPinningProvider } from '../../../utils/pinning'
+
+// Gateway for providers whose content is not on a public gateway (in-memory,
+// or a Kubo node the browser cannot reach directly)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const { cid } = req.query
+  if (!cid || typeof cid !== 'string') {
+    return res.status(400).json({ error: 'CID is required' })
+  }
+
+  try {
+    const response = await getPinningProvider().get(cid)
+    const data = Buffer.from(await response.arrayBuffer())
+
+    res.setHeader('Content-Type', response.headers.get('Content-Type') || 'application/octet-stream')
+    // Content addressed by CID never changes
+    res.setHeader('Cache-Control', 'public, max-age=31536000, immutable')
+    res.status(200).send(data)
+  } catch (error) {
+    res.status(404).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Content not found'
+    })
+  }
+}
@@ -0,0 +1,73 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { randomUUID } from 'crypto'
+import { getMemoryStore, isVisibleTo } from '../../../../utils/memory-store'
+import { requireApiUser } from '../../../../utils/api-auth'
+
+const MAX_COMMENT_LENGTH = 2000
+
+// GET lists comments; POST adds one; DELETE ?commentId= removes the user's own comment
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'POST', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const user = await requireApiUser(req, res)
+  if (!user) return
+
+  const { id, commentId } = req.query
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Memory id is required' })
+  }
+
+  try {
+    const store = getMemoryStore()
+    const memory = await store.getMemory(id)
+
+    if (!memory || !isVisibleTo(memory, user.id)) {
+      return res.status(404).json({ error: 'Memory not found' })
+    }
+
+    if (req.method === 'POST') {
+      const content = typeof req.body?.content === 'string' ? req.body.content.trim() : ''
+      if (!content || content.length > MAX_COMMENT_LENGTH) {
+        return res.status(400).json({ error: `content must be 1-${MAX_COMMENT_LENGTH} characters` })
+      }
+
+      const comment = await store.addComment({
+        id: randomUUID(),
+        memoryId: id,
+        userId: user.id,
+        username: user.name,
+        userAvatar: user.avatar,
+        content,
+        timestamp: Date.now()
+      })
+      return res.status(201).json({ success: true, comment })
+    }
+
+    if (req.method === 'DELETE') {
+      if (!commentId || typeof commentId !== 'string') {
+        return res.status(400).json({ error: 'commentId is required' })
+      }
+
+      const comment = await store.getComment(commentId)
+      if (!comment || comment.memoryId !== id) {
+        return res.status(404).json({ error: 'Comment not found' })
+      }
+      if (comment.userId !== user.id) {
+        return res.status(403).json({ error: 'Only the commenter can delete this comment' })
+      }
+
+      await store.deleteComment(commentId)
+      return res.status(200).json({ success: true })
+    }
+
+    res.status(200).json({ success: true, comments: await store.getComments(id) })
+  } catch (error) {
+    console.error('Comments API error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Comment request failed'
+    })
+  }
+}
@@ -0,0 +1,74 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getMemoryStore, isVisibleTo, parseMemoryInput } from '../../../../utils/memory-store'
+import { requireApiUser } from '../../../../utils/api-auth'
+
+// GET reads a memory; PUT/PATCH update and DELETE remove it (owner only)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'PUT', 'PATCH', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const user = await requireApiUser(req, res)
+  if (!user) return
+
+  const { id } = req.query
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Memory id is required' })
+  }
+
+  try {
+    const store = getMemoryStore()
+    const memory = await store.getMemory(id)
+
+    // Private memories of other users are indistinguishable from missing ones
+    if (!memory || !isVisibleTo(memory, user.id)) {
+      return res.status(404).json({ error: 'Memory not found' })
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, memory })
+    }
+
+    if (memory.authorId !== user.id) {
+      return res.status(403).json({ error: 'Only the author can change this memory' })
+    }
+
+    if (req.method === 'DELETE') {
+      await store.deleteMemory(id)
+      return res.status(200).json({ success: true })
+    }
+
+    const { input, error } = parseMemoryInput(req.body, req.method === 'PATCH')
+    if (!input) {
+      return res.status(400).json({ error })
+    }
+    if (input.id && input.id !== id) {
+      return res.status(400).json({ error: 'Memory id cannot be changed' })
+    }
+
+    const updated = await store.saveMemory(req.method === 'PATCH'
+      ? { ...memory, ...input, id }
+      // PUT replaces the memory's fields; identity and authorship are kept
+      : {
+          content: '',
+          memoryNote: '',
+          visibility: 'private',
+          ...input,
+          id,
+          title: input.title!,
+          fileType: input.fileType!,
+          timestamp: input.timestamp || memory.timestamp,
+          authorId: memory.authorId,
+          authorName: memory.authorName,
+          authorAvatar: memory.authorAvatar
+        })
+
+    res.status(200).json({ success: true, memory: updated })
+  } catch (error) {
+    console.error('Memory API error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Memory request failed'
+    })
+  }
+}
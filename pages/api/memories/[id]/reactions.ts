@@ -0,0 +1,66 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { randomUUID } from 'crypto'
+import { MemoryReaction } from '../../../../types/memory'
+import { getMemoryStore, isVisibleTo } from '../../../../utils/memory-store'
+import { requireApiUser } from '../../../../utils/api-auth'
+
+const REACTION_TYPES: MemoryReaction['type'][] = ['heart', 'thumbs-up', 'thumbs-down', 'laugh', 'sad']
+
+// GET lists reactions; PUT sets and DELETE clears the session user's reaction
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!['GET', 'PUT', 'DELETE'].includes(req.method || '')) {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const user = await requireApiUser(req, res)
+  if (!user) return
+
+  const { id } = req.query
+  if (!id || typeof id !== 'string') {
+    return res.status(400).json({ error: 'Memory id is required' })
+  }
+
+  try {
+    const store = getMemoryStore()
+    const memory = await store.getMemory(id)
+
+    if (!memory || !isVisibleTo(memory, user.id)) {
+      return res.status(404).json({ error: 'Memory not found' })
+    }
+
+    if (req.method === 'PUT') {
+      const type = req.body?.type
+      if (!REACTION_TYPES.includes(type)) {
+        return res.status(400).json({ error: `type must be one of ${REACTION_TYPES.join(', ')}` })
+      }
+
+      const reaction = await store.setReaction({
+        id: randomUUID(),
+        memoryId: id,
+        userId: user.id,
+        username: user.name,
+        type,
+        timestamp: Date.now()
+      })
+      return res.status(200).json({ success: true, reaction })
+    }
+
+    if (req.method === 'DELETE') {
+      const removed = await store.removeReaction(id, user.id)
+      return res.status(removed ? 200 : 404).json({ success: removed })
+    }
+
+    const reactions = await store.getReactions(id)
+    const counts = REACTION_TYPES.reduce((totals, type) => ({
+      ...totals,
+      [type]: reactions.filter(r => r.type === type).length
+    }), {} as Record<MemoryReaction['type'], number>)
+    res.status(200).json({ success: true, reactions, counts })
+  } catch (error) {
+    console.error('Reactions API error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Reaction request failed'
+    })
+  }
+}
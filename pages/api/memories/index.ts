@@ -0,0 +1,83 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { randomUUID } from 'crypto'
+import { Memory } from '../../../types/memory'
+import { getMemoryStore, parseMemoryInput } from '../../../utils/memory-store'
+import { requireApiUser } from '../../../utils/api-auth'
+
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 200
+
+// GET lists memories visible to the session user (SearchFilters as query
+// parameters); POST creates a memory owned by them
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const user = await requireApiUser(req, res)
+  if (!user) return
+
+  try {
+    const store = getMemoryStore()
+
+    if (req.method === 'GET') {
+      const query = (name: string) => typeof req.query[name] === 'string' ? req.query[name] as string : undefined
+      const number = (name: string) => query(name) !== undefined ? Number(query(name)) : undefined
+      const visibility = query('visibility')
+
+      if (visibility && visibility !== 'public' && visibility !== 'private') {
+        return res.status(400).json({ error: 'visibility must be public or private' })
+      }
+
+      const page = await store.listMemories({
+        viewerId: user.id,
+        query: query('query'),
+        fileType: query('fileType'),
+        visibility: visibility as Memory['visibility'] | undefined,
+        authorId: query('authorId'),
+        tags: query('tags')?.split(',').map(tag => tag.trim()).filter(Boolean),
+        dateFrom: number('dateFrom'),
+        dateTo: number('dateTo'),
+        limit: Math.min(number('limit') || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+        offset: number('offset') || 0
+      })
+
+      return res.status(200).json({ success: true, ...page })
+    }
+
+    const { input, error } = parseMemoryInput(req.body, false)
+    if (!input) {
+      return res.status(400).json({ error })
+    }
+
+    // Clients may keep their local id so every device refers to the same
+    // memory. It is scoped to the author, so it can only clash with their own
+    // memories and never reveals whether another user's private id exists.
+    const id = input.id ? `${user.id}-${input.id}` : randomUUID()
+    if (await store.getMemory(id)) {
+      return res.status(409).json({ error: 'A memory with this id already exists' })
+    }
+
+    const memory: Memory = {
+      content: '',
+      memoryNote: '',
+      visibility: 'private',
+      ...input,
+      id,
+      title: input.title!,
+      fileType: input.fileType!,
+      timestamp: input.timestamp || Date.now(),
+      authorId: user.id,
+      authorName: user.name,
+      authorAvatar: user.avatar
+    }
+
+    res.status(201).json({ success: true, memory: await store.saveMemory(memory) })
+  } catch (error) {
+    console.error('Memories API error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Memory request failed'
+    })
+  }
+}
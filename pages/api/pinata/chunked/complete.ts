@@ -0,0 +1,47 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getPinningProvider, getPublicIpfsUrl } from '../../../../utils/pinning'
+import { UploadSessionStore } from '../../../../utils/upload-sessions'
+
+// Assembles the received parts and pins them as a single file
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const { uploadId } = req.body
+    const session = uploadId ? await UploadSessionStore.get(uploadId) : null
+
+    if (!session) {
+      return res.status(404).json({ success: false, error: 'Upload session not found' })
+    }
+
+    if (!UploadSessionStore.isComplete(session)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Upload is missing parts',
+        missingChunks: UploadSessionStore.getMissingChunks(session)
+      })
+    }
+
+    const provider = getPinningProvider()
+    const result = await provider.upload(await UploadSessionStore.openAsFile(session), session.metadata, session.pinPolicy)
+
+    await UploadSessionStore.remove(session.uploadId)
+
+    res.status(200).json({
+      success: true,
+      cid: result.cid,
+      size: result.size,
+      timestamp: result.timestamp,
+      isDuplicate: result.isDuplicate,
+      gatewayUrl: provider.getGatewayUrl(result.cid),
+      publicUrl: getPublicIpfsUrl(result.cid)
+    })
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Upload failed'
+    })
+  }
+}
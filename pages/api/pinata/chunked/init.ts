@@ -0,0 +1,37 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { UploadSessionStore } from '../../../../utils/upload-sessions'
+
+// Starts a chunked upload, or resumes one when a known uploadId is passed
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    const { uploadId, fileName, mimeType, size, chunkSize, metadata, pinPolicy } = req.body
+
+    if (!fileName || !size) {
+      return res.status(400).json({ error: 'fileName and size are required' })
+    }
+
+    // Resume only if the session still describes the same file
+    const existing = uploadId ? await UploadSessionStore.get(uploadId) : null
+    const session = existing && existing.fileName === fileName && existing.size === size
+      ? existing
+      : await UploadSessionStore.create({ fileName, mimeType, size, chunkSize, metadata, pinPolicy })
+
+    res.status(200).json({
+      success: true,
+      uploadId: session.uploadId,
+      chunkSize: session.chunkSize,
+      totalChunks: session.totalChunks,
+      receivedChunks: session.receivedChunks,
+      resumed: session === existing
+    })
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start upload'
+    })
+  }
+}
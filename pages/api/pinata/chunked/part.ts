@@ -0,0 +1,43 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { UploadSessionStore } from '../../../../utils/upload-sessions'
+
+// Parts arrive as raw bytes and are streamed straight to disk
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'PUT') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const uploadId = typeof req.query.uploadId === 'string' ? req.query.uploadId : ''
+  const index = Number(req.query.index)
+
+  if (!uploadId || !Number.isInteger(index)) {
+    return res.status(400).json({ error: 'uploadId and index are required' })
+  }
+
+  try {
+    const existing = await UploadSessionStore.get(uploadId)
+    if (!existing) {
+      return res.status(404).json({ success: false, error: 'Upload session not found' })
+    }
+
+    const session = await UploadSessionStore.writePart(uploadId, index, req)
+
+    res.status(200).json({
+      success: true,
+      index,
+      receivedChunks: session.receivedChunks,
+      totalChunks: session.totalChunks
+    })
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to store part'
+    })
+  }
+}
@@ -0,0 +1,46 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { ReplicationService } from '../../../utils/pinning/replication'
+import { getMemoryStore } from '../../../utils/memory-store'
+import { requireApiUser } from '../../../utils/api-auth'
+
+const DEFAULT_REQUIRED_REPLICAS = 2
+
+// GET reports which providers hold a CID; POST re-pins missing replicas of a
+// CID belonging to one of the session user's memories
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const params = req.method === 'GET' ? req.query : req.body || {}
+  const cid = params.cid
+  const requiredReplicas = Number(params.requiredReplicas) || DEFAULT_REQUIRED_REPLICAS
+
+  if (!cid || typeof cid !== 'string') {
+    return res.status(400).json({ error: 'CID is required' })
+  }
+
+  const user = req.method === 'POST' ? await requireApiUser(req, res) : null
+  if (req.method === 'POST' && !user) return
+
+  try {
+    if (user) {
+      const { memories } = await getMemoryStore().listMemories({ viewerId: user.id, authorId: user.id })
+      if (!memories.some(memory => memory.ipfsCid === cid)) {
+        return res.status(403).json({ error: 'Only the author of a memory can repair its replicas' })
+      }
+    }
+
+    const report = req.method === 'GET'
+      ? await ReplicationService.check(cid, requiredReplicas)
+      : await ReplicationService.repair(cid, requiredReplicas)
+
+    res.status(200).json({ success: true, report })
+  } catch (error) {
+    console.error('Replication API error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Replication check failed'
+    })
+  }
+}
@@ -1,5 +1,5 @@
 import { NextApiRequest, NextApiResponse } from 'next'
-import { PinataService } from '../../../utils/pinata'
+import { getPinningProvider, getPublicIpfsUrl } from '../../../utils/pinning'
 
 // Configure body parser for this route
 export const config = {
@@ -34,17 +34,18 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       fileObj = file
     }
 
-    // Upload to Pinata
-    const result = await PinataService.uploadFile(fileObj, metadata, pinPolicy)
+    // Upload to the configured pinning provider
+    const provider = getPinningProvider()
+    const result = await provider.upload(fileObj, metadata, pinPolicy)
 
     const response = {
       success: true,
-      cid: result.IpfsHash,
-      size: result.PinSize,
-      timestamp: result.Timestamp,
+      cid: result.cid,
+      size: result.size,
+      timestamp: result.timestamp,
       isDuplicate: result.isDuplicate,
-      gatewayUrl: PinataService.getGatewayUrl(result.IpfsHash),
-      publicUrl: PinataService.getPublicUrl(result.IpfsHash)
+      gatewayUrl: provider.getGatewayUrl(result.cid),
+      publicUrl: getPublicIpfsUrl(result.cid)
     }
 
     res.status(200).json(response)
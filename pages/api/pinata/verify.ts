@@ -1,5 +1,5 @@
 import { NextApiRequest, NextApiResponse } from 'next'
-import { PinataService } from '../../../utils/pinata'
+import { getPinningProvider, getPublicIpfsUrl } from '../../../utils/pinning'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -13,33 +13,31 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: 'CID is required' })
     }
 
-    // Check if file is pinned on Pinata
-    const isPinned = await PinataService.isPinned(cid)
+    // Check if file is pinned by the configured provider
+    const provider = getPinningProvider()
+    const status = await provider.isPinned(cid)
     
-    if (isPinned) {
-      // Get file info
-      const fileInfo = await PinataService.getFileInfo(cid)
-      
+    if (status.pinned) {
       res.status(200).json({
         success: true,
         exists: true,
         cid: cid,
-        size: fileInfo?.size || 0,
-        pinnedAt: fileInfo?.date_pinned || null,
-        replicas: fileInfo?.replication_count || 1,
-        gatewayUrl: PinataService.getGatewayUrl(cid),
-        publicUrl: PinataService.getPublicUrl(cid)
+        size: status.size || 0,
+        pinnedAt: status.pinnedAt || null,
+        replicas: status.replicas || 1,
+        gatewayUrl: provider.getGatewayUrl(cid),
+        publicUrl: getPublicIpfsUrl(cid)
       })
     } else {
       res.status(200).json({
         success: true,
         exists: false,
         cid: cid,
-        message: 'File not found on Pinata'
+        message: `File not found on ${provider.name}`
       })
     }
   } catch (error) {
-    console.error('Pinata verify API error:', error)
+    console.error('Pin verify API error:', error)
     res.status(500).json({
       success: false,
       error: error instanceof Error ? error.message : 'Verification failed'
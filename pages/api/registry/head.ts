@@ -0,0 +1,44 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { RegistryHeadStore } from '../../../utils/registry-heads'
+import { requireApiUser } from '../../../utils/api-auth'
+
+// GET resolves a registry's latest CID; PUT moves it. Heads are signed by the
+// registry author and only accepted from that author's session.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'PUT') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const { registryId } = req.query
+      if (!registryId || typeof registryId !== 'string') {
+        return res.status(400).json({ error: 'registryId is required' })
+      }
+
+      const head = await RegistryHeadStore.get(registryId)
+      if (!head) {
+        return res.status(404).json({ error: 'Registry head not found' })
+      }
+      return res.status(200).json({ success: true, head })
+    }
+
+    const user = await requireApiUser(req, res)
+    if (!user) return
+    if (req.body?.userId !== user.id) {
+      return res.status(403).json({ success: false, error: 'Registry heads can only be published by their author' })
+    }
+
+    const { head, error, stale } = await RegistryHeadStore.put(req.body)
+    if (!head) {
+      return res.status(stale ? 409 : 400).json({ success: false, error })
+    }
+    res.status(200).json({ success: true, head })
+  } catch (error) {
+    console.error('Registry head error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Registry head request failed'
+    })
+  }
+}
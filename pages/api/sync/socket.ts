@@ -0,0 +1,37 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { Server } from 'http'
+import { getFileSyncRelay, SYNC_PROTOCOL_VERSION, SYNC_SOCKET_PATH } from '../../../utils/file-sync-relay'
+import { requireApiUser } from '../../../utils/api-auth'
+
+// GET attaches the file sync relay to this Next.js server, then clients open
+// a websocket on the same path. Needs a long-running server (next dev or
+// next start); serverless deployments cannot hold the sockets.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const user = await requireApiUser(req, res)
+  if (!user) return
+
+  try {
+    const server = (res.socket as unknown as { server?: Server & { fileSyncRelayAttached?: boolean } } | null)?.server
+    if (!server) {
+      return res.status(501).json({ success: false, error: 'Websockets are not available on this deployment' })
+    }
+
+    if (!server.fileSyncRelayAttached) {
+      getFileSyncRelay().attach(server, SYNC_SOCKET_PATH)
+      server.fileSyncRelayAttached = true
+      console.log('🔁 File sync relay attached at', SYNC_SOCKET_PATH)
+    }
+
+    res.status(200).json({ success: true, path: SYNC_SOCKET_PATH, protocol: SYNC_PROTOCOL_VERSION })
+  } catch (error) {
+    console.error('File sync relay error:', error)
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start file sync relay'
+    })
+  }
+}
@@ -12,6 +12,7 @@ import NetworkDebugPanel from '../components/NetworkDebugPanel'
 import NetworkMemories from '../components/NetworkMemories'
 import { OnlineUsersDebug } from '../components/OnlineUsersDebug'
 import { NetworkDiagnostics } from '../components/NetworkDiagnostics'
+import { ConflictReview } from '../components/ConflictReview'
 import { GlobalSpaceDebug } from '../components/GlobalSpaceDebug'
 
 interface DebugPageProps {
@@ -24,6 +25,7 @@ export default function DebugPage({ hasSession, sessionData }: DebugPageProps) {
   const [isTestingNetwork, setIsTestingNetwork] = useState(false)
   const [showOnlineUsersDebug, setShowOnlineUsersDebug] = useState(false)
   const [showNetworkDiagnostics, setShowNetworkDiagnostics] = useState(false)
+  const [showConflictReview, setShowConflictReview] = useState(false)
 
   // Capture console logs for debugging
   useEffect(() => {
@@ -195,6 +197,12 @@ export default function DebugPage({ hasSession, sessionData }: DebugPageProps) {
               >
                 🔍 Network Diagnostics
               </button>
+              <button
+                onClick={() => setShowConflictReview(true)}
+                className="test-button secondary"
+              >
+                ⚖️ Sync Conflicts
+              </button>
             </div>
           </div>
 
@@ -224,6 +232,11 @@ export default function DebugPage({ hasSession, sessionData }: DebugPageProps) {
         {showNetworkDiagnostics && (
           <NetworkDiagnostics onClose={() => setShowNetworkDiagnostics(false)} />
         )}
+
+        {/* Sync Conflict Review Modal */}
+        {showConflictReview && (
+          <ConflictReview onClose={() => setShowConflictReview(false)} />
+        )}
       </DXOSProvider>
 
       <style jsx>{`
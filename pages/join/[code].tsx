@@ -0,0 +1,195 @@
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/router'
+import { useSession, signIn } from 'next-auth/react'
+import Head from 'next/head'
+import { useDXOS } from '../../lib/dxos/context'
+import { useSpaceUtils } from '../../lib/dxos/utils/spaces'
+import { InvitationService, InvitationToken } from '../../lib/dxos/utils/invitations'
+
+// Walks someone who opened an invitation link through sign in, identity
+// creation and joining the space
+export default function JoinSpace() {
+  const router = useRouter()
+  const { data: session, status } = useSession()
+  const { identity, spaces, createIdentity, joinSpace, setCurrentSpace } = useDXOS()
+  const { useSpaceInvitation: redeemInvitation } = useSpaceUtils()
+
+  const [token, setToken] = useState<InvitationToken | null>(null)
+  const [verified, setVerified] = useState<boolean | null>(null)
+  const [displayName, setDisplayName] = useState('')
+  const [authCode, setAuthCode] = useState('')
+  const [isWorking, setIsWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const code = typeof router.query.code === 'string' ? router.query.code : undefined
+
+  useEffect(() => {
+    if (!router.isReady) return
+
+    const decoded = InvitationService.decode(code)
+    setToken(decoded)
+    if (!decoded) {
+      setVerified(false)
+      return
+    }
+    InvitationService.verify(decoded).then(setVerified)
+  }, [router.isReady, code])
+
+  useEffect(() => {
+    if (session?.user?.name && !displayName) setDisplayName(session.user.name)
+  }, [session, displayName])
+
+  const space = token ? spaces.find(s => s.id === token.spaceId) : undefined
+  const isExpired = !!token?.expiresAt && Date.now() > token.expiresAt
+
+  const handleCreateIdentity = async () => {
+    setIsWorking(true)
+    setError(null)
+    try {
+      await createIdentity(displayName.trim() || undefined, session?.user ? {
+        discordId: session.user.discordId,
+        username: session.user.username,
+        avatar: session.user.avatar
+      } : undefined)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create identity')
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleJoin = async () => {
+    if (!code || !token || !identity) return
+
+    setIsWorking(true)
+    setError(null)
+    try {
+      // Bring the space to this device through the DXOS invitation in the link
+      let target = space
+      if (!target) {
+        target = await joinSpace(token.dxosInvitation!, authCode.trim().toUpperCase() || undefined)
+        if (target?.id !== token.spaceId) {
+          throw new Error('The invitation did not lead to the expected space')
+        }
+      }
+
+      const result = await redeemInvitation(
+        target,
+        code,
+        identity.id,
+        identity.displayName || displayName
+      )
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to join space')
+      }
+
+      console.log('✅ Joined space from invitation link:', target.id)
+      setCurrentSpace(target)
+      router.push('/memory-vault')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to join space')
+      setIsWorking(false)
+    }
+  }
+
+  const renderStep = () => {
+    if (verified === null || status === 'loading') {
+      return <p>Checking your invitation...</p>
+    }
+
+    if (!token || !verified) {
+      return (
+        <>
+          <div className="error-icon">⚠️</div>
+          <p className="error-message">This invitation link is invalid or has been tampered with.</p>
+        </>
+      )
+    }
+
+    if (isExpired) {
+      return <p className="error-message">This invitation expired on {new Date(token.expiresAt!).toLocaleString()}.</p>
+    }
+
+    if (!session) {
+      return (
+        <>
+          <p>Sign in to accept the invitation.</p>
+          <button
+            className="provider-button discord"
+            onClick={() => signIn('discord', { callbackUrl: router.asPath })}
+          >
+            Sign in with Discord
+          </button>
+        </>
+      )
+    }
+
+    if (!identity) {
+      return (
+        <>
+          <p>Create your identity. Other members will see this name.</p>
+          <input
+            type="text"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            placeholder="Display name"
+            className="form-input"
+          />
+          <button className="retry-button" onClick={handleCreateIdentity} disabled={isWorking}>
+            {isWorking ? 'Creating...' : 'Create Identity'}
+          </button>
+        </>
+      )
+    }
+
+    if (!space && !token.dxosInvitation) {
+      return (
+        <p>
+          Waiting for the space to reach this device. Keep this page open while a member
+          of the space is online.
+        </p>
+      )
+    }
+
+    return (
+      <>
+        <p>Join as <strong>{identity.displayName || displayName}</strong>.</p>
+        {token.requiresAuth && (
+          <input
+            type="text"
+            value={authCode}
+            onChange={(e) => setAuthCode(e.target.value)}
+            placeholder="Authentication code from your inviter"
+            className="form-input"
+          />
+        )}
+        <button
+          className="retry-button"
+          onClick={handleJoin}
+          disabled={isWorking || (token.requiresAuth && !authCode)}
+        >
+          {isWorking ? 'Joining...' : 'Join Space'}
+        </button>
+      </>
+    )
+  }
+
+  return (
+    <div className="auth-container">
+      <Head>
+        <title>Join a space - Etherith</title>
+      </Head>
+      <div className="auth-card">
+        <h1>You&apos;re invited</h1>
+        {token && verified && (
+          <p className="auto-redirect">
+            {token.expiresAt ? `Valid until ${new Date(token.expiresAt).toLocaleDateString()}` : 'No expiry'}
+            {token.maxUses ? ` · up to ${token.maxUses} people` : ''}
+          </p>
+        )}
+        {renderStep()}
+        {error && <p className="error-message">{error}</p>}
+      </div>
+    </div>
+  )
+}
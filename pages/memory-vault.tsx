@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useSession, signOut } from 'next-auth/react'
 import { useRouter } from 'next/router'
 import Head from 'next/head'
@@ -7,8 +7,11 @@ import { EnhancedMemoryUpload } from '../components/EnhancedMemoryUpload'
 import MemoryViewer from '../components/MemoryViewer'
 import { Memory, SearchFilters, UserProfile } from '../types/memory'
 import { LocalStorage } from '../utils/storage'
+import { MemorySearchService } from '../utils/memory-search'
+import { ArchiveService } from '../utils/archive'
 import { useDXOS } from '../lib/dxos/context'
 import DXOSMemoryManager from '../components/DXOSMemoryManager'
+import NotificationCenter from '../components/NotificationCenter'
 import { getNetworkDiscovery, NetworkUser } from '../utils/network-discovery'
 
 export default function VaultPage() {
@@ -18,6 +21,8 @@ export default function VaultPage() {
   const [memories, setMemories] = useState<Memory[]>([])
   const [filteredMemories, setFilteredMemories] = useState<Memory[]>([])
   const [searchQuery, setSearchQuery] = useState('')
+  const [searchMode, setSearchMode] = useState<'keyword' | 'semantic'>('keyword')
+  const [isSearching, setIsSearching] = useState(false)
   const [filters, setFilters] = useState<SearchFilters>({})
   const [showUpload, setShowUpload] = useState(false)
   const [selectedMemory, setSelectedMemory] = useState<Memory | null>(null)
@@ -27,6 +32,9 @@ export default function VaultPage() {
   const [sidebarOpen, setSidebarOpen] = useState(false)
   const [onlineUsers, setOnlineUsers] = useState<NetworkUser[]>([])
   const [networkDiscovery, setNetworkDiscovery] = useState<any>(null)
+  const [archiveStatus, setArchiveStatus] = useState<string | null>(null)
+  const [isArchiving, setIsArchiving] = useState(false)
+  const archiveInputRef = useRef<HTMLInputElement>(null)
   const [stats, setStats] = useState({
     totalMemories: 0,
     publicMemories: 0,
@@ -47,6 +55,12 @@ export default function VaultPage() {
     loadMemories()
     loadStats()
     initializeNetworkDiscovery()
+
+    // Reload once the IndexedDB repository (and any legacy migration) is ready
+    LocalStorage.initialize().then(() => {
+      loadMemories()
+      loadStats()
+    })
   }, [session, status, router])
 
   // Initialize network discovery and online users monitoring
@@ -103,8 +117,34 @@ export default function VaultPage() {
   }
 
   useEffect(() => {
-    performSearch()
-  }, [memories, searchQuery, filters, activeTab])
+    if (searchMode === 'keyword' || !searchQuery.trim()) {
+      performSearch()
+      return
+    }
+
+    // Embedding the query may go to the AI backend, so wait for typing to pause
+    let cancelled = false
+    const timer = setTimeout(() => {
+      setIsSearching(true)
+      MemorySearchService.semanticSearch(searchQuery, getSearchOptions())
+        .then(results => {
+          if (!cancelled) setFilteredMemories(results.map(result => result.memory))
+        })
+        .catch(error => {
+          console.warn('⚠️ Semantic search failed, using keyword search:', error)
+          if (!cancelled) performSearch()
+        })
+        .finally(() => {
+          if (!cancelled) setIsSearching(false)
+        })
+    }, 400)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+      setIsSearching(false)
+    }
+  }, [memories, searchQuery, filters, activeTab, searchMode])
 
   const loadMemories = () => {
     const allMemories = LocalStorage.getAllMemories()
@@ -136,23 +176,20 @@ export default function VaultPage() {
     setStats(storageStats)
   }
 
-  const performSearch = () => {
-    let searchMemories = memories
-
-    if (activeTab === 'my-memories') {
-      searchMemories = memories.filter(memory => memory.authorId === session?.user?.discordId)
-    } else {
-      searchMemories = memories.filter(memory => memory.visibility === 'public')
-    }
-
-    if (searchQuery || Object.keys(filters).length > 0) {
-      searchMemories = LocalStorage.searchMemories(searchQuery, {
-        ...filters,
-        visibility: activeTab === 'my-memories' ? undefined : 'public'
-      })
+  const getSearchOptions = () => {
+    const isMyMemories = activeTab === 'my-memories'
+    return {
+      ...filters,
+      authorId: isMyMemories ? session?.user?.discordId : filters.authorId,
+      visibility: isMyMemories ? filters.visibility : 'public' as const,
+      includeDiscovered: !isMyMemories
     }
+  }
 
-    setFilteredMemories(searchMemories)
+  const performSearch = () => {
+    // Ranked search across our memories and, on the public feed, discovered ones
+    const results = MemorySearchService.search(searchQuery, getSearchOptions())
+    setFilteredMemories(results.map(result => result.memory))
   }
 
   const handleMemoryUploaded = (memory: Memory) => {
@@ -179,6 +216,54 @@ export default function VaultPage() {
     }
   }
 
+  const handleExportArchive = async () => {
+    setIsArchiving(true)
+    setArchiveStatus(null)
+    try {
+      // Without a passphrase the archive carries no keys, so encrypted memories only open on this device
+      const passphrase = window.prompt('Passphrase to protect your encryption keys in the archive (leave empty to leave them out)')
+      const archive = await ArchiveService.exportArchive({ passphrase: passphrase || undefined })
+      const url = URL.createObjectURL(archive)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = ArchiveService.getArchiveFileName()
+      link.click()
+      URL.revokeObjectURL(url)
+      setArchiveStatus('Archive exported')
+    } catch (error) {
+      console.error('Archive export failed:', error)
+      setArchiveStatus(error instanceof Error ? error.message : 'Archive export failed')
+    } finally {
+      setIsArchiving(false)
+    }
+  }
+
+  const handleImportArchive = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    setIsArchiving(true)
+    setArchiveStatus(null)
+    try {
+      const { contents } = await ArchiveService.readArchive(file)
+      const passphrase = contents.keys ? window.prompt('Passphrase the archive was exported with') : null
+      const report = await ArchiveService.importArchive(file, { passphrase: passphrase || undefined })
+      loadMemories()
+      loadStats()
+      setArchiveStatus(
+        `Imported ${report.imported} memories, skipped ${report.duplicates} duplicates` +
+        (report.conflicts.length > 0 ? `, ${report.conflicts.length} conflicting memories not imported` : '') +
+        (report.warnings.length > 0 ? `. ${report.warnings.join('. ')}` : '')
+      )
+    } catch (error) {
+      console.error('Archive import failed:', error)
+      setArchiveStatus(error instanceof Error ? error.message : 'Archive import failed')
+    } finally {
+      setIsArchiving(false)
+    }
+  }
+
   const handleFilterChange = (key: keyof SearchFilters, value: any) => {
     setFilters(prev => ({
       ...prev,
@@ -411,6 +496,36 @@ export default function VaultPage() {
                 </div>
               </div>
             </div>
+
+            <div className="nav-section">
+              <h3>🗄️ Archive</h3>
+              <button
+                className="nav-item"
+                onClick={handleExportArchive}
+                disabled={isArchiving}
+                aria-label="Export your vault as an Etherith archive"
+              >
+                <span>⬇️ Export Archive</span>
+              </button>
+              <button
+                className="nav-item"
+                onClick={() => archiveInputRef.current?.click()}
+                disabled={isArchiving}
+                aria-label="Import an Etherith archive"
+              >
+                <span>⬆️ Import Archive</span>
+              </button>
+              <input
+                ref={archiveInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                onChange={handleImportArchive}
+                hidden
+              />
+              {archiveStatus && (
+                <p className="archive-status" role="status">{archiveStatus}</p>
+              )}
+            </div>
           </div>
 
           <div className="sidebar-actions">
@@ -447,6 +562,12 @@ export default function VaultPage() {
             </div>
 
             <div className="header-actions">
+              <NotificationCenter
+                onSelectMemory={(memoryId) => {
+                  const memory = memories.find(m => m.id === memoryId)
+                  if (memory) setSelectedMemory(memory)
+                }}
+              />
               <button
                 className="logout-button"
                 onClick={() => signOut({ callbackUrl: '/' })}
@@ -466,12 +587,23 @@ export default function VaultPage() {
                   <input
                     id="memory-search"
                     type="text"
-                    placeholder="Search memories..."
+                    placeholder={searchMode === 'semantic' ? 'Describe a memory...' : 'Search memories...'}
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
                     className="search-input"
                     aria-label="Search memories"
+                    aria-busy={isSearching}
                   />
+                  <button
+                    type="button"
+                    className={`search-mode-btn ${searchMode === 'semantic' ? 'active' : ''}`}
+                    onClick={() => setSearchMode(searchMode === 'semantic' ? 'keyword' : 'semantic')}
+                    aria-pressed={searchMode === 'semantic'}
+                    aria-label="Search by meaning"
+                    title={searchMode === 'semantic' ? 'Searching by meaning' : 'Search by meaning'}
+                  >
+                    <span aria-hidden="true">{isSearching ? '⏳' : '✨'}</span>
+                  </button>
                 </div>
               </div>
 
@@ -680,9 +812,11 @@ export default function VaultPage() {
 
       {selectedMemory && (
         <MemoryViewer
+          key={selectedMemory.id}
           memory={selectedMemory}
           onClose={() => setSelectedMemory(null)}
           onDelete={handleMemoryDelete}
+          onSelectMemory={setSelectedMemory}
           canEdit={selectedMemory.authorId === session.user?.discordId}
           canDelete={selectedMemory.authorId === session.user?.discordId}
         />
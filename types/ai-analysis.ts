@@ -1,3 +1,5 @@
+import { MediaMetadata, MemoryEmbedding } from './memory'
+
 export interface AIAnalysis {
   title: string
   tags: string[]
@@ -17,6 +19,16 @@ export interface AIAnalysis {
     mimeType: string
     size: number
   } | null
+  media?: MediaAnalysis | null
+  embedding?: MemoryEmbedding | null
+}
+
+// What was extracted from an image or audio file before the text models ran
+export interface MediaAnalysis {
+  caption?: string
+  ocrText?: string
+  transcript?: string
+  exif?: MediaMetadata | null
 }
 
 export interface AIAnalysisResponse {
@@ -37,4 +49,36 @@ export interface AIAnalysisRequest {
   fileType?: 'text' | 'document' | 'audio' | 'image' | 'video'
   fileName?: string
   file?: File
+  exif?: MediaMetadata | null // Read on this device; sent so the analysis can use it
+}
+
+// Where analysis runs: the Cloudflare worker, this app's /api/ai/analyze
+// route (local LLM or keyword engine), or in the browser with no network
+export type AIAnalysisBackendName = 'worker' | 'local' | 'lexicon'
+
+// Engines behind /api/ai/analyze
+export type LocalAIEngineName = 'openai' | 'lexicon'
+
+export interface AIAnalysisBackend {
+  readonly name: AIAnalysisBackendName
+  analyze(request: AIAnalysisRequest): Promise<AIAnalysisResponse>
+  embed(texts: string[]): Promise<MemoryEmbedding[]>
+  isAvailable(): Promise<boolean>
+}
+
+// A request with any file already reduced to text, as sent to local engines
+export interface AIAnalysisInput {
+  content: string
+  title?: string
+  memoryNote?: string
+  fileType?: AIAnalysisRequest['fileType']
+  fileInfo?: AIAnalysis['fileInfo']
+  exif?: MediaMetadata | null
+}
+
+export interface LocalAIEngine {
+  readonly name: LocalAIEngineName
+  analyze(input: AIAnalysisInput): Promise<AIAnalysis>
+  embed(texts: string[]): Promise<MemoryEmbedding[]>
+  isAvailable(): Promise<boolean>
 }
@@ -0,0 +1,92 @@
+import { Memory, MemoryComment, MemoryReaction, UserProfile } from './memory'
+import { RegistryConfig, RegistrySubscription } from './registry'
+
+// Etherith archive: a zip holding a whole vault so it can move between
+// browsers and devices.
+//
+//   manifest.json                 ArchiveManifest
+//   profile.json                  UserProfile
+//   memories/<id>.json            ArchivedMemory (no inline file data)
+//   files/<id>/<fileName>         Original binaries
+//   engagement/reactions.json     MemoryReaction[]
+//   engagement/comments.json      MemoryComment[]
+//   registry/config.json          RegistryConfig
+//   registry/subscriptions.json   RegistrySubscription[]
+//   keys.json                     ArchiveKeyBundle, only when exported with a passphrase
+
+export const ARCHIVE_FORMAT = 'etherith-archive'
+export const ARCHIVE_VERSION = 1
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT
+  version: number
+  createdAt: number
+  profile: {
+    id: string
+    displayName: string
+  } | null
+  memories: ArchiveManifestEntry[]
+  counts: {
+    memories: number
+    files: number
+    reactions: number
+    comments: number
+    subscriptions: number
+  }
+}
+
+export interface ArchiveManifestEntry {
+  id: string
+  path: string
+  contentHash: string // SHA-256 over content, note and file bytes; used to spot duplicates
+  file?: {
+    path: string
+    size: number
+    sha256: string
+    mimeType?: string
+  }
+}
+
+export type ArchivedMemory = Omit<Memory, 'fileData'>
+
+// The device's encryption and signing keys, encrypted with a key derived
+// from the export passphrase
+export interface ArchiveKeyBundle {
+  algorithm: 'PBKDF2-SHA256-AES-GCM-256'
+  iterations: number
+  salt: string // Base64
+  iv: string // Base64
+  ciphertext: string // Base64
+}
+
+export interface ArchiveContents {
+  manifest: ArchiveManifest
+  profile: UserProfile | null
+  memories: ArchivedMemory[]
+  reactions: MemoryReaction[]
+  comments: MemoryComment[]
+  config: RegistryConfig | null
+  subscriptions: RegistrySubscription[]
+  keys: ArchiveKeyBundle | null
+}
+
+export type ArchiveConflictStrategy = 'skip' | 'overwrite'
+
+export interface ArchiveConflict {
+  memoryId: string
+  title: string
+  reason: 'different-content' | 'file-checksum'
+  resolution: 'skipped' | 'overwritten'
+}
+
+export interface ArchiveImportReport {
+  imported: number
+  duplicates: number // Already in the vault under the same id or the same content
+  conflicts: ArchiveConflict[]
+  reactionsImported: number
+  commentsImported: number
+  subscriptionsImported: number
+  configImported: boolean
+  keysImported: number
+  warnings: string[]
+}
@@ -44,7 +44,7 @@ export interface FileUpdateAction extends LoguxAction {
   content: string;
   version: string;
   diff?: FileDiff;
-  reason: 'edit' | 'auto-save' | 'conflict-resolution';
+  reason: 'edit' | 'auto-save' | 'conflict-resolution' | 'restore';
   authorId: string;
 }
 
@@ -106,9 +106,18 @@ export interface FileUnlockAction extends LoguxAction {
   authorId: string;
 }
 
+// Automerge changes to a file's collaborative text
+export interface FileTextAction extends LoguxAction {
+  type: 'file/text';
+  fileId: string;
+  changes: string[]; // base64-encoded Automerge changes
+  authorId: string;
+}
+
 export interface FileCursorAction extends LoguxAction {
   type: 'file/cursor';
   fileId: string;
+  field?: CollaborativeField;
   position: CursorPosition;
   selection?: TextSelection;
   authorId: string;
@@ -159,6 +168,7 @@ export interface FileDiff {
   newHash: string;
 }
 
+// Positions are character offsets into the old content, in ascending order
 export interface DiffOperation {
   type: 'insert' | 'delete' | 'replace';
   position: number;
@@ -166,10 +176,14 @@ export interface DiffOperation {
   length?: number;
 }
 
+// Text fields of a shared file that can be edited concurrently
+export type CollaborativeField = 'content' | 'memoryNote';
+
 export interface CursorPosition {
   line: number;
   column: number;
   offset: number;
+  anchor?: string; // Automerge cursor that survives concurrent edits
 }
 
 export interface TextSelection {
@@ -183,6 +197,7 @@ export interface SyncedFile {
   name: string;
   path: string;
   content: string;
+  memoryNote?: string;
   version: string;
   hash: string;
   permissions: FilePermissions;
@@ -207,11 +222,34 @@ export interface UserPresence {
   userId: string;
   userName: string;
   status: 'viewing' | 'editing' | 'idle';
+  field?: CollaborativeField;
   cursor?: CursorPosition;
   selection?: TextSelection;
   lastActivity: number;
 }
 
+// Version history
+export interface FileVersionRecord {
+  id: string; // `${fileId}:${version}`
+  fileId: string;
+  version: string;
+  parentVersions: string[];
+  operation: 'create' | 'update' | 'merge' | 'restore' | 'text'; // text: collaborative edits since `parentVersions[0]`
+  content: string;
+  memoryNote?: string;
+  hash: string;
+  size: number;
+  authorId: string;
+  timestamp: number;
+  vectorClock: Record<string, number>;
+}
+
+// The current version of a file is always kept, whatever the policy
+export interface VersionRetentionPolicy {
+  maxVersions: number; // per file
+  maxAge: number; // milliseconds
+}
+
 // Conflict resolution types
 export interface FileConflict {
   id: string;
@@ -221,6 +259,16 @@ export interface FileConflict {
   resolution?: ConflictResolution;
   created: number;
   resolved?: number;
+  baseVersion?: string; // common ancestor used for the three-way merge
+  hunks?: MergeConflictHunk[]; // regions both sides changed differently
+}
+
+// A region of the common ancestor that both sides edited in different ways
+export interface MergeConflictHunk {
+  baseStart: number; // zero-based line in the ancestor
+  base: string;
+  ours: string;
+  theirs: string;
 }
 
 export interface ConflictVersion {
@@ -263,6 +311,7 @@ export type FileAction =
   | FileConflictAction
   | FileLockAction
   | FileUnlockAction
+  | FileTextAction
   | FileCursorAction
   | FileSyncStatusAction
   | FilePresenceAction;
\ No newline at end of file
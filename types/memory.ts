@@ -13,12 +13,66 @@ export interface Memory {
   ipfsUrl?: string // Public IPFS URL
   ipfsGatewayUrl?: string // Pinata gateway URL
   thumbnailUrl?: string // Thumbnail URL for videos and images
+  encrypted?: boolean // Content pinned to IPFS is AES-GCM encrypted on this device
+  encryptionKeyId?: string // Identity key used to derive the content key
+  contentKey?: string // Shared restricted memories: key their pinned file is encrypted with
   timestamp: number
   authorId: string
   authorName: string
   authorAvatar?: string
   authorContact?: string
   tags?: string[]
+  sharingPermission?: 'public' | 'subscribers-only' | 'invite-only' // Registry access, defaults to the registry config
+  requiredReplicas?: number // Overrides the preservation policy default
+  replication?: ReplicationReport // Result of the last replication check
+  takenAt?: number // Capture time from EXIF; the memory's place on the timeline when set
+  camera?: string
+  location?: GeoLocation // Only stored when the author allowed photo locations
+  caption?: string // What the analyzer saw in the image
+  ocrText?: string // Text visible in the image
+  transcript?: string // Speech in an audio memory
+  embedding?: MemoryEmbedding // For semantic search and related memories
+}
+
+// A memory's vector; only vectors from the same model can be compared
+export interface MemoryEmbedding {
+  model: string
+  vector: number[]
+}
+
+export interface GeoLocation {
+  latitude: number
+  longitude: number
+  altitude?: number
+}
+
+// Fields read from a photo's EXIF block
+export interface MediaMetadata {
+  takenAt?: number
+  camera?: string
+  width?: number
+  height?: number
+  location?: GeoLocation
+}
+
+// Which pinning providers hold a memory's CID
+export interface ReplicaStatus {
+  provider: string
+  pinned: boolean
+  pinnedAt?: string | null
+  size?: number
+  repaired?: boolean // Pinned by the last repair run
+  error?: string
+}
+
+export interface ReplicationReport {
+  cid: string
+  requiredReplicas: number
+  replicaCount: number
+  healthy: boolean // replicaCount >= requiredReplicas
+  replicas: ReplicaStatus[]
+  missingProviders?: number // Replicas the policy asks for beyond the configured providers
+  checkedAt: number
 }
 
 export interface UserProfile {
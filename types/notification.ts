@@ -0,0 +1,28 @@
+// Notification Types shared by the DXOS layer and the local notification center
+
+export type NotificationType =
+  | 'connection_request'
+  | 'memory_shared'
+  | 'community_invitation'
+  | 'memory_moderated'
+  | 'memory_comment'
+  | 'memory_reaction'
+  | 'storage_error'
+
+export interface Notification {
+  id: string // Derived from the source event, so the same event is only stored once
+  userId: string // Recipient
+  type: NotificationType
+  message: string
+  timestamp: number
+  read: boolean
+  actorId?: string
+  actorName?: string
+  memoryId?: string
+  spaceId?: string
+}
+
+export interface NotificationPreferences {
+  muted: NotificationType[]
+  browser: boolean // Deliver through the browser Notification API while the app is hidden
+}
@@ -1,4 +1,4 @@
-import { Memory, UserProfile } from './memory'
+import { Memory, MemoryEmbedding, UserProfile } from './memory'
 
 // Registry Types for IPFS-based decentralized sharing
 
@@ -23,8 +23,45 @@ export interface PublicMemoryEntry {
   tags?: string[]
   // Registry-specific metadata
   registryVersion: string
-  sharingPermissions: 'public' | 'subscribers-only' | 'invite-only'
-  contentHash: string // SHA-256 of memory content for integrity
+  sharingPermissions: SharingPermission
+  contentHash: string // SHA-256 of memory content (or of sealed.ciphertext) for integrity
+  sealed?: SealedEntryContent // Present for restricted entries; sealed fields are blanked above
+  contentKey?: string // Set once a sealed entry is opened; decrypts the file at ipfsCid
+}
+
+export type SharingPermission = 'public' | 'subscribers-only' | 'invite-only'
+
+// Content key for a restricted entry, wrapped for one recipient's ECDH key
+export interface WrappedContentKey {
+  recipientId: string
+  ephemeralPublicKey: string // Base64 SPKI
+  iv: string
+  wrappedKey: string
+}
+
+export interface SealedEntryContent {
+  algorithm: 'AES-GCM-256'
+  iv: string
+  ciphertext: string // Encrypted JSON of SealedEntryFields
+  keys: WrappedContentKey[]
+}
+
+export type SealedEntryFields = Pick<PublicMemoryEntry,
+  'title' | 'content' | 'memoryNote' | 'tags' | 'fileName' | 'ipfsCid' | 'ipfsUrl' | 'ipfsGatewayUrl' | 'thumbnailUrl' | 'contentKey'>
+
+// Someone the author has granted access to restricted entries
+export interface RegistryRecipient {
+  userId: string
+  displayName: string
+  encryptionKey: string // Base64 SPKI ECDH key from their signed registry
+  grantedAt: number
+}
+
+export interface RegistrySignature {
+  algorithm: 'ECDSA-P256-SHA256'
+  publicKey: string // Base64 SPKI, must match userProfile.publicKey
+  value: string // Base64 signature over the canonical registry JSON
+  signedAt: number
 }
 
 export interface UserRegistry {
@@ -38,7 +75,8 @@ export interface UserRegistry {
     avatar?: string
     contactLink?: string
     bio?: string
-    publicKey?: string // For future encryption/verification
+    publicKey?: string // Base64 SPKI key that signs this registry
+    encryptionKey?: string // Base64 SPKI ECDH key others wrap content keys for
   }
   metadata: {
     created: number
@@ -51,12 +89,44 @@ export interface UserRegistry {
     location?: string
   }
   publicMemories: PublicMemoryEntry[]
+  previousCid?: string // CID of the previously published version of this registry
+  changeLogCid?: string // Change log describing edits since previousCid
   ipfsMetadata: {
     registryCid?: string
     lastPublished?: number
     publishedSize?: number
     gatewayUrl?: string
   }
+  signature?: RegistrySignature
+}
+
+// Append-only change log published alongside each registry version
+export interface RegistryChange {
+  op: 'added' | 'updated' | 'removed'
+  entryId: string
+  entry?: PublicMemoryEntry // Omitted for removals
+  timestamp: number
+}
+
+export interface RegistryChangeLog {
+  format: 'etherith-registry-changelog-v1'
+  registryId: string
+  userId: string
+  previousCid?: string // Registry CID these changes apply on top of
+  previousChangeLogCid?: string // Link to the change log of previousCid
+  changes: RegistryChange[]
+  createdAt: number
+  signature?: RegistrySignature
+}
+
+// Signed pointer to an author's latest registry CID, kept by /api/registry/head
+// so subscribers find new versions without being sent each CID
+export interface RegistryHead {
+  registryId: string
+  userId: string
+  cid: string
+  publishedAt: number
+  signature?: RegistrySignature // Over the canonical JSON of the other fields
 }
 
 export interface RegistrySubscription {
@@ -64,11 +134,15 @@ export interface RegistrySubscription {
   registryId: string
   registryCid: string
   userId: string
+  publicKey?: string // Author's signing key, pinned when subscribing
   displayName: string
   avatar?: string
   contactLink?: string
   subscribedAt: number
   lastSyncAt?: number
+  lastSyncedCid?: string // Registry CID our discovered memories reflect
+  lastSyncedChangeLogCid?: string // Change log that lastSyncedCid links to
+  headPublishedAt?: number // publishedAt of the newest registry head followed
   syncEnabled: boolean
   autoSync: boolean
   syncFrequency: 'manual' | 'hourly' | 'daily' | 'weekly'
@@ -86,6 +160,10 @@ export interface SyncOperation {
   memoriesFound: number
   memoriesDownloaded: number
   memoriesSkipped: number
+  memoriesUpdated?: number
+  memoriesRemoved?: number
+  fromCid?: string
+  toCid?: string
   totalSize: number
   errors?: string[]
   lastMemoryTimestamp?: number
@@ -125,7 +203,7 @@ export interface RegistryConfig {
   maxRegistrySize: number // MB
   maxMemorySize: number // MB per memory
   allowedFileTypes: string[]
-  defaultSharingPermission: 'public' | 'subscribers-only' | 'invite-only'
+  defaultSharingPermission: SharingPermission
   syncConfig: {
     enabled: boolean
     maxConcurrentSyncs: number
@@ -148,8 +226,9 @@ export interface MemoryDiscovery {
   memory: PublicMemoryEntry
   discoveredAt: number
   source: 'subscription' | 'search' | 'recommendation'
-  relevanceScore?: number
+  relevanceScore?: number // Similarity to our own memories, 0-1
   tags?: string[]
+  embedding?: MemoryEmbedding // Computed on this device; not part of the registry
 }
 
 // Search and Discovery
@@ -0,0 +1,167 @@
+import { AIAnalysisBackend, AIAnalysisBackendName, AIAnalysisRequest, AIAnalysisResponse } from '../../types/ai-analysis'
+import { MemoryEmbedding } from '../../types/memory'
+import { WorkerAnalysisBackend } from './worker-backend'
+import { LocalAnalysisBackend } from './local-backend'
+import { LexiconAnalysisBackend } from './lexicon-backend'
+import { LocalStorage } from '../storage'
+import { MediaMetadataService } from '../media-metadata'
+import { embeddingText } from './input'
+
+// Client-side entry point for memory analysis. The backend is chosen with
+// NEXT_PUBLIC_AI_BACKEND=worker|local|lexicon and defaults to the Cloudflare
+// worker. Whatever fails falls back to the in-browser keyword engine, which
+// answers in the same shape.
+
+export { WorkerAnalysisBackend, LocalAnalysisBackend, LexiconAnalysisBackend }
+export { LexiconAnalysisEngine, LEXICON_EMBEDDING_MODEL } from './lexicon-engine'
+export { embeddingText } from './input'
+
+// Saved memories weight keywords for the in-browser engine
+const memoryCorpus = (): string[] => {
+  try {
+    return LocalStorage.getAllMemories().map(memory => `${memory.title} ${memory.content}`)
+  } catch {
+    return []
+  }
+}
+
+export function createAnalysisBackend(name: AIAnalysisBackendName): AIAnalysisBackend {
+  switch (name) {
+    case 'worker':
+      return new WorkerAnalysisBackend()
+    case 'local':
+      return new LocalAnalysisBackend()
+    case 'lexicon':
+      return new LexiconAnalysisBackend(memoryCorpus)
+    default:
+      throw new Error(`Unknown analysis backend: ${name}`)
+  }
+}
+
+export class AIAnalysisService {
+  private static backend: AIAnalysisBackend | null = null
+  private static readonly fallback = new LexiconAnalysisBackend(memoryCorpus)
+
+  static getBackend(): AIAnalysisBackend {
+    if (!this.backend) {
+      const name = (process.env.NEXT_PUBLIC_AI_BACKEND as AIAnalysisBackendName | undefined) || 'worker'
+      this.backend = createAnalysisBackend(name)
+    }
+    return this.backend
+  }
+
+  // Swap the active backend (tests, or a settings toggle)
+  static setBackend(next: AIAnalysisBackend | null): void {
+    this.backend = next
+  }
+
+  /**
+   * Analyze memory content and generate metadata using AI
+   */
+  static async analyzeMemory(request: AIAnalysisRequest): Promise<AIAnalysisResponse> {
+    const backend = this.getBackend()
+    try {
+      const withExif = await this.withExif(request)
+      return this.attachEmbedding(this.attachExif(await backend.analyze(withExif), withExif), withExif)
+    } catch (error) {
+      console.error('🤖 AI Analysis Service Error:', error)
+      throw new Error(`Failed to analyze memory: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Analyze memory content, falling back to the in-browser keyword engine
+   */
+  static async analyzeMemoryWithFallback(request: AIAnalysisRequest): Promise<AIAnalysisResponse> {
+    try {
+      return await this.analyzeMemory(request)
+    } catch (error) {
+      console.warn('AI analysis failed, using keyword analysis:', error)
+      const withExif = await this.withExif(request)
+      return this.attachEmbedding(this.attachExif(await this.fallback.analyze(withExif), withExif), withExif)
+    }
+  }
+
+  /**
+   * Embed texts with the active backend, falling back to hashed word
+   * vectors. Check `model` before comparing vectors from different calls.
+   */
+  static async embed(texts: string[]): Promise<MemoryEmbedding[]> {
+    if (texts.length === 0) return []
+
+    let embeddings: MemoryEmbedding[]
+    try {
+      embeddings = await this.getBackend().embed(texts)
+    } catch (error) {
+      console.warn('⚠️ Embedding failed, using hashed word vectors:', error)
+      embeddings = await this.fallback.embed(texts)
+    }
+
+    // Four decimals is plenty for cosine similarity and keeps stored memories small
+    return embeddings.map(({ model, vector }) => ({
+      model,
+      vector: vector.map(value => Math.round(value * 1e4) / 1e4)
+    }))
+  }
+
+  // Photo metadata is read on this device so every backend sees the same
+  // date and camera, and the location never leaves without consent
+  private static async withExif(request: AIAnalysisRequest): Promise<AIAnalysisRequest> {
+    if (request.exif !== undefined || !request.file) return request
+    return { ...request, exif: await MediaMetadataService.readExif(request.file) }
+  }
+
+  private static attachExif(response: AIAnalysisResponse, request: AIAnalysisRequest): AIAnalysisResponse {
+    if (!response.analysis || !request.exif) return response
+    return {
+      ...response,
+      analysis: { ...response.analysis, media: { ...response.analysis.media, exif: request.exif } }
+    }
+  }
+
+  // The memory's vector is taken from the analysed text so it is stored
+  // with the memory; a failure here never fails the analysis
+  private static async attachEmbedding(response: AIAnalysisResponse, request: AIAnalysisRequest): Promise<AIAnalysisResponse> {
+    const { analysis } = response
+    if (!analysis) return response
+
+    try {
+      const [embedding] = await this.embed([embeddingText({
+        title: analysis.title,
+        tags: analysis.tags,
+        memoryNote: analysis.memoryNote,
+        caption: analysis.media?.caption,
+        content: request.content,
+        ocrText: analysis.media?.ocrText,
+        transcript: analysis.media?.transcript
+      })])
+      return { ...response, analysis: { ...analysis, embedding } }
+    } catch (error) {
+      console.warn('⚠️ Could not embed memory:', error)
+      return response
+    }
+  }
+
+  /**
+   * Check if AI analysis is available
+   */
+  static async isAvailable(): Promise<boolean> {
+    return this.getBackend().isAvailable()
+  }
+
+  /**
+   * Test the active backend with a simple request
+   */
+  static async testWorker(): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.getBackend().analyze({
+        content: 'This is a test memory for AI analysis',
+        title: 'Test Memory'
+      })
+      return { success: true }
+    } catch (error) {
+      console.error('🤖 Analysis backend test error:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  }
+}
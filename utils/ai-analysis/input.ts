@@ -0,0 +1,83 @@
+import { AIAnalysis, AIAnalysisInput, AIAnalysisRequest, AIAnalysisResponse } from '../../types/ai-analysis'
+import { Memory } from '../../types/memory'
+import { MediaMetadataService } from '../media-metadata'
+
+// Text sent to local engines is capped; the worker only reads the first
+// 1000 characters anyway
+const MAX_INPUT_LENGTH = 20000
+
+// Embedding models read about 512 tokens
+const MAX_EMBEDDING_TEXT_LENGTH = 2000
+
+function fileTypeFromMime(mimeType: string): AIAnalysisRequest['fileType'] {
+  if (mimeType.startsWith('image/')) return 'image'
+  if (mimeType.startsWith('video/')) return 'video'
+  if (mimeType.startsWith('audio/')) return 'audio'
+  return 'document'
+}
+
+/**
+ * Reduce a request to text the way the worker does: text files are read,
+ * other files are described by name and type alongside any content
+ */
+export async function prepareAnalysisInput(request: AIAnalysisRequest): Promise<AIAnalysisInput> {
+  const { file } = request
+  let content = request.content || ''
+
+  if (file) {
+    if (file.type.startsWith('text/') || file.type === 'application/json') {
+      content = await file.text()
+    } else {
+      content = `File: ${file.name} (${file.type}) - ${request.content || 'No additional description provided'}`
+    }
+  }
+
+  const exifLine = MediaMetadataService.describe(request.exif)
+  if (exifLine) {
+    content = `${content}\n${exifLine}`
+  }
+
+  return {
+    content: content.slice(0, MAX_INPUT_LENGTH),
+    title: request.title,
+    memoryNote: request.memoryNote,
+    fileType: file ? fileTypeFromMime(file.type) : request.fileType,
+    fileInfo: file ? {
+      name: file.name || 'unknown',
+      type: fileTypeFromMime(file.type) as string,
+      mimeType: file.type,
+      size: file.size
+    } : null,
+    exif: request.exif
+  }
+}
+
+/**
+ * The text a memory is embedded from. Title, tags and note lead so they
+ * survive truncation of long content.
+ */
+export function embeddingText(
+  memory: Partial<Pick<Memory, 'title' | 'tags' | 'memoryNote' | 'content' | 'caption' | 'ocrText' | 'transcript'>>
+): string {
+  return [
+    memory.title,
+    memory.tags?.join(', '),
+    memory.memoryNote,
+    memory.caption,
+    memory.content,
+    memory.ocrText,
+    memory.transcript
+  ].filter(Boolean).join('\n').slice(0, MAX_EMBEDDING_TEXT_LENGTH)
+}
+
+export function toAnalysisResponse(input: AIAnalysisInput, analysis: AIAnalysis): AIAnalysisResponse {
+  return {
+    success: true,
+    analysis,
+    original: {
+      title: input.title || '',
+      memoryNote: input.memoryNote || '',
+      content: input.content.substring(0, 100) + '...'
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { AIAnalysisBackend, AIAnalysisRequest, AIAnalysisResponse } from '../../types/ai-analysis'
+import { MemoryEmbedding } from '../../types/memory'
+import { LexiconAnalysisEngine } from './lexicon-engine'
+import { prepareAnalysisInput, toAnalysisResponse } from './input'
+
+// The keyword engine in the browser; works with no network at all
+
+export class LexiconAnalysisBackend implements AIAnalysisBackend {
+  readonly name = 'lexicon' as const
+
+  // `corpus` supplies other texts (e.g. saved memories) for keyword weighting
+  constructor(private readonly corpus: () => string[] = () => []) {}
+
+  async analyze(request: AIAnalysisRequest): Promise<AIAnalysisResponse> {
+    const input = await prepareAnalysisInput(request)
+    return toAnalysisResponse(input, LexiconAnalysisEngine.analyze(input, this.corpus()))
+  }
+
+  async embed(texts: string[]): Promise<MemoryEmbedding[]> {
+    return texts.map(text => LexiconAnalysisEngine.embed(text))
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true
+  }
+}
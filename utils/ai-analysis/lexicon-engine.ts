@@ -0,0 +1,250 @@
+import { AIAnalysis, AIAnalysisInput } from '../../types/ai-analysis'
+import { MemoryEmbedding } from '../../types/memory'
+import { MediaMetadataService } from '../media-metadata'
+
+// In-process analysis with no model: TF-IDF keywords for tags and title, a
+// word lexicon for sentiment and seed words for the category. Runs in the
+// browser or on the server and needs no network.
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'from', 'into',
+  'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did', 'done',
+  'will', 'would', 'could', 'should', 'may', 'might', 'can', 'this', 'that', 'these', 'those', 'there',
+  'then', 'than', 'them', 'they', 'their', 'what', 'when', 'where', 'which', 'while', 'who', 'whom',
+  'about', 'after', 'again', 'all', 'also', 'any', 'because', 'before', 'both', 'each', 'just', 'more',
+  'most', 'much', 'only', 'other', 'over', 'same', 'some', 'such', 'very', 'your', 'yours', 'ours',
+  'our', 'his', 'her', 'hers', 'its', 'him', 'she', 'you', 'not', 'out', 'off', 'too', 'how', 'why',
+  'here', 'got', 'get', 'like', 'really', 'still', 'even', 'well', 'back', 'down', 'one', 'two',
+  'file', 'additional', 'description', 'provided'
+])
+
+// Valence from -3 to 3, in the spirit of AFINN
+const SENTIMENT_LEXICON: Record<string, number> = {
+  love: 3, loved: 3, amazing: 3, wonderful: 3, fantastic: 3, beautiful: 3, best: 3, joy: 3, thrilled: 3,
+  happy: 2, happiest: 3, glad: 2, great: 2, fun: 2, proud: 2, excited: 2, grateful: 2, thankful: 2,
+  celebrate: 2, celebrated: 2, laughed: 2, laughing: 2, smile: 2, smiled: 2, perfect: 2, won: 2,
+  win: 2, success: 2, peaceful: 2, delighted: 3, awesome: 3, favorite: 2, cherish: 2, blessed: 2,
+  good: 1, nice: 1, calm: 1, hope: 1, warm: 1, friendly: 1, like: 1, liked: 1, safe: 1, relaxed: 1,
+  sad: -2, cried: -2, crying: -2, angry: -3, hate: -3, hated: -3, terrible: -3, awful: -3, worst: -3,
+  lost: -2, loss: -3, miss: -1, missed: -1, lonely: -2, afraid: -2, scared: -2, hurt: -2, pain: -2,
+  sick: -2, ill: -2, died: -3, death: -3, funeral: -2, broken: -2, tired: -1, stress: -2,
+  stressed: -2, worried: -2, worry: -2, difficult: -1, hard: -1, bad: -2, fail: -2, failed: -2,
+  disappointed: -2, upset: -2, fear: -2, alone: -1, boring: -1, sorry: -1
+}
+
+const NEGATIONS = new Set(['not', 'no', 'never', "don't", "didn't", "wasn't", "isn't", "can't", "couldn't", "won't"])
+
+const CATEGORY_SEEDS: Record<string, string[]> = {
+  family: ['family', 'mom', 'mother', 'dad', 'father', 'kids', 'son', 'daughter', 'grandma', 'grandpa', 'sister', 'brother', 'baby', 'parents'],
+  travel: ['trip', 'travel', 'flight', 'beach', 'vacation', 'holiday', 'city', 'mountain', 'hotel', 'road', 'journey', 'abroad'],
+  work: ['work', 'meeting', 'project', 'office', 'team', 'client', 'deadline', 'colleague', 'job'],
+  career: ['career', 'promotion', 'interview', 'hired', 'resume'],
+  learning: ['learn', 'learned', 'course', 'study', 'class', 'book', 'lesson', 'lecture', 'reading'],
+  education: ['school', 'university', 'college', 'graduated', 'graduation', 'exam', 'teacher'],
+  celebration: ['birthday', 'party', 'anniversary', 'wedding', 'celebrate', 'celebrated', 'festival', 'christmas'],
+  health: ['health', 'doctor', 'hospital', 'gym', 'run', 'running', 'workout', 'recovery', 'sick'],
+  creative: ['paint', 'painting', 'music', 'song', 'draw', 'drawing', 'write', 'writing', 'poem', 'photo', 'design'],
+  achievement: ['won', 'award', 'finished', 'completed', 'achieved', 'goal', 'record', 'milestone'],
+  relationship: ['friend', 'friends', 'love', 'partner', 'date', 'together', 'relationship'],
+  reflection: ['think', 'thought', 'realized', 'wonder', 'remember', 'reflect', 'feel', 'felt']
+}
+
+// Hashed bag-of-words vectors: no model to download, so they only match on
+// shared words and their stems rather than meaning
+export const LEXICON_EMBEDDING_MODEL = 'lexicon-hash-256'
+const EMBEDDING_DIMENSIONS = 256
+
+// FNV-1a, enough to spread terms over the vector
+function hash(term: string): number {
+  let value = 0x811c9dc5
+  for (let i = 0; i < term.length; i++) {
+    value ^= term.charCodeAt(i)
+    value = Math.imul(value, 0x01000193) >>> 0
+  }
+  return value
+}
+
+// Crude suffix stripping so "gardens" and "gardening" land on "garden"
+function stem(word: string): string {
+  const base = word.replace(/'s?$/, '')
+  const stripped = base.replace(/(ing|ed|es|s)$/, '')
+  return stripped.length >= 3 ? stripped.replace(/([^aeiouls])\1$/, '$1') : base
+}
+
+interface ScoredTerm {
+  term: string
+  score: number
+  firstIndex: number
+}
+
+export class LexiconAnalysisEngine {
+  static tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .replace(/[^a-z0-9\u00c0-\u024f'\s]/g, ' ')
+      .split(/\s+/)
+      .map(word => word.replace(/^'+|'+$/g, ''))
+      .filter(Boolean)
+  }
+
+  /**
+   * Keywords ranked by TF-IDF. Document frequencies come from `corpus` (for
+   * example the user's other memories); without one, the sentences of the
+   * text stand in as documents.
+   */
+  static keywords(text: string, corpus: string[] = [], limit: number = 5): string[] {
+    const tokens = this.tokenize(text)
+    const terms = tokens.filter(token => token.length > 2 && !STOP_WORDS.has(token) && !/^\d+$/.test(token))
+    if (terms.length === 0) return []
+
+    const documents = (corpus.length > 0 ? corpus : text.split(/[.!?\n]+/))
+      .map(document => new Set(this.tokenize(document)))
+      .filter(document => document.size > 0)
+
+    const counts = new Map<string, ScoredTerm>()
+    terms.forEach(term => {
+      const existing = counts.get(term)
+      if (existing) {
+        existing.score++
+      } else {
+        counts.set(term, { term, score: 1, firstIndex: tokens.indexOf(term) })
+      }
+    })
+
+    const scored = Array.from(counts.values()).map(entry => {
+      const documentFrequency = documents.filter(document => document.has(entry.term)).length
+      const idf = Math.log((1 + documents.length) / (1 + documentFrequency)) + 1
+      return { ...entry, score: (entry.score / terms.length) * idf }
+    })
+
+    return scored
+      .sort((a, b) => b.score - a.score || a.firstIndex - b.firstIndex)
+      .slice(0, limit)
+      .map(entry => entry.term)
+  }
+
+  /**
+   * Lexicon sentiment on the 0-1 positive scale the worker's model reports.
+   * A negation flips the next two words.
+   */
+  static sentiment(text: string): AIAnalysis['sentiment'] {
+    const tokens = this.tokenize(text)
+    let total = 0
+    let matched = 0
+    let negateFor = 0
+
+    tokens.forEach(token => {
+      if (NEGATIONS.has(token) || token.endsWith("n't")) {
+        negateFor = 2
+        return
+      }
+
+      const valence = SENTIMENT_LEXICON[token]
+      if (valence !== undefined) {
+        total += negateFor > 0 ? -valence : valence
+        matched++
+      }
+      negateFor = Math.max(negateFor - 1, 0)
+    })
+
+    if (matched === 0) {
+      return { sentiment: 'neutral', score: 0.5, confidence: 0 }
+    }
+
+    // Average valence in [-3, 3] mapped onto [0, 1]
+    const score = Math.round((0.5 + (total / matched) / 6) * 100) / 100
+    const coverage = Math.min(matched / 5, 1)
+
+    return {
+      sentiment: score > 0.55 ? 'positive' : score < 0.45 ? 'negative' : 'neutral',
+      score,
+      confidence: Math.round(Math.abs(score - 0.5) * 2 * coverage * 100) / 100
+    }
+  }
+
+  static category(text: string, fileType?: AIAnalysisInput['fileType']): string {
+    const tokens = new Set(this.tokenize(text))
+    let best = { category: fileType === 'image' || fileType === 'video' ? 'moment' : 'personal', hits: 0 }
+
+    Object.keys(CATEGORY_SEEDS).forEach(category => {
+      const hits = CATEGORY_SEEDS[category].filter(seed => tokens.has(seed)).length
+      if (hits > best.hits) best = { category, hits }
+    })
+
+    return best.category
+  }
+
+  static title(text: string, keywords: string[]): string {
+    const firstSentence = text.split(/[.!?\n]/).map(sentence => sentence.trim()).find(Boolean) || ''
+    const words = firstSentence.split(/\s+/).filter(Boolean)
+
+    if (words.length >= 3 && words.length <= 8) {
+      return firstSentence
+    }
+    if (keywords.length > 0) {
+      return keywords
+        .slice(0, 4)
+        .map(keyword => keyword.charAt(0).toUpperCase() + keyword.slice(1))
+        .join(' ')
+    }
+    return words.slice(0, 8).join(' ') || 'Untitled Memory'
+  }
+
+  static memoryNote(category: string, sentiment: AIAnalysis['sentiment'], keywords: string[], input?: AIAnalysisInput): string {
+    const mood = sentiment.sentiment === 'positive' ? 'happy' : sentiment.sentiment === 'negative' ? 'difficult' : 'quiet'
+    const subject = keywords.length > 0 ? ` about ${keywords.slice(0, 2).join(' and ')}` : ''
+    const taken = MediaMetadataService.describe(input?.exif)
+    return `A ${mood} ${category} memory${subject}, worth preserving.${taken ? ` ${taken}.` : ''}`
+  }
+
+  /**
+   * Feature-hashed embedding of stemmed words and word pairs, for semantic
+   * search when no embedding model is reachable
+   */
+  static embed(text: string): MemoryEmbedding {
+    const vector = new Array(EMBEDDING_DIMENSIONS).fill(0)
+    const words = this.tokenize(text)
+      .filter(token => token.length > 2 && !STOP_WORDS.has(token))
+      .map(stem)
+
+    const addTerm = (term: string, weight: number) => {
+      const value = hash(term)
+      // The top bit picks a sign so collisions tend to cancel out
+      vector[value % EMBEDDING_DIMENSIONS] += value & 0x80000000 ? -weight : weight
+    }
+    words.forEach((word, index) => {
+      addTerm(word, 1)
+      if (index > 0) addTerm(`${words[index - 1]} ${word}`, 0.5)
+    })
+
+    return { model: LEXICON_EMBEDDING_MODEL, vector }
+  }
+
+  /**
+   * Full analysis in the same shape the worker returns
+   */
+  static analyze(input: AIAnalysisInput, corpus: string[] = []): AIAnalysis {
+    const text = [input.title, input.content, input.memoryNote].filter(Boolean).join('\n')
+    const tags = this.keywords(text, corpus)
+
+    // The year a photo was taken is a useful tag for browsing
+    if (input.exif?.takenAt) {
+      const year = String(new Date(input.exif.takenAt).getFullYear())
+      if (!tags.includes(year)) tags.splice(4, tags.length, year)
+    }
+    const sentiment = this.sentiment(text)
+    const categories = this.category(text, input.fileType)
+
+    return {
+      title: input.title?.trim() || this.title(input.content, tags),
+      tags,
+      sentiment,
+      memoryNote: input.memoryNote?.trim() || this.memoryNote(categories, sentiment, tags, input),
+      categories,
+      confidence: Math.round(((sentiment.confidence + Math.min(tags.length / 5, 1)) / 2) * 100),
+      aiGenerated: false,
+      timestamp: Date.now(),
+      fileInfo: input.fileInfo || null
+    }
+  }
+}
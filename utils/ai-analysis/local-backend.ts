@@ -0,0 +1,63 @@
+import { AIAnalysisBackend, AIAnalysisRequest, AIAnalysisResponse } from '../../types/ai-analysis'
+import { MemoryEmbedding } from '../../types/memory'
+import { prepareAnalysisInput } from './input'
+
+// This app's /api/ai/analyze route, which runs a local OpenAI-compatible
+// model (llama.cpp, Ollama) or the keyword engine on the server
+
+const LOCAL_ANALYZE_URL = '/api/ai/analyze'
+const LOCAL_EMBED_URL = '/api/ai/embed'
+
+export class LocalAnalysisBackend implements AIAnalysisBackend {
+  readonly name = 'local' as const
+
+  constructor(
+    private readonly url: string = LOCAL_ANALYZE_URL,
+    private readonly embedUrl: string = LOCAL_EMBED_URL
+  ) {}
+
+  async analyze(request: AIAnalysisRequest): Promise<AIAnalysisResponse> {
+    const input = await prepareAnalysisInput(request)
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input)
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`Local analysis failed: ${response.status} ${response.statusText} - ${errorText}`)
+    }
+
+    return response.json()
+  }
+
+  async embed(texts: string[]): Promise<MemoryEmbedding[]> {
+    const response = await fetch(this.embedUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ texts })
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`Local embedding failed: ${response.status} ${response.statusText} - ${errorText}`)
+    }
+
+    const result: { embeddings: MemoryEmbedding[] } = await response.json()
+    return result.embeddings
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(this.url, { method: 'GET' })
+      if (!response.ok) return false
+
+      const status: { available?: boolean } = await response.json()
+      return !!status.available
+    } catch {
+      return false
+    }
+  }
+}
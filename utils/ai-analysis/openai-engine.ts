@@ -0,0 +1,145 @@
+import { AIAnalysis, AIAnalysisInput, LocalAIEngine } from '../../types/ai-analysis'
+import { MemoryEmbedding } from '../../types/memory'
+import { LexiconAnalysisEngine } from './lexicon-engine'
+
+// Adapter for a local OpenAI-compatible chat endpoint: llama.cpp's
+// llama-server (http://127.0.0.1:8080/v1) or Ollama (http://127.0.0.1:11434/v1).
+// Anything the model leaves out is filled in by the keyword engine.
+// Embeddings come from the same server's /embeddings endpoint.
+
+const LOCAL_AI_URL = process.env.LOCAL_AI_URL || 'http://127.0.0.1:11434/v1'
+const LOCAL_AI_MODEL = process.env.LOCAL_AI_MODEL || 'llama3.1'
+const LOCAL_AI_EMBEDDING_MODEL = process.env.LOCAL_AI_EMBEDDING_MODEL || 'nomic-embed-text'
+const REQUEST_TIMEOUT = 60000
+const SENTIMENTS: AIAnalysis['sentiment']['sentiment'][] = ['positive', 'negative', 'neutral']
+
+const SYSTEM_PROMPT = [
+  'You describe personal memories for an archive. Reply with a JSON object with these keys:',
+  '"title": a concise title of 3-8 words;',
+  '"tags": 3-5 lowercase single-word tags;',
+  '"memoryNote": 1-2 sentences on why the memory is worth preserving;',
+  '"category": one word such as personal, family, travel, work, learning, creative, milestone, celebration, reflection;',
+  '"sentiment": "positive", "negative" or "neutral";',
+  '"sentimentScore": how positive it is, from 0 to 1.'
+].join(' ')
+
+interface ModelAnalysis {
+  title?: string
+  tags?: string[]
+  memoryNote?: string
+  category?: string
+  sentiment?: string
+  sentimentScore?: number
+}
+
+export class OpenAICompatibleEngine implements LocalAIEngine {
+  readonly name = 'openai' as const
+
+  constructor(
+    private readonly baseUrl: string = LOCAL_AI_URL,
+    private readonly model: string = LOCAL_AI_MODEL,
+    private readonly apiKey: string | undefined = process.env.LOCAL_AI_API_KEY,
+    private readonly embeddingModel: string = LOCAL_AI_EMBEDDING_MODEL
+  ) {}
+
+  async analyze(input: AIAnalysisInput): Promise<AIAnalysis> {
+    const fallback = LexiconAnalysisEngine.analyze(input)
+    const result = await this.complete(input)
+
+    const tags = Array.isArray(result.tags)
+      ? result.tags.map(tag => String(tag).trim().toLowerCase()).filter(Boolean).slice(0, 5)
+      : fallback.tags
+    const score = typeof result.sentimentScore === 'number'
+      ? Math.min(Math.max(result.sentimentScore, 0), 1)
+      : fallback.sentiment.score
+    const label = SENTIMENTS.find(sentiment => sentiment === result.sentiment)
+    const sentiment = label
+      ? { sentiment: label, score, confidence: Math.round(Math.abs(score - 0.5) * 2 * 100) / 100 }
+      : fallback.sentiment
+
+    return {
+      title: input.title?.trim() || result.title?.trim() || fallback.title,
+      tags: tags.length > 0 ? tags : fallback.tags,
+      sentiment,
+      memoryNote: input.memoryNote?.trim() || result.memoryNote?.trim() || fallback.memoryNote,
+      categories: result.category?.trim().toLowerCase() || fallback.categories,
+      confidence: Math.round(((sentiment.confidence + Math.min(tags.length / 5, 1)) / 2) * 100),
+      aiGenerated: true,
+      timestamp: Date.now(),
+      fileInfo: input.fileInfo || null
+    }
+  }
+
+  async embed(texts: string[]): Promise<MemoryEmbedding[]> {
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers() },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      body: JSON.stringify({ model: this.embeddingModel, input: texts })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Local embedding request failed: ${response.status} ${await response.text()}`)
+    }
+
+    const data: { data?: { index: number; embedding: number[] }[] } = await response.json()
+    if (!data.data || data.data.length !== texts.length) {
+      throw new Error('Local model returned the wrong number of embeddings')
+    }
+
+    return data.data
+      .sort((a, b) => a.index - b.index)
+      .map(({ embedding }) => ({ model: this.embeddingModel, vector: embedding }))
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.headers(),
+        signal: AbortSignal.timeout(5000)
+      })
+      return response.ok
+    } catch {
+      return false
+    }
+  }
+
+  private async complete(input: AIAnalysisInput): Promise<ModelAnalysis> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers() },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0.2,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          {
+            role: 'user',
+            content: `File type: ${input.fileType || 'text'}\n\n${input.content.substring(0, 4000)}`
+          }
+        ]
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Local model request failed: ${response.status} ${await response.text()}`)
+    }
+
+    const data = await response.json()
+    const text: string = data.choices?.[0]?.message?.content || ''
+
+    // Some models wrap the object in prose or code fences
+    const json = text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1)
+    try {
+      return JSON.parse(json)
+    } catch {
+      throw new Error('Local model did not return JSON')
+    }
+  }
+
+  private headers(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}
+  }
+}
@@ -0,0 +1,90 @@
+import { AIAnalysis, AIAnalysisInput, LocalAIEngine, LocalAIEngineName } from '../../types/ai-analysis'
+import { MemoryEmbedding } from '../../types/memory'
+import { OpenAICompatibleEngine } from './openai-engine'
+import { LexiconAnalysisEngine } from './lexicon-engine'
+
+// Server-side entry point for /api/ai/analyze and /api/ai/embed. The engine
+// is chosen with LOCAL_AI_ENGINE=openai|lexicon; without it, the
+// OpenAI-compatible engine is used when LOCAL_AI_URL is set and the keyword
+// engine otherwise.
+
+export { OpenAICompatibleEngine }
+
+class LexiconEngine implements LocalAIEngine {
+  readonly name = 'lexicon' as const
+
+  async analyze(input: AIAnalysisInput): Promise<AIAnalysis> {
+    return LexiconAnalysisEngine.analyze(input)
+  }
+
+  async embed(texts: string[]): Promise<MemoryEmbedding[]> {
+    return texts.map(text => LexiconAnalysisEngine.embed(text))
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true
+  }
+}
+
+let engine: LocalAIEngine | null = null
+
+export function getLocalAIEngine(): LocalAIEngine {
+  if (!engine) {
+    engine = createLocalAIEngine(resolveEngineName())
+    console.log(`🤖 Using ${engine.name} local analysis engine`)
+  }
+  return engine
+}
+
+// Swap the active engine (tests, or wiring a custom model)
+export function setLocalAIEngine(next: LocalAIEngine | null): void {
+  engine = next
+}
+
+export function createLocalAIEngine(name: LocalAIEngineName): LocalAIEngine {
+  switch (name) {
+    case 'openai':
+      return new OpenAICompatibleEngine()
+    case 'lexicon':
+      return new LexiconEngine()
+    default:
+      throw new Error(`Unknown local analysis engine: ${name}`)
+  }
+}
+
+/**
+ * Analyze with the active engine; a model that is down or returns garbage
+ * falls back to the keyword engine so the route always answers
+ */
+export async function analyzeLocally(input: AIAnalysisInput): Promise<AIAnalysis> {
+  const active = getLocalAIEngine()
+  try {
+    return await active.analyze(input)
+  } catch (error) {
+    if (active.name === 'lexicon') throw error
+    console.warn(`⚠️ ${active.name} engine failed, using keyword analysis:`, error)
+    return LexiconAnalysisEngine.analyze(input)
+  }
+}
+
+/**
+ * Embed with the active engine, falling back to hashed word vectors
+ */
+export async function embedLocally(texts: string[]): Promise<MemoryEmbedding[]> {
+  const active = getLocalAIEngine()
+  try {
+    return await active.embed(texts)
+  } catch (error) {
+    if (active.name === 'lexicon') throw error
+    console.warn(`⚠️ ${active.name} engine could not embed, using hashed word vectors:`, error)
+    return texts.map(text => LexiconAnalysisEngine.embed(text))
+  }
+}
+
+function resolveEngineName(): LocalAIEngineName {
+  const configured = process.env.LOCAL_AI_ENGINE as LocalAIEngineName | undefined
+  if (configured) {
+    return configured
+  }
+  return process.env.LOCAL_AI_URL ? 'openai' : 'lexicon'
+}
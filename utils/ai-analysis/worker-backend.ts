@@ -0,0 +1,76 @@
+import { AIAnalysisBackend, AIAnalysisRequest, AIAnalysisResponse } from '../../types/ai-analysis'
+import { MemoryEmbedding } from '../../types/memory'
+import { MediaMetadataService } from '../media-metadata'
+
+// Cloudflare Workers AI (workers/ai-memory-analyzer.js)
+
+const WORKER_URL = process.env.NEXT_PUBLIC_AI_WORKER_URL || 'https://ai-memory-analyzer.carl-6e7.workers.dev'
+
+export class WorkerAnalysisBackend implements AIAnalysisBackend {
+  readonly name = 'worker' as const
+
+  constructor(private readonly workerUrl: string = WORKER_URL) {}
+
+  async analyze(request: AIAnalysisRequest): Promise<AIAnalysisResponse> {
+    const formData = new FormData()
+
+    // Add file if provided, without a JPEG's EXIF/XMP, which holds where the photo was taken
+    const file = request.file && await MediaMetadataService.stripMetadata(request.file)
+    if (file) {
+      formData.append('file', file)
+    } else if (request.file) {
+      console.warn('⚠️ Could not remove the photo metadata; analysing without the file')
+    }
+
+    // Add other fields
+    if (request.content) formData.append('content', request.content)
+    if (request.title) formData.append('title', request.title)
+    if (request.memoryNote) formData.append('memoryNote', request.memoryNote)
+    if (request.fileType) formData.append('fileType', request.fileType)
+    if (request.fileName) formData.append('fileName', request.fileName)
+    if (request.exif) {
+      const { location, ...exif } = request.exif
+      formData.append('exif', JSON.stringify(exif))
+    }
+
+    const response = await fetch(this.workerUrl, {
+      method: 'POST',
+      body: formData,
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('🤖 AI worker error response:', errorText)
+      throw new Error(`AI analysis failed: ${response.status} ${response.statusText} - ${errorText}`)
+    }
+
+    return response.json()
+  }
+
+  async embed(texts: string[]): Promise<MemoryEmbedding[]> {
+    const response = await fetch(`${this.workerUrl.replace(/\/$/, '')}/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ texts })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Embedding failed: ${response.status} ${response.statusText} - ${await response.text()}`)
+    }
+
+    const result: { model: string; vectors: number[][] } = await response.json()
+    return result.vectors.map(vector => ({ model: result.model, vector }))
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(this.workerUrl, {
+        method: 'OPTIONS',
+      })
+      return response.ok
+    } catch (error) {
+      console.error('🤖 AI worker availability check failed:', error)
+      return false
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '../pages/api/auth/[...nextauth]'
+
+export interface ApiUser {
+  id: string // Discord id, the same id memories use as authorId
+  name: string
+  avatar?: string
+}
+
+/**
+ * Resolve the NextAuth session user for an API route. Responds with 401 and
+ * returns null when there is no signed-in user.
+ */
+export async function requireApiUser(req: NextApiRequest, res: NextApiResponse): Promise<ApiUser | null> {
+  const session = await getServerSession(req, res, authOptions)
+  const id = session?.user?.discordId
+
+  if (!id) {
+    res.status(401).json({ error: 'Not authenticated' })
+    return null
+  }
+
+  return {
+    id,
+    name: session.user.username || session.user.name || 'Anonymous',
+    avatar: session.user.avatar
+      ? `https://cdn.discordapp.com/avatars/${id}/${session.user.avatar}.png?size=64`
+      : undefined
+  }
+}
@@ -0,0 +1,355 @@
+import { Memory } from '../types/memory'
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  ArchiveConflictStrategy,
+  ArchiveContents,
+  ArchiveImportReport,
+  ArchiveManifest,
+  ArchiveManifestEntry,
+  ArchivedMemory,
+  ArchiveKeyBundle
+} from '../types/archive'
+import { LocalStorage } from './storage'
+import { RegistryManager } from './registry'
+import { PrivacyManager } from './privacy-controls'
+import { CryptoService, StoredSigningKey, bufferToBase64, base64ToBytes } from './crypto'
+import { EncryptionService } from './encryption'
+import { MemoryRepository, blobToBytes, blobToDataUrl, dataUrlToBlob } from './memory-repository'
+import { ZipEntry, createZip, readZip } from './zip'
+
+// Export and import of complete vaults as Etherith archives (see types/archive.ts)
+
+const ARCHIVE_PATHS = {
+  MANIFEST: 'manifest.json',
+  PROFILE: 'profile.json',
+  REACTIONS: 'engagement/reactions.json',
+  COMMENTS: 'engagement/comments.json',
+  CONFIG: 'registry/config.json',
+  SUBSCRIPTIONS: 'registry/subscriptions.json',
+  KEYS: 'keys.json'
+}
+
+const KEY_BUNDLE_ITERATIONS = 310000
+
+export interface ArchiveExportOptions {
+  level?: 'public' | 'personal' | 'full'
+  passphrase?: string // Also exports this device's keys, encrypted with it
+}
+
+export interface ArchiveImportOptions {
+  onConflict?: ArchiveConflictStrategy
+  passphrase?: string // Unlocks the keys of an archive exported with one
+}
+
+// Keys that encrypted memories, shared entries and registry signatures depend on
+type ArchivedKeys = ReturnType<typeof EncryptionService.exportKeys> & {
+  signingKeys: Record<string, StoredSigningKey>
+}
+
+export class ArchiveService {
+  static async exportArchive(options: ArchiveExportOptions = {}): Promise<Blob> {
+    const memories = PrivacyManager.sanitizeForExport(LocalStorage.getAllMemories(), options.level || 'full')
+    const memoryIds = new Set(memories.map(memory => memory.id))
+    const profile = LocalStorage.getUserProfile()
+    const reactions = LocalStorage.getAllReactions().filter(r => memoryIds.has(r.memoryId))
+    const comments = LocalStorage.getAllComments().filter(c => memoryIds.has(c.memoryId))
+    const subscriptions = RegistryManager.getSubscriptions()
+
+    const entries: ZipEntry[] = []
+    const manifestEntries: ArchiveManifestEntry[] = []
+
+    for (const memory of memories) {
+      const { fileData, ...archived } = memory
+      const file = await this.getMemoryFile(memory)
+      const entry: ArchiveManifestEntry = {
+        id: memory.id,
+        path: `memories/${memory.id}.json`,
+        contentHash: ''
+      }
+
+      let fileHash = ''
+      if (file) {
+        fileHash = await CryptoService.sha256(file.data)
+        entry.file = {
+          path: `files/${memory.id}/${this.getSafeFileName(memory)}`,
+          size: file.data.length,
+          sha256: fileHash,
+          mimeType: file.mimeType
+        }
+        entries.push({ name: entry.file.path, data: file.data, modifiedAt: memory.timestamp })
+      }
+
+      entry.contentHash = await this.getContentHash(memory, fileHash)
+      entries.push(this.jsonEntry(entry.path, archived, memory.timestamp))
+      manifestEntries.push(entry)
+    }
+
+    const manifest: ArchiveManifest = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      createdAt: Date.now(),
+      profile: profile ? { id: profile.id, displayName: profile.displayName } : null,
+      memories: manifestEntries,
+      counts: {
+        memories: memories.length,
+        files: manifestEntries.filter(entry => entry.file).length,
+        reactions: reactions.length,
+        comments: comments.length,
+        subscriptions: subscriptions.length
+      }
+    }
+
+    entries.unshift(
+      this.jsonEntry(ARCHIVE_PATHS.MANIFEST, manifest),
+      this.jsonEntry(ARCHIVE_PATHS.PROFILE, profile),
+      this.jsonEntry(ARCHIVE_PATHS.REACTIONS, reactions),
+      this.jsonEntry(ARCHIVE_PATHS.COMMENTS, comments),
+      this.jsonEntry(ARCHIVE_PATHS.CONFIG, RegistryManager.getConfig()),
+      this.jsonEntry(ARCHIVE_PATHS.SUBSCRIPTIONS, subscriptions)
+    )
+    if (options.passphrase) {
+      entries.push(this.jsonEntry(ARCHIVE_PATHS.KEYS, await this.sealKeys(options.passphrase)))
+    }
+
+    console.log(`📦 Exported archive with ${memories.length} memories and ${manifest.counts.files} files`)
+    return createZip(entries)
+  }
+
+  static getArchiveFileName(timestamp: number = Date.now()): string {
+    return `etherith-archive-${new Date(timestamp).toISOString().slice(0, 10)}.zip`
+  }
+
+  static async readArchive(archive: Blob): Promise<{ contents: ArchiveContents; files: Map<string, Uint8Array> }> {
+    const files = new Map((await readZip(await blobToBytes(archive))).map(entry => [entry.name, entry.data]))
+    const readJSON = <T>(path: string, fallback: T): T => {
+      const data = files.get(path)
+      return data ? JSON.parse(new TextDecoder().decode(data)) : fallback
+    }
+
+    const manifest = readJSON<ArchiveManifest | null>(ARCHIVE_PATHS.MANIFEST, null)
+    if (!manifest || manifest.format !== ARCHIVE_FORMAT) {
+      throw new Error('Not an Etherith archive')
+    }
+    if (manifest.version > ARCHIVE_VERSION) {
+      throw new Error(`Archive version ${manifest.version} is newer than this app supports`)
+    }
+
+    const memories = manifest.memories.map(entry => {
+      const memory = readJSON<ArchivedMemory | null>(entry.path, null)
+      if (!memory) {
+        throw new Error(`Archive is missing ${entry.path}`)
+      }
+      return memory
+    })
+
+    return {
+      contents: {
+        manifest,
+        profile: readJSON(ARCHIVE_PATHS.PROFILE, null),
+        memories,
+        reactions: readJSON(ARCHIVE_PATHS.REACTIONS, []),
+        comments: readJSON(ARCHIVE_PATHS.COMMENTS, []),
+        config: readJSON(ARCHIVE_PATHS.CONFIG, null),
+        subscriptions: readJSON(ARCHIVE_PATHS.SUBSCRIPTIONS, []),
+        keys: readJSON(ARCHIVE_PATHS.KEYS, null)
+      },
+      files
+    }
+  }
+
+  /**
+   * Import an archive into this vault. Memories already present under the
+   * same id or with the same content are skipped; same id with different
+   * content is a conflict, resolved by `onConflict` (skip by default).
+   */
+  static async importArchive(archive: Blob, options: ArchiveImportOptions = {}): Promise<ArchiveImportReport> {
+    const onConflict = options.onConflict || 'skip'
+    const { contents, files } = await this.readArchive(archive)
+
+    // Keys first, so a wrong passphrase stops the import before anything changes
+    const warnings: string[] = []
+    let keysImported = 0
+    if (contents.keys && options.passphrase) {
+      keysImported = await this.restoreKeys(contents.keys, options.passphrase)
+    } else if (contents.keys) {
+      warnings.push('The archive holds encryption keys; import it with its passphrase to read encrypted memories')
+    }
+
+    const localHashes = await this.getLocalContentHashes()
+    const hashOwners = new Map(Array.from(localHashes.entries()).map(([id, hash]) => [hash, id]))
+
+    const report: ArchiveImportReport = {
+      imported: 0,
+      duplicates: 0,
+      conflicts: [],
+      reactionsImported: 0,
+      commentsImported: 0,
+      subscriptionsImported: 0,
+      configImported: false,
+      keysImported,
+      warnings
+    }
+
+    for (let index = 0; index < contents.memories.length; index++) {
+      const memory = contents.memories[index]
+      const entry = contents.manifest.memories[index]
+      const existingHash = localHashes.get(memory.id)
+
+      if (existingHash === entry.contentHash || (!existingHash && hashOwners.has(entry.contentHash))) {
+        report.duplicates++
+        continue
+      }
+
+      let fileData: string | undefined
+      if (entry.file) {
+        const data = files.get(entry.file.path)
+        if (!data || await CryptoService.sha256(data) !== entry.file.sha256) {
+          report.conflicts.push({ memoryId: memory.id, title: memory.title, reason: 'file-checksum', resolution: 'skipped' })
+          continue
+        }
+        fileData = await blobToDataUrl(new Blob([data as BlobPart], { type: entry.file.mimeType || memory.mimeType || 'application/octet-stream' }))
+      }
+
+      if (existingHash) {
+        report.conflicts.push({
+          memoryId: memory.id,
+          title: memory.title,
+          reason: 'different-content',
+          resolution: onConflict === 'overwrite' ? 'overwritten' : 'skipped'
+        })
+        if (onConflict !== 'overwrite') continue
+      }
+
+      LocalStorage.saveMemory({ ...memory, fileData })
+      hashOwners.set(entry.contentHash, memory.id)
+      report.imported++
+    }
+
+    report.reactionsImported = LocalStorage.mergeReactions(contents.reactions)
+    report.commentsImported = LocalStorage.mergeComments(contents.comments)
+    this.importProfile(contents, report)
+    this.importRegistrySettings(contents, onConflict, report)
+
+    console.log(`📦 Imported ${report.imported} memories (${report.duplicates} duplicates, ${report.conflicts.length} conflicts)`)
+    return report
+  }
+
+  private static async sealKeys(passphrase: string): Promise<ArchiveKeyBundle> {
+    const keys: ArchivedKeys = { ...EncryptionService.exportKeys(), signingKeys: CryptoService.exportSigningKeys() }
+    const salt = crypto.getRandomValues(new Uint8Array(16))
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const key = await derivePassphraseKey(passphrase, salt, KEY_BUNDLE_ITERATIONS)
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(keys)))
+
+    return {
+      algorithm: 'PBKDF2-SHA256-AES-GCM-256',
+      iterations: KEY_BUNDLE_ITERATIONS,
+      salt: bufferToBase64(salt),
+      iv: bufferToBase64(iv),
+      ciphertext: bufferToBase64(ciphertext)
+    }
+  }
+
+  private static async restoreKeys(bundle: ArchiveKeyBundle, passphrase: string): Promise<number> {
+    const key = await derivePassphraseKey(passphrase, base64ToBytes(bundle.salt), bundle.iterations)
+    let keys: ArchivedKeys
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: base64ToBytes(bundle.iv) as BufferSource },
+        key,
+        base64ToBytes(bundle.ciphertext) as BufferSource
+      )
+      keys = JSON.parse(new TextDecoder().decode(plaintext))
+    } catch {
+      throw new Error('Wrong passphrase for the keys in this archive')
+    }
+
+    return EncryptionService.importKeys(keys) + CryptoService.importSigningKeys(keys.signingKeys)
+  }
+
+  private static importProfile(contents: ArchiveContents, report: ArchiveImportReport): void {
+    const local = LocalStorage.getUserProfile()
+    if (!contents.profile) return
+
+    if (!local) {
+      LocalStorage.saveUserProfile(contents.profile)
+    } else if (local.id !== contents.profile.id) {
+      report.warnings.push(`Archive belongs to ${contents.profile.displayName}; their memories were added to this vault`)
+    }
+  }
+
+  private static importRegistrySettings(
+    contents: ArchiveContents,
+    onConflict: ArchiveConflictStrategy,
+    report: ArchiveImportReport
+  ): void {
+    const subscriptions = RegistryManager.getSubscriptions()
+    const subscribed = new Set(subscriptions.map(sub => sub.registryId))
+    const added = contents.subscriptions.filter(sub => !subscribed.has(sub.registryId))
+    if (added.length > 0) {
+      RegistryManager.saveSubscriptions(subscriptions.concat(added))
+    }
+    report.subscriptionsImported = added.length
+
+    if (!contents.config) return
+
+    // A vault still on the default config takes the archived one
+    const local = CryptoService.canonicalJSON(RegistryManager.getConfig())
+    const isDefault = local === CryptoService.canonicalJSON(RegistryManager.getDefaultConfig())
+    if (local === CryptoService.canonicalJSON(contents.config)) return
+
+    if (isDefault || onConflict === 'overwrite') {
+      RegistryManager.saveConfig(contents.config)
+      report.configImported = true
+    } else {
+      report.warnings.push('Registry settings differ from the archive; kept the settings on this device')
+    }
+  }
+
+  private static async getLocalContentHashes(): Promise<Map<string, string>> {
+    const hashes = new Map<string, string>()
+    for (const memory of LocalStorage.getAllMemories()) {
+      const file = await this.getMemoryFile(memory)
+      hashes.set(memory.id, await this.getContentHash(memory, file ? await CryptoService.sha256(file.data) : ''))
+    }
+    return hashes
+  }
+
+  private static getContentHash(memory: ArchivedMemory, fileHash: string): Promise<string> {
+    return CryptoService.sha256(CryptoService.canonicalJSON([memory.title, memory.content, memory.memoryNote, fileHash]))
+  }
+
+  // Original bytes: IndexedDB blob when the repository is ready, else the inline data URL
+  private static async getMemoryFile(memory: Memory): Promise<{ data: Uint8Array; mimeType?: string } | null> {
+    let blob: Blob | null = null
+
+    if (memory.fileData?.startsWith('data:')) {
+      blob = dataUrlToBlob(memory.fileData)
+    } else if (memory.fileData?.startsWith('blob:') && LocalStorage.isRepositoryReady()) {
+      blob = await MemoryRepository.getBlob(memory.id)
+    }
+
+    if (!blob) return null
+    return { data: await blobToBytes(blob), mimeType: blob.type || memory.mimeType }
+  }
+
+  private static getSafeFileName(memory: Memory): string {
+    return (memory.fileName || 'file').replace(/[\\/:*?"<>|]/g, '_')
+  }
+
+  private static jsonEntry(name: string, value: unknown, modifiedAt?: number): ZipEntry {
+    return { name, data: new TextEncoder().encode(JSON.stringify(value, null, 2)), modifiedAt }
+  }
+}
+
+async function derivePassphraseKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
@@ -1,5 +1,6 @@
 import { RegistryManager } from './registry'
 import { OfflineRegistryManager } from './offline-registry'
+import { PreservationService } from './preservation'
 
 interface SyncConfig {
   enabled: boolean
@@ -135,13 +136,23 @@ class BackgroundSyncService {
       const subscriptions = RegistryManager.getSubscriptions()
       for (const subscription of subscriptions) {
         try {
-          await RegistryManager.syncSubscription(subscription.userId)
+          await RegistryManager.syncSubscription(subscription.id)
           console.log(`Synced subscription: ${subscription.displayName}`)
         } catch (error) {
           console.warn(`Failed to sync subscription ${subscription.displayName}:`, error)
         }
       }
 
+      // Re-pin memories that lost replicas
+      try {
+        const replication = await PreservationService.runReplicationJob()
+        if (replication.checked > 0) {
+          console.log(`Replication checked ${replication.checked} memories, repaired ${replication.repaired}`)
+        }
+      } catch (error) {
+        console.warn('Replication job failed:', error)
+      }
+
       console.log('Background sync completed successfully')
       return true
 
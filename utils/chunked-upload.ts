@@ -0,0 +1,196 @@
+// Client side of the chunked upload protocol (/api/pinata/chunked/*)
+// Files are sent in fixed-size parts. The upload id is remembered per file so
+// a dropped connection or page reload resumes with the parts still missing.
+
+const CHUNKED_UPLOAD_STORAGE_KEYS = {
+  SESSIONS: 'etherith_chunked_uploads'
+}
+
+const MAX_PART_ATTEMPTS = 3
+const RETRY_DELAY = 1000 // ms, multiplied by the attempt number
+
+export interface UploadProgress {
+  uploadedBytes: number
+  totalBytes: number
+  uploadedChunks: number
+  totalChunks: number
+}
+
+export interface ChunkedUploadOptions {
+  chunkSize?: number
+  // Identifies the source file when the bytes sent are derived from it (e.g. encrypted)
+  resumeKey?: string
+  onProgress?: (progress: UploadProgress) => void
+  signal?: AbortSignal
+}
+
+interface InitResponse {
+  uploadId: string
+  chunkSize: number
+  totalChunks: number
+  receivedChunks: number[]
+  resumed: boolean
+}
+
+export class ChunkedUploadService {
+  static async upload(
+    file: File,
+    metadata?: Record<string, unknown>,
+    options: ChunkedUploadOptions = {}
+  ): Promise<{
+    cid: string
+    size: number
+    timestamp: number
+  }> {
+    const fileKey = options.resumeKey || this.getFileKey(file)
+    const session = await this.initUpload(file, fileKey, metadata, options.chunkSize)
+
+    if (session.resumed) {
+      console.log(`⏯️ Resuming upload of ${file.name}: ${session.receivedChunks.length}/${session.totalChunks} parts already stored`)
+    }
+
+    const received = new Set(session.receivedChunks)
+    const reportProgress = () => options.onProgress?.({
+      uploadedBytes: Array.from(received).reduce((sum, index) => sum + this.getPartSize(file.size, session.chunkSize, index), 0),
+      totalBytes: file.size,
+      uploadedChunks: received.size,
+      totalChunks: session.totalChunks
+    })
+
+    reportProgress()
+
+    for (let index = 0; index < session.totalChunks; index++) {
+      if (received.has(index)) continue
+
+      const start = index * session.chunkSize
+      const part = file.slice(start, Math.min(start + session.chunkSize, file.size))
+      await this.uploadPart(session.uploadId, index, part, options.signal)
+
+      received.add(index)
+      reportProgress()
+    }
+
+    const response = await fetch('/api/pinata/chunked/complete', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ uploadId: session.uploadId }),
+      signal: options.signal
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json()
+      // The server session is gone, so a retry has to start over
+      if (response.status === 404) this.forgetSession(fileKey)
+      throw new Error(errorData.error || 'Failed to complete upload')
+    }
+
+    const result = await response.json()
+    this.forgetSession(fileKey)
+
+    return {
+      cid: result.cid,
+      size: result.size,
+      timestamp: new Date(result.timestamp).getTime()
+    }
+  }
+
+  private static async initUpload(
+    file: File,
+    fileKey: string,
+    metadata?: Record<string, unknown>,
+    chunkSize?: number
+  ): Promise<InitResponse> {
+    const response = await fetch('/api/pinata/chunked/init', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        uploadId: this.getSessions()[fileKey],
+        fileName: file.name,
+        mimeType: file.type,
+        size: file.size,
+        chunkSize,
+        metadata
+      })
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json()
+      throw new Error(errorData.error || 'Failed to start upload')
+    }
+
+    const session: InitResponse = await response.json()
+    this.rememberSession(fileKey, session.uploadId)
+    return session
+  }
+
+  private static async uploadPart(uploadId: string, index: number, part: Blob, signal?: AbortSignal): Promise<void> {
+    const url = `/api/pinata/chunked/part?uploadId=${encodeURIComponent(uploadId)}&index=${index}`
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await fetch(url, {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/octet-stream',
+          },
+          body: part,
+          signal
+        })
+
+        if (response.ok) return
+
+        const errorData = await response.json().catch(() => ({}))
+        // Client errors will not go away on retry
+        if (response.status < 500 || attempt >= MAX_PART_ATTEMPTS) {
+          throw new Error(errorData.error || `Failed to upload part ${index}`)
+        }
+      } catch (error) {
+        if (signal?.aborted || attempt >= MAX_PART_ATTEMPTS || !(error instanceof TypeError)) {
+          throw error
+        }
+        // TypeError means the request never completed (network dropped)
+      }
+
+      await this.waitForConnection()
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * attempt))
+    }
+  }
+
+  private static waitForConnection(): Promise<void> {
+    if (typeof navigator === 'undefined' || navigator.onLine) {
+      return Promise.resolve()
+    }
+
+    console.log('📡 Connection lost, upload will resume when back online')
+    return new Promise(resolve => window.addEventListener('online', () => resolve(), { once: true }))
+  }
+
+  private static getPartSize(fileSize: number, chunkSize: number, index: number): number {
+    return Math.min(chunkSize, fileSize - index * chunkSize)
+  }
+
+  static getFileKey(file: File): string {
+    return `${file.name}:${file.size}:${file.lastModified}`
+  }
+
+  private static getSessions(): Record<string, string> {
+    const data = localStorage.getItem(CHUNKED_UPLOAD_STORAGE_KEYS.SESSIONS)
+    return data ? JSON.parse(data) : {}
+  }
+
+  private static rememberSession(fileKey: string, uploadId: string): void {
+    const sessions = this.getSessions()
+    sessions[fileKey] = uploadId
+    localStorage.setItem(CHUNKED_UPLOAD_STORAGE_KEYS.SESSIONS, JSON.stringify(sessions))
+  }
+
+  private static forgetSession(fileKey: string): void {
+    const sessions = this.getSessions()
+    delete sessions[fileKey]
+    localStorage.setItem(CHUNKED_UPLOAD_STORAGE_KEYS.SESSIONS, JSON.stringify(sessions))
+  }
+}
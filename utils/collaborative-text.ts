@@ -0,0 +1,95 @@
+import { next as Automerge } from '@automerge/automerge'
+import { CollaborativeField } from '../types/logux-file-sync'
+
+// Automerge-backed text for a shared file's content and memory note. Peers
+// exchange individual changes, so concurrent edits merge character by
+// character instead of needing a lock.
+
+export interface CollaborativeTextFields {
+  content: string
+  memoryNote: string
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i])
+  return btoa(binary)
+}
+
+function fromBase64(encoded: string): Uint8Array {
+  const binary = atob(encoded)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+export class CollaborativeText {
+  private constructor(private doc: Automerge.Doc<CollaborativeTextFields>) {}
+
+  // Every peer derives a byte-identical first change from the same file
+  // version (fixed actor and timestamp), so their histories share a root and
+  // later edits merge instead of replacing each other
+  static fromVersion(
+    genesisActor: string,
+    actorId: string,
+    fields: CollaborativeTextFields
+  ): CollaborativeText {
+    const genesis = Automerge.change(
+      Automerge.init<CollaborativeTextFields>({ actor: genesisActor }),
+      { time: 0 },
+      doc => {
+        doc.content = fields.content
+        doc.memoryNote = fields.memoryNote
+      }
+    )
+    return new CollaborativeText(Automerge.clone(genesis, { actor: actorId }))
+  }
+
+  static load(data: Uint8Array, actorId: string): CollaborativeText {
+    return new CollaborativeText(Automerge.load<CollaborativeTextFields>(data, { actor: actorId }))
+  }
+
+  get fields(): CollaborativeTextFields {
+    return { content: this.doc.content || '', memoryNote: this.doc.memoryNote || '' }
+  }
+
+  // Applies a local edit as the minimal splice; returns the encoded change to
+  // broadcast, or null when the text is unchanged
+  edit(field: CollaborativeField, text: string): string | null {
+    if (this.fields[field] === text) return null
+
+    this.doc = Automerge.change(this.doc, doc => {
+      Automerge.updateText(doc, [field], text)
+    })
+
+    const change = Automerge.getLastLocalChange(this.doc)
+    return change ? toBase64(change) : null
+  }
+
+  // Changes may arrive out of order or twice; Automerge buffers missing
+  // dependencies and ignores duplicates
+  applyChanges(changes: string[]): boolean {
+    const before = Automerge.getHeads(this.doc).join()
+    const [doc] = Automerge.applyChanges(this.doc, changes.map(fromBase64))
+    this.doc = doc
+    return Automerge.getHeads(doc).join() !== before
+  }
+
+  // A cursor that keeps pointing at the same character as others edit
+  cursorAt(field: CollaborativeField, offset: number): string {
+    return Automerge.getCursor(this.doc, [field], Math.min(offset, this.fields[field].length))
+  }
+
+  offsetOf(field: CollaborativeField, cursor: string): number | null {
+    try {
+      return Automerge.getCursorPosition(this.doc, [field], cursor)
+    } catch {
+      // The cursor refers to a change this peer has not received yet
+      return null
+    }
+  }
+
+  save(): Uint8Array {
+    return Automerge.save(this.doc)
+  }
+}
@@ -0,0 +1,166 @@
+// Web Crypto helpers for content hashing and registry signing
+
+const CRYPTO_STORAGE_KEYS = {
+  SIGNING_KEYS: 'etherith_signing_keys'
+}
+
+export const SIGNATURE_ALGORITHM = 'ECDSA-P256-SHA256'
+
+const ECDSA_KEY_PARAMS: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' }
+const ECDSA_SIGN_PARAMS: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' }
+
+export interface StoredSigningKey {
+  userId: string
+  algorithm: typeof SIGNATURE_ALGORITHM
+  publicKey: string // Base64 SPKI
+  privateKey: JsonWebKey
+  createdAt: number
+}
+
+export class CryptoService {
+  // Hashing
+
+  static async sha256(data: string | ArrayBuffer | Uint8Array): Promise<string> {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : toUint8Array(data)
+    const hashBuffer = await getSubtle().digest('SHA-256', bytes as BufferSource)
+    return bufferToHex(hashBuffer)
+  }
+
+  /**
+   * Deterministic JSON serialization (sorted keys, no undefined values) so
+   * signatures survive a round trip through JSON.parse/stringify.
+   */
+  static canonicalJSON(value: unknown): string {
+    if (value === null || typeof value !== 'object') {
+      return JSON.stringify(value)
+    }
+
+    if (Array.isArray(value)) {
+      return `[${value.map(item => item === undefined ? 'null' : this.canonicalJSON(item)).join(',')}]`
+    }
+
+    const record = value as Record<string, unknown>
+    const entries = Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${this.canonicalJSON(record[key])}`)
+
+    return `{${entries.join(',')}}`
+  }
+
+  // Signing keys
+
+  static async getOrCreateSigningKey(userId: string): Promise<{ publicKey: string; createdAt: number }> {
+    const existing = this.getStoredKeys()[userId]
+    if (existing) {
+      return { publicKey: existing.publicKey, createdAt: existing.createdAt }
+    }
+
+    const keyPair = await getSubtle().generateKey(ECDSA_KEY_PARAMS, true, ['sign', 'verify'])
+    const publicKey = bufferToBase64(await getSubtle().exportKey('spki', keyPair.publicKey))
+    const privateKey = await getSubtle().exportKey('jwk', keyPair.privateKey)
+
+    const stored: StoredSigningKey = {
+      userId,
+      algorithm: SIGNATURE_ALGORITHM,
+      publicKey,
+      privateKey,
+      createdAt: Date.now()
+    }
+
+    const keys = this.getStoredKeys()
+    keys[userId] = stored
+    localStorage.setItem(CRYPTO_STORAGE_KEYS.SIGNING_KEYS, JSON.stringify(keys))
+
+    return { publicKey, createdAt: stored.createdAt }
+  }
+
+  static getPublicKey(userId: string): string | null {
+    return this.getStoredKeys()[userId]?.publicKey || null
+  }
+
+  static async sign(userId: string, payload: string): Promise<string> {
+    const stored = this.getStoredKeys()[userId]
+    if (!stored) {
+      throw new Error(`No signing key found for user ${userId}`)
+    }
+
+    const privateKey = await getSubtle().importKey('jwk', stored.privateKey, ECDSA_KEY_PARAMS, false, ['sign'])
+    const signature = await getSubtle().sign(ECDSA_SIGN_PARAMS, privateKey, new TextEncoder().encode(payload))
+    return bufferToBase64(signature)
+  }
+
+  static async verify(publicKey: string, payload: string, signature: string): Promise<boolean> {
+    try {
+      const key = await getSubtle().importKey('spki', base64ToBytes(publicKey) as BufferSource, ECDSA_KEY_PARAMS, false, ['verify'])
+      return await getSubtle().verify(
+        ECDSA_SIGN_PARAMS,
+        key,
+        base64ToBytes(signature) as BufferSource,
+        new TextEncoder().encode(payload)
+      )
+    } catch (error) {
+      console.warn('Signature verification failed:', error)
+      return false
+    }
+  }
+
+  // Key backup (archives)
+
+  static exportSigningKeys(): Record<string, StoredSigningKey> {
+    return this.getStoredKeys()
+  }
+
+  /**
+   * Restore signing keys missing on this device; keys already here win
+   */
+  static importSigningKeys(backup: Record<string, StoredSigningKey>): number {
+    const keys = this.getStoredKeys()
+    const added = Object.keys(backup).filter(userId => !keys[userId])
+    if (added.length === 0) return 0
+
+    added.forEach(userId => { keys[userId] = backup[userId] })
+    localStorage.setItem(CRYPTO_STORAGE_KEYS.SIGNING_KEYS, JSON.stringify(keys))
+    return added.length
+  }
+
+  private static getStoredKeys(): Record<string, StoredSigningKey> {
+    const data = localStorage.getItem(CRYPTO_STORAGE_KEYS.SIGNING_KEYS)
+    return data ? JSON.parse(data) : {}
+  }
+}
+
+// Encoding helpers
+
+function getSubtle(): SubtleCrypto {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('Web Crypto is not available in this environment')
+  }
+  return crypto.subtle
+}
+
+function toUint8Array(data: ArrayBuffer | Uint8Array): Uint8Array {
+  return ArrayBuffer.isView(data) ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength) : new Uint8Array(data)
+}
+
+export function bufferToHex(buffer: ArrayBuffer | Uint8Array): string {
+  return Array.from(toUint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+export function bufferToBase64(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = toUint8Array(buffer)
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i])
+  }
+  return btoa(binary)
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
@@ -0,0 +1,391 @@
+import { bufferToBase64, base64ToBytes, bufferToHex } from './crypto'
+import { WrappedContentKey } from '../types/registry'
+
+// Client-side AES-GCM encryption for memories pinned to IPFS
+// Each user holds a random identity secret; content keys are derived from it
+// with HKDF, so only devices holding the secret can read the pinned bytes.
+// Content shared with other users is encrypted under a random content key
+// that is wrapped for each recipient's ECDH public key.
+
+const ENCRYPTION_STORAGE_KEYS = {
+  IDENTITY_SECRETS: 'etherith_identity_secrets',
+  AGREEMENT_KEYS: 'etherith_agreement_keys'
+}
+
+const ECDH_KEY_PARAMS: EcKeyGenParams = { name: 'ECDH', namedCurve: 'P-256' }
+const KEY_WRAP_INFO = 'etherith-content-key-wrap-v1'
+
+// Binary envelope: magic (4 bytes) | IV (12 bytes) | AES-GCM ciphertext
+const ENVELOPE_MAGIC = [0x45, 0x54, 0x48, 0x31] // "ETH1"
+const IV_LENGTH = 12
+const HKDF_INFO = 'etherith-memory-encryption-v1'
+const SYNTHETIC_IV_INFO = 'etherith-file-iv-v1'
+
+export const ENCRYPTED_MIME_TYPE = 'application/vnd.etherith.encrypted'
+// Files are encrypted in one pass, holding the file and its ciphertext in memory
+export const MAX_ENCRYPTED_FILE_SIZE = 256 * 1024 * 1024 // 256MB
+
+export interface StoredAgreementKey {
+  userId: string
+  publicKey: string // Base64 SPKI
+  privateKey: JsonWebKey
+  createdAt: number
+}
+
+export interface StoredIdentitySecret {
+  keyId: string
+  userId: string
+  secret: string // Base64, 32 random bytes
+  createdAt: number
+}
+
+export interface EncryptedTextEnvelope {
+  format: 'etherith-encrypted-v1'
+  keyId: string
+  iv: string
+  ciphertext: string
+}
+
+export class EncryptionService {
+  private static pendingAgreementKeys = new Map<string, Promise<string>>()
+
+  // Identity secrets
+
+  static async getOrCreateKeyId(userId: string): Promise<string> {
+    const existing = Object.values(this.getStoredSecrets())
+      .filter(secret => secret.userId === userId)
+      .sort((a, b) => b.createdAt - a.createdAt)[0]
+
+    if (existing) {
+      return existing.keyId
+    }
+
+    const secretBytes = new Uint8Array(32)
+    crypto.getRandomValues(secretBytes)
+
+    const digest = await crypto.subtle.digest('SHA-256', secretBytes)
+    const keyId = `key_${bufferToHex(digest).slice(0, 16)}`
+
+    const secrets = this.getStoredSecrets()
+    secrets[keyId] = {
+      keyId,
+      userId,
+      secret: bufferToBase64(secretBytes),
+      createdAt: Date.now()
+    }
+    localStorage.setItem(ENCRYPTION_STORAGE_KEYS.IDENTITY_SECRETS, JSON.stringify(secrets))
+
+    return keyId
+  }
+
+  static hasKey(keyId: string): boolean {
+    return !!this.getStoredSecrets()[keyId]
+  }
+
+  // Binary encryption
+
+  static async encryptBytes(userId: string, data: ArrayBuffer | Uint8Array): Promise<{ envelope: Uint8Array; keyId: string }> {
+    const keyId = await this.getOrCreateKeyId(userId)
+    const envelope = await this.sealEnvelope(await this.deriveKey(keyId), data)
+    return { envelope, keyId }
+  }
+
+  static async decryptBytes(envelope: ArrayBuffer | Uint8Array, keyId: string): Promise<ArrayBuffer> {
+    return this.openEnvelope(await this.deriveKey(keyId), envelope)
+  }
+
+  // Files get a synthetic IV (an HMAC of the content under the identity
+  // secret), so encrypting the same file twice gives the same bytes and an
+  // interrupted upload can resume. Only identical files share an IV.
+  static async encryptFile(userId: string, file: File): Promise<{ file: File; keyId: string }> {
+    if (file.size > MAX_ENCRYPTED_FILE_SIZE) {
+      throw new Error(`Private files can be at most ${MAX_ENCRYPTED_FILE_SIZE / 1024 / 1024}MB`)
+    }
+
+    const keyId = await this.getOrCreateKeyId(userId)
+    const data = await file.arrayBuffer()
+    const envelope = await this.sealEnvelope(await this.deriveKey(keyId), data, await this.syntheticIv(keyId, data))
+    const encryptedFile = new File([envelope as BlobPart], `${keyId}.enc`, { type: ENCRYPTED_MIME_TYPE })
+    return { file: encryptedFile, keyId }
+  }
+
+  static async decryptToBlob(envelope: ArrayBuffer | Uint8Array, keyId: string, mimeType?: string): Promise<Blob> {
+    const plaintext = await this.decryptBytes(envelope, keyId)
+    return new Blob([plaintext], { type: mimeType || 'application/octet-stream' })
+  }
+
+  // Text encryption (JSON-friendly envelope for the upload-json route)
+
+  static async encryptText(userId: string, text: string): Promise<EncryptedTextEnvelope> {
+    const { envelope, keyId } = await this.encryptBytes(userId, new TextEncoder().encode(text))
+    const ivEnd = ENVELOPE_MAGIC.length + IV_LENGTH
+
+    return {
+      format: 'etherith-encrypted-v1',
+      keyId,
+      iv: bufferToBase64(envelope.slice(ENVELOPE_MAGIC.length, ivEnd)),
+      ciphertext: bufferToBase64(envelope.slice(ivEnd))
+    }
+  }
+
+  static async decryptText(envelope: EncryptedTextEnvelope): Promise<string> {
+    if (envelope.format !== 'etherith-encrypted-v1') {
+      throw new Error('Unsupported encrypted text format')
+    }
+
+    const key = await this.deriveKey(envelope.keyId)
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(envelope.iv) as BufferSource },
+      key,
+      base64ToBytes(envelope.ciphertext) as BufferSource
+    )
+    return new TextDecoder().decode(plaintext)
+  }
+
+  // Fetch pinned ciphertext from a gateway and decrypt it locally
+  static async fetchAndDecrypt(url: string, keyId: string, mimeType?: string): Promise<Blob> {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch encrypted content: ${response.status} ${response.statusText}`)
+    }
+
+    return this.decryptToBlob(await response.arrayBuffer(), keyId, mimeType)
+  }
+
+  // Key agreement (sharing with other users)
+
+  static getOrCreateAgreementKey(userId: string): Promise<string> {
+    const existing = this.getStoredAgreementKeys()[userId]
+    if (existing) {
+      return Promise.resolve(existing.publicKey)
+    }
+
+    // Registry entries are sealed in parallel, so share one in-flight key generation
+    let pending = this.pendingAgreementKeys.get(userId)
+    if (!pending) {
+      pending = this.createAgreementKey(userId).finally(() => this.pendingAgreementKeys.delete(userId))
+      this.pendingAgreementKeys.set(userId, pending)
+    }
+    return pending
+  }
+
+  static generateContentKey(): string {
+    const key = new Uint8Array(32)
+    crypto.getRandomValues(key)
+    return bufferToBase64(key)
+  }
+
+  static async encryptWithContentKey(contentKey: string, plaintext: string): Promise<{ iv: string; ciphertext: string }> {
+    const key = await this.importContentKey(contentKey)
+    const iv = new Uint8Array(IV_LENGTH)
+    crypto.getRandomValues(iv)
+
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext))
+    return { iv: bufferToBase64(iv), ciphertext: bufferToBase64(ciphertext) }
+  }
+
+  // Files of restricted registry entries share their entry's content key
+  static async encryptBytesWithContentKey(contentKey: string, data: ArrayBuffer | Uint8Array): Promise<Uint8Array> {
+    return this.sealEnvelope(await this.importContentKey(contentKey), data)
+  }
+
+  static async decryptBytesWithContentKey(contentKey: string, envelope: ArrayBuffer | Uint8Array): Promise<ArrayBuffer> {
+    return this.openEnvelope(await this.importContentKey(contentKey), envelope)
+  }
+
+  static async fetchAndDecryptWithContentKey(url: string, contentKey: string, mimeType?: string): Promise<Blob> {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch encrypted content: ${response.status} ${response.statusText}`)
+    }
+
+    const plaintext = await this.decryptBytesWithContentKey(contentKey, await response.arrayBuffer())
+    return new Blob([plaintext], { type: mimeType || 'application/octet-stream' })
+  }
+
+  static async decryptWithContentKey(contentKey: string, iv: string, ciphertext: string): Promise<string> {
+    const key = await this.importContentKey(contentKey)
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(iv) as BufferSource },
+      key,
+      base64ToBytes(ciphertext) as BufferSource
+    )
+    return new TextDecoder().decode(plaintext)
+  }
+
+  // Ephemeral-static ECDH: only the holder of the recipient's private key can unwrap
+  static async wrapContentKey(contentKey: string, recipientId: string, recipientPublicKey: string): Promise<WrappedContentKey> {
+    const recipientKey = await crypto.subtle.importKey('spki', base64ToBytes(recipientPublicKey) as BufferSource, ECDH_KEY_PARAMS, false, [])
+    const ephemeral = await crypto.subtle.generateKey(ECDH_KEY_PARAMS, true, ['deriveBits'])
+    const ephemeralPublicKey = bufferToBase64(await crypto.subtle.exportKey('spki', ephemeral.publicKey))
+
+    const wrappingKey = await this.deriveWrappingKey(ephemeral.privateKey, recipientKey, ephemeralPublicKey)
+    const iv = new Uint8Array(IV_LENGTH)
+    crypto.getRandomValues(iv)
+    const wrappedKey = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, wrappingKey, base64ToBytes(contentKey) as BufferSource)
+
+    return {
+      recipientId,
+      ephemeralPublicKey,
+      iv: bufferToBase64(iv),
+      wrappedKey: bufferToBase64(wrappedKey)
+    }
+  }
+
+  static async unwrapContentKey(userId: string, wrapped: WrappedContentKey): Promise<string> {
+    const stored = this.getStoredAgreementKeys()[userId]
+    if (!stored) {
+      throw new Error(`No key agreement key found for user ${userId}`)
+    }
+
+    const privateKey = await crypto.subtle.importKey('jwk', stored.privateKey, ECDH_KEY_PARAMS, false, ['deriveBits'])
+    const ephemeralKey = await crypto.subtle.importKey('spki', base64ToBytes(wrapped.ephemeralPublicKey) as BufferSource, ECDH_KEY_PARAMS, false, [])
+
+    const wrappingKey = await this.deriveWrappingKey(privateKey, ephemeralKey, wrapped.ephemeralPublicKey)
+    const contentKey = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(wrapped.iv) as BufferSource },
+      wrappingKey,
+      base64ToBytes(wrapped.wrappedKey) as BufferSource
+    )
+    return bufferToBase64(contentKey)
+  }
+
+  // Key backup (archives)
+
+  static exportKeys(): { identitySecrets: Record<string, StoredIdentitySecret>; agreementKeys: Record<string, StoredAgreementKey> } {
+    return { identitySecrets: this.getStoredSecrets(), agreementKeys: this.getStoredAgreementKeys() }
+  }
+
+  /**
+   * Restore identity secrets and agreement keys missing on this device; keys already here win
+   */
+  static importKeys(backup: {
+    identitySecrets: Record<string, StoredIdentitySecret>
+    agreementKeys: Record<string, StoredAgreementKey>
+  }): number {
+    const merge = <T>(storageKey: string, local: Record<string, T>, incoming: Record<string, T>): number => {
+      const added = Object.keys(incoming).filter(id => !local[id])
+      if (added.length > 0) {
+        added.forEach(id => { local[id] = incoming[id] })
+        localStorage.setItem(storageKey, JSON.stringify(local))
+      }
+      return added.length
+    }
+
+    return merge(ENCRYPTION_STORAGE_KEYS.IDENTITY_SECRETS, this.getStoredSecrets(), backup.identitySecrets) +
+      merge(ENCRYPTION_STORAGE_KEYS.AGREEMENT_KEYS, this.getStoredAgreementKeys(), backup.agreementKeys)
+  }
+
+  private static async createAgreementKey(userId: string): Promise<string> {
+    const keyPair = await crypto.subtle.generateKey(ECDH_KEY_PARAMS, true, ['deriveBits'])
+    const publicKey = bufferToBase64(await crypto.subtle.exportKey('spki', keyPair.publicKey))
+    const privateKey = await crypto.subtle.exportKey('jwk', keyPair.privateKey)
+
+    const keys = this.getStoredAgreementKeys()
+    keys[userId] = { userId, publicKey, privateKey, createdAt: Date.now() }
+    localStorage.setItem(ENCRYPTION_STORAGE_KEYS.AGREEMENT_KEYS, JSON.stringify(keys))
+
+    return publicKey
+  }
+
+  private static async deriveWrappingKey(privateKey: CryptoKey, publicKey: CryptoKey, ephemeralPublicKey: string): Promise<CryptoKey> {
+    const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256)
+    const baseKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey'])
+    return crypto.subtle.deriveKey(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: base64ToBytes(ephemeralPublicKey) as BufferSource,
+        info: new TextEncoder().encode(KEY_WRAP_INFO)
+      },
+      baseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    )
+  }
+
+  private static async sealEnvelope(key: CryptoKey, data: ArrayBuffer | Uint8Array, iv?: Uint8Array): Promise<Uint8Array> {
+    if (!iv) {
+      iv = new Uint8Array(IV_LENGTH)
+      crypto.getRandomValues(iv)
+    }
+
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: iv as BufferSource }, key, data as BufferSource))
+    const envelope = new Uint8Array(ENVELOPE_MAGIC.length + IV_LENGTH + ciphertext.length)
+    envelope.set(ENVELOPE_MAGIC, 0)
+    envelope.set(iv, ENVELOPE_MAGIC.length)
+    envelope.set(ciphertext, ENVELOPE_MAGIC.length + IV_LENGTH)
+    return envelope
+  }
+
+  private static openEnvelope(key: CryptoKey, envelope: ArrayBuffer | Uint8Array): Promise<ArrayBuffer> {
+    const bytes = envelope instanceof Uint8Array ? envelope : new Uint8Array(envelope)
+
+    if (!ENVELOPE_MAGIC.every((byte, index) => bytes[index] === byte)) {
+      throw new Error('Content is not an Etherith encryption envelope')
+    }
+
+    const ivStart = ENVELOPE_MAGIC.length
+    const iv = bytes.slice(ivStart, ivStart + IV_LENGTH)
+    const ciphertext = bytes.slice(ivStart + IV_LENGTH)
+    return crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext)
+  }
+
+  private static importContentKey(contentKey: string): Promise<CryptoKey> {
+    return crypto.subtle.importKey('raw', base64ToBytes(contentKey) as BufferSource, 'AES-GCM', false, ['encrypt', 'decrypt'])
+  }
+
+  private static getStoredAgreementKeys(): Record<string, StoredAgreementKey> {
+    const data = localStorage.getItem(ENCRYPTION_STORAGE_KEYS.AGREEMENT_KEYS)
+    return data ? JSON.parse(data) : {}
+  }
+
+  private static async syntheticIv(keyId: string, data: ArrayBuffer): Promise<Uint8Array> {
+    const stored = this.getStoredSecrets()[keyId]
+    if (!stored) {
+      throw new Error(`Encryption key ${keyId} is not available on this device`)
+    }
+
+    const baseKey = await crypto.subtle.importKey('raw', base64ToBytes(stored.secret) as BufferSource, 'HKDF', false, ['deriveKey'])
+    const macKey = await crypto.subtle.deriveKey(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new TextEncoder().encode(keyId),
+        info: new TextEncoder().encode(SYNTHETIC_IV_INFO)
+      },
+      baseKey,
+      { name: 'HMAC', hash: 'SHA-256', length: 256 },
+      false,
+      ['sign']
+    )
+    return new Uint8Array(await crypto.subtle.sign('HMAC', macKey, data)).slice(0, IV_LENGTH)
+  }
+
+  private static async deriveKey(keyId: string): Promise<CryptoKey> {
+    const stored = this.getStoredSecrets()[keyId]
+    if (!stored) {
+      throw new Error(`Encryption key ${keyId} is not available on this device`)
+    }
+
+    const baseKey = await crypto.subtle.importKey('raw', base64ToBytes(stored.secret) as BufferSource, 'HKDF', false, ['deriveKey'])
+    return crypto.subtle.deriveKey(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new TextEncoder().encode(keyId),
+        info: new TextEncoder().encode(HKDF_INFO)
+      },
+      baseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    )
+  }
+
+  private static getStoredSecrets(): Record<string, StoredIdentitySecret> {
+    const data = localStorage.getItem(ENCRYPTION_STORAGE_KEYS.IDENTITY_SECRETS)
+    return data ? JSON.parse(data) : {}
+  }
+}
@@ -0,0 +1,179 @@
+import { FileAction, LoguxFileMeta } from '../types/logux-file-sync'
+
+// Durable queue of logged file actions the relay has not acknowledged yet.
+// Entries are keyed by meta.id, so queueing the same action twice is a no-op,
+// and they are replayed in causal order after a reconnect or a reload.
+// Without IndexedDB (SSR, tests) the queue only lives in memory.
+
+export interface OutboxEntry {
+  id: string
+  action: FileAction
+  meta: LoguxFileMeta
+  queuedAt: number
+}
+
+export interface OutboxStats {
+  depth: number
+  oldestQueuedAt: number | null
+}
+
+const STORE_NAME = 'outbox'
+
+let latestStats: OutboxStats = { depth: 0, oldestQueuedAt: null }
+
+// Last stats reported by any outbox on this page, for status indicators
+export function getOutboxStats(): OutboxStats {
+  return latestStats
+}
+
+// True when clock `a` saw everything `b` did, and more
+function happenedBefore(a: Record<string, number> = {}, b: Record<string, number> = {}): boolean {
+  let strictlyLess = false
+  const nodes = Object.keys(a).concat(Object.keys(b))
+
+  for (let i = 0; i < nodes.length; i++) {
+    const left = a[nodes[i]] || 0
+    const right = b[nodes[i]] || 0
+    if (left > right) return false
+    if (left < right) strictlyLess = true
+  }
+  return strictlyLess
+}
+
+// Order entries so no action is sent before one its vector clock depends on;
+// concurrent entries keep their creation order
+export function sortCausally(entries: OutboxEntry[]): OutboxEntry[] {
+  const remaining = entries.slice().sort((a, b) =>
+    a.meta.time - b.meta.time || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+  )
+  const sorted: OutboxEntry[] = []
+
+  while (remaining.length > 0) {
+    const index = remaining.findIndex(entry =>
+      !remaining.some(other => other !== entry && happenedBefore(other.meta.vectorClock, entry.meta.vectorClock))
+    )
+    sorted.push(remaining.splice(Math.max(index, 0), 1)[0])
+  }
+  return sorted
+}
+
+export class FileSyncOutbox {
+  private entries = new Map<string, OutboxEntry>()
+  private listeners = new Set<(stats: OutboxStats) => void>()
+  private db: IDBDatabase | null = null
+  readonly ready: Promise<void>
+
+  constructor(private readonly databaseName: string | null) {
+    this.ready = this.open().catch(error => {
+      console.warn('⚠️ File sync outbox is not persistent:', error)
+    })
+  }
+
+  get depth(): number {
+    return this.entries.size
+  }
+
+  stats(): OutboxStats {
+    let oldestQueuedAt: number | null = null
+    this.entries.forEach(entry => {
+      if (oldestQueuedAt === null || entry.queuedAt < oldestQueuedAt) oldestQueuedAt = entry.queuedAt
+    })
+    return { depth: this.entries.size, oldestQueuedAt }
+  }
+
+  has(id: string): boolean {
+    return this.entries.has(id)
+  }
+
+  // Files with at least one unacknowledged action
+  fileIds(): string[] {
+    const ids: string[] = []
+    this.entries.forEach(entry => {
+      if (!ids.includes(entry.action.fileId)) ids.push(entry.action.fileId)
+    })
+    return ids
+  }
+
+  list(): OutboxEntry[] {
+    return sortCausally(Array.from(this.entries.values()))
+  }
+
+  // Returns false when the action is already queued
+  async put(action: FileAction, meta: LoguxFileMeta): Promise<boolean> {
+    await this.ready
+    if (this.entries.has(meta.id)) return false
+
+    const entry: OutboxEntry = { id: meta.id, action, meta, queuedAt: Date.now() }
+    this.entries.set(entry.id, entry)
+    this.notify()
+    await this.request(store => store.put(entry))
+    return true
+  }
+
+  async acknowledge(id: string): Promise<OutboxEntry | undefined> {
+    await this.ready
+    const entry = this.entries.get(id)
+    if (!entry) return undefined
+
+    this.entries.delete(id)
+    this.notify()
+    await this.request(store => store.delete(id))
+    return entry
+  }
+
+  async clear(): Promise<void> {
+    await this.ready
+    this.entries.clear()
+    this.notify()
+    await this.request(store => store.clear())
+  }
+
+  onChange(listener: (stats: OutboxStats) => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private async open(): Promise<void> {
+    if (!this.databaseName || typeof indexedDB === 'undefined') return
+
+    this.db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.databaseName!, 1)
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve(request.result)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+        store.createIndex('queuedAt', 'queuedAt', { unique: false })
+      }
+    })
+
+    const stored = await this.request<OutboxEntry[]>(store => store.getAll())
+    ;(stored || []).forEach(entry => this.entries.set(entry.id, entry))
+    if (this.entries.size > 0) {
+      console.log(`📮 Restored ${this.entries.size} queued file actions`)
+      this.notify()
+    }
+  }
+
+  private request<T>(operation: (store: IDBObjectStore) => IDBRequest): Promise<T | undefined> {
+    const db = this.db
+    if (!db) return Promise.resolve(undefined)
+
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction([STORE_NAME], 'readwrite').objectStore(STORE_NAME))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  private notify(): void {
+    const stats = this.stats()
+    latestStats = stats
+    this.listeners.forEach(listener => listener(stats))
+
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('file-sync-outbox', { detail: stats }))
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { FilePermissions, LoguxAction, LoguxFileMeta } from '../../types/logux-file-sync'
+
+// Server-side view of FilePermissions, rebuilt from the relay log. The relay
+// asks it whether a user may send an action and who may receive it; the
+// rules mirror LoguxFileSyncEngine.canWriteFile.
+
+const WRITE_ACTIONS = ['file/update', 'file/text', 'file/delete', 'file/move', 'file/conflict', 'file/version']
+const READ_ACTIONS = ['file/lock', 'file/unlock', 'file/cursor', 'file/presence', 'file/syncStatus']
+
+export class FileAccessRegistry {
+  private permissions = new Map<string, FilePermissions>()
+
+  // Track permissions set by an accepted action
+  apply(action: LoguxAction): void {
+    if ((action.type === 'file/create' || action.type === 'file/permission') && action.permissions) {
+      this.permissions.set(action.fileId, action.permissions)
+    }
+  }
+
+  getPermissions(fileId: string): FilePermissions | undefined {
+    return this.permissions.get(fileId)
+  }
+
+  canRead(fileId: string, userId: string): boolean {
+    const permissions = this.permissions.get(fileId)
+    if (!permissions) return false
+
+    return permissions.public ||
+      permissions.owner === userId ||
+      permissions.readers.includes(userId) ||
+      permissions.writers.includes(userId)
+  }
+
+  canWrite(fileId: string, userId: string): boolean {
+    const permissions = this.permissions.get(fileId)
+    if (!permissions) return false
+
+    return permissions.owner === userId ||
+      permissions.writers.includes(userId) ||
+      (permissions.public && permissions.accessLevel === 'write')
+  }
+
+  // Why userId may not send this action, or null when it may
+  authorize(action: LoguxAction, userId: string): string | null {
+    if (typeof action.fileId !== 'string') return `Unknown action ${action.type}`
+
+    const actor = action.type === 'file/presence' ? action.userId : action.authorId
+    if (actor !== userId) return 'Actions must be sent as the signed-in user'
+
+    if (action.type === 'file/create') {
+      if (this.permissions.has(action.fileId)) return `File ${action.fileId} already exists`
+      if (action.permissions?.owner !== userId) return 'New files must be owned by their creator'
+      return null
+    }
+
+    if (!this.permissions.has(action.fileId)) return `File ${action.fileId} not found`
+
+    if (action.type === 'file/permission') {
+      return this.permissions.get(action.fileId)!.owner === userId
+        ? null
+        : 'Only the owner can change permissions'
+    }
+    if (WRITE_ACTIONS.includes(action.type)) {
+      return this.canWrite(action.fileId, userId) ? null : 'Insufficient permissions to edit file'
+    }
+    if (READ_ACTIONS.includes(action.type)) {
+      return this.canRead(action.fileId, userId) ? null : 'Insufficient permissions to read file'
+    }
+
+    return `Unknown action ${action.type}`
+  }
+
+  canSubscribe(channel: string, userId: string): boolean {
+    const userChannel = channel.match(/^user:(.+):files$/)
+    if (userChannel) return userChannel[1] === userId
+
+    const fileChannel = channel.match(/^file:(.+)$/)
+    // A file may be subscribed to before its creation reaches the relay
+    if (fileChannel) return !this.permissions.has(fileChannel[1]) || this.canRead(fileChannel[1], userId)
+
+    return true
+  }
+
+  // Everyone who could read the file before or after the action hears about it
+  deliveryChannels(action: LoguxAction, meta: Pick<LoguxFileMeta, 'channels'>): string[] {
+    const channels = (meta.channels || []).slice()
+    const add = (channel: string) => {
+      if (!channels.includes(channel)) channels.push(channel)
+    }
+
+    const affected = [this.permissions.get(action.fileId), action.permissions as FilePermissions | undefined]
+    affected.forEach(permissions => {
+      if (!permissions) return
+
+      add(`file:${action.fileId}`)
+      if (permissions.public) add('public:files')
+      ;[permissions.owner, ...permissions.readers, ...permissions.writers]
+        .forEach(id => add(`user:${id}:files`))
+    })
+
+    return channels
+  }
+}
@@ -0,0 +1,46 @@
+import path from 'path'
+import { IncomingMessage } from 'http'
+import { getToken } from 'next-auth/jwt'
+import { FileSyncRelay } from './relay'
+import { RelayLog } from './log'
+import { RelayUser } from './types'
+
+// Server-side entry point for the file sync relay behind /api/sync/socket.
+// The log is kept in FILE_SYNC_DIR (default ./.data).
+
+export type { RelayLogEntry, RelayUser, ClientMessage, ServerMessage } from './types'
+export { SYNC_PROTOCOL_VERSION, SYNC_SOCKET_PATH } from './types'
+export { FileSyncRelay, RelayLog }
+export { FileAccessRegistry } from './access'
+
+const LOG_FILE = 'file-sync-log.jsonl'
+
+let relay: FileSyncRelay | null = null
+
+export function getFileSyncRelay(): FileSyncRelay {
+  if (!relay) {
+    const directory = process.env.FILE_SYNC_DIR || path.join(process.cwd(), '.data')
+    relay = new FileSyncRelay(new RelayLog(path.join(directory, LOG_FILE)), authenticateUpgrade)
+  }
+  return relay
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {}
+  ;(header || '').split(';').forEach(part => {
+    const separator = part.indexOf('=')
+    if (separator > 0) {
+      cookies[part.slice(0, separator).trim()] = decodeURIComponent(part.slice(separator + 1).trim())
+    }
+  })
+  return cookies
+}
+
+// Websocket upgrades carry the NextAuth session cookie like any other request
+export async function authenticateUpgrade(request: IncomingMessage): Promise<RelayUser | null> {
+  const req: Parameters<typeof getToken>[0]['req'] = Object.assign(request, { cookies: parseCookies(request.headers.cookie) })
+  const token = await getToken({ req, secret: process.env.NEXTAUTH_SECRET })
+  const id = token?.discordId as string | undefined
+
+  return id ? { id, name: (token?.username as string) || 'Anonymous' } : null
+}
@@ -0,0 +1,128 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { LoguxAction, LoguxFileMeta } from '../../types/logux-file-sync'
+import { RelayLogEntry } from './types'
+
+// Actions the relay keeps for replay. Each accepted action gets the next
+// `added` number; a client that reconnects asks for everything after the
+// last number it saw. With a file path the log is appended to a JSON-lines
+// file so it survives restarts.
+//
+// Entries a replay no longer needs are compacted away per file: everything
+// before a permanent delete, text edits before a whole-file update (which
+// starts a new text history) and permissions replaced by later ones.
+
+// The file is rewritten without compacted entries once this many have piled up
+const REWRITE_AFTER_DROPPED = 500
+
+export class RelayLog {
+  private entries: RelayLogEntry[] = []
+  // Ids of compacted entries are kept so a late resend is still recognised
+  private ids = new Set<string>()
+  private lastAdded = 0
+  private lastWritten = 0
+  private dropped = 0
+  private writes: Promise<void> = Promise.resolve()
+
+  constructor(private readonly filePath: string | null = null) {}
+
+  async load(): Promise<RelayLogEntry[]> {
+    if (!this.filePath) return this.entries
+
+    let data = ''
+    try {
+      data = await fs.readFile(this.filePath, 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+    }
+
+    data.split('\n').forEach(line => {
+      if (!line.trim()) return
+      try {
+        this.remember(JSON.parse(line))
+      } catch {
+        // A crash mid-append can leave a partial last line
+        console.warn('⚠️ Skipping unreadable file sync log line')
+      }
+    })
+
+    this.lastWritten = this.lastAdded
+    if (this.dropped > 0) await this.queueWrite(() => this.rewrite())
+    return this.entries
+  }
+
+  has(id: string): boolean {
+    return this.ids.has(id)
+  }
+
+  async add(action: LoguxAction, meta: LoguxFileMeta): Promise<RelayLogEntry> {
+    const entry: RelayLogEntry = { action, meta: { ...meta, added: this.lastAdded + 1 } }
+    this.remember(entry)
+
+    const filePath = this.filePath
+    if (filePath) {
+      await this.queueWrite(async () => {
+        await fs.mkdir(path.dirname(filePath), { recursive: true })
+        await fs.appendFile(filePath, `${JSON.stringify(entry)}\n`)
+        this.lastWritten = entry.meta.added
+      })
+      if (this.dropped >= REWRITE_AFTER_DROPPED) await this.queueWrite(() => this.rewrite())
+    }
+
+    return entry
+  }
+
+  since(added: number): RelayLogEntry[] {
+    return this.entries.filter(entry => entry.meta.added > added)
+  }
+
+  // Writes are chained so lines land in added order
+  private queueWrite(write: () => Promise<void>): Promise<void> {
+    const queued = this.writes.then(write)
+    this.writes = queued.catch(() => undefined)
+    return queued
+  }
+
+  // Replace the file with the entries still kept; the rename is atomic so a
+  // crash leaves either the old log or the new one. Entries whose append is
+  // still queued are left to it.
+  private async rewrite(): Promise<void> {
+    const filePath = this.filePath!
+    const temporary = `${filePath}.tmp`
+    const dropped = this.dropped
+    const lines = this.entries
+      .filter(entry => entry.meta.added <= this.lastWritten)
+      .map(entry => `${JSON.stringify(entry)}\n`)
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(temporary, lines.join(''))
+    await fs.rename(temporary, filePath)
+    this.dropped -= dropped
+  }
+
+  private remember(entry: RelayLogEntry): void {
+    this.compact(entry)
+    this.entries.push(entry)
+    this.ids.add(entry.meta.id)
+    this.lastAdded = Math.max(this.lastAdded, entry.meta.added)
+  }
+
+  // Drop the file's entries that `latest` makes unnecessary for a replay
+  private compact(latest: RelayLogEntry): void {
+    const { type, fileId } = latest.action
+    let superseded: (entry: RelayLogEntry) => boolean
+    if (type === 'file/delete' && !latest.action.soft) {
+      superseded = () => true
+    } else if (type === 'file/update') {
+      superseded = entry => entry.action.type === 'file/text'
+    } else if (type === 'file/permission') {
+      superseded = entry => entry.action.type === 'file/permission'
+    } else {
+      return
+    }
+
+    const before = this.entries.length
+    this.entries = this.entries.filter(entry => entry.action.fileId !== fileId || !superseded(entry))
+    this.dropped += before - this.entries.length
+  }
+}
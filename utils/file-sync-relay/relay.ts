@@ -0,0 +1,253 @@
+import { IncomingMessage, Server } from 'http'
+import { Duplex } from 'stream'
+import { WebSocket, WebSocketServer, RawData } from 'ws'
+import { LoguxAction, LoguxFileMeta } from '../../types/logux-file-sync'
+import { FileAccessRegistry } from './access'
+import { RelayLog } from './log'
+import {
+  ClientMessage,
+  RelayLogEntry,
+  RelayUser,
+  ServerMessage,
+  SubscribeAction,
+  SYNC_PROTOCOL_VERSION,
+  SYNC_SOCKET_PATH,
+  UndoAction
+} from './types'
+
+// Websocket relay between LoguxFileSyncEngine nodes. It checks every action
+// against the file's permissions, logs the ones meant to be kept, forwards
+// them to subscribers who can read the file, and replays the log to nodes
+// that subscribe after being away.
+
+export type RelayAuthenticator = (request: IncomingMessage) => Promise<RelayUser | null>
+
+interface Connection {
+  socket: WebSocket
+  user: RelayUser
+  nodeId: string | null
+  channels: Set<string>
+  // Messages from one node are handled strictly in order
+  queue: Promise<void>
+}
+
+const REPLAY_BATCH_SIZE = 100
+
+export class FileSyncRelay {
+  private server = new WebSocketServer({ noServer: true })
+  private connections = new Set<Connection>()
+  private access = new FileAccessRegistry()
+  private ready: Promise<void>
+  private serverTime = 0
+
+  constructor(private log: RelayLog, private authenticate: RelayAuthenticator) {
+    this.ready = log.load().then(entries => {
+      entries.forEach(entry => this.access.apply(entry.action))
+      console.log(`🔁 File sync relay loaded ${entries.length} logged actions`)
+    })
+  }
+
+  // Serve websocket upgrades on `path` of an existing HTTP server
+  attach(httpServer: Server, path: string = SYNC_SOCKET_PATH): void {
+    httpServer.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const { pathname } = new URL(request.url || '/', 'http://localhost')
+      if (pathname !== path) return
+
+      this.handleUpgrade(request, socket, head).catch(error => {
+        console.error('File sync relay upgrade failed:', error)
+        socket.destroy()
+      })
+    })
+  }
+
+  get connectionCount(): number {
+    return this.connections.size
+  }
+
+  private async handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    const user = await this.authenticate(request)
+    if (!user) {
+      socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n')
+      socket.destroy()
+      return
+    }
+
+    await this.ready
+    this.server.handleUpgrade(request, socket, head, webSocket => this.handleConnection(webSocket, user))
+  }
+
+  private handleConnection(socket: WebSocket, user: RelayUser): void {
+    const connection: Connection = {
+      socket,
+      user,
+      nodeId: null,
+      channels: new Set(),
+      queue: Promise.resolve()
+    }
+    this.connections.add(connection)
+
+    socket.on('message', (data: RawData) => {
+      connection.queue = connection.queue
+        .then(() => this.handleMessage(connection, data.toString()))
+        .catch(error => {
+          console.error('File sync relay message failed:', error)
+          this.send(connection, ['error', 'internal', error instanceof Error ? error.message : undefined])
+        })
+    })
+
+    socket.on('close', () => {
+      this.connections.delete(connection)
+    })
+  }
+
+  private async handleMessage(connection: Connection, data: string): Promise<void> {
+    let message: ClientMessage
+    try {
+      message = JSON.parse(data)
+    } catch {
+      this.send(connection, ['error', 'wrong-format', data.slice(0, 100)])
+      return
+    }
+
+    switch (message[0]) {
+      case 'connect': {
+        if (message[1] !== SYNC_PROTOCOL_VERSION) {
+          this.send(connection, ['error', 'wrong-protocol', String(SYNC_PROTOCOL_VERSION)])
+          connection.socket.close()
+          return
+        }
+        connection.nodeId = message[2]
+        this.send(connection, ['connected', SYNC_PROTOCOL_VERSION, { userId: connection.user.id }])
+        return
+      }
+
+      case 'sync': {
+        if (!connection.nodeId) {
+          this.send(connection, ['error', 'missed-connect'])
+          return
+        }
+        for (let i = 2; i + 1 < message.length; i += 2) {
+          await this.receive(connection, message[i] as LoguxAction, message[i + 1] as LoguxFileMeta)
+        }
+        this.send(connection, ['synced', message[1]])
+        return
+      }
+
+      case 'ping':
+        this.send(connection, ['pong', message[1]])
+        return
+
+      default:
+        this.send(connection, ['error', 'unknown-message', String((message as unknown[])[0])])
+    }
+  }
+
+  private async receive(connection: Connection, action: LoguxAction, meta: LoguxFileMeta): Promise<void> {
+    if (action.type === 'logux/subscribe') {
+      this.subscribe(connection, action as SubscribeAction, meta)
+      return
+    }
+    if (action.type === 'logux/unsubscribe') {
+      connection.channels.delete(action.channel)
+      this.processed(connection, meta)
+      return
+    }
+
+    // Pending actions are resent after a reconnect; the first copy already counted
+    if (this.log.has(meta.id)) return
+
+    const denial = this.access.authorize(action, connection.user.id)
+    if (denial) {
+      this.deny(connection, action, meta, denial)
+      return
+    }
+
+    // Identity comes from the session, never from the client's meta
+    const trusted: LoguxFileMeta = {
+      ...meta,
+      nodeId: connection.nodeId!,
+      userId: connection.user.id,
+      channels: this.access.deliveryChannels(action, meta),
+      added: 0
+    }
+
+    // Actions without reasons (cursor moves) are forwarded but not kept
+    const entry: RelayLogEntry = trusted.reasons && trusted.reasons.length > 0
+      ? await this.log.add(action, trusted)
+      : { action, meta: trusted }
+
+    this.access.apply(action)
+    this.forward(entry, connection)
+
+    // The sender learns the log position too, so a reload never replays its own actions
+    if (entry.meta.added > 0) this.processed(connection, meta, entry.meta)
+  }
+
+  private forward(entry: RelayLogEntry, sender: Connection): void {
+    this.connections.forEach(connection => {
+      if (connection === sender || !connection.nodeId) return
+      if (!entry.meta.channels.some(channel => connection.channels.has(channel))) return
+      if (!this.access.canRead(entry.action.fileId, connection.user.id)) return
+
+      this.send(connection, ['sync', entry.action, entry.meta])
+    })
+  }
+
+  private subscribe(connection: Connection, action: SubscribeAction, meta: LoguxFileMeta): void {
+    if (!this.access.canSubscribe(action.channel, connection.user.id)) {
+      this.deny(connection, action, meta, `Cannot subscribe to ${action.channel}`)
+      return
+    }
+
+    connection.channels.add(action.channel)
+
+    const missed = this.log.since(action.since || 0).filter(entry =>
+      entry.meta.nodeId !== connection.nodeId &&
+      entry.meta.channels.includes(action.channel) &&
+      this.access.canRead(entry.action.fileId, connection.user.id)
+    )
+
+    for (let i = 0; i < missed.length; i += REPLAY_BATCH_SIZE) {
+      const pairs: Array<LoguxAction | LoguxFileMeta> = []
+      missed.slice(i, i + REPLAY_BATCH_SIZE).forEach(entry => pairs.push(entry.action, entry.meta))
+      this.send(connection, ['sync', ...pairs])
+    }
+
+    this.processed(connection, meta)
+  }
+
+  private processed(connection: Connection, meta: LoguxFileMeta, logged?: LoguxFileMeta): void {
+    const position = logged ? { added: logged.added, channels: logged.channels } : {}
+    this.send(connection, ['sync', { type: 'logux/processed', id: meta.id }, { ...this.serverMeta(), ...position }])
+  }
+
+  private deny(connection: Connection, action: LoguxAction, meta: LoguxFileMeta, details: string): void {
+    console.warn(`🚫 File sync relay denied ${action.type} from ${connection.user.id}: ${details}`)
+
+    const undo: UndoAction = { type: 'logux/undo', id: meta.id, reason: 'denied', details, action }
+    this.send(connection, ['sync', undo, this.serverMeta()])
+  }
+
+  // Meta for relay-originated notices, which are never logged
+  private serverMeta(): LoguxFileMeta {
+    const time = Math.max(Date.now(), this.serverTime + 1)
+    this.serverTime = time
+
+    return {
+      id: `${time} server:relay 0`,
+      time,
+      added: 0,
+      reasons: [],
+      subprotocol: '1.0.0',
+      channels: [],
+      nodeId: 'server:relay',
+      userId: 'server'
+    }
+  }
+
+  private send(connection: Connection, message: ServerMessage): void {
+    if (connection.socket.readyState === WebSocket.OPEN) {
+      connection.socket.send(JSON.stringify(message))
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { LoguxAction, LoguxFileMeta } from '../../types/logux-file-sync'
+
+// Wire protocol between LoguxWebSocketClient and FileSyncRelay. Messages
+// follow the Logux protocol's shape: JSON arrays whose first element names
+// the message, with actions travelling as [action, meta] pairs.
+
+export const SYNC_PROTOCOL_VERSION = 1
+export const SYNC_SOCKET_PATH = '/api/sync/socket'
+
+export type ClientMessage =
+  | ['connect', number, string] // protocol version, node id
+  | ['sync', number, ...Array<LoguxAction | LoguxFileMeta>] // client-local added, then pairs
+  | ['ping', number]
+
+export type ServerMessage =
+  | ['connected', number, { userId: string }]
+  | ['synced', number] // acknowledges the client's sync message with this added
+  | ['sync', ...Array<LoguxAction | LoguxFileMeta>] // pairs; meta.added is the relay log position
+  | ['error', string, string?]
+  | ['pong', number]
+
+// Subscribing replays logged actions on the channel after `since`
+export interface SubscribeAction extends LoguxAction {
+  type: 'logux/subscribe'
+  channel: string
+  since?: number
+}
+
+export interface UnsubscribeAction extends LoguxAction {
+  type: 'logux/unsubscribe'
+  channel: string
+}
+
+// Sent back for an action the relay refused; the sender should roll it back
+export interface UndoAction extends LoguxAction {
+  type: 'logux/undo'
+  id: string
+  reason: 'denied'
+  details: string
+  action: LoguxAction
+}
+
+export interface RelayUser {
+  id: string // Discord id, matching authorId in file actions
+  name: string
+}
+
+export interface RelayLogEntry {
+  action: LoguxAction
+  meta: LoguxFileMeta
+}
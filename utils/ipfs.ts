@@ -1,3 +1,18 @@
+import { EncryptionService, ENCRYPTED_MIME_TYPE } from './encryption'
+import { ChunkedUploadService, UploadProgress } from './chunked-upload'
+import { ReplicationReport } from '../types/memory'
+
+// Files above this size go through the chunked, resumable upload routes
+const CHUNKED_UPLOAD_THRESHOLD = 5 * 1024 * 1024 // 5MB
+
+// Pinned metadata is public, so encrypted uploads only carry neutral labels
+const ENCRYPTED_UPLOAD_METADATA = {
+  title: 'Encrypted Etherith memory',
+  memoryNote: '',
+  authorName: 'private',
+  fileType: 'encrypted'
+}
+
 // Real IPFS functionality using Pinata via API routes
 export class IPFSService {
   static async uploadToIPFS(
@@ -60,12 +75,31 @@ export class IPFSService {
       authorName: string
       fileType: string
       tags?: string[]
-    }
+    },
+    onProgress?: (progress: UploadProgress) => void,
+    resumeKey?: string
   ): Promise<{
     cid: string
     size: number
     timestamp: number
   }> {
+    const pinataMetadata = metadata ? {
+      name: metadata.title,
+      description: metadata.memoryNote,
+      mimeType: file.type,
+      keyvalues: {
+        author: metadata.authorName,
+        fileType: metadata.fileType,
+        platform: 'Etherith',
+        timestamp: new Date().toISOString(),
+        ...(metadata.tags && metadata.tags.length > 0 && { tags: metadata.tags.join(',') })
+      }
+    } : undefined
+
+    if (this.usesChunkedUpload(file)) {
+      return ChunkedUploadService.upload(file, pinataMetadata, { onProgress, resumeKey })
+    }
+
     // Convert file to base64 for API upload
     const base64Data = await new Promise<string>((resolve, reject) => {
       const reader = new FileReader()
@@ -76,18 +110,7 @@ export class IPFSService {
 
     const requestBody = {
       file: base64Data,
-      metadata: metadata ? {
-        name: metadata.title,
-        description: metadata.memoryNote,
-        mimeType: file.type,
-        keyvalues: {
-          author: metadata.authorName,
-          fileType: metadata.fileType,
-          platform: 'Etherith',
-          timestamp: new Date().toISOString(),
-          ...(metadata.tags && metadata.tags.length > 0 && { tags: metadata.tags.join(',') })
-        }
-      } : undefined
+      metadata: pinataMetadata
     }
 
     const response = await fetch('/api/pinata/upload', {
@@ -104,6 +127,7 @@ export class IPFSService {
     }
 
     const result = await response.json()
+    onProgress?.({ uploadedBytes: file.size, totalBytes: file.size, uploadedChunks: 1, totalChunks: 1 })
     
     return {
       cid: result.cid,
@@ -112,12 +136,62 @@ export class IPFSService {
     }
   }
 
+  // Too large to send as base64 or keep in localStorage
+  static usesChunkedUpload(file: File): boolean {
+    return file.size > CHUNKED_UPLOAD_THRESHOLD
+  }
+
+  // Encrypt a private file on this device before it leaves for IPFS
+  static async uploadEncryptedFileToIPFS(
+    file: File,
+    userId: string,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<{
+    cid: string
+    size: number
+    timestamp: number
+    encryptionKeyId: string
+  }> {
+    const { file: encryptedFile, keyId } = await EncryptionService.encryptFile(userId, file)
+    // Encrypting the same file again gives the same bytes, so a retry resumes
+    const resumeKey = `${keyId}:${ChunkedUploadService.getFileKey(file)}`
+    const result = await this.uploadFileToIPFS(encryptedFile, ENCRYPTED_UPLOAD_METADATA, onProgress, resumeKey)
+    return { ...result, encryptionKeyId: keyId }
+  }
+
+  // Pin a file already encrypted with a registry entry's content key
+  static async uploadSealedFileToIPFS(envelope: Uint8Array): Promise<{
+    cid: string
+    size: number
+    timestamp: number
+  }> {
+    const file = new File([envelope as BlobPart], 'sealed.enc', { type: ENCRYPTED_MIME_TYPE })
+    return this.uploadFileToIPFS(file, ENCRYPTED_UPLOAD_METADATA)
+  }
+
+  static async uploadEncryptedTextToIPFS(
+    text: string,
+    userId: string
+  ): Promise<{
+    cid: string
+    size: number
+    timestamp: number
+    encryptionKeyId: string
+  }> {
+    const envelope = await EncryptionService.encryptText(userId, text)
+    const result = await this.uploadToIPFS(JSON.stringify(envelope), ENCRYPTED_UPLOAD_METADATA)
+    return { ...result, encryptionKeyId: envelope.keyId }
+  }
 
   static getIPFSUrl(cid: string): string {
     return `https://ipfs.io/ipfs/${cid}`
   }
 
   static getIPFSGatewayUrl(cid: string): string {
+    // Non-Pinata providers serve content through a gateway root such as /api/ipfs
+    if (process.env.NEXT_PUBLIC_IPFS_GATEWAY) {
+      return `${process.env.NEXT_PUBLIC_IPFS_GATEWAY}/${cid}`
+    }
     return `${process.env.NEXT_PUBLIC_PINATA_GATEWAY || 'https://gateway.pinata.cloud'}/ipfs/${cid}`
   }
 
@@ -126,21 +200,80 @@ export class IPFSService {
     lastSeen: number
     replicas: number
   }> {
-    // Use API route to verify preservation
-    const response = await fetch(`/api/pinata/verify?cid=${cid}`)
+    // Checks every configured pinning provider, not just one gateway
+    return this.summarizeReplication(await this.getReplicationReport(cid))
+  }
+
+  static async getReplicationReport(cid: string, requiredReplicas?: number): Promise<ReplicationReport> {
+    const query = new URLSearchParams({ cid, ...(requiredReplicas && { requiredReplicas: String(requiredReplicas) }) })
+    const response = await fetch(`/api/pinata/replicas?${query}`)
     const data = await response.json()
-    
-    if (data.success && data.exists) {
-      return {
-        exists: true,
-        lastSeen: new Date(data.pinnedAt || Date.now()).getTime(),
-        replicas: data.replicas || 1
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'Failed to check replicas')
+    }
+    return data.report
+  }
+
+  static async repairReplication(cid: string, requiredReplicas: number): Promise<ReplicationReport> {
+    const response = await fetch('/api/pinata/replicas', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ cid, requiredReplicas })
+    })
+    const data = await response.json()
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'Failed to repair replicas')
+    }
+    return data.report
+  }
+
+  static summarizeReplication(report: ReplicationReport): {
+    exists: boolean
+    lastSeen: number
+    replicas: number
+  } {
+    const pinnedAt = report.replicas
+      .filter(replica => replica.pinned && replica.pinnedAt)
+      .map(replica => new Date(replica.pinnedAt!).getTime())
+
+    return {
+      exists: report.replicaCount > 0,
+      lastSeen: report.replicaCount > 0 ? Math.max(report.checkedAt, ...pinnedAt) : 0,
+      replicas: report.replicaCount
+    }
+  }
+
+  // Fetch the pinned ciphertext and check it still decrypts (AES-GCM authenticates it)
+  static async verifyEncryptedContent(cid: string, keyId: string, isText = false): Promise<{
+    decryptable: boolean
+    error?: string
+  }> {
+    if (!EncryptionService.hasKey(keyId)) {
+      return { decryptable: false, error: 'Encryption key is not available on this device' }
+    }
+
+    try {
+      const url = this.getIPFSGatewayUrl(cid)
+      if (isText) {
+        const response = await fetch(url)
+        if (!response.ok) {
+          throw new Error(`Failed to fetch encrypted content: ${response.status} ${response.statusText}`)
+        }
+        // Text is pinned as a JSON string holding the envelope
+        const body = await response.json()
+        await EncryptionService.decryptText(typeof body === 'string' ? JSON.parse(body) : body)
+      } else {
+        await EncryptionService.fetchAndDecrypt(url, keyId)
       }
-    } else {
+      return { decryptable: true }
+    } catch (error) {
       return {
-        exists: false,
-        lastSeen: 0,
-        replicas: 0
+        decryptable: false,
+        error: error instanceof Error ? error.message : 'Failed to decrypt content'
       }
     }
   }
@@ -13,11 +13,43 @@ import {
   FileMetadata,
   FileDiff,
   ConflictResolution,
-  FileChannel
+  FileChannel,
+  CollaborativeField,
+  CursorPosition,
+  FileVersionRecord,
+  VersionRetentionPolicy
 } from '../types/logux-file-sync';
+import { diffText, mergeText } from './text-diff';
+import { CollaborativeText } from './collaborative-text';
+import { FileSyncOutbox } from './file-sync-outbox';
 
-// Simplified Logux client interface for demonstration
-interface LoguxClient {
+// Contents of recent versions per file, kept in memory as merge ancestors
+const MAX_TRACKED_VERSIONS = 20;
+
+// Text edits are stored and logged once typing pauses this long (ms)
+const TEXT_FLUSH_DELAY = 500;
+
+// ...and kept in the version history once editing pauses this long (ms)
+const TEXT_VERSION_DELAY = 10000;
+
+const DEFAULT_VERSION_RETENTION: VersionRetentionPolicy = {
+  maxVersions: 50,
+  maxAge: 90 * 24 * 60 * 60 * 1000, // 90 days
+};
+
+interface PendingText {
+  document: CollaborativeText;
+  version: string; // File version the document belongs to
+  changes: string[]; // Local changes not yet logged
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export interface LoguxFileSyncOptions {
+  versionRetention?: Partial<VersionRetentionPolicy>;
+}
+
+// Transport the engine runs on; LoguxWebSocketClient implements it
+export interface LoguxClient {
   log: {
     add: (action: FileAction, meta?: Partial<LoguxFileMeta>) => Promise<void>;
     on: (filter: any, callback: (action: FileAction, meta: LoguxFileMeta) => void) => void;
@@ -27,20 +59,29 @@ interface LoguxClient {
   };
   subscribe: (channel: FileChannel) => Promise<void>;
   unsubscribe: (channel: FileChannel) => Promise<void>;
+  // Logged actions not yet acknowledged by the server
+  outbox?: FileSyncOutbox;
 }
 
 export class LoguxFileSyncEngine {
   private client: LoguxClient;
   private files: Map<string, SyncedFile> = new Map();
   private conflicts: Map<string, FileConflict> = new Map();
+  private versionContents: Map<string, Map<string, string>> = new Map();
+  private documents: Map<string, CollaborativeText> = new Map();
+  private pendingText: Map<string, PendingText> = new Map();
+  private textVersionTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private actorId: string | null = null;
+  private versionRetention: VersionRetentionPolicy;
   private vectorClock: VectorClock;
   private subscribedChannels: Set<FileChannel> = new Set();
   private storage: IDBDatabase | null = null;
   private userId: string;
 
-  constructor(client: LoguxClient, userId: string) {
+  constructor(client: LoguxClient, userId: string, options: LoguxFileSyncOptions = {}) {
     this.client = client;
     this.userId = userId;
+    this.versionRetention = { ...DEFAULT_VERSION_RETENTION, ...options.versionRetention };
     this.vectorClock = {
       nodeId: client.node.id,
       clocks: {}
@@ -55,7 +96,7 @@ export class LoguxFileSyncEngine {
 
   private async initializeStorage(): Promise<void> {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open('EtherithFileSync', 1);
+      const request = indexedDB.open('EtherithFileSync', 3);
 
       request.onerror = () => reject(request.error);
       request.onsuccess = () => {
@@ -85,6 +126,18 @@ export class LoguxFileSyncEngine {
         if (!db.objectStoreNames.contains('vectorClocks')) {
           db.createObjectStore('vectorClocks', { keyPath: 'nodeId' });
         }
+
+        // Collaborative text documents
+        if (!db.objectStoreNames.contains('documents')) {
+          db.createObjectStore('documents', { keyPath: 'fileId' });
+        }
+
+        // Version history
+        if (!db.objectStoreNames.contains('versions')) {
+          const versionsStore = db.createObjectStore('versions', { keyPath: 'id' });
+          versionsStore.createIndex('fileId', 'fileId', { unique: false });
+          versionsStore.createIndex('timestamp', 'timestamp', { unique: false });
+        }
       };
     });
   }
@@ -132,6 +185,15 @@ export class LoguxFileSyncEngine {
     this.client.log.on({ type: 'file/presence' }, (action, meta) => {
       this.handleFilePresence(action as any, meta);
     });
+
+    // Collaborative text editing
+    this.client.log.on({ type: 'file/text' }, (action, meta) => {
+      this.handleFileText(action as any, meta);
+    });
+
+    this.client.log.on({ type: 'file/cursor' }, (action, meta) => {
+      this.handleFileCursor(action as any, meta);
+    });
   }
 
   private async startSyncProcess(): Promise<void> {
@@ -142,6 +204,10 @@ export class LoguxFileSyncEngine {
     await this.subscribeToUserFiles();
     await this.subscribeToPublicFiles();
 
+    // Files are pending exactly while the outbox holds actions for them
+    this.client.outbox?.onChange(() => this.syncPendingChanges());
+    await this.syncPendingChanges();
+
     // Start periodic sync
     setInterval(() => this.performPeriodicSync(), 30000); // Every 30 seconds
   }
@@ -179,7 +245,7 @@ export class LoguxFileSyncEngine {
       parentDirectory,
     };
 
-    await this.client.log.add(action, {
+    await this.logAction(action, {
       channels: [`file:${fileId}`, `user:${this.userId}:files`],
       reasons: [`file:${fileId}`],
     });
@@ -190,7 +256,7 @@ export class LoguxFileSyncEngine {
   async updateFile(
     fileId: string,
     content: string,
-    reason: 'edit' | 'auto-save' | 'conflict-resolution' = 'edit'
+    reason: 'edit' | 'auto-save' | 'conflict-resolution' | 'restore' = 'edit'
   ): Promise<void> {
     const file = this.files.get(fileId);
     if (!file) throw new Error(`File ${fileId} not found`);
@@ -200,9 +266,12 @@ export class LoguxFileSyncEngine {
       throw new Error('Insufficient permissions to edit file');
     }
 
+    // Text typed just before must be logged ahead of the update built on it
+    await this.flushText(fileId);
+
     // Calculate diff
-    const diff = this.calculateDiff(file.content, content);
-    const newHash = await this.calculateHash(content);
+    const diff = await this.calculateDiff(file.content, content);
+    const newHash = diff.newHash;
     const newVersion = this.generateVersion();
 
     const action = {
@@ -215,7 +284,7 @@ export class LoguxFileSyncEngine {
       authorId: this.userId,
     };
 
-    await this.client.log.add(action, {
+    await this.logAction(action, {
       channels: [`file:${fileId}`],
       reasons: [`file:${fileId}`],
       fileHash: newHash,
@@ -239,7 +308,7 @@ export class LoguxFileSyncEngine {
       authorId: this.userId,
     };
 
-    await this.client.log.add(action, {
+    await this.logAction(action, {
       channels: [`file:${fileId}`],
       reasons: [`file:${fileId}`],
     });
@@ -261,7 +330,7 @@ export class LoguxFileSyncEngine {
       authorId: this.userId,
     };
 
-    await this.client.log.add(action, {
+    await this.logAction(action, {
       channels: [`file:${fileId}`],
       reasons: [`file:${fileId}`],
     });
@@ -284,12 +353,166 @@ export class LoguxFileSyncEngine {
       authorId: this.userId,
     };
 
-    await this.client.log.add(action, {
+    await this.logAction(action, {
       channels: [`file:${conflict.fileId}`],
       reasons: [`file:${conflict.fileId}`],
     });
   }
 
+  // Publishes an older version's content as a new version
+  async restoreVersion(fileId: string, version: string): Promise<void> {
+    const record = await this.getVersion(fileId, version);
+    if (!record) throw new Error(`Version ${version} of file ${fileId} not found`);
+
+    await this.updateFile(fileId, record.content, 'restore');
+  }
+
+  // Versions of a file, newest first
+  async getVersionHistory(fileId: string): Promise<FileVersionRecord[]> {
+    const records = await this.loadVersionsFromStorage(fileId);
+    return records.sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async getVersion(fileId: string, version: string): Promise<FileVersionRecord | undefined> {
+    return this.loadVersionFromStorage(`${fileId}:${version}`);
+  }
+
+  async diffVersions(fileId: string, fromVersion: string, toVersion: string): Promise<FileDiff> {
+    const [from, to] = await Promise.all([
+      this.getVersion(fileId, fromVersion),
+      this.getVersion(fileId, toVersion),
+    ]);
+    if (!from) throw new Error(`Version ${fromVersion} of file ${fileId} not found`);
+    if (!to) throw new Error(`Version ${toVersion} of file ${fileId} not found`);
+
+    return this.calculateDiff(from.content, to.content);
+  }
+
+  // ===== COLLABORATIVE EDITING =====
+
+  async openDocument(fileId: string): Promise<CollaborativeText> {
+    const existing = this.documents.get(fileId);
+    if (existing) return existing;
+
+    const file = this.files.get(fileId);
+    if (!file) throw new Error(`File ${fileId} not found`);
+
+    const actorId = await this.getActorId();
+    const stored = await this.loadDocumentFromStorage(fileId, file.version);
+    const document = stored
+      ? CollaborativeText.load(stored, actorId)
+      : CollaborativeText.fromVersion(
+          (await this.calculateHash(`${fileId}:${file.version}`)).slice(0, 32),
+          actorId,
+          { content: file.content, memoryNote: file.memoryNote || '' }
+        );
+
+    // Another caller may have opened the document while this one was loading
+    const opened = this.documents.get(fileId) || document;
+    this.documents.set(fileId, opened);
+    return opened;
+  }
+
+  async editText(fileId: string, field: CollaborativeField, text: string): Promise<void> {
+    const file = this.files.get(fileId);
+    if (!file) throw new Error(`File ${fileId} not found`);
+
+    if (!this.canWriteFile(file, this.userId)) {
+      throw new Error('Insufficient permissions to edit file');
+    }
+
+    // An open document is edited synchronously, so the file mirrors every
+    // keystroke before the next one arrives
+    const document = this.documents.get(fileId) || await this.openDocument(fileId);
+    const change = document.edit(field, text);
+    if (!change) return;
+
+    await this.applyDocumentToFile(file, document, Date.now());
+    this.queueText(file, document, [change]);
+    this.scheduleTextVersion(fileId, this.userId);
+  }
+
+  // Stores the document and logs local changes without waiting for the pause
+  async flushText(fileId: string): Promise<void> {
+    const pending = this.pendingText.get(fileId);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pendingText.delete(fileId);
+
+    // A whole-file update may have replaced the document meanwhile
+    const file = this.files.get(fileId);
+    if (file && file.version === pending.version && this.documents.get(fileId) === pending.document) {
+      await this.saveFileToStorage(file);
+      await this.saveDocumentToStorage(fileId, pending.version, pending.document);
+    }
+
+    if (pending.changes.length === 0) return;
+
+    const action = {
+      type: 'file/text' as const,
+      fileId,
+      changes: pending.changes,
+      authorId: this.userId,
+    };
+
+    await this.logAction(action, {
+      channels: [`file:${fileId}`],
+      reasons: [`file:${fileId}`],
+    });
+  }
+
+  async flushAllText(): Promise<void> {
+    await Promise.all(Array.from(this.pendingText.keys()).map(fileId => this.flushText(fileId)));
+  }
+
+  async updateCursor(
+    fileId: string,
+    field: CollaborativeField,
+    selectionStart: number,
+    selectionEnd: number
+  ): Promise<void> {
+    const document = await this.openDocument(fileId);
+    const text = document.fields[field];
+
+    const toPosition = (offset: number): CursorPosition => {
+      const lines = text.slice(0, offset).split('\n');
+      return {
+        line: lines.length - 1,
+        column: lines[lines.length - 1].length,
+        offset,
+        anchor: document.cursorAt(field, offset),
+      };
+    };
+
+    const position = toPosition(selectionEnd);
+    const action = {
+      type: 'file/cursor' as const,
+      fileId,
+      field,
+      position,
+      selection: selectionStart !== selectionEnd
+        ? { start: toPosition(selectionStart), end: position }
+        : undefined,
+      authorId: this.userId,
+    };
+
+    // Cursor moves are ephemeral, so they are not kept in the log
+    await this.client.log.add(action, {
+      channels: [`file:${fileId}`],
+    });
+  }
+
+  // Current offset of a (possibly remote) cursor in this peer's text
+  resolveCursor(fileId: string, field: CollaborativeField, position: CursorPosition): number {
+    const document = this.documents.get(fileId);
+    const offset = document && position.anchor
+      ? document.offsetOf(field, position.anchor)
+      : null;
+    const length = document ? document.fields[field].length : position.offset;
+    return Math.min(offset ?? position.offset, length);
+  }
+
   // ===== ACTION HANDLERS =====
 
   private async handleFileCreate(action: any, meta: LoguxFileMeta): Promise<void> {
@@ -298,11 +521,12 @@ export class LoguxFileSyncEngine {
       name: action.fileName,
       path: this.buildFilePath(action.fileName, action.parentDirectory),
       content: action.content,
-      version: this.generateVersion(),
+      // The log id is the same on every node, so later updates agree on their parent
+      version: meta.id || this.generateVersion(),
       hash: action.metadata.hash,
       permissions: action.permissions,
       metadata: action.metadata,
-      syncStatus: 'synced',
+      syncStatus: this.localSyncStatus(action.fileId),
       lastSyncTime: meta.time,
       vectorClock: meta.vectorClock || {},
       locks: [],
@@ -310,7 +534,9 @@ export class LoguxFileSyncEngine {
     };
 
     this.files.set(action.fileId, file);
+    this.rememberVersion(file);
     await this.saveFileToStorage(file);
+    await this.recordVersion(file, 'create', [], action.authorId, meta.time);
     this.updateVectorClockFromMeta(meta);
 
     this.notifyFileChange('created', file);
@@ -329,6 +555,9 @@ export class LoguxFileSyncEngine {
       return;
     }
 
+    // Whole-file updates start a new version and with it a new text history
+    this.documents.delete(action.fileId);
+
     // Apply update
     file.content = action.content;
     file.version = action.version;
@@ -336,10 +565,18 @@ export class LoguxFileSyncEngine {
     file.metadata.lastModified = meta.time;
     file.lastSyncTime = meta.time;
     file.vectorClock = meta.vectorClock || file.vectorClock;
-    file.syncStatus = 'synced';
+    file.syncStatus = this.localSyncStatus(file.id);
 
     this.files.set(action.fileId, file);
+    this.rememberVersion(file);
     await this.saveFileToStorage(file);
+    await this.recordVersion(
+      file,
+      action.reason === 'restore' ? 'restore' : 'update',
+      meta.parentVersion ? [meta.parentVersion] : [],
+      action.authorId,
+      meta.time
+    );
     this.updateVectorClockFromMeta(meta);
 
     this.notifyFileChange('updated', file);
@@ -358,9 +595,11 @@ export class LoguxFileSyncEngine {
       file.lastSyncTime = meta.time;
       await this.saveFileToStorage(file);
     } else {
-      // Hard delete - remove completely
+      // Hard delete - remove completely, history included
       this.files.delete(action.fileId);
+      this.documents.delete(action.fileId);
       await this.removeFileFromStorage(action.fileId);
+      await this.removeVersionsFromStorage(await this.loadVersionsFromStorage(action.fileId));
     }
 
     this.updateVectorClockFromMeta(meta);
@@ -373,7 +612,7 @@ export class LoguxFileSyncEngine {
 
     file.path = action.toPath;
     file.lastSyncTime = meta.time;
-    file.syncStatus = 'synced';
+    file.syncStatus = this.localSyncStatus(file.id);
 
     this.files.set(action.fileId, file);
     await this.saveFileToStorage(file);
@@ -404,15 +643,24 @@ export class LoguxFileSyncEngine {
       // Apply conflict resolution
       const file = this.files.get(conflict.fileId);
       if (file) {
+        this.documents.delete(conflict.fileId);
         file.content = action.mergedContent;
-        file.version = this.generateVersion();
+        file.version = meta.id || this.generateVersion();
         file.hash = await this.calculateHash(action.mergedContent);
-        file.syncStatus = 'synced';
+        file.syncStatus = this.localSyncStatus(file.id);
         file.conflictVersions = undefined;
         file.lastSyncTime = meta.time;
 
         this.files.set(conflict.fileId, file);
+        this.rememberVersion(file);
         await this.saveFileToStorage(file);
+        await this.recordVersion(
+          file,
+          'merge',
+          conflict.conflictingVersions.map(v => v.version),
+          action.authorId,
+          meta.time
+        );
       }
 
       // Mark conflict as resolved
@@ -488,6 +736,108 @@ export class LoguxFileSyncEngine {
     this.notifyFileChange('presence', file);
   }
 
+  private async handleFileText(action: any, meta: LoguxFileMeta): Promise<void> {
+    const file = this.files.get(action.fileId);
+    if (!file) return;
+
+    const document = await this.openDocument(action.fileId);
+    if (!document.applyChanges(action.changes)) return;
+
+    await this.applyDocumentToFile(file, document, meta.time);
+    this.queueText(file, document, []);
+    this.scheduleTextVersion(file.id, action.authorId);
+    this.updateVectorClockFromMeta(meta);
+  }
+
+  private async handleFileCursor(action: any, meta: LoguxFileMeta): Promise<void> {
+    const file = this.files.get(action.fileId);
+    if (!file || action.authorId === this.userId) return;
+
+    const update = {
+      status: 'editing' as const,
+      field: action.field,
+      cursor: action.position,
+      selection: action.selection,
+      lastActivity: meta.time,
+    };
+
+    const existingPresence = file.presence.find(p => p.userId === action.authorId);
+    if (existingPresence) {
+      Object.assign(existingPresence, update);
+    } else {
+      file.presence.push({ userId: action.authorId, userName: meta.userId, ...update });
+    }
+
+    this.notifyFileChange('presence', file);
+  }
+
+  // Mirror the collaborative text into the file so lists, search and
+  // exports see the latest edits. Only the in-memory file changes here; the
+  // version id still names the content the document started from, so it is
+  // not cached as that version's content.
+  private async applyDocumentToFile(
+    file: SyncedFile,
+    document: CollaborativeText,
+    time: number
+  ): Promise<void> {
+    const { content, memoryNote } = document.fields;
+
+    file.content = content;
+    file.memoryNote = memoryNote;
+    file.hash = await this.calculateHash(content);
+    file.metadata.size = content.length;
+    file.metadata.lastModified = time;
+    file.lastSyncTime = time;
+
+    this.notifyFileChange('text', file);
+  }
+
+  private queueText(file: SyncedFile, document: CollaborativeText, changes: string[]): void {
+    const pending = this.pendingText.get(file.id);
+    if (pending) clearTimeout(pending.timer);
+
+    this.pendingText.set(file.id, {
+      document,
+      version: file.version,
+      changes: pending ? pending.changes.concat(changes) : changes,
+      timer: setTimeout(() => {
+        this.flushText(file.id).catch(error => console.warn(`Failed to save text of file ${file.id}:`, error));
+      }, TEXT_FLUSH_DELAY),
+    });
+  }
+
+  private scheduleTextVersion(fileId: string, authorId: string): void {
+    const timer = this.textVersionTimers.get(fileId);
+    if (timer) clearTimeout(timer);
+
+    this.textVersionTimers.set(fileId, setTimeout(() => {
+      this.textVersionTimers.delete(fileId);
+      this.recordTextVersion(fileId, authorId).catch(error =>
+        console.warn(`Failed to record text version of file ${fileId}:`, error)
+      );
+    }, TEXT_VERSION_DELAY));
+  }
+
+  // Text edits don't start a new file version, so the history keeps them as
+  // snapshots on top of the version they were typed into. Peers with the same
+  // text derive the same snapshot id.
+  private async recordTextVersion(fileId: string, authorId: string): Promise<void> {
+    const file = this.files.get(fileId);
+    if (!file) return;
+
+    const base = await this.getVersion(fileId, file.version);
+    if (base && base.content === file.content && (base.memoryNote || '') === (file.memoryNote || '')) return;
+
+    const hash = await this.calculateHash(`${file.content}\n${file.memoryNote || ''}`);
+    await this.recordVersion(
+      { ...file, version: `${file.version}_text_${hash.slice(0, 12)}` },
+      'text',
+      [file.version],
+      authorId,
+      Date.now()
+    );
+  }
+
   // ===== CONFLICT DETECTION AND RESOLUTION =====
 
   private detectConflict(file: SyncedFile, action: any, meta: LoguxFileMeta): boolean {
@@ -525,6 +875,39 @@ export class LoguxFileSyncEngine {
   }
 
   private async handleConflict(file: SyncedFile, action: any, meta: LoguxFileMeta): Promise<void> {
+    // Keep the incoming version as an ancestor for updates built on top of it
+    const incoming: SyncedFile = {
+      ...file,
+      version: action.version,
+      content: action.content,
+      hash: meta.fileHash || await this.calculateHash(action.content),
+      vectorClock: meta.vectorClock || {},
+    };
+    this.rememberVersion(incoming);
+    await this.recordVersion(
+      incoming,
+      'update',
+      meta.parentVersion ? [meta.parentVersion] : [],
+      action.authorId,
+      meta.time
+    );
+
+    const baseContent = meta.parentVersion
+      ? await this.getVersionContent(file.id, meta.parentVersion)
+      : undefined;
+    const merge = baseContent !== undefined
+      ? mergeText(baseContent, file.content, action.content, { ours: file.version, theirs: action.version })
+      : undefined;
+
+    if (merge && merge.conflicts.length === 0) {
+      // A side that did not change the ancestor is simply fast-forwarded
+      const version = file.content === baseContent ? action.version
+        : action.content === baseContent ? file.version
+        : await this.mergedVersion(file.version, action.version);
+      await this.applyMerge(file, action, meta, merge.content, version);
+      return;
+    }
+
     const conflictId = this.generateId();
 
     const conflict: FileConflict = {
@@ -548,6 +931,8 @@ export class LoguxFileSyncEngine {
       ],
       status: 'pending',
       created: Date.now(),
+      baseVersion: merge ? meta.parentVersion : undefined,
+      hunks: merge?.conflicts,
     };
 
     this.conflicts.set(conflictId, conflict);
@@ -561,8 +946,124 @@ export class LoguxFileSyncEngine {
     this.notifyConflictDetected(conflict);
   }
 
+  // Both sides edited separate regions of the common ancestor
+  private async applyMerge(
+    file: SyncedFile,
+    action: any,
+    meta: LoguxFileMeta,
+    content: string,
+    version: string
+  ): Promise<void> {
+    const parentVersions = [file.version, action.version];
+
+    this.documents.delete(file.id);
+    file.content = content;
+    file.version = version;
+    file.hash = await this.calculateHash(content);
+    file.metadata.size = content.length;
+    file.metadata.lastModified = meta.time;
+    file.lastSyncTime = meta.time;
+    file.vectorClock = this.mergeVectorClocks(file.vectorClock, meta.vectorClock || {});
+    file.syncStatus = this.localSyncStatus(file.id);
+
+    this.files.set(file.id, file);
+    this.rememberVersion(file);
+    await this.saveFileToStorage(file);
+    // A fast-forward lands on a version that is already recorded
+    if (parentVersions.indexOf(version) === -1) {
+      await this.recordVersion(file, 'merge', parentVersions, action.authorId, meta.time);
+    }
+    this.updateVectorClockFromMeta(meta);
+
+    this.notifyFileChange('merged', file);
+  }
+
+  // Every node merging the same two versions derives the same version id
+  private async mergedVersion(localVersion: string, remoteVersion: string): Promise<string> {
+    const hash = await this.calculateHash([localVersion, remoteVersion].sort().join('+'));
+    return `v_merge_${hash.slice(0, 16)}`;
+  }
+
+  private mergeVectorClocks(
+    localClock: Record<string, number>,
+    remoteClock: Record<string, number>
+  ): Record<string, number> {
+    const merged = { ...localClock };
+    Object.keys(remoteClock).forEach(nodeId => {
+      merged[nodeId] = Math.max(merged[nodeId] || 0, remoteClock[nodeId]);
+    });
+    return merged;
+  }
+
+  private rememberVersion(file: SyncedFile): void {
+    const versions = this.versionContents.get(file.id) || new Map<string, string>();
+    versions.delete(file.version);
+    versions.set(file.version, file.content);
+
+    // Maps iterate in insertion order, so the first key is the oldest version
+    while (versions.size > MAX_TRACKED_VERSIONS) {
+      versions.delete(versions.keys().next().value as string);
+    }
+
+    this.versionContents.set(file.id, versions);
+  }
+
+  // Recent versions are cached in memory; older ones come from the history
+  private async getVersionContent(fileId: string, version: string): Promise<string | undefined> {
+    const cached = this.versionContents.get(fileId)?.get(version);
+    if (cached !== undefined) return cached;
+
+    return (await this.getVersion(fileId, version))?.content;
+  }
+
+  private async recordVersion(
+    file: SyncedFile,
+    operation: FileVersionRecord['operation'],
+    parentVersions: string[],
+    authorId: string,
+    timestamp: number
+  ): Promise<void> {
+    await this.saveVersionToStorage({
+      id: `${file.id}:${file.version}`,
+      fileId: file.id,
+      version: file.version,
+      parentVersions,
+      operation,
+      content: file.content,
+      memoryNote: file.memoryNote,
+      hash: file.hash,
+      size: file.content.length,
+      authorId,
+      timestamp,
+      vectorClock: { ...file.vectorClock },
+    });
+    await this.pruneVersions(file.id);
+  }
+
+  // Drops versions beyond the retention policy, never the file's current one
+  private async pruneVersions(fileId: string): Promise<void> {
+    const currentVersion = this.files.get(fileId)?.version;
+    const cutoff = Date.now() - this.versionRetention.maxAge;
+    const history = await this.getVersionHistory(fileId);
+
+    const expired = history.filter((record, index) =>
+      record.version !== currentVersion &&
+      (index >= this.versionRetention.maxVersions || record.timestamp < cutoff)
+    );
+
+    await this.removeVersionsFromStorage(expired);
+  }
+
   // ===== UTILITY FUNCTIONS =====
 
+  // Logged actions carry this node's clock so the outbox can replay them in causal order
+  private async logAction(action: FileAction, meta: Partial<LoguxFileMeta>): Promise<void> {
+    await this.client.log.add(action, {
+      ...meta,
+      vectorClock: meta.vectorClock || this.updateVectorClock(),
+    });
+  }
+
   private updateVectorClock(): Record<string, number> {
     this.vectorClock.clocks[this.vectorClock.nodeId] =
       (this.vectorClock.clocks[this.vectorClock.nodeId] || 0) + 1;
@@ -580,6 +1081,13 @@ export class LoguxFileSyncEngine {
     }
   }
 
+  private async getActorId(): Promise<string> {
+    if (!this.actorId) {
+      this.actorId = (await this.calculateHash(this.client.node.id)).slice(0, 32);
+    }
+    return this.actorId;
+  }
+
   private async calculateHash(content: string): Promise<string> {
     const encoder = new TextEncoder();
     const data = encoder.encode(content);
@@ -588,18 +1096,12 @@ export class LoguxFileSyncEngine {
     return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
   }
 
-  private calculateDiff(oldContent: string, newContent: string): FileDiff {
-    // Simplified diff calculation - in real implementation use proper diff library
+  private async calculateDiff(oldContent: string, newContent: string): Promise<FileDiff> {
     return {
       type: 'text',
-      operations: [{
-        type: 'replace',
-        position: 0,
-        content: newContent,
-        length: oldContent.length,
-      }],
-      oldHash: '',
-      newHash: '',
+      operations: diffText(oldContent, newContent),
+      oldHash: await this.calculateHash(oldContent),
+      newHash: await this.calculateHash(newContent),
     };
   }
 
@@ -643,6 +1145,77 @@ export class LoguxFileSyncEngine {
     await store.put(conflict);
   }
 
+  private async saveDocumentToStorage(
+    fileId: string,
+    version: string,
+    document: CollaborativeText
+  ): Promise<void> {
+    if (!this.storage) return;
+
+    const transaction = this.storage.transaction(['documents'], 'readwrite');
+    const store = transaction.objectStore('documents');
+    await store.put({ fileId, version, data: document.save() });
+  }
+
+  // A stored document only applies to the file version it was started from
+  private loadDocumentFromStorage(fileId: string, version: string): Promise<Uint8Array | null> {
+    const storage = this.storage;
+    if (!storage) return Promise.resolve(null);
+
+    return new Promise(resolve => {
+      const transaction = storage.transaction(['documents'], 'readonly');
+      const request = transaction.objectStore('documents').get(fileId);
+
+      request.onsuccess = () => {
+        const stored = request.result;
+        resolve(stored && stored.version === version ? stored.data : null);
+      };
+      request.onerror = () => resolve(null);
+    });
+  }
+
+  private async saveVersionToStorage(record: FileVersionRecord): Promise<void> {
+    if (!this.storage) return;
+
+    const transaction = this.storage.transaction(['versions'], 'readwrite');
+    const store = transaction.objectStore('versions');
+    await store.put(record);
+  }
+
+  private loadVersionFromStorage(id: string): Promise<FileVersionRecord | undefined> {
+    const storage = this.storage;
+    if (!storage) return Promise.resolve(undefined);
+
+    return new Promise((resolve, reject) => {
+      const transaction = storage.transaction(['versions'], 'readonly');
+      const request = transaction.objectStore('versions').get(id);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private loadVersionsFromStorage(fileId: string): Promise<FileVersionRecord[]> {
+    const storage = this.storage;
+    if (!storage) return Promise.resolve([]);
+
+    return new Promise((resolve, reject) => {
+      const transaction = storage.transaction(['versions'], 'readonly');
+      const request = transaction.objectStore('versions').index('fileId').getAll(fileId);
+
+      request.onsuccess = () => resolve(request.result as FileVersionRecord[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async removeVersionsFromStorage(records: FileVersionRecord[]): Promise<void> {
+    if (!this.storage || records.length === 0) return;
+
+    const transaction = this.storage.transaction(['versions'], 'readwrite');
+    const store = transaction.objectStore('versions');
+    records.forEach(record => store.delete(record.id));
+  }
+
   private async removeFileFromStorage(fileId: string): Promise<void> {
     if (!this.storage) return;
 
@@ -662,6 +1235,7 @@ export class LoguxFileSyncEngine {
       const files = request.result as SyncedFile[];
       files.forEach(file => {
         this.files.set(file.id, file);
+        this.rememberVersion(file);
       });
     };
   }
@@ -701,8 +1275,6 @@ export class LoguxFileSyncEngine {
     // Update presence status
     await this.updatePresenceStatus();
 
-    // Sync file changes with network
-    await this.syncPendingChanges();
   }
 
   private cleanExpiredLocks(): void {
@@ -724,24 +1296,29 @@ export class LoguxFileSyncEngine {
   }
 
   private async syncPendingChanges(): Promise<void> {
-    // Sync any files with pending status
-    const pendingFiles = Array.from(this.files.values())
-      .filter(file => file.syncStatus === 'pending');
+    const files = Array.from(this.files.values());
+
+    for (const file of files) {
+      const status = this.localSyncStatus(file.id);
+      if (file.syncStatus === status || file.syncStatus === 'conflict') continue;
 
-    for (const file of pendingFiles) {
       try {
-        // Attempt to re-sync the file
-        await this.resyncFile(file);
+        await this.resyncFile(file, status);
       } catch (error) {
         console.warn(`Failed to sync file ${file.id}:`, error);
       }
     }
   }
 
-  private async resyncFile(file: SyncedFile): Promise<void> {
-    // Implementation for re-syncing a file that failed to sync
-    file.syncStatus = 'synced';
+  private async resyncFile(file: SyncedFile, status: SyncedFile['syncStatus']): Promise<void> {
+    file.syncStatus = status;
     await this.saveFileToStorage(file);
+    this.notifyFileChange('sync-status', file);
+  }
+
+  // Local actions on the file that the server has not acknowledged keep it pending
+  private localSyncStatus(fileId: string): SyncedFile['syncStatus'] {
+    return this.client.outbox?.fileIds().includes(fileId) ? 'pending' : 'synced';
   }
 
   // ===== EVENT NOTIFICATIONS =====
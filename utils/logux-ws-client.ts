@@ -0,0 +1,311 @@
+import { FileAction, FileChannel, LoguxAction, LoguxFileMeta } from '../types/logux-file-sync'
+import { LoguxClient } from './logux-file-sync'
+import { FileSyncOutbox } from './file-sync-outbox'
+import {
+  ClientMessage,
+  ServerMessage,
+  SYNC_PROTOCOL_VERSION,
+  SYNC_SOCKET_PATH,
+  UndoAction
+} from './file-sync-relay/types'
+
+// Browser side of the file sync relay. Actions are applied locally first,
+// then sent; logged actions wait in a FileSyncOutbox until the relay
+// acknowledges them and are replayed after a reconnect. Subscriptions
+// remember the last relay log position per channel so a reconnect only
+// replays what was missed.
+
+export type SyncConnectionState = 'disconnected' | 'connecting' | 'connected'
+
+export interface LoguxWebSocketClientOptions {
+  userId: string
+  url?: string // defaults to NEXT_PUBLIC_FILE_SYNC_URL, then this origin's relay
+  outbox?: FileSyncOutbox
+}
+
+interface Listener {
+  filter: { type?: string }
+  callback: (action: FileAction, meta: LoguxFileMeta) => void
+}
+
+const SUBPROTOCOL = '1.0.0'
+const MIN_RECONNECT_DELAY = 1000
+const MAX_RECONNECT_DELAY = 30000
+const SYNCED_KEY_PREFIX = 'etherith_file_sync_synced_'
+const OUTBOX_DATABASE_PREFIX = 'EtherithFileSyncOutbox_'
+
+export class LoguxWebSocketClient implements LoguxClient {
+  readonly node: { id: string }
+  readonly log: LoguxClient['log']
+  readonly outbox: FileSyncOutbox
+
+  private readonly userId: string
+  private readonly url?: string
+  private socket: WebSocket | null = null
+  private state: SyncConnectionState = 'disconnected'
+  private stateListeners = new Set<(state: SyncConnectionState) => void>()
+  private listeners: Listener[] = []
+  // Outbox ids of sent actions by the `added` of the sync message carrying them
+  private inFlight = new Map<number, string>()
+  private synced: Record<string, number>
+  private channels = new Set<string>()
+  private seen = new Set<string>()
+  private localAdded = 0
+  private sequence = 0
+  private lastTime = 0
+  private reconnectDelay = MIN_RECONNECT_DELAY
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private stopped = true
+
+  constructor(options: LoguxWebSocketClientOptions) {
+    this.userId = options.userId
+    this.url = options.url || process.env.NEXT_PUBLIC_FILE_SYNC_URL || undefined
+    this.node = { id: `${options.userId}:${Math.random().toString(36).substr(2, 8)}` }
+    this.synced = this.loadSynced()
+    this.outbox = options.outbox || new FileSyncOutbox(OUTBOX_DATABASE_PREFIX + options.userId)
+    this.log = {
+      add: (action, meta) => this.add(action, meta),
+      on: (filter, callback) => {
+        this.listeners.push({ filter, callback })
+      }
+    }
+  }
+
+  get connectionState(): SyncConnectionState {
+    return this.state
+  }
+
+  onStateChange(listener: (state: SyncConnectionState) => void): () => void {
+    this.stateListeners.add(listener)
+    return () => {
+      this.stateListeners.delete(listener)
+    }
+  }
+
+  connect(): void {
+    this.stopped = false
+    this.open().catch(error => {
+      console.warn('⚠️ File sync relay unavailable, working offline:', error)
+      this.scheduleReconnect()
+    })
+  }
+
+  disconnect(): void {
+    this.stopped = true
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer)
+    this.reconnectTimer = null
+    this.socket?.close()
+    this.socket = null
+    this.setState('disconnected')
+  }
+
+  // Forget replay positions, e.g. after local file data was cleared
+  resetSynced(): void {
+    this.synced = {}
+    this.saveSynced()
+  }
+
+  async subscribe(channel: FileChannel): Promise<void> {
+    this.channels.add(channel)
+    if (this.state === 'connected') this.sendSubscribe(channel)
+  }
+
+  async unsubscribe(channel: FileChannel): Promise<void> {
+    this.channels.delete(channel)
+    if (this.state === 'connected') {
+      this.sendSync(++this.localAdded, { type: 'logux/unsubscribe', channel }, this.createMeta({}))
+    }
+  }
+
+  private async add(action: FileAction, meta: Partial<LoguxFileMeta> = {}): Promise<void> {
+    const fullMeta = this.createMeta(meta)
+    this.seen.add(fullMeta.id)
+
+    // Queue before applying so the engine already sees the action as unsent
+    const logged = fullMeta.reasons.length > 0
+    if (logged) await this.outbox.put(action, fullMeta)
+    this.emit(action, fullMeta)
+
+    // Actions without reasons are ephemeral and only worth sending live
+    if (this.state !== 'connected') return
+    if (logged) {
+      this.sendQueued(fullMeta.id, action, fullMeta)
+    } else {
+      this.sendSync(++this.localAdded, action, fullMeta)
+    }
+  }
+
+  private createMeta(meta: Partial<LoguxFileMeta>): LoguxFileMeta {
+    // Ids must be unique and ordered even within the same millisecond
+    const time = Math.max(Date.now(), this.lastTime)
+    this.sequence = time === this.lastTime ? this.sequence + 1 : 0
+    this.lastTime = time
+
+    return {
+      id: `${time} ${this.node.id} ${this.sequence}`,
+      time,
+      added: 0,
+      reasons: [],
+      subprotocol: SUBPROTOCOL,
+      channels: [],
+      nodeId: this.node.id,
+      userId: this.userId,
+      ...meta
+    }
+  }
+
+  private async open(): Promise<void> {
+    if (this.stopped || this.socket) return
+    this.setState('connecting')
+
+    let url = this.url
+    if (!url) {
+      // Attaches the relay to this server and checks the session first
+      const response = await fetch(SYNC_SOCKET_PATH)
+      if (response.status === 401) {
+        console.warn('⚠️ Sign in to sync shared files with other devices')
+        this.stopped = true
+        this.setState('disconnected')
+        return
+      }
+      if (!response.ok) throw new Error(`Relay bootstrap failed with ${response.status}`)
+
+      url = `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}${SYNC_SOCKET_PATH}`
+    }
+
+    const socket = new WebSocket(url)
+    this.socket = socket
+
+    socket.onopen = () => this.send(['connect', SYNC_PROTOCOL_VERSION, this.node.id])
+    socket.onmessage = event => this.handleMessage(JSON.parse(event.data))
+    socket.onclose = () => {
+      if (this.socket !== socket) return
+      this.socket = null
+      this.setState('disconnected')
+      this.scheduleReconnect()
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped || this.reconnectTimer) return
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.open().catch(error => {
+        console.warn('⚠️ File sync relay reconnect failed:', error)
+        this.scheduleReconnect()
+      })
+    }, this.reconnectDelay)
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY)
+  }
+
+  private handleMessage(message: ServerMessage): void {
+    switch (message[0]) {
+      case 'connected':
+        this.reconnectDelay = MIN_RECONNECT_DELAY
+        this.setState('connected')
+        this.channels.forEach(channel => this.sendSubscribe(channel))
+        this.replayOutbox()
+        return
+
+      case 'synced': {
+        const id = this.inFlight.get(message[1])
+        this.inFlight.delete(message[1])
+        if (id) this.outbox.acknowledge(id)
+        return
+      }
+
+      case 'sync':
+        for (let i = 1; i + 1 < message.length; i += 2) {
+          this.receive(message[i] as LoguxAction, message[i + 1] as LoguxFileMeta)
+        }
+        return
+
+      case 'error':
+        console.error(`❌ File sync relay error: ${message[1]}`, message[2] || '')
+        return
+    }
+  }
+
+  private receive(action: LoguxAction, meta: LoguxFileMeta): void {
+    if (action.type === 'logux/undo') {
+      const undo = action as UndoAction
+      this.outbox.acknowledge(undo.id)
+      console.warn(`🚫 File sync relay refused ${undo.action.type}: ${undo.details}`)
+      window.dispatchEvent(new CustomEvent('file-sync-denied', { detail: undo }))
+      return
+    }
+
+    if (meta.added > 0) {
+      meta.channels.forEach(channel => {
+        if (this.channels.has(channel)) {
+          this.synced[channel] = Math.max(this.synced[channel] || 0, meta.added)
+        }
+      })
+      this.saveSynced()
+    }
+
+    if (action.type === 'logux/processed' || this.seen.has(meta.id)) return
+    this.seen.add(meta.id)
+    this.emit(action as FileAction, meta)
+  }
+
+  private emit(action: FileAction, meta: LoguxFileMeta): void {
+    this.listeners.forEach(({ filter, callback }) => {
+      if (!filter.type || filter.type === action.type) callback(action, meta)
+    })
+  }
+
+  private async replayOutbox(): Promise<void> {
+    await this.outbox.ready
+    this.inFlight.clear()
+
+    const entries = this.outbox.list()
+    if (entries.length > 0) console.log(`📮 Replaying ${entries.length} queued file actions`)
+    entries.forEach(entry => this.sendQueued(entry.id, entry.action, entry.meta))
+  }
+
+  // Each queued action travels alone so the relay acknowledges it individually
+  private sendQueued(id: string, action: LoguxAction, meta: LoguxFileMeta): void {
+    const added = ++this.localAdded
+    this.inFlight.set(added, id)
+    this.sendSync(added, action, meta)
+  }
+
+  private sendSubscribe(channel: string): void {
+    const action = { type: 'logux/subscribe', channel, since: this.synced[channel] || 0 }
+    this.sendSync(++this.localAdded, action, this.createMeta({}))
+  }
+
+  private sendSync(added: number, action: LoguxAction, meta: LoguxFileMeta): void {
+    this.send(['sync', added, action, meta])
+  }
+
+  private send(message: ClientMessage): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message))
+    }
+  }
+
+  private setState(state: SyncConnectionState): void {
+    if (this.state === state) return
+    this.state = state
+    this.stateListeners.forEach(listener => listener(state))
+  }
+
+  private loadSynced(): Record<string, number> {
+    try {
+      return JSON.parse(localStorage.getItem(SYNCED_KEY_PREFIX + this.userId) || '{}')
+    } catch {
+      return {}
+    }
+  }
+
+  private saveSynced(): void {
+    try {
+      localStorage.setItem(SYNCED_KEY_PREFIX + this.userId, JSON.stringify(this.synced))
+    } catch {
+      // Replay positions are an optimisation; losing them only means a longer replay
+    }
+  }
+}
@@ -0,0 +1,312 @@
+import { Memory, MediaMetadata, GeoLocation } from '../types/memory'
+import { AIAnalysis } from '../types/ai-analysis'
+import { blobToBytes } from './memory-repository'
+
+// EXIF parsing for JPEG photos and the memory fields derived from media
+// analysis. Photo locations are only kept when the user has allowed it.
+
+const LOCATION_CONSENT_KEY = 'etherith_location_consent'
+
+// EXIF lives in the first APP1 segment, well inside this
+const EXIF_SCAN_BYTES = 256 * 1024
+
+const TAGS = {
+  MAKE: 0x010f,
+  MODEL: 0x0110,
+  DATE_TIME: 0x0132,
+  EXIF_IFD: 0x8769,
+  GPS_IFD: 0x8825,
+  DATE_TIME_ORIGINAL: 0x9003,
+  PIXEL_X: 0xa002,
+  PIXEL_Y: 0xa003,
+  GPS_LATITUDE_REF: 0x0001,
+  GPS_LATITUDE: 0x0002,
+  GPS_LONGITUDE_REF: 0x0003,
+  GPS_LONGITUDE: 0x0004,
+  GPS_ALTITUDE_REF: 0x0005,
+  GPS_ALTITUDE: 0x0006
+}
+
+// Bytes per component for the TIFF field types we read
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 }
+
+type IfdValues = Map<number, any>
+
+class TiffReader {
+  private readonly littleEndian: boolean
+
+  constructor(private readonly view: DataView, private readonly start: number) {
+    this.littleEndian = view.getUint16(start) === 0x4949 // 'II'
+    if (view.getUint16(start + 2, this.littleEndian) !== 0x002a) {
+      throw new Error('Invalid TIFF header')
+    }
+  }
+
+  firstIfdOffset(): number {
+    return this.view.getUint32(this.start + 4, this.littleEndian)
+  }
+
+  readIfd(offset: number): IfdValues {
+    const values: IfdValues = new Map()
+    const base = this.start + offset
+    if (base + 2 > this.view.byteLength) return values
+
+    const count = this.view.getUint16(base, this.littleEndian)
+    for (let i = 0; i < count; i++) {
+      const entry = base + 2 + i * 12
+      if (entry + 12 > this.view.byteLength) break
+
+      const tag = this.view.getUint16(entry, this.littleEndian)
+      const type = this.view.getUint16(entry + 2, this.littleEndian)
+      const components = this.view.getUint32(entry + 4, this.littleEndian)
+      const size = (TYPE_SIZES[type] || 0) * components
+      if (size === 0) continue
+
+      // Values over four bytes are stored elsewhere, at an offset from the TIFF header
+      const valueOffset = size > 4 ? this.start + this.view.getUint32(entry + 8, this.littleEndian) : entry + 8
+      if (valueOffset + size > this.view.byteLength) continue
+
+      values.set(tag, this.readValue(type, components, valueOffset))
+    }
+    return values
+  }
+
+  private readValue(type: number, components: number, offset: number): any {
+    const read = (index: number): number => {
+      switch (type) {
+        case 3: return this.view.getUint16(offset + index * 2, this.littleEndian)
+        case 4: return this.view.getUint32(offset + index * 4, this.littleEndian)
+        case 9: return this.view.getInt32(offset + index * 4, this.littleEndian)
+        case 5: {
+          const denominator = this.view.getUint32(offset + index * 8 + 4, this.littleEndian)
+          return denominator ? this.view.getUint32(offset + index * 8, this.littleEndian) / denominator : 0
+        }
+        case 10: {
+          const denominator = this.view.getInt32(offset + index * 8 + 4, this.littleEndian)
+          return denominator ? this.view.getInt32(offset + index * 8, this.littleEndian) / denominator : 0
+        }
+        default: return this.view.getUint8(offset + index)
+      }
+    }
+
+    if (type === 2) {
+      let text = ''
+      for (let i = 0; i < components; i++) {
+        const code = this.view.getUint8(offset + i)
+        if (code === 0) break
+        text += String.fromCharCode(code)
+      }
+      return text.trim()
+    }
+
+    if (components === 1) return read(0)
+    return Array.from({ length: components }, (_, index) => read(index))
+  }
+}
+
+// EXIF dates are local time without a zone: "2019:07:14 18:32:05"
+function parseExifDate(value: unknown): number | undefined {
+  const match = typeof value === 'string' && value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/)
+  if (!match) return undefined
+
+  const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number)
+  if (year < 1900 || month < 1) return undefined
+  return new Date(year, month - 1, day, hours, minutes, seconds).getTime()
+}
+
+function toDegrees(parts: unknown, ref: unknown): number | undefined {
+  if (!Array.isArray(parts) || parts.length < 3) return undefined
+  const degrees = parts[0] + parts[1] / 60 + parts[2] / 3600
+  const signed = ref === 'S' || ref === 'W' ? -degrees : degrees
+  return Math.round(signed * 1e6) / 1e6
+}
+
+export class MediaMetadataService {
+  /**
+   * Parse EXIF from the start of a JPEG. Returns null for other formats or
+   * photos without EXIF; the location is dropped unless `includeLocation`.
+   */
+  static parseExif(buffer: ArrayBuffer, includeLocation: boolean = false): MediaMetadata | null {
+    const view = new DataView(buffer)
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null
+
+    let offset = 2
+    while (offset + 4 <= view.byteLength) {
+      if (view.getUint8(offset) !== 0xff) return null
+
+      const marker = view.getUint8(offset + 1)
+      const length = view.getUint16(offset + 2)
+
+      // APP1 with the "Exif\0\0" signature
+      if (marker === 0xe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+        try {
+          return this.readTiff(new TiffReader(view, offset + 10), includeLocation)
+        } catch (error) {
+          console.warn('⚠️ Could not read EXIF data:', error)
+          return null
+        }
+      }
+
+      // Image data starts at SOS; EXIF always comes before it
+      if (marker === 0xda) return null
+      offset += 2 + length
+    }
+
+    return null
+  }
+
+  static async readExif(file: File, includeLocation: boolean = this.hasLocationConsent()): Promise<MediaMetadata | null> {
+    if (!/^image\/(jpeg|jpg)$/i.test(file.type)) return null
+
+    try {
+      const buffer = await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer()
+      return this.parseExif(buffer, includeLocation)
+    } catch (error) {
+      console.warn('⚠️ Could not read photo metadata:', error)
+      return null
+    }
+  }
+
+  /**
+   * Copy of a JPEG without its APP1 segments (EXIF and XMP), which carry the
+   * GPS position, and without anything after the image, where phones append
+   * preview images with their own EXIF. Other files are returned unchanged;
+   * null when the JPEG can't be walked, so callers don't upload what they
+   * couldn't clean.
+   */
+  static async stripMetadata(file: File): Promise<File | null> {
+    if (!/^image\/(jpeg|jpg)$/i.test(file.type)) return file
+
+    const bytes = await blobToBytes(file)
+    if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) return null
+
+    const parts: Blob[] = [file.slice(0, 2)]
+    let offset = 2
+    while (offset + 2 <= bytes.length) {
+      if (bytes[offset] !== 0xff) return null
+
+      const marker = bytes[offset + 1]
+      if (marker === 0xff) {
+        offset++ // Fill byte
+        continue
+      }
+      if (marker === 0xd9) {
+        parts.push(file.slice(offset, offset + 2))
+        return new File(parts, file.name, { type: file.type, lastModified: file.lastModified })
+      }
+      if (offset + 4 > bytes.length) return null
+
+      let end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3])
+      // Entropy-coded data follows a scan header up to the next marker other
+      // than a stuffed 0xff00 or a restart marker
+      if (marker === 0xda) {
+        while (end + 1 < bytes.length &&
+               !(bytes[end] === 0xff && bytes[end + 1] !== 0 && (bytes[end + 1] < 0xd0 || bytes[end + 1] > 0xd7))) {
+          end++
+        }
+      }
+
+      if (marker !== 0xe1) parts.push(file.slice(offset, end))
+      offset = end
+    }
+
+    return null
+  }
+
+  private static readTiff(reader: TiffReader, includeLocation: boolean): MediaMetadata | null {
+    const ifd0 = reader.readIfd(reader.firstIfdOffset())
+    const exif = ifd0.has(TAGS.EXIF_IFD) ? reader.readIfd(ifd0.get(TAGS.EXIF_IFD)) : new Map()
+
+    const make = ifd0.get(TAGS.MAKE) as string | undefined
+    const model = ifd0.get(TAGS.MODEL) as string | undefined
+    // Models usually repeat the make ("Canon" / "Canon EOS R6")
+    const camera = model && make && !model.toLowerCase().startsWith(make.toLowerCase())
+      ? `${make} ${model}`
+      : model || make
+
+    const metadata: MediaMetadata = {
+      takenAt: parseExifDate(exif.get(TAGS.DATE_TIME_ORIGINAL)) || parseExifDate(ifd0.get(TAGS.DATE_TIME)),
+      camera: camera || undefined,
+      width: exif.get(TAGS.PIXEL_X),
+      height: exif.get(TAGS.PIXEL_Y)
+    }
+
+    if (includeLocation && ifd0.has(TAGS.GPS_IFD)) {
+      metadata.location = this.readLocation(reader.readIfd(ifd0.get(TAGS.GPS_IFD)))
+    }
+
+    const found = Object.keys(metadata).filter(key => metadata[key as keyof MediaMetadata] !== undefined)
+    return found.length > 0 ? metadata : null
+  }
+
+  private static readLocation(gps: IfdValues): GeoLocation | undefined {
+    const latitude = toDegrees(gps.get(TAGS.GPS_LATITUDE), gps.get(TAGS.GPS_LATITUDE_REF))
+    const longitude = toDegrees(gps.get(TAGS.GPS_LONGITUDE), gps.get(TAGS.GPS_LONGITUDE_REF))
+    if (latitude === undefined || longitude === undefined) return undefined
+
+    const altitude = gps.get(TAGS.GPS_ALTITUDE)
+    return {
+      latitude,
+      longitude,
+      altitude: typeof altitude === 'number'
+        ? (gps.get(TAGS.GPS_ALTITUDE_REF) === 1 ? -altitude : altitude)
+        : undefined
+    }
+  }
+
+  /**
+   * One line for text models, e.g. "Taken 14 July 2019 with Canon EOS R6"
+   */
+  static describe(metadata: MediaMetadata | null | undefined): string {
+    if (!metadata) return ''
+
+    const parts = [
+      metadata.takenAt ? `Taken ${new Date(metadata.takenAt).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })}` : '',
+      metadata.camera ? `with ${metadata.camera}` : ''
+    ].filter(Boolean)
+    return parts.join(' ')
+  }
+
+  /**
+   * Memory fields from a file's EXIF and its media analysis. EXIF is read
+   * again so a consent change after analysis is honoured.
+   */
+  static async memoryFields(file: File | undefined, analysis?: AIAnalysis | null): Promise<Partial<Memory>> {
+    const includeLocation = this.hasLocationConsent()
+    const exif = file ? await this.readExif(file, includeLocation) : analysis?.media?.exif
+
+    const fields: Partial<Memory> = {
+      takenAt: exif?.takenAt,
+      camera: exif?.camera,
+      location: includeLocation ? exif?.location : undefined,
+      caption: analysis?.media?.caption || undefined,
+      ocrText: analysis?.media?.ocrText || undefined,
+      transcript: analysis?.media?.transcript || undefined
+    }
+
+    Object.keys(fields).forEach(key => {
+      if (fields[key as keyof Memory] === undefined) delete fields[key as keyof Memory]
+    })
+    return fields
+  }
+
+  /**
+   * The date a memory sits at on the timeline
+   */
+  static getTimelineDate(memory: Pick<Memory, 'timestamp' | 'takenAt'>): number {
+    return memory.takenAt || memory.timestamp
+  }
+
+  static hasLocationConsent(): boolean {
+    if (typeof window === 'undefined') return false
+    return localStorage.getItem(LOCATION_CONSENT_KEY) === 'true'
+  }
+
+  static setLocationConsent(allowed: boolean): void {
+    if (allowed) {
+      localStorage.setItem(LOCATION_CONSENT_KEY, 'true')
+    } else {
+      localStorage.removeItem(LOCATION_CONSENT_KEY)
+    }
+  }
+}
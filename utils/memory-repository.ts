@@ -0,0 +1,331 @@
+import { Memory } from '../types/memory'
+
+// IndexedDB-backed memory repository
+// Metadata and binary file data live in separate object stores so listing
+// memories never has to read file contents.
+
+const DB_NAME = 'EtherithMemories'
+const DB_VERSION = 1
+
+const STORES = {
+  MEMORIES: 'memories',
+  BLOBS: 'blobs',
+  META: 'meta'
+}
+
+const LEGACY_MEMORIES_KEY = 'etherith_memories'
+const MIGRATION_META_KEY = 'localStorageMigration'
+
+export type MemoryIndex = 'timestamp' | 'authorId' | 'visibility' | 'tags'
+
+export interface MemoryRecord extends Omit<Memory, 'fileData'> {
+  hasFileBlob: boolean
+}
+
+export interface MemoryBlobRecord {
+  memoryId: string
+  data: Blob
+  mimeType: string
+  size: number
+  storedAt: number
+}
+
+export interface MigrationResult {
+  migrated: number
+  failed: number
+  alreadyMigrated: boolean
+}
+
+export class MemoryRepository {
+  private static dbPromise: Promise<IDBDatabase> | null = null
+
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined'
+  }
+
+  static open(): Promise<IDBDatabase> {
+    if (!this.isSupported()) {
+      return Promise.reject(new Error('IndexedDB is not available in this environment'))
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+        request.onerror = () => {
+          this.dbPromise = null
+          reject(request.error)
+        }
+        request.onsuccess = () => resolve(request.result)
+
+        request.onupgradeneeded = (event) => {
+          const db = (event.target as IDBOpenDBRequest).result
+
+          // Memory metadata store
+          if (!db.objectStoreNames.contains(STORES.MEMORIES)) {
+            const memoriesStore = db.createObjectStore(STORES.MEMORIES, { keyPath: 'id' })
+            memoriesStore.createIndex('timestamp', 'timestamp', { unique: false })
+            memoriesStore.createIndex('authorId', 'authorId', { unique: false })
+            memoriesStore.createIndex('visibility', 'visibility', { unique: false })
+            memoriesStore.createIndex('tags', 'tags', { unique: false, multiEntry: true })
+          }
+
+          // Binary file data store, keyed by memory id
+          if (!db.objectStoreNames.contains(STORES.BLOBS)) {
+            db.createObjectStore(STORES.BLOBS, { keyPath: 'memoryId' })
+          }
+
+          // Bookkeeping (migrations etc.)
+          if (!db.objectStoreNames.contains(STORES.META)) {
+            db.createObjectStore(STORES.META, { keyPath: 'key' })
+          }
+        }
+      })
+    }
+
+    return this.dbPromise
+  }
+
+  // Memory operations
+
+  static async putMemory(memory: Memory): Promise<void> {
+    const db = await this.open()
+    const { fileData, ...metadata } = memory
+    const blob = fileData && fileData.startsWith('data:') ? dataUrlToBlob(fileData) : null
+
+    // Object URLs point at a blob we already hold, so leave it in place
+    const keepExistingBlob = !!fileData && fileData.startsWith('blob:')
+    const existing = keepExistingBlob ? await this.getMemoryRecord(memory.id) : null
+
+    const record: MemoryRecord = {
+      ...metadata,
+      hasFileBlob: !!blob || (keepExistingBlob && !!existing?.hasFileBlob)
+    }
+
+    const tx = db.transaction([STORES.MEMORIES, STORES.BLOBS], 'readwrite')
+    tx.objectStore(STORES.MEMORIES).put(record)
+
+    if (blob) {
+      const blobRecord: MemoryBlobRecord = {
+        memoryId: memory.id,
+        data: blob,
+        mimeType: blob.type || memory.mimeType || 'application/octet-stream',
+        size: blob.size,
+        storedAt: Date.now()
+      }
+      tx.objectStore(STORES.BLOBS).put(blobRecord)
+    } else if (!keepExistingBlob) {
+      tx.objectStore(STORES.BLOBS).delete(memory.id)
+    }
+
+    await transactionDone(tx)
+  }
+
+  static async getMemoryRecord(id: string): Promise<MemoryRecord | null> {
+    const db = await this.open()
+    const tx = db.transaction(STORES.MEMORIES, 'readonly')
+    const record = await requestToPromise<MemoryRecord | undefined>(tx.objectStore(STORES.MEMORIES).get(id))
+    return record || null
+  }
+
+  static async getAllMemoryRecords(): Promise<MemoryRecord[]> {
+    const db = await this.open()
+    const tx = db.transaction(STORES.MEMORIES, 'readonly')
+    return requestToPromise<MemoryRecord[]>(tx.objectStore(STORES.MEMORIES).getAll())
+  }
+
+  static async queryByIndex(index: MemoryIndex, query: IDBValidKey | IDBKeyRange): Promise<MemoryRecord[]> {
+    const db = await this.open()
+    const tx = db.transaction(STORES.MEMORIES, 'readonly')
+    return requestToPromise<MemoryRecord[]>(tx.objectStore(STORES.MEMORIES).index(index).getAll(query))
+  }
+
+  static async getMemoriesBetween(from: number, to: number): Promise<MemoryRecord[]> {
+    return this.queryByIndex('timestamp', IDBKeyRange.bound(from, to))
+  }
+
+  static async deleteMemory(id: string): Promise<boolean> {
+    const db = await this.open()
+    const existing = await this.getMemoryRecord(id)
+    if (!existing) return false
+
+    const tx = db.transaction([STORES.MEMORIES, STORES.BLOBS], 'readwrite')
+    tx.objectStore(STORES.MEMORIES).delete(id)
+    tx.objectStore(STORES.BLOBS).delete(id)
+    await transactionDone(tx)
+    return true
+  }
+
+  // Blob operations
+
+  static async getBlob(memoryId: string): Promise<Blob | null> {
+    const db = await this.open()
+    const tx = db.transaction(STORES.BLOBS, 'readonly')
+    const record = await requestToPromise<MemoryBlobRecord | undefined>(tx.objectStore(STORES.BLOBS).get(memoryId))
+    return record ? record.data : null
+  }
+
+  static async getAllBlobs(): Promise<MemoryBlobRecord[]> {
+    const db = await this.open()
+    const tx = db.transaction(STORES.BLOBS, 'readonly')
+    return requestToPromise<MemoryBlobRecord[]>(tx.objectStore(STORES.BLOBS).getAll())
+  }
+
+  static async getFileDataUrl(memoryId: string): Promise<string | undefined> {
+    const blob = await this.getBlob(memoryId)
+    return blob ? blobToDataUrl(blob) : undefined
+  }
+
+  static async deleteBlob(memoryId: string): Promise<void> {
+    const db = await this.open()
+    const record = await this.getMemoryRecord(memoryId)
+
+    const tx = db.transaction([STORES.MEMORIES, STORES.BLOBS], 'readwrite')
+    tx.objectStore(STORES.BLOBS).delete(memoryId)
+    if (record) {
+      tx.objectStore(STORES.MEMORIES).put({ ...record, hasFileBlob: false })
+    }
+    await transactionDone(tx)
+  }
+
+  // Maintenance
+
+  static async clear(): Promise<void> {
+    const db = await this.open()
+    const tx = db.transaction([STORES.MEMORIES, STORES.BLOBS], 'readwrite')
+    tx.objectStore(STORES.MEMORIES).clear()
+    tx.objectStore(STORES.BLOBS).clear()
+    await transactionDone(tx)
+  }
+
+  static async estimateUsage(): Promise<{ usage: number; quota: number } | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+      return null
+    }
+
+    const estimate = await navigator.storage.estimate()
+    return {
+      usage: estimate.usage || 0,
+      quota: estimate.quota || 0
+    }
+  }
+
+  static async requestPersistence(): Promise<boolean> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.persist) {
+      return false
+    }
+
+    try {
+      return await navigator.storage.persist()
+    } catch {
+      return false
+    }
+  }
+
+  // Legacy migration
+
+  /**
+   * Copy memories from the old `etherith_memories` localStorage blob into
+   * IndexedDB. The legacy key is only removed once every memory was written.
+   */
+  static async migrateFromLocalStorage(): Promise<MigrationResult> {
+    const db = await this.open()
+    const metaTx = db.transaction(STORES.META, 'readonly')
+    const previous = await requestToPromise<{ key: string; completedAt: number } | undefined>(
+      metaTx.objectStore(STORES.META).get(MIGRATION_META_KEY)
+    )
+
+    const legacyData = localStorage.getItem(LEGACY_MEMORIES_KEY)
+    if (!legacyData) {
+      return { migrated: 0, failed: 0, alreadyMigrated: !!previous }
+    }
+
+    let legacyMemories: Memory[]
+    try {
+      legacyMemories = JSON.parse(legacyData)
+    } catch (error) {
+      console.error('❌ Unable to parse legacy memories, leaving them in localStorage:', error)
+      return { migrated: 0, failed: 0, alreadyMigrated: !!previous }
+    }
+
+    let migrated = 0
+    let failed = 0
+
+    for (const memory of legacyMemories) {
+      try {
+        // Never overwrite a newer copy that is already in IndexedDB
+        const existing = await this.getMemoryRecord(memory.id)
+        if (!existing) {
+          await this.putMemory(memory)
+        }
+        migrated++
+      } catch (error) {
+        console.error(`❌ Failed to migrate memory ${memory.id}:`, error)
+        failed++
+      }
+    }
+
+    if (failed === 0) {
+      const tx = db.transaction(STORES.META, 'readwrite')
+      tx.objectStore(STORES.META).put({ key: MIGRATION_META_KEY, completedAt: Date.now(), migrated })
+      await transactionDone(tx)
+      localStorage.removeItem(LEGACY_MEMORIES_KEY)
+    }
+
+    console.log(`📦 Migrated ${migrated} memories from localStorage to IndexedDB (${failed} failed)`)
+    return { migrated, failed, alreadyMigrated: false }
+  }
+}
+
+// IndexedDB helpers
+
+function requestToPromise<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'))
+  })
+}
+
+// Data URL conversion
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, payload = ''] = dataUrl.split(',')
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'application/octet-stream'
+
+  if (header.includes(';base64')) {
+    const binary = atob(payload)
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i)
+    }
+    return new Blob([bytes], { type: mimeType })
+  }
+
+  return new Blob([decodeURIComponent(payload)], { type: mimeType })
+}
+
+export function blobToBytes(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer))
+    reader.onerror = () => reject(new Error('Failed to read blob'))
+    reader.readAsArrayBuffer(blob)
+  })
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(new Error('Failed to read blob'))
+    reader.readAsDataURL(blob)
+  })
+}
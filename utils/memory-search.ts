@@ -0,0 +1,389 @@
+import { Memory, MemoryEmbedding, SearchFilters } from '../types/memory'
+import { MemoryDiscovery, RegistrySearchFilters, RegistrySearchResult } from '../types/registry'
+import { InvertedIndex, SearchField } from './search-index'
+import { VectorIndex, cosineSimilarity } from './vector-index'
+import { LocalStorage } from './storage'
+import { RegistryManager } from './registry'
+import { MediaMetadataService } from './media-metadata'
+import { AIAnalysisService } from './ai-analysis'
+import { LexiconAnalysisEngine, LEXICON_EMBEDDING_MODEL } from './ai-analysis/lexicon-engine'
+import { embeddingText } from './ai-analysis/input'
+
+// One search over our own memories and memories discovered through registry
+// subscriptions. The indexes are built on first use and kept current by
+// LocalStorage and RegistryManager as memories are saved and removed.
+//
+// Semantic search compares embeddings, with one vector index per embedding
+// model since vectors from different models cannot be compared. Memories
+// without a vector from the query's model are embedded as they are needed,
+// except private and encrypted ones: their text is never sent off the device,
+// so they only have the vector made when they were analysed.
+
+const LOCAL_PREFIX = 'local:'
+const DISCOVERED_PREFIX = 'discovered:'
+
+const EMBED_BATCH_SIZE = 16
+// Bounds the requests one search makes; the rest are embedded by later searches
+const MAX_EMBEDS_PER_SEARCH = 64
+const MAX_SEMANTIC_RESULTS = 50
+// Unrelated texts score near 0 with hashed word vectors, while sentence
+// models rarely put any two texts below 0.4
+const MIN_SEMANTIC_SCORES: Record<string, number> = {
+  [LEXICON_EMBEDDING_MODEL]: 0.2,
+  '@cf/baai/bge-small-en-v1.5': 0.6
+}
+const DEFAULT_MIN_SEMANTIC_SCORE = 0.5
+const RELATED_LIMIT = 6
+
+export interface MemorySearchOptions extends Omit<SearchFilters, 'query'> {
+  includeDiscovered?: boolean
+  limit?: number
+}
+
+export interface MemorySearchResult {
+  source: 'local' | 'discovered'
+  memory: Memory
+  discovery?: MemoryDiscovery
+  score: number // BM25 relevance or cosine similarity, 0 when there is no query
+  matchedTerms: string[]
+}
+
+function minSemanticScore(model: string): number {
+  return MIN_SEMANTIC_SCORES[model] ?? DEFAULT_MIN_SEMANTIC_SCORE
+}
+
+function isPrivate(memory: Memory): boolean {
+  return memory.visibility === 'private' || !!memory.encrypted || !!memory.contentKey
+}
+
+// Restricted entries were shared with us, not with the embedding worker
+function isPrivateDiscovery(discovery: MemoryDiscovery): boolean {
+  return !!discovery.memory.sealed || discovery.memory.sharingPermissions !== 'public' || !!discovery.memory.contentKey
+}
+
+export class MemorySearchService {
+  private static index: InvertedIndex | null = null
+  private static vectorIndexes = new Map<string, VectorIndex>()
+
+  static search(query: string, options: MemorySearchOptions = {}): MemorySearchResult[] {
+    const candidates = this.getCandidates(options)
+    let results: MemorySearchResult[]
+
+    if (query.trim()) {
+      const byId = new Map(candidates.map(result => [this.getDocumentId(result), result]))
+      results = this.getIndex().search(query)
+        .filter(hit => byId.has(hit.id))
+        .map(hit => ({ ...byId.get(hit.id)!, score: hit.score, matchedTerms: hit.matchedTerms }))
+    } else {
+      results = candidates.sort((a, b) =>
+        MediaMetadataService.getTimelineDate(b.memory) - MediaMetadataService.getTimelineDate(a.memory))
+    }
+
+    return options.limit ? results.slice(0, options.limit) : results
+  }
+
+  /**
+   * Search by meaning ("memories about my grandmother's garden") rather than
+   * by the words used. Takes the same filters as `search`.
+   */
+  static async semanticSearch(query: string, options: MemorySearchOptions = {}): Promise<MemorySearchResult[]> {
+    if (!query.trim()) return this.search(query, options)
+
+    const [queryEmbedding] = await AIAnalysisService.embed([query])
+    const candidates = this.getCandidates(options)
+    await this.embedMissing(candidates, queryEmbedding.model)
+
+    const byId = new Map(candidates.map(result => [this.getDocumentId(result), result]))
+    return this.getVectorIndex(queryEmbedding.model)
+      .search(queryEmbedding.vector, { minScore: minSemanticScore(queryEmbedding.model) })
+      .filter(hit => byId.has(hit.id))
+      .map(hit => ({ ...byId.get(hit.id)!, score: hit.score }))
+      .slice(0, options.limit || MAX_SEMANTIC_RESULTS)
+  }
+
+  /**
+   * Memories closest in meaning to this one: our own memories, public ones
+   * and memories discovered through subscriptions
+   */
+  static async related(memory: Memory, limit: number = RELATED_LIMIT): Promise<MemorySearchResult[]> {
+    const embedding = memory.embedding || (isPrivate(memory)
+      ? LexiconAnalysisEngine.embed(embeddingText(memory))
+      : (await AIAnalysisService.embed([embeddingText(memory)]))[0])
+
+    const userId = LocalStorage.getUserProfile()?.id
+    const byId = new Map<string, MemorySearchResult>()
+    this.getCandidates({ includeDiscovered: true })
+      .concat(userId ? this.getCandidates({ authorId: userId }) : [])
+      .filter(result => result.memory.id !== memory.id)
+      .forEach(result => byId.set(this.getDocumentId(result), result))
+
+    const candidates = Array.from(byId.values())
+    await this.embedMissing(candidates, embedding.model)
+
+    return this.getVectorIndex(embedding.model)
+      .search(embedding.vector, { minScore: minSemanticScore(embedding.model) })
+      .filter(hit => byId.has(hit.id))
+      .slice(0, limit)
+      .map(hit => ({ ...byId.get(hit.id)!, score: hit.score }))
+  }
+
+  /**
+   * Registry search: discovered memories grouped by the registry they came
+   * from, registries ordered by their best match.
+   */
+  static searchRegistries(filters: RegistrySearchFilters): RegistrySearchResult[] {
+    const groups = new Map<string, { matches: MemorySearchResult[]; relevanceScore: number }>()
+
+    this.searchDiscovered(filters).forEach(result => {
+      const registryId = result.discovery!.registryId
+      const group = groups.get(registryId) || { matches: [], relevanceScore: 0 }
+      group.matches.push(result)
+      group.relevanceScore = Math.max(group.relevanceScore, result.score)
+      groups.set(registryId, group)
+    })
+
+    return Array.from(groups.values())
+      .map(({ matches, relevanceScore }) => {
+        const { discovery } = matches[0]
+        return {
+          registryId: discovery!.registryId,
+          registryCid: discovery!.registryCid,
+          authorName: discovery!.memory.authorName,
+          authorAvatar: discovery!.memory.authorAvatar,
+          memories: matches.map(match => match.discovery!.memory),
+          totalMatches: matches.length,
+          relevanceScore,
+          lastUpdated: Math.max(...matches.map(match => match.discovery!.discoveredAt))
+        }
+      })
+      .sort((a, b) => b.relevanceScore - a.relevanceScore || b.lastUpdated - a.lastUpdated)
+  }
+
+  static searchDiscovered(filters: RegistrySearchFilters): MemorySearchResult[] {
+    return this.search(filters.query || '', {
+      fileType: filters.fileType,
+      tags: filters.tags,
+      dateFrom: filters.dateFrom,
+      dateTo: filters.dateTo,
+      includeDiscovered: true
+    }).filter(result => {
+      if (result.source !== 'discovered') return false
+
+      const entry = result.discovery!.memory
+      if (filters.authorName && !entry.authorName.toLowerCase().includes(filters.authorName.toLowerCase())) return false
+      if (filters.registryIds && !filters.registryIds.includes(result.discovery!.registryId)) return false
+      if (filters.minSize !== undefined && (entry.fileSize || 0) < filters.minSize) return false
+      if (filters.maxSize !== undefined && (entry.fileSize || 0) > filters.maxSize) return false
+      return true
+    })
+  }
+
+  // Index maintenance, called by LocalStorage and RegistryManager
+
+  static indexMemory(memory: Memory): void {
+    this.index?.add(LOCAL_PREFIX + memory.id, this.getMemoryFields(memory))
+    this.vectorIndexes.forEach((index, model) => {
+      this.addVector(index, model, LOCAL_PREFIX + memory.id, memory, memory.embedding)
+    })
+  }
+
+  static removeMemory(memoryId: string): void {
+    this.index?.remove(LOCAL_PREFIX + memoryId)
+    this.vectorIndexes.forEach(index => index.remove(LOCAL_PREFIX + memoryId))
+  }
+
+  static indexDiscovery(discovery: MemoryDiscovery): void {
+    this.index?.add(DISCOVERED_PREFIX + discovery.id, this.getMemoryFields(discovery.memory))
+    this.vectorIndexes.forEach((index, model) => {
+      this.addVector(index, model, DISCOVERED_PREFIX + discovery.id, discovery.memory, discovery.embedding)
+    })
+  }
+
+  static removeDiscovery(discoveryId: string): void {
+    this.index?.remove(DISCOVERED_PREFIX + discoveryId)
+    this.vectorIndexes.forEach(index => index.remove(DISCOVERED_PREFIX + discoveryId))
+  }
+
+  // Drop the indexes so the next search rebuilds them from storage
+  static invalidate(): void {
+    this.index = null
+    this.vectorIndexes.clear()
+  }
+
+  static discoveryToMemory(discovery: MemoryDiscovery): Memory {
+    const { registryVersion, sharingPermissions, contentHash, sealed, ...entry } = discovery.memory
+    return {
+      ...entry,
+      visibility: 'public',
+      sharingPermission: sharingPermissions,
+      embedding: discovery.embedding
+    }
+  }
+
+  private static getIndex(): InvertedIndex {
+    if (!this.index) {
+      const index = new InvertedIndex()
+      LocalStorage.getAllMemories().forEach(memory => {
+        index.add(LOCAL_PREFIX + memory.id, this.getMemoryFields(memory))
+      })
+      RegistryManager.getDiscoveredMemories().forEach(discovery => {
+        index.add(DISCOVERED_PREFIX + discovery.id, this.getMemoryFields(discovery.memory))
+      })
+      this.index = index
+    }
+    return this.index
+  }
+
+  private static getVectorIndex(model: string): VectorIndex {
+    let index = this.vectorIndexes.get(model)
+    if (!index) {
+      const created = new VectorIndex()
+      LocalStorage.getAllMemories().forEach(memory => {
+        this.addVector(created, model, LOCAL_PREFIX + memory.id, memory, memory.embedding)
+      })
+      RegistryManager.getDiscoveredMemories().forEach(discovery => {
+        this.addVector(created, model, DISCOVERED_PREFIX + discovery.id, discovery.memory, discovery.embedding)
+      })
+      this.vectorIndexes.set(model, created)
+      index = created
+    }
+    return index
+  }
+
+  // Hashed word vectors are cheap enough to compute for every memory, so
+  // that index never waits on stored embeddings
+  private static addVector(
+    index: VectorIndex,
+    model: string,
+    id: string,
+    memory: Parameters<typeof embeddingText>[0],
+    embedding: MemoryEmbedding | undefined
+  ): void {
+    try {
+      if (embedding?.model === model) {
+        index.add(id, embedding.vector)
+      } else if (model === LEXICON_EMBEDDING_MODEL) {
+        index.add(id, LexiconAnalysisEngine.embed(embeddingText(memory)).vector)
+      } else {
+        index.remove(id)
+      }
+    } catch (error) {
+      console.warn('⚠️ Skipping embedding for', id, error)
+      index.remove(id)
+    }
+  }
+
+  /**
+   * Embed candidates that have no vector from `model` and store the vectors
+   * with the memories. Our own memories go first so discoveries can be
+   * scored against them.
+   */
+  private static async embedMissing(results: MemorySearchResult[], model: string): Promise<void> {
+    if (model === LEXICON_EMBEDDING_MODEL) return
+
+    // Build the index first so the vectors saved below are added to it
+    this.getVectorIndex(model)
+    const missing = results
+      .filter(result => result.discovery ? !isPrivateDiscovery(result.discovery) : !isPrivate(result.memory))
+      .filter(result => (result.discovery ? result.discovery.embedding : result.memory.embedding)?.model !== model)
+      .sort((a, b) => Number(!!a.discovery) - Number(!!b.discovery))
+      .slice(0, MAX_EMBEDS_PER_SEARCH)
+
+    for (let start = 0; start < missing.length; start += EMBED_BATCH_SIZE) {
+      const batch = missing.slice(start, start + EMBED_BATCH_SIZE)
+      const embeddings = await AIAnalysisService.embed(batch.map(result => embeddingText(result.memory)))
+
+      // The backend fell back to another model; those vectors are no use here
+      if (embeddings.some(embedding => embedding.model !== model)) {
+        console.warn(`⚠️ Could not embed memories with ${model}`)
+        return
+      }
+
+      batch.forEach((result, index) => {
+        const embedding = embeddings[index]
+        if (result.discovery) {
+          const discovery = { ...result.discovery, embedding, relevanceScore: this.scoreDiscovery(embedding) }
+          RegistryManager.updateDiscoveredMemory(discovery)
+          result.discovery = discovery
+        } else {
+          result.memory = { ...result.memory, embedding }
+          LocalStorage.saveMemory(result.memory)
+        }
+      })
+    }
+  }
+
+  // How close a discovered memory is to our own: the mean similarity to
+  // the three nearest of our memories, 0 to 1
+  private static scoreDiscovery(embedding: MemoryEmbedding): number {
+    const index = this.getVectorIndex(embedding.model)
+    const similarities = LocalStorage.getAllMemories()
+      .map(memory => index.get(LOCAL_PREFIX + memory.id))
+      .filter((vector): vector is number[] => !!vector)
+      .map(vector => cosineSimilarity(embedding.vector, vector))
+      .sort((a, b) => b - a)
+      .slice(0, 3)
+
+    if (similarities.length === 0) return 0
+    const mean = similarities.reduce((sum, value) => sum + value, 0) / similarities.length
+    return Math.round(Math.max(mean, 0) * 100) / 100
+  }
+
+  private static getMemoryFields(
+    memory: Pick<Memory, 'title' | 'content' | 'memoryNote' | 'tags' | 'authorName' | 'fileName'> &
+      Partial<Pick<Memory, 'caption' | 'ocrText' | 'transcript'>>
+  ): SearchField[] {
+    return [
+      { text: memory.title, weight: 3 },
+      { text: memory.tags?.join(' '), weight: 2 },
+      { text: memory.content },
+      { text: memory.memoryNote },
+      { text: memory.caption },
+      { text: memory.ocrText },
+      { text: memory.transcript },
+      { text: memory.authorName },
+      { text: memory.fileName }
+    ]
+  }
+
+  // Memories that pass the filters, before any text matching
+  private static getCandidates(options: MemorySearchOptions): MemorySearchResult[] {
+    const matchesFilters = (memory: Memory) =>
+      (!options.fileType || memory.fileType === options.fileType) &&
+      (!options.authorId || memory.authorId === options.authorId) &&
+      (!options.tags || options.tags.length === 0 || (memory.tags || []).some(tag => options.tags!.includes(tag))) &&
+      (!options.dateFrom || MediaMetadataService.getTimelineDate(memory) >= options.dateFrom) &&
+      (!options.dateTo || MediaMetadataService.getTimelineDate(memory) <= options.dateTo)
+
+    const local: MemorySearchResult[] = LocalStorage.getAllMemories()
+      .filter(memory => options.visibility
+        ? memory.visibility === options.visibility
+        // Without an author only public memories are searchable
+        : options.authorId || memory.visibility === 'public')
+      .filter(matchesFilters)
+      .map(memory => ({ source: 'local', memory, score: 0, matchedTerms: [] }))
+
+    if (!options.includeDiscovered || options.visibility === 'private') {
+      return local
+    }
+
+    // Our own memories come back to us through our registry; keep the local copy
+    const localIds = new Set(LocalStorage.getAllMemories().map(memory => memory.id))
+    const discovered: MemorySearchResult[] = RegistryManager.getDiscoveredMemories()
+      .filter(discovery => !localIds.has(discovery.memory.id))
+      .map(discovery => ({
+        source: 'discovered' as const,
+        memory: this.discoveryToMemory(discovery),
+        discovery,
+        score: 0,
+        matchedTerms: []
+      }))
+      .filter(result => matchesFilters(result.memory))
+
+    return local.concat(discovered)
+  }
+
+  private static getDocumentId(result: MemorySearchResult): string {
+    return result.discovery ? DISCOVERED_PREFIX + result.discovery.id : LOCAL_PREFIX + result.memory.id
+  }
+}
@@ -0,0 +1,45 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { InMemoryMemoryStore } from './memory-store'
+import { MemoryStoreData, MemoryStoreName } from './types'
+
+// JSON file store for self-hosting
+// Everything lives in one file under MEMORY_STORE_DIR (default ./.data). Writes
+// go to a temporary file that is renamed into place, so a crash mid-write
+// leaves the previous version intact.
+
+const STORE_FILE = 'memories.json'
+
+export class FileMemoryStore extends InMemoryMemoryStore {
+  readonly name: MemoryStoreName = 'file'
+  private readonly filePath: string
+
+  constructor(directory: string = process.env.MEMORY_STORE_DIR || path.join(process.cwd(), '.data')) {
+    super()
+    this.filePath = path.join(directory, STORE_FILE)
+  }
+
+  protected async load(): Promise<MemoryStoreData> {
+    try {
+      const data: Partial<MemoryStoreData> = JSON.parse(await fs.readFile(this.filePath, 'utf8'))
+      return {
+        memories: data.memories || {},
+        reactions: data.reactions || [],
+        comments: data.comments || []
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { memories: {}, reactions: [], comments: [] }
+      }
+      throw error
+    }
+  }
+
+  protected async persist(data: MemoryStoreData): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+    const tempPath = `${this.filePath}.${randomUUID()}.tmp`
+    await fs.writeFile(tempPath, JSON.stringify(data))
+    await fs.rename(tempPath, this.filePath)
+  }
+}
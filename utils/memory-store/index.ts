@@ -0,0 +1,40 @@
+import { MemoryStore, MemoryStoreName } from './types'
+import { InMemoryMemoryStore } from './memory-store'
+import { FileMemoryStore } from './file-store'
+
+// Server-side entry point for memory storage behind /api/memories. The backend
+// is chosen with MEMORY_STORE=file|memory and defaults to the file store.
+
+export type { MemoryListOptions, MemoryPage, MemoryStore, MemoryStoreData, MemoryStoreName } from './types'
+export { InMemoryMemoryStore, FileMemoryStore }
+export { queryMemories, isVisibleTo } from './query'
+export { parseMemoryInput } from './validation'
+
+// Kept on globalThis so dev hot reloads and separately bundled API routes share
+// one store instead of each loading their own copy of the data
+const globalStore = globalThis as typeof globalThis & { __etherithMemoryStore?: MemoryStore | null }
+
+export function getMemoryStore(): MemoryStore {
+  if (!globalStore.__etherithMemoryStore) {
+    const store = createMemoryStore((process.env.MEMORY_STORE as MemoryStoreName | undefined) || 'file')
+    console.log(`🗃️ Using ${store.name} memory store`)
+    globalStore.__etherithMemoryStore = store
+  }
+  return globalStore.__etherithMemoryStore
+}
+
+// Swap the active store (tests, or wiring a custom backend)
+export function setMemoryStore(next: MemoryStore | null): void {
+  globalStore.__etherithMemoryStore = next
+}
+
+export function createMemoryStore(name: MemoryStoreName): MemoryStore {
+  switch (name) {
+    case 'file':
+      return new FileMemoryStore()
+    case 'memory':
+      return new InMemoryMemoryStore()
+    default:
+      throw new Error(`Unknown memory store: ${name}`)
+  }
+}
@@ -0,0 +1,111 @@
+import { Memory, MemoryComment, MemoryReaction } from '../../types/memory'
+import { MemoryListOptions, MemoryPage, MemoryStore, MemoryStoreData, MemoryStoreName } from './types'
+import { queryMemories } from './query'
+
+// Process-local store for tests and development; contents are lost on restart.
+// The file store reuses this logic and only swaps how data is loaded and saved.
+
+export class InMemoryMemoryStore implements MemoryStore {
+  readonly name: MemoryStoreName = 'memory'
+  private data: MemoryStoreData = { memories: {}, reactions: [], comments: [] }
+  private queue: Promise<unknown> = Promise.resolve()
+
+  async listMemories(options: MemoryListOptions): Promise<MemoryPage> {
+    const data = await this.read()
+    return queryMemories(Object.values(data.memories), options)
+  }
+
+  async getMemory(id: string): Promise<Memory | null> {
+    return (await this.read()).memories[id] || null
+  }
+
+  saveMemory(memory: Memory): Promise<Memory> {
+    return this.update(data => {
+      data.memories[memory.id] = memory
+      return memory
+    })
+  }
+
+  deleteMemory(id: string): Promise<boolean> {
+    return this.update(data => {
+      if (!data.memories[id]) return false
+      delete data.memories[id]
+      data.reactions = data.reactions.filter(r => r.memoryId !== id)
+      data.comments = data.comments.filter(c => c.memoryId !== id)
+      return true
+    })
+  }
+
+  async getReactions(memoryId: string): Promise<MemoryReaction[]> {
+    return (await this.read()).reactions.filter(r => r.memoryId === memoryId)
+  }
+
+  setReaction(reaction: MemoryReaction): Promise<MemoryReaction> {
+    return this.update(data => {
+      data.reactions = data.reactions
+        .filter(r => !(r.memoryId === reaction.memoryId && r.userId === reaction.userId))
+        .concat(reaction)
+      return reaction
+    })
+  }
+
+  removeReaction(memoryId: string, userId: string): Promise<boolean> {
+    return this.update(data => {
+      const remaining = data.reactions.filter(r => !(r.memoryId === memoryId && r.userId === userId))
+      const removed = remaining.length < data.reactions.length
+      data.reactions = remaining
+      return removed
+    })
+  }
+
+  async getComments(memoryId: string): Promise<MemoryComment[]> {
+    return (await this.read()).comments
+      .filter(c => c.memoryId === memoryId)
+      .sort((a, b) => a.timestamp - b.timestamp)
+  }
+
+  async getComment(commentId: string): Promise<MemoryComment | null> {
+    return (await this.read()).comments.find(c => c.id === commentId) || null
+  }
+
+  addComment(comment: MemoryComment): Promise<MemoryComment> {
+    return this.update(data => {
+      data.comments.push(comment)
+      return comment
+    })
+  }
+
+  deleteComment(commentId: string): Promise<boolean> {
+    return this.update(data => {
+      const remaining = data.comments.filter(c => c.id !== commentId)
+      const removed = remaining.length < data.comments.length
+      data.comments = remaining
+      return removed
+    })
+  }
+
+  protected async load(): Promise<MemoryStoreData> {
+    return this.data
+  }
+
+  protected async persist(data: MemoryStoreData): Promise<void> {
+    this.data = data
+  }
+
+  private read(): Promise<MemoryStoreData> {
+    // Wait for pending writes so reads see them
+    return this.queue.then(() => this.load())
+  }
+
+  // Writes run one at a time so concurrent requests never lose each other's changes
+  private update<T>(mutate: (data: MemoryStoreData) => T): Promise<T> {
+    const run = this.queue.then(async () => {
+      const data = await this.load()
+      const result = mutate(data)
+      await this.persist(data)
+      return result
+    })
+    this.queue = run.catch(() => undefined)
+    return run
+  }
+}
@@ -0,0 +1,48 @@
+import { Memory } from '../../types/memory'
+import { InvertedIndex } from '../search-index'
+import { MemoryListOptions, MemoryPage } from './types'
+
+// Owners see all of their memories, everyone else only public ones
+export function isVisibleTo(memory: Memory, viewerId: string): boolean {
+  return memory.authorId === viewerId || memory.visibility === 'public'
+}
+
+/**
+ * Apply access rules and SearchFilters to a set of memories. Text queries are
+ * ranked with the same BM25 index the client uses; without a query the
+ * newest memories come first.
+ */
+export function queryMemories(memories: Memory[], options: MemoryListOptions): MemoryPage {
+  let matches = memories.filter(memory =>
+    isVisibleTo(memory, options.viewerId) &&
+    (!options.visibility || memory.visibility === options.visibility) &&
+    (!options.fileType || memory.fileType === options.fileType) &&
+    (!options.authorId || memory.authorId === options.authorId) &&
+    (!options.tags || options.tags.length === 0 || (memory.tags || []).some(tag => options.tags!.includes(tag))) &&
+    (!options.dateFrom || memory.timestamp >= options.dateFrom) &&
+    (!options.dateTo || memory.timestamp <= options.dateTo)
+  )
+
+  if (options.query && options.query.trim()) {
+    const index = new InvertedIndex()
+    matches.forEach(memory => index.add(memory.id, [
+      { text: memory.title, weight: 3 },
+      { text: memory.tags?.join(' '), weight: 2 },
+      { text: memory.content },
+      { text: memory.memoryNote },
+      { text: memory.authorName },
+      { text: memory.fileName }
+    ]))
+
+    const byId = new Map(matches.map(memory => [memory.id, memory]))
+    matches = index.search(options.query).map(hit => byId.get(hit.id)!)
+  } else {
+    matches.sort((a, b) => b.timestamp - a.timestamp)
+  }
+
+  const offset = options.offset || 0
+  return {
+    memories: matches.slice(offset, options.limit ? offset + options.limit : undefined),
+    total: matches.length
+  }
+}
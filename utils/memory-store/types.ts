@@ -0,0 +1,40 @@
+import { Memory, MemoryComment, MemoryReaction, SearchFilters } from '../../types/memory'
+
+// Common contract for server-side memory storage backends
+
+export type MemoryStoreName = 'file' | 'memory'
+
+export interface MemoryListOptions extends SearchFilters {
+  viewerId: string // Sees their own memories plus everyone's public ones
+  limit?: number
+  offset?: number
+}
+
+export interface MemoryPage {
+  memories: Memory[]
+  total: number // Matches before limit/offset
+}
+
+export interface MemoryStoreData {
+  memories: Record<string, Memory>
+  reactions: MemoryReaction[]
+  comments: MemoryComment[]
+}
+
+export interface MemoryStore {
+  readonly name: MemoryStoreName
+
+  listMemories(options: MemoryListOptions): Promise<MemoryPage>
+  getMemory(id: string): Promise<Memory | null>
+  saveMemory(memory: Memory): Promise<Memory>
+  deleteMemory(id: string): Promise<boolean> // Also removes the memory's reactions and comments
+
+  getReactions(memoryId: string): Promise<MemoryReaction[]>
+  setReaction(reaction: MemoryReaction): Promise<MemoryReaction> // Replaces the user's previous reaction
+  removeReaction(memoryId: string, userId: string): Promise<boolean>
+
+  getComments(memoryId: string): Promise<MemoryComment[]>
+  getComment(commentId: string): Promise<MemoryComment | null>
+  addComment(comment: MemoryComment): Promise<MemoryComment>
+  deleteComment(commentId: string): Promise<boolean>
+}
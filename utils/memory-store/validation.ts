@@ -0,0 +1,71 @@
+import { Memory } from '../../types/memory'
+
+// Request body checks for /api/memories. Clients may set the memory's own
+// fields; ownership (authorId/authorName) always comes from the session.
+
+const FILE_TYPES: Memory['fileType'][] = ['text', 'document', 'audio', 'image', 'video']
+const VISIBILITIES: Memory['visibility'][] = ['public', 'private']
+const SHARING_PERMISSIONS = ['public', 'subscribers-only', 'invite-only']
+
+const STRING_FIELDS = [
+  'title', 'content', 'memoryNote', 'fileName', 'mimeType', 'ipfsCid', 'ipfsUrl',
+  'ipfsGatewayUrl', 'thumbnailUrl', 'encryptionKeyId'
+] as const
+
+const MEMORY_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/
+
+export type MemoryInput = Partial<Omit<Memory, 'authorId' | 'authorName' | 'authorAvatar' | 'fileData'>>
+
+export function parseMemoryInput(body: unknown, partial: boolean): { input?: MemoryInput; error?: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Request body must be a memory object' }
+  }
+
+  const raw = body as Record<string, unknown>
+  const input: MemoryInput = {}
+
+  for (const field of STRING_FIELDS) {
+    if (raw[field] === undefined) continue
+    if (typeof raw[field] !== 'string') return { error: `${field} must be a string` }
+    input[field] = raw[field] as string
+  }
+
+  if (raw.id !== undefined) {
+    if (typeof raw.id !== 'string' || !MEMORY_ID_PATTERN.test(raw.id)) return { error: 'id must be 1-64 letters, digits, _ or -' }
+    input.id = raw.id
+  }
+  if (raw.visibility !== undefined) {
+    if (!VISIBILITIES.includes(raw.visibility as Memory['visibility'])) return { error: 'visibility must be public or private' }
+    input.visibility = raw.visibility as Memory['visibility']
+  }
+  if (raw.fileType !== undefined) {
+    if (!FILE_TYPES.includes(raw.fileType as Memory['fileType'])) return { error: `fileType must be one of ${FILE_TYPES.join(', ')}` }
+    input.fileType = raw.fileType as Memory['fileType']
+  }
+  if (raw.sharingPermission !== undefined) {
+    if (!SHARING_PERMISSIONS.includes(raw.sharingPermission as string)) return { error: `sharingPermission must be one of ${SHARING_PERMISSIONS.join(', ')}` }
+    input.sharingPermission = raw.sharingPermission as Memory['sharingPermission']
+  }
+  if (raw.tags !== undefined) {
+    if (!Array.isArray(raw.tags) || raw.tags.some(tag => typeof tag !== 'string')) return { error: 'tags must be an array of strings' }
+    input.tags = raw.tags as string[]
+  }
+  for (const field of ['timestamp', 'fileSize', 'requiredReplicas'] as const) {
+    if (raw[field] === undefined) continue
+    if (typeof raw[field] !== 'number' || !Number.isFinite(raw[field])) return { error: `${field} must be a number` }
+    input[field] = raw[field] as number
+  }
+  if (raw.encrypted !== undefined) {
+    if (typeof raw.encrypted !== 'boolean') return { error: 'encrypted must be a boolean' }
+    input.encrypted = raw.encrypted
+  }
+
+  if (!partial) {
+    if (!input.title?.trim()) return { error: 'title is required' }
+    if (!input.fileType) return { error: 'fileType is required' }
+  } else if (input.title !== undefined && !input.title.trim()) {
+    return { error: 'title cannot be empty' }
+  }
+
+  return { input }
+}
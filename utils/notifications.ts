@@ -0,0 +1,278 @@
+import { Notification, NotificationPreferences, NotificationType } from '../types/notification'
+import { Memory, MemoryComment, MemoryReaction } from '../types/memory'
+import { UserRegistry, SyncOperation } from '../types/registry'
+
+const NOTIFICATION_STORAGE_KEYS = {
+  NOTIFICATIONS: 'etherith_notifications',
+  DISMISSED: 'etherith_notifications_dismissed',
+  PREFERENCES: 'etherith_notification_prefs'
+}
+
+// Window event fired whenever the stored notifications or preferences change
+export const NOTIFICATIONS_EVENT = 'etherith-notifications'
+
+const MAX_NOTIFICATIONS = 200
+
+// Ids of removed notifications, so collecting the same event again doesn't
+// bring them back. Oldest ids are forgotten first.
+const MAX_DISMISSED = 1000
+
+// Events that reach us later than this (first sync, a long time offline)
+// are added to the inbox without popping up a browser notification
+const BROWSER_DELIVERY_WINDOW = 5 * 60 * 1000
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  muted: [],
+  browser: false
+}
+
+export const NOTIFICATION_LABELS: Record<NotificationType, string> = {
+  connection_request: 'Connection requests',
+  memory_shared: 'Shared memories',
+  community_invitation: 'Space invitations',
+  memory_moderated: 'Moderation decisions',
+  memory_comment: 'Comments',
+  memory_reaction: 'Reactions',
+  storage_error: 'Storage errors'
+}
+
+const REACTION_EMOJI: Record<MemoryReaction['type'], string> = {
+  heart: '❤️',
+  'thumbs-up': '👍',
+  'thumbs-down': '👎',
+  laugh: '😂',
+  sad: '😢'
+}
+
+export class NotificationService {
+  // Inbox
+
+  // Newest first, muted types included
+  static getAll(): Notification[] {
+    try {
+      const data = localStorage.getItem(NOTIFICATION_STORAGE_KEYS.NOTIFICATIONS)
+      return data ? JSON.parse(data) : []
+    } catch {
+      return []
+    }
+  }
+
+  static getVisible(): Notification[] {
+    const { muted } = this.getPreferences()
+    return this.getAll().filter(n => !muted.includes(n.type))
+  }
+
+  static getUnreadCount(): number {
+    return this.getVisible().filter(n => !n.read).length
+  }
+
+  /**
+   * Store a notification unless one with the same id exists already.
+   * Returns the stored notification, or null when it was a duplicate.
+   */
+  static notify(notification: Omit<Notification, 'read'> & { read?: boolean }): Notification | null {
+    const notifications = this.getAll()
+    if (notifications.some(n => n.id === notification.id)) return null
+    if (this.getDismissed().includes(notification.id)) return null
+
+    const stored: Notification = { read: false, ...notification }
+    const kept = [stored, ...notifications]
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, MAX_NOTIFICATIONS)
+
+    // Older than everything we keep
+    if (!kept.includes(stored)) return null
+
+    this.saveNotifications(kept)
+    if (!this.getPreferences().muted.includes(stored.type)) {
+      this.deliverToBrowser(stored)
+    }
+    return stored
+  }
+
+  static markRead(id: string): void {
+    this.saveNotifications(this.getAll().map(n => n.id === id ? { ...n, read: true } : n))
+  }
+
+  static markAllRead(): void {
+    this.saveNotifications(this.getAll().map(n => ({ ...n, read: true })))
+  }
+
+  static remove(id: string): void {
+    this.dismiss([id])
+    this.saveNotifications(this.getAll().filter(n => n.id !== id))
+  }
+
+  static clear(): void {
+    this.dismiss(this.getAll().map(n => n.id))
+    this.saveNotifications([])
+  }
+
+  // Forget the inbox and everything dismissed from it
+  static reset(): void {
+    localStorage.removeItem(NOTIFICATION_STORAGE_KEYS.DISMISSED)
+    this.saveNotifications([])
+  }
+
+  private static getDismissed(): string[] {
+    try {
+      const data = localStorage.getItem(NOTIFICATION_STORAGE_KEYS.DISMISSED)
+      return data ? JSON.parse(data) : []
+    } catch {
+      return []
+    }
+  }
+
+  private static dismiss(ids: string[]): void {
+    const dismissed = this.getDismissed().filter(id => !ids.includes(id)).concat(ids)
+    localStorage.setItem(NOTIFICATION_STORAGE_KEYS.DISMISSED, JSON.stringify(dismissed.slice(-MAX_DISMISSED)))
+  }
+
+  private static saveNotifications(notifications: Notification[]): void {
+    localStorage.setItem(NOTIFICATION_STORAGE_KEYS.NOTIFICATIONS, JSON.stringify(notifications))
+    this.changed()
+  }
+
+  // Preferences
+
+  static getPreferences(): NotificationPreferences {
+    try {
+      const data = localStorage.getItem(NOTIFICATION_STORAGE_KEYS.PREFERENCES)
+      return data ? { ...DEFAULT_PREFERENCES, ...JSON.parse(data) } : DEFAULT_PREFERENCES
+    } catch {
+      return DEFAULT_PREFERENCES
+    }
+  }
+
+  static savePreferences(preferences: NotificationPreferences): void {
+    localStorage.setItem(NOTIFICATION_STORAGE_KEYS.PREFERENCES, JSON.stringify(preferences))
+    this.changed()
+  }
+
+  static setMuted(type: NotificationType, muted: boolean): void {
+    const preferences = this.getPreferences()
+    const others = preferences.muted.filter(t => t !== type)
+    this.savePreferences({ ...preferences, muted: muted ? [...others, type] : others })
+  }
+
+  /**
+   * Turn browser delivery on or off; asks for permission when turning it on
+   */
+  static async setBrowserDelivery(enabled: boolean): Promise<boolean> {
+    let granted = false
+    if (enabled && typeof window !== 'undefined' && 'Notification' in window) {
+      const permission = window.Notification.permission === 'default'
+        ? await window.Notification.requestPermission()
+        : window.Notification.permission
+      granted = permission === 'granted'
+    }
+
+    this.savePreferences({ ...this.getPreferences(), browser: granted })
+    return granted
+  }
+
+  private static async deliverToBrowser(notification: Notification): Promise<void> {
+    if (!this.getPreferences().browser) return
+    if (typeof window === 'undefined' || !('Notification' in window)) return
+    if (window.Notification.permission !== 'granted' || document.visibilityState === 'visible') return
+    if (Date.now() - notification.timestamp > BROWSER_DELIVERY_WINDOW) return
+
+    const title = `Etherith · ${NOTIFICATION_LABELS[notification.type]}`
+    const options: NotificationOptions = {
+      body: notification.message,
+      tag: notification.id,
+      icon: '/icon.svg',
+      data: { url: '/memory-vault' }
+    }
+
+    try {
+      // Shown by the PWA service worker when there is one, so clicks still work after the tab closes
+      const registration = 'serviceWorker' in navigator
+        ? await navigator.serviceWorker.getRegistration()
+        : undefined
+      if (registration) {
+        await registration.showNotification(title, options)
+      } else {
+        new window.Notification(title, options)
+      }
+    } catch (error) {
+      console.warn('⚠️ Browser notification failed:', error)
+    }
+  }
+
+  private static changed(): void {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent(NOTIFICATIONS_EVENT))
+    }
+  }
+
+  // Sources
+
+  // Someone else commented on a memory the local user wrote
+  static notifyComment(comment: MemoryComment, memory: Memory | null, localUserId?: string): Notification | null {
+    if (!memory || !localUserId || memory.authorId !== localUserId || comment.userId === localUserId) return null
+
+    return this.notify({
+      id: `comment-${comment.id}`,
+      userId: localUserId,
+      type: 'memory_comment',
+      message: `${comment.username} commented on "${memory.title}": ${comment.content.slice(0, 80)}`,
+      timestamp: comment.timestamp,
+      actorId: comment.userId,
+      actorName: comment.username,
+      memoryId: memory.id
+    })
+  }
+
+  static notifyReaction(reaction: MemoryReaction, memory: Memory | null, localUserId?: string): Notification | null {
+    if (!memory || !localUserId || memory.authorId !== localUserId || reaction.userId === localUserId) return null
+
+    return this.notify({
+      id: `reaction-${reaction.id}`,
+      userId: localUserId,
+      type: 'memory_reaction',
+      message: `${reaction.username} reacted ${REACTION_EMOJI[reaction.type]} to "${memory.title}"`,
+      timestamp: reaction.timestamp,
+      actorId: reaction.userId,
+      actorName: reaction.username,
+      memoryId: memory.id
+    })
+  }
+
+  // A memory could not be written to (or removed from) this device's storage
+  static notifyStorageError(
+    action: 'save' | 'delete',
+    memory: Pick<Memory, 'id'> & Partial<Pick<Memory, 'title'>>,
+    error: unknown,
+    localUserId?: string
+  ): Notification | null {
+    if (!localUserId) return null
+
+    const timestamp = Date.now()
+    const name = memory.title ? `"${memory.title}"` : 'a memory'
+    return this.notify({
+      id: `storage-error-${action}-${memory.id}-${timestamp}`,
+      userId: localUserId,
+      type: 'storage_error',
+      message: `Could not ${action} ${name} on this device: ${error instanceof Error ? error.message : String(error)}`,
+      timestamp,
+      memoryId: memory.id
+    })
+  }
+
+  // One notification per registry sync that found new memories
+  static notifyRegistrySync(operation: SyncOperation, registry: UserRegistry, localUserId?: string): Notification | null {
+    if (!localUserId || operation.status !== 'completed' || operation.memoriesDownloaded === 0) return null
+
+    const count = operation.memoriesDownloaded
+    return this.notify({
+      id: `registry-sync-${operation.id}`,
+      userId: localUserId,
+      type: 'memory_shared',
+      message: `${registry.userProfile.displayName} shared ${count} new ${count === 1 ? 'memory' : 'memories'}`,
+      timestamp: operation.completedAt || Date.now(),
+      actorId: registry.userId,
+      actorName: registry.userProfile.displayName
+    })
+  }
+}
@@ -180,43 +180,47 @@ export class PinataService {
 
   /**
    * Pin an existing IPFS hash to Pinata
-   * Note: This function is temporarily disabled due to SDK compatibility issues
+   * Pinata fetches the content from the network, so the pin is queued first
    */
-  /*
   static async pinHash(
     hash: string,
-    metadata?: PinataMetadata,
-    pinPolicy?: PinataPinPolicy
+    metadata?: PinataMetadata
   ): Promise<PinataUploadResponse> {
     try {
-      const pinOptions: any = {
-        pinataMetadata: metadata ? {
+      const response = await getPinataInstance().upload.public.cid(hash, {
+        metadata: metadata ? {
           name: metadata.name,
           keyvalues: metadata.keyvalues || {}
-        } : undefined,
-        pinataOptions: {
-          cidVersion: 1
-        }
-      }
-
-      if (pinPolicy) {
-        pinOptions.pinataOptions.pinPolicy = pinPolicy
-      }
+        } : undefined
+      })
 
-      const response = await getPinataInstance().upload.pinHash(hash, pinOptions)
-      
       return {
-        IpfsHash: response.IpfsHash,
-        PinSize: response.PinSize,
-        Timestamp: response.Timestamp,
-        isDuplicate: response.isDuplicate
+        IpfsHash: response.cid,
+        PinSize: 0,
+        Timestamp: response.date_queued,
+        isDuplicate: false
       }
     } catch (error) {
       console.error('Pinata pin hash error:', error)
       throw new Error(`Failed to pin hash to IPFS: ${error instanceof Error ? error.message : 'Unknown error'}`)
     }
   }
-  */
+
+  /**
+   * Remove a pin from Pinata
+   */
+  static async unpin(cid: string): Promise<boolean> {
+    try {
+      const info = await this.getFileInfo(cid)
+      if (!info) return false
+
+      await getPinataInstance().files.public.delete([info.id])
+      return true
+    } catch (error) {
+      console.error('Pinata unpin error:', error)
+      throw new Error(`Failed to unpin from IPFS: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
 
   /**
    * Get file info from Pinata
@@ -0,0 +1,91 @@
+import { PinningProvider, PinningProviderName } from './types'
+import { PinataPinningProvider } from './pinata-provider'
+import { KuboPinningProvider } from './kubo-provider'
+import { InMemoryPinningProvider } from './memory-provider'
+
+// Server-side entry point for pinning. The backend is chosen with
+// PINNING_PROVIDER=pinata|kubo|memory; without it, Pinata is used when
+// PINATA_JWT is set. The in-memory fallback is for development and tests only;
+// production must name a provider.
+
+export type { PinMetadata, PinPolicy, PinResult, PinStatus, PinningProvider, PinningProviderName } from './types'
+export { PinataPinningProvider, KuboPinningProvider, InMemoryPinningProvider }
+
+let provider: PinningProvider | null = null
+const replicaProviders = new Map<PinningProviderName, PinningProvider>()
+
+export function getPinningProvider(): PinningProvider {
+  if (!provider) {
+    provider = createPinningProvider(resolveProviderName())
+    console.log(`📌 Using ${provider.name} pinning provider`)
+  }
+  return provider
+}
+
+// Swap the active provider (tests, or wiring a custom backend)
+export function setPinningProvider(next: PinningProvider | null): void {
+  provider = next
+  replicaProviders.clear()
+}
+
+/**
+ * Providers that hold replicas, from PINNING_PROVIDERS=pinata,kubo,...
+ * Defaults to just the primary provider.
+ */
+export function getReplicaProviders(): PinningProvider[] {
+  const primary = getPinningProvider()
+  const names = (process.env.PINNING_PROVIDERS || '')
+    .split(',')
+    .map(name => name.trim() as PinningProviderName)
+    .filter(Boolean)
+
+  if (names.length === 0) {
+    return [primary]
+  }
+
+  return Array.from(new Set(names)).map(name => {
+    if (name === primary.name) return primary
+
+    let replica = replicaProviders.get(name)
+    if (!replica) {
+      replica = createPinningProvider(name)
+      replicaProviders.set(name, replica)
+    }
+    return replica
+  })
+}
+
+export function createPinningProvider(name: PinningProviderName): PinningProvider {
+  switch (name) {
+    case 'pinata':
+      return new PinataPinningProvider()
+    case 'kubo':
+      return new KuboPinningProvider()
+    case 'memory':
+      return new InMemoryPinningProvider()
+    default:
+      throw new Error(`Unknown pinning provider: ${name}`)
+  }
+}
+
+export function getPublicIpfsUrl(cid: string): string {
+  return `https://ipfs.io/ipfs/${cid}`
+}
+
+function resolveProviderName(): PinningProviderName {
+  const configured = process.env.PINNING_PROVIDER as PinningProviderName | undefined
+  if (configured) {
+    return configured
+  }
+
+  if (process.env.PINATA_JWT) {
+    return 'pinata'
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('No pinning provider configured: set PINATA_JWT or PINNING_PROVIDER')
+  }
+
+  console.warn('⚠️ PINATA_JWT is not set, falling back to the in-memory pinning provider')
+  return 'memory'
+}
@@ -0,0 +1,90 @@
+import { PinMetadata, PinResult, PinStatus, PinningProvider } from './types'
+
+// Adapter for a local Kubo (go-ipfs) node via its HTTP RPC API
+// Kubo has no metadata store, so names and keyvalues are not persisted.
+
+const KUBO_API_URL = process.env.KUBO_API_URL || 'http://127.0.0.1:5001'
+const KUBO_GATEWAY = process.env.KUBO_GATEWAY || 'http://127.0.0.1:8080'
+
+export class KuboPinningProvider implements PinningProvider {
+  readonly name = 'kubo' as const
+
+  constructor(
+    private readonly apiUrl: string = KUBO_API_URL,
+    private readonly gatewayUrl: string = KUBO_GATEWAY
+  ) {}
+
+  async upload(file: File, metadata?: PinMetadata): Promise<PinResult> {
+    const formData = new FormData()
+    formData.append('file', file, metadata?.name || file.name || 'file')
+
+    const response = await this.rpc('add', { 'cid-version': '1', pin: 'true' }, formData)
+    const result: { Hash: string; Size: string } = await response.json()
+
+    return {
+      cid: result.Hash,
+      size: Number(result.Size) || file.size,
+      timestamp: new Date().toISOString(),
+      isDuplicate: false
+    }
+  }
+
+  uploadJSON(data: unknown, metadata?: PinMetadata): Promise<PinResult> {
+    const json = typeof data === 'string' ? data : JSON.stringify(data)
+    const file = new File([json], `${metadata?.name || 'data'}.json`, { type: 'application/json' })
+    return this.upload(file, metadata)
+  }
+
+  get(cid: string): Promise<Response> {
+    return this.rpc('cat', { arg: cid })
+  }
+
+  async isPinned(cid: string): Promise<PinStatus> {
+    try {
+      await this.rpc('pin/ls', { arg: cid, type: 'recursive' })
+      return { pinned: true, pinnedAt: null, replicas: 1 }
+    } catch {
+      // Kubo answers 500 "not pinned" for unknown CIDs
+      return { pinned: false }
+    }
+  }
+
+  async unpin(cid: string): Promise<boolean> {
+    try {
+      await this.rpc('pin/rm', { arg: cid })
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async pinByHash(cid: string): Promise<PinResult> {
+    await this.rpc('pin/add', { arg: cid })
+    const stat = await this.rpc('files/stat', { arg: `/ipfs/${cid}` })
+    const { CumulativeSize }: { CumulativeSize: number } = await stat.json()
+
+    return {
+      cid,
+      size: CumulativeSize || 0,
+      timestamp: new Date().toISOString(),
+      isDuplicate: false
+    }
+  }
+
+  getGatewayUrl(cid: string): string {
+    return `${this.gatewayUrl}/ipfs/${cid}`
+  }
+
+  // Every Kubo RPC endpoint is a POST with query parameters
+  private async rpc(command: string, params: Record<string, string>, body?: FormData): Promise<Response> {
+    const query = new URLSearchParams(params).toString()
+    const response = await fetch(`${this.apiUrl}/api/v0/${command}?${query}`, { method: 'POST', body })
+
+    if (!response.ok) {
+      const message = await response.text().catch(() => response.statusText)
+      throw new Error(`Kubo ${command} failed: ${response.status} ${message}`)
+    }
+
+    return response
+  }
+}
@@ -0,0 +1,121 @@
+import { createHash } from 'crypto'
+import { PinMetadata, PinResult, PinStatus, PinningProvider } from './types'
+
+// In-memory pinning for tests and offline development
+// Content is addressed by a real CIDv1 (raw codec, sha2-256), so the same bytes
+// always get the same CID. Nothing survives a server restart.
+
+interface StoredPin {
+  data: Uint8Array
+  mimeType: string
+  metadata?: PinMetadata
+  pinnedAt: string
+}
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567'
+
+// Share one store across API route bundles and dev hot reloads
+const globalStore = globalThis as typeof globalThis & { __etherithMemoryPins?: Map<string, StoredPin> }
+
+export class InMemoryPinningProvider implements PinningProvider {
+  readonly name = 'memory' as const
+
+  constructor(
+    private readonly pins: Map<string, StoredPin> = globalStore.__etherithMemoryPins ||= new Map(),
+    private readonly gatewayBase: string = '/api/ipfs'
+  ) {}
+
+  async upload(file: File, metadata?: PinMetadata): Promise<PinResult> {
+    const data = new Uint8Array(await file.arrayBuffer())
+    return this.store(data, metadata?.mimeType || file.type || 'application/octet-stream', metadata)
+  }
+
+  async uploadJSON(data: unknown, metadata?: PinMetadata): Promise<PinResult> {
+    const json = typeof data === 'string' ? data : JSON.stringify(data)
+    return this.store(new TextEncoder().encode(json), 'application/json', metadata)
+  }
+
+  async get(cid: string): Promise<Response> {
+    const pin = this.pins.get(cid)
+    if (!pin) {
+      throw new Error(`Failed to retrieve file from IPFS: ${cid} is not pinned`)
+    }
+
+    return new Response(pin.data as BlobPart, {
+      headers: { 'Content-Type': pin.mimeType, 'Content-Length': String(pin.data.byteLength) }
+    })
+  }
+
+  async isPinned(cid: string): Promise<PinStatus> {
+    const pin = this.pins.get(cid)
+    return pin
+      ? { pinned: true, size: pin.data.byteLength, pinnedAt: pin.pinnedAt, replicas: 1 }
+      : { pinned: false }
+  }
+
+  async unpin(cid: string): Promise<boolean> {
+    return this.pins.delete(cid)
+  }
+
+  // Only content this process has seen can be pinned, there is no network to fetch from
+  async pinByHash(cid: string, metadata?: PinMetadata): Promise<PinResult> {
+    const pin = this.pins.get(cid)
+    if (!pin) {
+      throw new Error(`Failed to pin hash to IPFS: ${cid} is not available offline`)
+    }
+
+    if (metadata) pin.metadata = metadata
+    return { cid, size: pin.data.byteLength, timestamp: pin.pinnedAt, isDuplicate: true }
+  }
+
+  getGatewayUrl(cid: string): string {
+    return `${this.gatewayBase}/${cid}`
+  }
+
+  clear(): void {
+    this.pins.clear()
+  }
+
+  private store(data: Uint8Array, mimeType: string, metadata?: PinMetadata): PinResult {
+    const cid = computeRawCid(data)
+    const existing = this.pins.get(cid)
+
+    if (!existing) {
+      this.pins.set(cid, { data, mimeType, metadata, pinnedAt: new Date().toISOString() })
+    }
+
+    return {
+      cid,
+      size: data.byteLength,
+      timestamp: existing?.pinnedAt || this.pins.get(cid)!.pinnedAt,
+      isDuplicate: !!existing
+    }
+  }
+}
+
+// CIDv1: version 0x01, raw codec 0x55, sha2-256 multihash (0x12, 32 bytes), base32 multibase
+function computeRawCid(data: Uint8Array): string {
+  const digest = createHash('sha256').update(data).digest()
+  const bytes = new Uint8Array(4 + digest.length)
+  bytes.set([0x01, 0x55, 0x12, 0x20])
+  bytes.set(digest, 4)
+
+  let bits = 0
+  let value = 0
+  let output = 'b'
+
+  for (let i = 0; i < bytes.length; i++) {
+    value = ((value << 8) | bytes[i]) & 0xffff
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
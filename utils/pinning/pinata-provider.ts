@@ -0,0 +1,59 @@
+import { PinataService, PinataUploadResponse } from '../pinata'
+import { PinMetadata, PinPolicy, PinResult, PinStatus, PinningProvider } from './types'
+
+// Adapter over the existing PinataService (requires PINATA_JWT)
+export class PinataPinningProvider implements PinningProvider {
+  readonly name = 'pinata' as const
+
+  async upload(file: File, metadata?: PinMetadata, pinPolicy?: PinPolicy): Promise<PinResult> {
+    return toPinResult(await PinataService.uploadFile(file, metadata, pinPolicy))
+  }
+
+  async uploadJSON(data: unknown, metadata?: PinMetadata, pinPolicy?: PinPolicy): Promise<PinResult> {
+    return toPinResult(await PinataService.uploadJSON(data, metadata, pinPolicy))
+  }
+
+  get(cid: string): Promise<Response> {
+    return PinataService.getFile(cid)
+  }
+
+  async isPinned(cid: string): Promise<PinStatus> {
+    try {
+      const info = await PinataService.getFileInfo(cid)
+      if (!info) {
+        return { pinned: false }
+      }
+
+      return {
+        pinned: true,
+        size: info.size || 0,
+        pinnedAt: info.created_at || info.date_pinned || null,
+        replicas: info.replication_count || 1
+      }
+    } catch (error) {
+      console.error('Pinata is pinned check error:', error)
+      return { pinned: false }
+    }
+  }
+
+  unpin(cid: string): Promise<boolean> {
+    return PinataService.unpin(cid)
+  }
+
+  async pinByHash(cid: string, metadata?: PinMetadata): Promise<PinResult> {
+    return toPinResult(await PinataService.pinHash(cid, metadata))
+  }
+
+  getGatewayUrl(cid: string): string {
+    return PinataService.getGatewayUrl(cid)
+  }
+}
+
+function toPinResult(response: PinataUploadResponse): PinResult {
+  return {
+    cid: response.IpfsHash,
+    size: response.PinSize,
+    timestamp: response.Timestamp,
+    isDuplicate: response.isDuplicate
+  }
+}
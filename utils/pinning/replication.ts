@@ -0,0 +1,93 @@
+import { ReplicaStatus, ReplicationReport } from '../../types/memory'
+import { getReplicaProviders } from './index'
+import { PinningProvider } from './types'
+
+// Keeps a CID pinned on enough independent providers
+
+export class ReplicationService {
+  static async check(cid: string, requiredReplicas: number, providers: PinningProvider[] = getReplicaProviders()): Promise<ReplicationReport> {
+    const replicas = await Promise.all(providers.map(provider => this.checkProvider(provider, cid)))
+    return buildReport(cid, requiredReplicas, replicas, providers.length)
+  }
+
+  /**
+   * Pin the CID on providers that are missing it until `requiredReplicas`
+   * providers hold it. Providers first try to fetch it by hash; failing that
+   * the bytes are copied from a provider that already has them.
+   */
+  static async repair(cid: string, requiredReplicas: number, providers: PinningProvider[] = getReplicaProviders()): Promise<ReplicationReport> {
+    const replicas = await Promise.all(providers.map(provider => this.checkProvider(provider, cid)))
+    let replicaCount = replicas.filter(replica => replica.pinned).length
+    const source = providers.find((_, index) => replicas[index].pinned)
+
+    for (let index = 0; index < providers.length && replicaCount < requiredReplicas; index++) {
+      if (replicas[index].pinned) continue
+
+      try {
+        replicas[index] = await this.pinOnProvider(providers[index], cid, source)
+        replicaCount++
+      } catch (error) {
+        replicas[index] = {
+          ...replicas[index],
+          error: error instanceof Error ? error.message : 'Repair failed'
+        }
+      }
+    }
+
+    return buildReport(cid, requiredReplicas, replicas, providers.length)
+  }
+
+  private static async checkProvider(provider: PinningProvider, cid: string): Promise<ReplicaStatus> {
+    try {
+      const status = await provider.isPinned(cid)
+      return {
+        provider: provider.name,
+        pinned: status.pinned,
+        pinnedAt: status.pinnedAt,
+        size: status.size
+      }
+    } catch (error) {
+      return {
+        provider: provider.name,
+        pinned: false,
+        error: error instanceof Error ? error.message : 'Check failed'
+      }
+    }
+  }
+
+  private static async pinOnProvider(provider: PinningProvider, cid: string, source?: PinningProvider): Promise<ReplicaStatus> {
+    try {
+      const result = await provider.pinByHash(cid)
+      return { provider: provider.name, pinned: true, pinnedAt: result.timestamp, size: result.size, repaired: true }
+    } catch (pinError) {
+      if (!source) throw pinError
+    }
+
+    const response = await source!.get(cid)
+    const blob = await response.blob()
+    const result = await provider.upload(new File([blob], cid, { type: blob.type }), { name: cid })
+
+    // Different chunking settings can produce a different CID for the same bytes
+    if (result.cid !== cid) {
+      await provider.unpin(result.cid).catch(() => false)
+      throw new Error(`${provider.name} produced CID ${result.cid} instead of ${cid}`)
+    }
+
+    return { provider: provider.name, pinned: true, pinnedAt: result.timestamp, size: result.size, repaired: true }
+  }
+}
+
+// With fewer providers configured than the policy asks for, the CID stays
+// under-replicated and the shortfall is reported as missing providers
+function buildReport(cid: string, requiredReplicas: number, replicas: ReplicaStatus[], providerCount: number): ReplicationReport {
+  const replicaCount = replicas.filter(replica => replica.pinned).length
+  return {
+    cid,
+    requiredReplicas,
+    replicaCount,
+    healthy: replicaCount >= requiredReplicas,
+    replicas,
+    missingProviders: Math.max(requiredReplicas - providerCount, 0),
+    checkedAt: Date.now()
+  }
+}
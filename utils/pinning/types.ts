@@ -0,0 +1,44 @@
+// Common contract for IPFS pinning backends (server-side only)
+
+export type PinningProviderName = 'pinata' | 'kubo' | 'memory'
+
+export interface PinMetadata {
+  name: string
+  description?: string
+  mimeType?: string
+  keyvalues?: Record<string, string>
+}
+
+// Regional replication hints; only honoured by providers that support them
+export interface PinPolicy {
+  regions: Array<{
+    id: string
+    desiredReplicationCount: number
+  }>
+}
+
+export interface PinResult {
+  cid: string
+  size: number
+  timestamp: string // ISO date the content was pinned
+  isDuplicate?: boolean
+}
+
+export interface PinStatus {
+  pinned: boolean
+  size?: number
+  pinnedAt?: string | null
+  replicas?: number
+}
+
+export interface PinningProvider {
+  readonly name: PinningProviderName
+
+  upload(file: File, metadata?: PinMetadata, pinPolicy?: PinPolicy): Promise<PinResult>
+  uploadJSON(data: unknown, metadata?: PinMetadata, pinPolicy?: PinPolicy): Promise<PinResult>
+  get(cid: string): Promise<Response>
+  isPinned(cid: string): Promise<PinStatus>
+  unpin(cid: string): Promise<boolean>
+  pinByHash(cid: string, metadata?: PinMetadata): Promise<PinResult>
+  getGatewayUrl(cid: string): string
+}
@@ -0,0 +1,107 @@
+import { Memory, ReplicationReport } from '../types/memory'
+import { IPFSService } from './ipfs'
+import { LocalStorage } from './storage'
+
+// Preservation policy: how many independent providers must hold each memory
+// A single vendor is not enough for an archive, so the default asks for two.
+// Deployments with fewer providers (PINNING_PROVIDERS) stay under-replicated
+// until more are configured.
+
+const PRESERVATION_STORAGE_KEYS = {
+  POLICY: 'etherith_preservation_policy'
+}
+
+export interface PreservationPolicy {
+  defaultReplicas: number
+  recheckInterval: number // ms between replication checks per memory
+}
+
+const DEFAULT_POLICY: PreservationPolicy = {
+  defaultReplicas: 2,
+  recheckInterval: 24 * 60 * 60 * 1000 // daily
+}
+
+export class PreservationService {
+  static getPolicy(): PreservationPolicy {
+    const data = localStorage.getItem(PRESERVATION_STORAGE_KEYS.POLICY)
+    return data ? { ...DEFAULT_POLICY, ...JSON.parse(data) } : DEFAULT_POLICY
+  }
+
+  static savePolicy(policy: Partial<PreservationPolicy>): void {
+    localStorage.setItem(PRESERVATION_STORAGE_KEYS.POLICY, JSON.stringify({ ...this.getPolicy(), ...policy }))
+  }
+
+  static getRequiredReplicas(memory: Memory): number {
+    return memory.requiredReplicas || this.getPolicy().defaultReplicas
+  }
+
+  static async checkReplication(memory: Memory): Promise<ReplicationReport> {
+    if (!memory.ipfsCid) {
+      throw new Error('Memory is not pinned to IPFS')
+    }
+
+    const report = await IPFSService.getReplicationReport(memory.ipfsCid, this.getRequiredReplicas(memory))
+    this.saveReport(memory.id, report)
+    return report
+  }
+
+  static async repairReplication(memory: Memory): Promise<ReplicationReport> {
+    if (!memory.ipfsCid) {
+      throw new Error('Memory is not pinned to IPFS')
+    }
+
+    const report = await IPFSService.repairReplication(memory.ipfsCid, this.getRequiredReplicas(memory))
+    this.saveReport(memory.id, report)
+    return report
+  }
+
+  static needsCheck(memory: Memory, now: number = Date.now()): boolean {
+    if (!memory.ipfsCid) return false
+
+    const report = memory.replication
+    return !report ||
+      report.cid !== memory.ipfsCid ||
+      report.requiredReplicas !== this.getRequiredReplicas(memory) ||
+      !report.healthy ||
+      now - report.checkedAt > this.getPolicy().recheckInterval
+  }
+
+  /**
+   * Background job: re-check memories whose report is missing, stale or
+   * unhealthy and re-pin any missing replicas.
+   */
+  static async runReplicationJob(): Promise<{ checked: number; repaired: number; unhealthy: number }> {
+    const due = LocalStorage.getAllMemories().filter(memory => this.needsCheck(memory))
+    let repaired = 0
+    let unhealthy = 0
+
+    for (const memory of due) {
+      try {
+        const report = await this.checkReplication(memory)
+        if (report.healthy) continue
+
+        const repairedReport = await this.repairReplication(memory)
+        if (repairedReport.healthy) {
+          repaired++
+        } else {
+          unhealthy++
+          console.warn(`⚠️ Memory ${memory.title} has ${repairedReport.replicaCount}/${repairedReport.requiredReplicas} replicas` +
+            (repairedReport.missingProviders ? ` (${repairedReport.missingProviders} more providers needed)` : ''))
+        }
+      } catch (error) {
+        unhealthy++
+        console.warn(`Replication check failed for ${memory.title}:`, error)
+      }
+    }
+
+    return { checked: due.length, repaired, unhealthy }
+  }
+
+  // Re-read before saving so edits made while the check ran are kept
+  private static saveReport(memoryId: string, report: ReplicationReport): void {
+    const latest = LocalStorage.getMemoryById(memoryId)
+    if (latest) {
+      LocalStorage.saveMemory({ ...latest, replication: report })
+    }
+  }
+}
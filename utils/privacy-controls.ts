@@ -51,6 +51,15 @@ export class PrivacyManager {
       }
     }
 
+    // Encrypted content can only be read on devices holding the owner's key
+    if (memory.encrypted) {
+      return {
+        canShare: false,
+        reason: 'Memory content on IPFS is encrypted',
+        requiredActions: ['Re-upload the memory as public before sharing']
+      }
+    }
+
     // Check content safety (basic implementation)
     const contentFlags = this.checkContentSafety(memory)
     if (contentFlags.length > 0) {
@@ -216,13 +225,13 @@ export class PrivacyManager {
 
     // Check subscription-based access
     if (memory.sharingPermissions === 'subscribers-only') {
-      const hasSubscription = this.isSubscribedToAuthor(viewerUserId, memory.authorId)
+      const hasSubscription = this.hasWrappedKey(viewerUserId, memory)
       if (hasSubscription) {
         return { canAccess: true }
       } else {
         return {
           canAccess: false,
-          reason: 'Subscription required to access this content',
+          reason: 'Approved subscription required to access this content',
           requiresPermission: true
         }
       }
@@ -230,7 +239,7 @@ export class PrivacyManager {
 
     // Invite-only access
     if (memory.sharingPermissions === 'invite-only') {
-      const hasInvite = this.hasInviteAccess(viewerUserId, memory.id)
+      const hasInvite = this.hasWrappedKey(viewerUserId, memory)
       if (hasInvite) {
         return { canAccess: true }
       } else {
@@ -249,22 +258,9 @@ export class PrivacyManager {
     }
   }
 
-  private static isSubscribedToAuthor(viewerUserId: string, authorId: string): boolean {
-    const subscriptions = RegistryManager.getSubscriptions()
-    return subscriptions.some(sub => sub.userId === authorId)
-  }
-
-  private static hasInviteAccess(viewerUserId: string, memoryId: string): boolean {
-    // Check invite access (implementation depends on invite system)
-    const invites = this.getMemoryInvites(memoryId)
-    return invites.includes(viewerUserId)
-  }
-
-  private static getMemoryInvites(memoryId: string): string[] {
-    // Get invites for a specific memory
-    const data = localStorage.getItem('etherith_memory_invites')
-    const invites = data ? JSON.parse(data) : {}
-    return invites[memoryId] || []
+  // Restricted entries are enforced by encryption: access means a content key was wrapped for the viewer
+  private static hasWrappedKey(viewerUserId: string, memory: PublicMemoryEntry): boolean {
+    return !memory.sealed || memory.sealed.keys.some(key => key.recipientId === viewerUserId)
   }
 
   // Data export controls
@@ -0,0 +1,114 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { RegistryHead } from '../types/registry'
+import { CryptoService, SIGNATURE_ALGORITHM } from './crypto'
+
+// Server-side store behind /api/registry/head
+// Heads live in one JSON file next to the memory store. A registry id embeds
+// its author's user id and the route only accepts heads from that signed-in
+// user. The first head of a registry pins its signing key; later heads must
+// be signed by that key and be newer, so nobody else can move or roll back an
+// author's head. Heads not republished for a year expire, and each author
+// keeps at most MAX_REGISTRIES_PER_USER registries.
+
+const HEADS_FILE = 'registry-heads.json'
+const HEAD_TTL = 365 * 24 * 60 * 60 * 1000
+const MAX_REGISTRIES_PER_USER = 5
+
+interface StoredHead extends RegistryHead {
+  storedAt: number
+}
+
+let writes: Promise<unknown> = Promise.resolve()
+
+export interface RegistryHeadResult {
+  head?: RegistryHead
+  error?: string
+  stale?: boolean // Rejected only because a newer head is stored
+}
+
+export class RegistryHeadStore {
+  static async get(registryId: string): Promise<RegistryHead | null> {
+    const stored = (await this.load())[registryId]
+    if (!stored || isExpired(stored)) return null
+    const { storedAt, ...head } = stored
+    return head
+  }
+
+  static put(head: RegistryHead): Promise<RegistryHeadResult> {
+    // Writes are serialized so concurrent publishes can't drop each other
+    const result = writes.then(() => this.write(head))
+    writes = result.catch(() => undefined)
+    return result
+  }
+
+  private static async write(head: RegistryHead): Promise<RegistryHeadResult> {
+    if (!head || typeof head.registryId !== 'string' || typeof head.cid !== 'string' ||
+        typeof head.userId !== 'string' || typeof head.publishedAt !== 'number') {
+      return { error: 'registryId, userId, cid and publishedAt are required' }
+    }
+    if (head.registryId.indexOf(`reg_${head.userId}_`) !== 0) {
+      return { error: 'Registry id does not belong to this user' }
+    }
+
+    const { signature, ...signedFields } = head
+    if (!signature || signature.algorithm !== SIGNATURE_ALGORITHM ||
+        !(await CryptoService.verify(signature.publicKey, CryptoService.canonicalJSON(signedFields), signature.value))) {
+      return { error: 'Registry head signature is missing or invalid' }
+    }
+
+    const heads = pruneExpired(await this.load())
+    const current = heads[head.registryId]
+    if (current && (current.signature!.publicKey !== signature.publicKey || current.userId !== head.userId)) {
+      return { error: 'Registry head is signed by a different key than the registry' }
+    }
+    if (current && current.publishedAt >= head.publishedAt) {
+      return { error: 'A newer registry head is already published', stale: true }
+    }
+
+    if (!current) {
+      // A new registry replaces the author's least recently published ones
+      const own = Object.keys(heads)
+        .filter(registryId => heads[registryId].userId === head.userId)
+        .sort((a, b) => heads[a].storedAt - heads[b].storedAt)
+      own.slice(0, Math.max(own.length - MAX_REGISTRIES_PER_USER + 1, 0)).forEach(registryId => delete heads[registryId])
+    }
+
+    heads[head.registryId] = { ...signedFields, signature, storedAt: Date.now() }
+    await this.persist(heads)
+    return { head: { ...signedFields, signature } }
+  }
+
+  private static getFilePath(): string {
+    return path.join(process.env.MEMORY_STORE_DIR || path.join(process.cwd(), '.data'), HEADS_FILE)
+  }
+
+  private static async load(): Promise<Record<string, StoredHead>> {
+    try {
+      return JSON.parse(await fs.readFile(this.getFilePath(), 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {}
+      throw error
+    }
+  }
+
+  private static async persist(heads: Record<string, StoredHead>): Promise<void> {
+    const filePath = this.getFilePath()
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    const tempPath = `${filePath}.${randomUUID()}.tmp`
+    await fs.writeFile(tempPath, JSON.stringify(heads))
+    await fs.rename(tempPath, filePath)
+  }
+}
+
+function isExpired(head: StoredHead): boolean {
+  return Date.now() - (head.storedAt || head.publishedAt) > HEAD_TTL
+}
+
+function pruneExpired(heads: Record<string, StoredHead>): Record<string, StoredHead> {
+  Object.keys(heads).forEach(registryId => {
+    if (isExpired(heads[registryId])) delete heads[registryId]
+  })
+  return heads
+}
@@ -7,12 +7,23 @@ import {
   RegistryConfig,
   MemoryDiscovery,
   RegistrySearchFilters,
-  RegistrySearchResult
+  RegistrySearchResult,
+  RegistrySignature,
+  RegistryChange,
+  RegistryChangeLog,
+  RegistryHead,
+  RegistryRecipient,
+  SealedEntryContent,
+  SealedEntryFields
 } from '../types/registry'
 import { Memory, UserProfile } from '../types/memory'
 import { LocalStorage } from './storage'
+import { MemoryRepository, blobToBytes } from './memory-repository'
 import { IPFSService } from './ipfs'
-// Browser-compatible imports (no crypto import needed)
+import { CryptoService, SIGNATURE_ALGORITHM, base64ToBytes } from './crypto'
+import { EncryptionService } from './encryption'
+import { MemorySearchService } from './memory-search'
+import { NotificationService } from './notifications'
 
 const REGISTRY_STORAGE_KEYS = {
   REGISTRY: 'etherith_registry',
@@ -20,7 +31,25 @@ const REGISTRY_STORAGE_KEYS = {
   SYNC_OPERATIONS: 'etherith_sync_operations',
   REGISTRY_CONFIG: 'etherith_registry_config',
   DISCOVERED_MEMORIES: 'etherith_discovered_memories',
-  SYNC_CACHE: 'etherith_sync_cache'
+  SYNC_CACHE: 'etherith_sync_cache',
+  PUBLISHED_SNAPSHOT: 'etherith_registry_published',
+  APPROVED_SUBSCRIBERS: 'etherith_registry_subscribers',
+  MEMORY_INVITES: 'etherith_memory_invites',
+  SEALED_ENTRIES: 'etherith_sealed_entries'
+}
+
+// How many change logs to walk back before falling back to a full sync
+const MAX_CHANGELOG_DEPTH = 50
+
+interface PublishedSnapshot {
+  cid: string
+  changeLogCid?: string
+  entryFingerprints: Record<string, string>
+}
+
+interface SealedEntryCacheItem {
+  fingerprint: string // Hash of the sealed fields and recipient keys
+  sealed: SealedEntryContent
 }
 
 export class RegistryManager {
@@ -76,7 +105,7 @@ export class RegistryManager {
     localStorage.setItem(REGISTRY_STORAGE_KEYS.REGISTRY, JSON.stringify(registry))
   }
 
-  static updateRegistryFromMemories(): UserRegistry {
+  static async updateRegistryFromMemories(): Promise<UserRegistry> {
     let registry = this.getRegistry()
     const userProfile = LocalStorage.getUserProfile()
 
@@ -92,25 +121,29 @@ export class RegistryManager {
     const publicMemories = LocalStorage.getPublicMemories()
 
     // Convert to registry format
-    const publicMemoryEntries: PublicMemoryEntry[] = publicMemories
-      .filter(memory => memory.ipfsCid) // Only include memories already on IPFS
-      .map(memory => this.memoryToRegistryEntry(memory))
+    const publicMemoryEntries: PublicMemoryEntry[] = await Promise.all(
+      publicMemories
+        .filter(memory => memory.ipfsCid) // Only include memories already on IPFS
+        .map(memory => this.memoryToRegistryEntry(memory))
+    )
 
     // Update registry
     registry.publicMemories = publicMemoryEntries
     registry.metadata.totalEntries = publicMemoryEntries.length
     registry.metadata.totalSize = publicMemoryEntries.reduce((sum, entry) => sum + (entry.fileSize || 0), 0)
 
+    this.pruneSealedEntryCache(publicMemoryEntries.map(entry => entry.id))
     this.saveRegistry(registry)
     return registry
   }
 
-  static memoryToRegistryEntry(memory: Memory): PublicMemoryEntry {
+  static async memoryToRegistryEntry(memory: Memory): Promise<PublicMemoryEntry> {
     if (!memory.ipfsCid) {
       throw new Error('Memory must have IPFS CID to be included in registry')
     }
 
-    return {
+    const sharingPermissions = memory.sharingPermission || this.getConfig().defaultSharingPermission
+    const entry: PublicMemoryEntry = {
       id: memory.id,
       title: memory.title,
       content: memory.content,
@@ -130,9 +163,248 @@ export class RegistryManager {
       authorContact: memory.authorContact,
       tags: memory.tags,
       registryVersion: '1.0.0',
-      sharingPermissions: 'public', // Default for now
-      contentHash: this.generateContentHash(memory.content + memory.memoryNote)
+      sharingPermissions,
+      contentHash: await this.generateContentHash(memory.content + memory.memoryNote)
+    }
+
+    // Restricted entries only carry their content encrypted for allowed recipients
+    return sharingPermissions === 'public' ? entry : this.sealEntry(entry, memory)
+  }
+
+  private static async sealEntry(entry: PublicMemoryEntry, memory: Memory): Promise<PublicMemoryEntry> {
+    const fields: SealedEntryFields = {
+      title: entry.title,
+      content: entry.content,
+      memoryNote: entry.memoryNote,
+      tags: entry.tags,
+      fileName: entry.fileName,
+      ipfsCid: entry.ipfsCid,
+      ipfsUrl: entry.ipfsUrl,
+      ipfsGatewayUrl: entry.ipfsGatewayUrl,
+      thumbnailUrl: entry.thumbnailUrl
+    }
+    const recipients = await this.getEntryRecipients(entry)
+    const fingerprint = await CryptoService.sha256(CryptoService.canonicalJSON({
+      fields,
+      recipients: recipients.map(recipient => [recipient.userId, recipient.encryptionKey])
+    }))
+
+    // Reuse the previous seal while content and recipients are unchanged so a
+    // republish is not reported as an update; any change rotates the content key
+    const cached = this.getSealedEntryCache()[entry.id]
+    let sealed = cached?.fingerprint === fingerprint ? cached.sealed : null
+
+    if (!sealed) {
+      const contentKey = EncryptionService.generateContentKey()
+
+      // Recipients get a copy of the file encrypted with the same key, never the original CID
+      const envelope = await EncryptionService.encryptBytesWithContentKey(contentKey, await this.readMemoryFile(memory))
+      const { cid } = await IPFSService.uploadSealedFileToIPFS(envelope)
+      const sealedFields: SealedEntryFields = {
+        ...fields,
+        ipfsCid: cid,
+        ipfsUrl: IPFSService.getIPFSUrl(cid),
+        ipfsGatewayUrl: IPFSService.getIPFSGatewayUrl(cid),
+        contentKey
+      }
+
+      const { iv, ciphertext } = await EncryptionService.encryptWithContentKey(contentKey, JSON.stringify(sealedFields))
+      const keys = await Promise.all(
+        recipients.map(recipient => EncryptionService.wrapContentKey(contentKey, recipient.userId, recipient.encryptionKey))
+      )
+      sealed = { algorithm: 'AES-GCM-256', iv, ciphertext, keys }
+
+      const cache = this.getSealedEntryCache()
+      cache[entry.id] = { fingerprint, sealed }
+      this.saveSealedEntryCache(cache)
+    }
+
+    return {
+      ...entry,
+      title: '',
+      content: '',
+      memoryNote: '',
+      tags: [],
+      fileName: undefined,
+      ipfsCid: '',
+      ipfsUrl: '',
+      ipfsGatewayUrl: '',
+      thumbnailUrl: undefined,
+      contentHash: await this.generateContentHash(sealed.ciphertext),
+      sealed
+    }
+  }
+
+  // Plaintext of a memory's file: the local copy, the text itself, or the pinned
+  // file (decrypted when it was pinned encrypted)
+  private static async readMemoryFile(memory: Memory): Promise<ArrayBuffer | Uint8Array> {
+    if (memory.fileData?.startsWith('data:')) {
+      return base64ToBytes(memory.fileData.slice(memory.fileData.indexOf(',') + 1))
+    }
+    if (memory.fileData?.startsWith('blob:')) {
+      // Stored files are object URLs over the IndexedDB blob
+      const blob = LocalStorage.isRepositoryReady() ? await MemoryRepository.getBlob(memory.id) : null
+      if (blob) return blobToBytes(blob)
+      const response = await fetch(memory.fileData)
+      if (!response.ok) throw new Error(`Failed to read file: ${response.statusText}`)
+      return response.arrayBuffer()
+    }
+    if (memory.fileType === 'text') {
+      return new TextEncoder().encode(memory.content)
+    }
+
+    const url = IPFSService.getIPFSGatewayUrl(memory.ipfsCid!)
+    if (memory.encrypted && memory.encryptionKeyId) {
+      return (await EncryptionService.fetchAndDecrypt(url, memory.encryptionKeyId)).arrayBuffer()
+    }
+
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch memory file: ${response.status} ${response.statusText}`)
+    }
+    return response.arrayBuffer()
+  }
+
+  // The author is always a recipient so their own published entries stay readable
+  private static async getEntryRecipients(entry: PublicMemoryEntry): Promise<RegistryRecipient[]> {
+    const author: RegistryRecipient = {
+      userId: entry.authorId,
+      displayName: entry.authorName,
+      encryptionKey: await EncryptionService.getOrCreateAgreementKey(entry.authorId),
+      grantedAt: entry.timestamp
+    }
+
+    const granted = entry.sharingPermissions === 'subscribers-only'
+      ? this.getApprovedSubscribers()
+      : this.getMemoryInvites(entry.id)
+
+    return [author, ...granted.filter(recipient => recipient.userId !== entry.authorId)]
+      .sort((a, b) => a.userId.localeCompare(b.userId))
+  }
+
+  /**
+   * Decrypt a restricted entry's sealed fields when a content key was wrapped
+   * for `viewerUserId`. Entries we cannot open are returned unchanged.
+   */
+  static async openSealedEntry(entry: PublicMemoryEntry, viewerUserId?: string): Promise<PublicMemoryEntry> {
+    const wrapped = entry.sealed?.keys.find(key => key.recipientId === viewerUserId)
+    if (!entry.sealed || !wrapped || !viewerUserId) {
+      return entry
+    }
+
+    const contentKey = await EncryptionService.unwrapContentKey(viewerUserId, wrapped)
+    const fields: SealedEntryFields = JSON.parse(
+      await EncryptionService.decryptWithContentKey(contentKey, entry.sealed.iv, entry.sealed.ciphertext)
+    )
+
+    return { ...entry, ...fields }
+  }
+
+  private static getSealedEntryCache(): Record<string, SealedEntryCacheItem> {
+    const data = localStorage.getItem(REGISTRY_STORAGE_KEYS.SEALED_ENTRIES)
+    return data ? JSON.parse(data) : {}
+  }
+
+  private static saveSealedEntryCache(cache: Record<string, SealedEntryCacheItem>): void {
+    localStorage.setItem(REGISTRY_STORAGE_KEYS.SEALED_ENTRIES, JSON.stringify(cache))
+  }
+
+  private static pruneSealedEntryCache(entryIds: string[]): void {
+    const cache = this.getSealedEntryCache()
+    const stale = Object.keys(cache).filter(id => !entryIds.includes(id))
+    if (stale.length > 0) {
+      stale.forEach(id => delete cache[id])
+      this.saveSealedEntryCache(cache)
+    }
+  }
+
+  // Restricted Sharing
+  // Grants take effect on the next publish. Revoking rotates the content key for
+  // later versions, but registry CIDs published earlier stay readable to former
+  // recipients.
+
+  static async resolveRecipient(registryCid: string): Promise<RegistryRecipient> {
+    const registry = await this.fetchRegistryFromIPFS(registryCid)
+
+    if (!(await this.verifyRegistrySignature(registry))) {
+      throw new Error('Registry signature is missing or invalid')
+    }
+
+    if (!registry.userProfile.encryptionKey) {
+      throw new Error(`${registry.userProfile.displayName} has not published an encryption key yet`)
+    }
+
+    return {
+      userId: registry.userId,
+      displayName: registry.userProfile.displayName,
+      encryptionKey: registry.userProfile.encryptionKey,
+      grantedAt: Date.now()
+    }
+  }
+
+  static async approveSubscriber(registryCid: string): Promise<RegistryRecipient> {
+    const recipient = await this.resolveRecipient(registryCid)
+    const subscribers = this.getApprovedSubscribers().filter(sub => sub.userId !== recipient.userId)
+
+    subscribers.push(recipient)
+    localStorage.setItem(REGISTRY_STORAGE_KEYS.APPROVED_SUBSCRIBERS, JSON.stringify(subscribers))
+    return recipient
+  }
+
+  static revokeSubscriber(userId: string): boolean {
+    const subscribers = this.getApprovedSubscribers()
+    const remaining = subscribers.filter(sub => sub.userId !== userId)
+
+    if (remaining.length < subscribers.length) {
+      localStorage.setItem(REGISTRY_STORAGE_KEYS.APPROVED_SUBSCRIBERS, JSON.stringify(remaining))
+      return true
+    }
+    return false
+  }
+
+  static getApprovedSubscribers(): RegistryRecipient[] {
+    const data = localStorage.getItem(REGISTRY_STORAGE_KEYS.APPROVED_SUBSCRIBERS)
+    return data ? JSON.parse(data) : []
+  }
+
+  static async issueInvite(memoryId: string, registryCid: string): Promise<RegistryRecipient> {
+    if (!LocalStorage.getMemoryById(memoryId)) {
+      throw new Error('Memory not found')
+    }
+
+    const recipient = await this.resolveRecipient(registryCid)
+    const invites = this.getAllMemoryInvites()
+    invites[memoryId] = [...(invites[memoryId] || []).filter(invite => invite.userId !== recipient.userId), recipient]
+
+    localStorage.setItem(REGISTRY_STORAGE_KEYS.MEMORY_INVITES, JSON.stringify(invites))
+    return recipient
+  }
+
+  static revokeInvite(memoryId: string, userId: string): boolean {
+    const invites = this.getAllMemoryInvites()
+    const current = invites[memoryId] || []
+    const remaining = current.filter(invite => invite.userId !== userId)
+
+    if (remaining.length === current.length) {
+      return false
     }
+
+    if (remaining.length > 0) {
+      invites[memoryId] = remaining
+    } else {
+      delete invites[memoryId]
+    }
+    localStorage.setItem(REGISTRY_STORAGE_KEYS.MEMORY_INVITES, JSON.stringify(invites))
+    return true
+  }
+
+  static getMemoryInvites(memoryId: string): RegistryRecipient[] {
+    return this.getAllMemoryInvites()[memoryId] || []
+  }
+
+  private static getAllMemoryInvites(): Record<string, RegistryRecipient[]> {
+    const data = localStorage.getItem(REGISTRY_STORAGE_KEYS.MEMORY_INVITES)
+    return data ? JSON.parse(data) : {}
   }
 
   // IPFS Registry Publishing
@@ -144,7 +416,38 @@ export class RegistryManager {
     }
 
     // Update registry before publishing
-    const updatedRegistry = this.updateRegistryFromMemories()
+    const updatedRegistry = await this.updateRegistryFromMemories()
+
+    // Publish the delta since our last published version first so the
+    // registry can link to it
+    const previous = this.getPublishedSnapshot()
+    const { changeLog, fingerprints } = await this.buildChangeLog(updatedRegistry, previous)
+
+    // Without entry changes the registry keeps linking to the last change log;
+    // subscribers that applied it have nothing to fetch
+    let changeLogCid = previous?.changeLogCid
+    if (changeLog.changes.length > 0) {
+      await this.signChangeLog(changeLog)
+
+      const changeLogResult = await IPFSService.uploadToIPFS(
+        JSON.stringify(changeLog, null, 2),
+        {
+          title: `${updatedRegistry.userProfile.displayName}'s Registry Changes`,
+          memoryNote: `${changeLog.changes.length} registry changes since ${previous?.cid || 'initial publish'}`,
+          authorName: updatedRegistry.userProfile.displayName,
+          fileType: 'document',
+          tags: ['registry', 'changelog']
+        }
+      )
+      changeLogCid = changeLogResult.cid
+    }
+
+    updatedRegistry.previousCid = previous?.cid
+    updatedRegistry.changeLogCid = changeLogCid
+    updatedRegistry.userProfile.encryptionKey = await EncryptionService.getOrCreateAgreementKey(updatedRegistry.userId)
+
+    // Sign with the author's key so subscribers can detect impersonation
+    await this.signRegistry(updatedRegistry)
 
     // Upload to IPFS
     const result = await IPFSService.uploadToIPFS(
@@ -167,6 +470,18 @@ export class RegistryManager {
     }
 
     this.saveRegistry(updatedRegistry)
+    this.savePublishedSnapshot({
+      cid: result.cid,
+      changeLogCid,
+      entryFingerprints: fingerprints
+    })
+
+    // Subscribers resolve the head, so they see this version without a new link
+    try {
+      await this.publishRegistryHead(updatedRegistry, result.cid)
+    } catch (error) {
+      console.warn('Failed to publish registry head:', error)
+    }
 
     return {
       cid: result.cid,
@@ -174,6 +489,53 @@ export class RegistryManager {
     }
   }
 
+  private static async buildChangeLog(
+    registry: UserRegistry,
+    previous: PublishedSnapshot | null
+  ): Promise<{ changeLog: RegistryChangeLog; fingerprints: Record<string, string> }> {
+    const now = Date.now()
+    const previousFingerprints = previous?.entryFingerprints || {}
+    const fingerprints: Record<string, string> = {}
+    const changes: RegistryChange[] = []
+
+    for (const entry of registry.publicMemories) {
+      const fingerprint = await CryptoService.sha256(CryptoService.canonicalJSON(entry))
+      fingerprints[entry.id] = fingerprint
+
+      if (!previousFingerprints[entry.id]) {
+        changes.push({ op: 'added', entryId: entry.id, entry, timestamp: now })
+      } else if (previousFingerprints[entry.id] !== fingerprint) {
+        changes.push({ op: 'updated', entryId: entry.id, entry, timestamp: now })
+      }
+    }
+
+    Object.keys(previousFingerprints)
+      .filter(entryId => !fingerprints[entryId])
+      .forEach(entryId => changes.push({ op: 'removed', entryId, timestamp: now }))
+
+    return {
+      changeLog: {
+        format: 'etherith-registry-changelog-v1',
+        registryId: registry.registryId,
+        userId: registry.userId,
+        previousCid: previous?.cid,
+        previousChangeLogCid: previous?.changeLogCid,
+        changes,
+        createdAt: now
+      },
+      fingerprints
+    }
+  }
+
+  private static getPublishedSnapshot(): PublishedSnapshot | null {
+    const data = localStorage.getItem(REGISTRY_STORAGE_KEYS.PUBLISHED_SNAPSHOT)
+    return data ? JSON.parse(data) : null
+  }
+
+  private static savePublishedSnapshot(snapshot: PublishedSnapshot): void {
+    localStorage.setItem(REGISTRY_STORAGE_KEYS.PUBLISHED_SNAPSHOT, JSON.stringify(snapshot))
+  }
+
   static async fetchRegistryFromIPFS(cid: string): Promise<UserRegistry> {
     const url = IPFSService.getIPFSGatewayUrl(cid)
 
@@ -196,19 +558,208 @@ export class RegistryManager {
     }
   }
 
+  // Registry Signing
+
+  static async signRegistry(registry: UserRegistry): Promise<RegistrySignature> {
+    const { publicKey } = await CryptoService.getOrCreateSigningKey(registry.userId)
+    registry.userProfile.publicKey = publicKey
+
+    const value = await CryptoService.sign(registry.userId, this.getSignaturePayload(registry))
+    const signature: RegistrySignature = {
+      algorithm: SIGNATURE_ALGORITHM,
+      publicKey,
+      value,
+      signedAt: Date.now()
+    }
+
+    registry.signature = signature
+    return signature
+  }
+
+  static async verifyRegistrySignature(registry: UserRegistry): Promise<boolean> {
+    const { signature } = registry
+    if (!signature || signature.algorithm !== SIGNATURE_ALGORITHM) {
+      return false
+    }
+
+    // The embedded profile key must be the key that produced the signature
+    if (registry.userProfile.publicKey !== signature.publicKey) {
+      return false
+    }
+
+    return CryptoService.verify(signature.publicKey, this.getSignaturePayload(registry), signature.value)
+  }
+
+  static async signChangeLog(changeLog: RegistryChangeLog): Promise<RegistrySignature> {
+    const { publicKey } = await CryptoService.getOrCreateSigningKey(changeLog.userId)
+    const payload = CryptoService.canonicalJSON({ ...changeLog, signature: undefined })
+
+    const signature: RegistrySignature = {
+      algorithm: SIGNATURE_ALGORITHM,
+      publicKey,
+      value: await CryptoService.sign(changeLog.userId, payload),
+      signedAt: Date.now()
+    }
+
+    changeLog.signature = signature
+    return signature
+  }
+
+  static async verifyChangeLogSignature(changeLog: RegistryChangeLog, publicKey: string): Promise<boolean> {
+    const { signature, ...signedFields } = changeLog
+    if (!signature || signature.algorithm !== SIGNATURE_ALGORITHM || signature.publicKey !== publicKey) {
+      return false
+    }
+
+    return CryptoService.verify(publicKey, CryptoService.canonicalJSON(signedFields), signature.value)
+  }
+
+  // Registry Heads
+
+  private static async publishRegistryHead(registry: UserRegistry, cid: string): Promise<void> {
+    const head: RegistryHead = {
+      registryId: registry.registryId,
+      userId: registry.userId,
+      cid,
+      publishedAt: Date.now()
+    }
+
+    const { publicKey } = await CryptoService.getOrCreateSigningKey(registry.userId)
+    head.signature = {
+      algorithm: SIGNATURE_ALGORITHM,
+      publicKey,
+      value: await CryptoService.sign(registry.userId, CryptoService.canonicalJSON(head)),
+      signedAt: Date.now()
+    }
+
+    const response = await fetch('/api/registry/head', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(head)
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(errorData.error || 'Failed to publish registry head')
+    }
+  }
+
+  /**
+   * The author's latest published head, or null when they have not published
+   * one. Throws if the head is not signed by the subscription's author.
+   */
+  static async resolveRegistryHead(subscription: RegistrySubscription): Promise<RegistryHead | null> {
+    const response = await fetch(`/api/registry/head?registryId=${encodeURIComponent(subscription.registryId)}`)
+    if (response.status === 404) {
+      return null
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to resolve registry head: ${response.statusText}`)
+    }
+
+    const { head } = await response.json() as { head: RegistryHead }
+    if (!(await this.verifyRegistryHead(head, subscription))) {
+      throw new Error(`Registry head is not signed by ${subscription.displayName}`)
+    }
+    return head
+  }
+
+  static async verifyRegistryHead(head: RegistryHead, subscription: RegistrySubscription): Promise<boolean> {
+    const { signature, ...signedFields } = head
+    if (!signature || signature.algorithm !== SIGNATURE_ALGORITHM ||
+        head.registryId !== subscription.registryId || head.userId !== subscription.userId) {
+      return false
+    }
+    if (subscription.publicKey && signature.publicKey !== subscription.publicKey) {
+      return false
+    }
+
+    return CryptoService.verify(signature.publicKey, CryptoService.canonicalJSON(signedFields), signature.value)
+  }
+
+  // ipfsMetadata is filled in after upload, so it is not covered by the signature
+  private static getSignaturePayload(registry: UserRegistry): string {
+    const { signature, ipfsMetadata, ...signedFields } = registry
+    return CryptoService.canonicalJSON(signedFields)
+  }
+
+  private static async assertTrustedRegistry(registry: UserRegistry, subscription: RegistrySubscription): Promise<void> {
+    if (registry.userId !== subscription.userId || registry.registryId !== subscription.registryId) {
+      throw new Error(`Registry does not belong to subscribed author ${subscription.displayName}`)
+    }
+
+    if (!(await this.verifyRegistrySignature(registry))) {
+      throw new Error('Registry signature is missing or invalid')
+    }
+
+    if (subscription.publicKey && registry.signature!.publicKey !== subscription.publicKey) {
+      throw new Error(`Registry is signed by a different key than ${subscription.displayName}'s`)
+    }
+  }
+
+  static async fetchChangeLogFromIPFS(cid: string): Promise<RegistryChangeLog> {
+    const url = IPFSService.getIPFSGatewayUrl(cid)
+
+    try {
+      const response = await fetch(url)
+      if (!response.ok) {
+        throw new Error(`Failed to fetch change log: ${response.statusText}`)
+      }
+
+      const changeLog: RegistryChangeLog = await response.json()
+
+      if (changeLog.format !== 'etherith-registry-changelog-v1') {
+        throw new Error('Invalid change log format')
+      }
+
+      return changeLog
+    } catch (error) {
+      throw new Error(`Failed to fetch change log from IPFS: ${error}`)
+    }
+  }
+
   // Subscription Management
 
   static addSubscription(registryCid: string, autoSync: boolean = true): Promise<RegistrySubscription> {
     return new Promise(async (resolve, reject) => {
       try {
+        const subscriptions = this.getSubscriptions()
+
+        // Check if already subscribed
+        const existing = subscriptions.find(sub => sub.registryCid === registryCid)
+        if (existing) {
+          throw new Error('Already subscribed to this registry')
+        }
+
         // Fetch registry to get user info
         const registry = await this.fetchRegistryFromIPFS(registryCid)
 
+        if (!(await this.verifyRegistrySignature(registry))) {
+          throw new Error('Registry signature is missing or invalid')
+        }
+
+        // A new CID for a registry we already follow moves that subscription's head
+        const followed = subscriptions.find(sub => sub.registryId === registry.registryId)
+        if (followed) {
+          await this.assertTrustedRegistry(registry, followed)
+          this.updateSubscription(followed.id, { registryCid })
+
+          if (autoSync) {
+            this.syncSubscription(followed.id)
+          }
+
+          resolve({ ...followed, registryCid })
+          return
+        }
+
         const subscription: RegistrySubscription = {
           id: this.generateId(),
           registryId: registry.registryId,
           registryCid,
           userId: registry.userId,
+          publicKey: registry.signature!.publicKey,
           displayName: registry.userProfile.displayName,
           avatar: registry.userProfile.avatar,
           contactLink: registry.userProfile.contactLink,
@@ -221,14 +772,6 @@ export class RegistryManager {
           notes: ''
         }
 
-        const subscriptions = this.getSubscriptions()
-
-        // Check if already subscribed
-        const existing = subscriptions.find(sub => sub.registryCid === registryCid)
-        if (existing) {
-          throw new Error('Already subscribed to this registry')
-        }
-
         subscriptions.push(subscription)
         this.saveSubscriptions(subscriptions)
 
@@ -279,10 +822,11 @@ export class RegistryManager {
   // Background Sync
 
   static async syncSubscription(subscriptionId: string): Promise<SyncOperation> {
-    const subscription = this.getSubscriptions().find(sub => sub.id === subscriptionId)
-    if (!subscription) {
+    const known = this.getSubscriptions().find(sub => sub.id === subscriptionId)
+    if (!known) {
       throw new Error('Subscription not found')
     }
+    const subscription = await this.followRegistryHead(known)
 
     const syncOp: SyncOperation = {
       id: this.generateId(),
@@ -293,6 +837,10 @@ export class RegistryManager {
       memoriesFound: 0,
       memoriesDownloaded: 0,
       memoriesSkipped: 0,
+      memoriesUpdated: 0,
+      memoriesRemoved: 0,
+      fromCid: subscription.lastSyncedCid,
+      toCid: subscription.registryCid,
       totalSize: 0,
       errors: []
     }
@@ -302,67 +850,50 @@ export class RegistryManager {
     try {
       // Fetch latest registry
       const registry = await this.fetchRegistryFromIPFS(subscription.registryCid)
+      await this.assertTrustedRegistry(registry, subscription)
 
-      // Check for newer version
-      if (subscription.lastSyncAt && registry.metadata.updated <= subscription.lastSyncAt) {
+      // Pin the author's key for subscriptions created before registries were signed
+      if (!subscription.publicKey) {
+        this.updateSubscription(subscriptionId, { publicKey: registry.signature!.publicKey })
+      }
+
+      // Nothing to do if we already reflect this version
+      if (subscription.lastSyncedCid === subscription.registryCid) {
+        syncOp.type = 'incremental'
         syncOp.status = 'completed'
         syncOp.completedAt = Date.now()
+        this.updateSubscription(subscriptionId, { lastSyncAt: Date.now() })
         this.saveSyncOperation(syncOp)
         return syncOp
       }
 
-      const discoveredMemories = this.getDiscoveredMemories()
-      const existingMemoryIds = new Set(discoveredMemories.map(dm => dm.memory.id))
-
-      syncOp.memoriesFound = registry.publicMemories.length
-
-      // Process each memory
-      for (const memory of registry.publicMemories) {
-        try {
-          // Skip if already discovered
-          if (existingMemoryIds.has(memory.id)) {
-            syncOp.memoriesSkipped++
-            continue
-          }
-
-          // Verify memory integrity
-          if (this.getConfig().syncConfig.verifyIntegrity) {
-            const expectedHash = memory.contentHash
-            const actualHash = this.generateContentHash(memory.content + memory.memoryNote)
-
-            if (expectedHash !== actualHash) {
-              syncOp.errors?.push(`Content hash mismatch for memory: ${memory.title}`)
-              continue
-            }
-          }
-
-          // Add to discovered memories
-          const discovery: MemoryDiscovery = {
-            id: this.generateId(),
-            registryId: registry.registryId,
-            registryCid: subscription.registryCid,
-            memory,
-            discoveredAt: Date.now(),
-            source: 'subscription',
-            tags: memory.tags
-          }
-
-          this.addDiscoveredMemory(discovery)
-
-          syncOp.memoriesDownloaded++
-          syncOp.totalSize += memory.fileSize || 0
+      const changeLogs = subscription.lastSyncedCid
+        ? await this.collectChangeLogsSince(registry, subscription, registry.signature!.publicKey)
+        : null
 
-        } catch (error) {
-          syncOp.errors?.push(`Failed to process memory ${memory.title}: ${error}`)
+      if (changeLogs) {
+        syncOp.type = 'incremental'
+        for (const changeLog of changeLogs) {
+          await this.applyChanges(changeLog.changes, registry, subscription, syncOp)
         }
+      } else {
+        await this.reconcileRegistry(registry, subscription, syncOp)
       }
 
       // Update subscription
-      this.updateSubscription(subscriptionId, { lastSyncAt: Date.now() })
+      this.updateSubscription(subscriptionId, {
+        lastSyncAt: Date.now(),
+        lastSyncedCid: subscription.registryCid,
+        lastSyncedChangeLogCid: registry.changeLogCid
+      })
 
       syncOp.status = 'completed'
       syncOp.completedAt = Date.now()
-      syncOp.lastMemoryTimestamp = Math.max(...registry.publicMemories.map(m => m.timestamp))
+      if (registry.publicMemories.length > 0) {
+        syncOp.lastMemoryTimestamp = Math.max(...registry.publicMemories.map(m => m.timestamp))
+      }
+
+      NotificationService.notifyRegistrySync(syncOp, registry, LocalStorage.getUserProfile()?.id)
 
     } catch (error) {
       syncOp.status = 'failed'
@@ -374,6 +905,189 @@ export class RegistryManager {
     return syncOp
   }
 
+  // Move the subscription to the author's latest head so a sync diffs against
+  // the newest version, not only the CID we were last handed
+  private static async followRegistryHead(subscription: RegistrySubscription): Promise<RegistrySubscription> {
+    let head: RegistryHead | null
+    try {
+      head = await this.resolveRegistryHead(subscription)
+    } catch (error) {
+      console.warn('Registry head unavailable, syncing the known CID:', error)
+      return subscription
+    }
+
+    if (!head || head.cid === subscription.registryCid || head.publishedAt <= (subscription.headPublishedAt || 0)) {
+      return subscription
+    }
+
+    const updates = { registryCid: head.cid, headPublishedAt: head.publishedAt }
+    this.updateSubscription(subscription.id, updates)
+    return { ...subscription, ...updates }
+  }
+
+  /**
+   * Walk the change log chain back from the registry head until it reaches
+   * the version the subscription last synced. Returns logs oldest first, or
+   * null when the chain is broken or too long and a full sync is needed instead.
+   */
+  private static async collectChangeLogsSince(
+    registry: UserRegistry,
+    subscription: RegistrySubscription,
+    publicKey: string
+  ): Promise<RegistryChangeLog[] | null> {
+    const changeLogs: RegistryChangeLog[] = []
+    let changeLogCid = registry.changeLogCid
+
+    for (let depth = 0; depth < MAX_CHANGELOG_DEPTH && changeLogCid; depth++) {
+      // Publishes without changes keep linking to the log already applied
+      if (changeLogCid === subscription.lastSyncedChangeLogCid) {
+        return changeLogs
+      }
+
+      let changeLog: RegistryChangeLog
+      try {
+        changeLog = await this.fetchChangeLogFromIPFS(changeLogCid)
+      } catch (error) {
+        console.warn('Change log unavailable, falling back to full sync:', error)
+        return null
+      }
+
+      if (changeLog.registryId !== registry.registryId ||
+          !(await this.verifyChangeLogSignature(changeLog, publicKey))) {
+        throw new Error('Registry change log signature is missing or invalid')
+      }
+
+      changeLogs.unshift(changeLog)
+
+      if (changeLog.previousCid === subscription.lastSyncedCid) {
+        return changeLogs
+      }
+
+      changeLogCid = changeLog.previousChangeLogCid
+    }
+
+    return null
+  }
+
+  private static async applyChanges(
+    changes: RegistryChange[],
+    registry: UserRegistry,
+    subscription: RegistrySubscription,
+    syncOp: SyncOperation
+  ): Promise<void> {
+    syncOp.memoriesFound += changes.length
+
+    for (const change of changes) {
+      try {
+        if (change.op === 'removed') {
+          if (this.removeDiscoveredMemory(registry.registryId, change.entryId)) {
+            syncOp.memoriesRemoved = (syncOp.memoriesRemoved || 0) + 1
+          } else {
+            syncOp.memoriesSkipped++
+          }
+          continue
+        }
+
+        if (!change.entry) {
+          syncOp.errors?.push(`Change for ${change.entryId} is missing its entry`)
+          continue
+        }
+
+        await this.upsertDiscoveredEntry(change.entry, registry, subscription, syncOp)
+      } catch (error) {
+        syncOp.errors?.push(`Failed to apply ${change.op} for ${change.entryId}: ${error}`)
+      }
+    }
+  }
+
+  // Full sync: bring discovered memories for this registry in line with the snapshot
+  private static async reconcileRegistry(
+    registry: UserRegistry,
+    subscription: RegistrySubscription,
+    syncOp: SyncOperation
+  ): Promise<void> {
+    syncOp.type = 'full'
+    syncOp.memoriesFound = registry.publicMemories.length
+
+    const currentIds = new Set(registry.publicMemories.map(memory => memory.id))
+
+    for (const memory of registry.publicMemories) {
+      try {
+        await this.upsertDiscoveredEntry(memory, registry, subscription, syncOp)
+      } catch (error) {
+        syncOp.errors?.push(`Failed to process memory ${memory.title}: ${error}`)
+      }
+    }
+
+    this.getDiscoveredMemories()
+      .filter(d => d.registryId === registry.registryId && !currentIds.has(d.memory.id))
+      .forEach(d => {
+        this.removeDiscoveredMemory(registry.registryId, d.memory.id)
+        syncOp.memoriesRemoved = (syncOp.memoriesRemoved || 0) + 1
+      })
+  }
+
+  private static async upsertDiscoveredEntry(
+    entry: PublicMemoryEntry,
+    registry: UserRegistry,
+    subscription: RegistrySubscription,
+    syncOp: SyncOperation
+  ): Promise<void> {
+    // Verify memory integrity
+    if (this.getConfig().syncConfig.verifyIntegrity) {
+      const expectedHash = entry.contentHash
+      const actualHash = await this.generateContentHash(
+        entry.sealed ? entry.sealed.ciphertext : entry.content + entry.memoryNote
+      )
+
+      if (expectedHash !== actualHash) {
+        syncOp.errors?.push(`Content hash mismatch for memory: ${entry.title}`)
+        return
+      }
+    }
+
+    // Restricted entries are kept opened when a key was wrapped for us, locked otherwise
+    const memory = await this.openSealedEntry(entry, LocalStorage.getUserProfile()?.id)
+
+    const existing = this.getDiscoveredMemories()
+      .find(d => d.registryId === registry.registryId && d.memory.id === memory.id)
+
+    if (existing) {
+      if (CryptoService.canonicalJSON(existing.memory) === CryptoService.canonicalJSON(memory)) {
+        syncOp.memoriesSkipped++
+        return
+      }
+
+      // The content changed, so its vector and score are stale
+      this.updateDiscoveredMemory({
+        ...existing,
+        registryCid: subscription.registryCid,
+        memory,
+        tags: memory.tags,
+        embedding: undefined,
+        relevanceScore: undefined
+      })
+      syncOp.memoriesUpdated = (syncOp.memoriesUpdated || 0) + 1
+      return
+    }
+
+    // Add to discovered memories
+    const discovery: MemoryDiscovery = {
+      id: this.generateId(),
+      registryId: registry.registryId,
+      registryCid: subscription.registryCid,
+      memory,
+      discoveredAt: Date.now(),
+      source: 'subscription',
+      tags: memory.tags
+    }
+
+    this.addDiscoveredMemory(discovery)
+
+    syncOp.memoriesDownloaded++
+    syncOp.totalSize += memory.fileSize || 0
+  }
+
   static async syncAllSubscriptions(): Promise<SyncOperation[]> {
     const subscriptions = this.getSubscriptions().filter(sub => sub.syncEnabled)
     const operations: Promise<SyncOperation>[] = []
@@ -391,51 +1105,42 @@ export class RegistryManager {
     const discoveries = this.getDiscoveredMemories()
     discoveries.push(discovery)
     localStorage.setItem(REGISTRY_STORAGE_KEYS.DISCOVERED_MEMORIES, JSON.stringify(discoveries))
+    MemorySearchService.indexDiscovery(discovery)
   }
 
-  static getDiscoveredMemories(): MemoryDiscovery[] {
-    const data = localStorage.getItem(REGISTRY_STORAGE_KEYS.DISCOVERED_MEMORIES)
-    return data ? JSON.parse(data) : []
+  static updateDiscoveredMemory(discovery: MemoryDiscovery): void {
+    const discoveries = this.getDiscoveredMemories()
+      .map(d => d.id === discovery.id ? discovery : d)
+    localStorage.setItem(REGISTRY_STORAGE_KEYS.DISCOVERED_MEMORIES, JSON.stringify(discoveries))
+    MemorySearchService.indexDiscovery(discovery)
   }
 
-  static searchDiscoveredMemories(filters: RegistrySearchFilters): MemoryDiscovery[] {
-    let discoveries = this.getDiscoveredMemories()
-
-    if (filters.query) {
-      const query = filters.query.toLowerCase()
-      discoveries = discoveries.filter(d =>
-        d.memory.title.toLowerCase().includes(query) ||
-        d.memory.content.toLowerCase().includes(query) ||
-        d.memory.memoryNote.toLowerCase().includes(query) ||
-        (d.memory.tags && d.memory.tags.some(tag => tag.toLowerCase().includes(query)))
-      )
-    }
-
-    if (filters.authorName) {
-      discoveries = discoveries.filter(d =>
-        d.memory.authorName.toLowerCase().includes(filters.authorName!.toLowerCase())
-      )
-    }
-
-    if (filters.fileType) {
-      discoveries = discoveries.filter(d => d.memory.fileType === filters.fileType)
-    }
+  static removeDiscoveredMemory(registryId: string, memoryId: string): boolean {
+    const discoveries = this.getDiscoveredMemories()
+    const remaining = discoveries.filter(d => !(d.registryId === registryId && d.memory.id === memoryId))
 
-    if (filters.tags && filters.tags.length > 0) {
-      discoveries = discoveries.filter(d =>
-        d.memory.tags && d.memory.tags.some(tag => filters.tags!.includes(tag))
-      )
+    if (remaining.length < discoveries.length) {
+      localStorage.setItem(REGISTRY_STORAGE_KEYS.DISCOVERED_MEMORIES, JSON.stringify(remaining))
+      discoveries
+        .filter(d => d.registryId === registryId && d.memory.id === memoryId)
+        .forEach(d => MemorySearchService.removeDiscovery(d.id))
+      return true
     }
+    return false
+  }
 
-    if (filters.dateFrom) {
-      discoveries = discoveries.filter(d => d.memory.timestamp >= filters.dateFrom!)
-    }
+  static getDiscoveredMemories(): MemoryDiscovery[] {
+    const data = localStorage.getItem(REGISTRY_STORAGE_KEYS.DISCOVERED_MEMORIES)
+    return data ? JSON.parse(data) : []
+  }
 
-    if (filters.dateTo) {
-      discoveries = discoveries.filter(d => d.memory.timestamp <= filters.dateTo!)
-    }
+  static searchDiscoveredMemories(filters: RegistrySearchFilters): MemoryDiscovery[] {
+    return MemorySearchService.searchDiscovered(filters)
+      .map(result => ({ ...result.discovery!, relevanceScore: result.score }))
+  }
 
-    return discoveries.sort((a, b) => b.memory.timestamp - a.memory.timestamp)
+  static searchRegistries(filters: RegistrySearchFilters): RegistrySearchResult[] {
+    return MemorySearchService.searchRegistries(filters)
   }
 
   // Configuration Management
@@ -542,15 +1247,8 @@ export class RegistryManager {
     return `reg_${userId}_${Date.now().toString(36)}`
   }
 
-  private static generateContentHash(content: string): string {
-    // Simple hash for browser environment (in production, use crypto.subtle)
-    let hash = 0
-    for (let i = 0; i < content.length; i++) {
-      const char = content.charCodeAt(i)
-      hash = ((hash << 5) - hash) + char
-      hash = hash & hash // Convert to 32-bit integer
-    }
-    return hash.toString(36)
+  private static generateContentHash(content: string): Promise<string> {
+    return CryptoService.sha256(content)
   }
 
   // Cleanup and Maintenance
@@ -0,0 +1,227 @@
+// In-memory inverted index with BM25 ranking
+// Documents are sets of weighted text fields. Query terms match exactly, by
+// prefix (so results appear while typing) or within a small edit distance.
+
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+// Discount applied to terms that only matched loosely
+const PREFIX_MATCH_WEIGHT = 0.7
+const FUZZY_MATCH_WEIGHT = 0.4
+const MIN_PREFIX_LENGTH = 2
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is',
+  'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'with'
+])
+
+export interface SearchField {
+  text: string | undefined
+  weight?: number
+}
+
+export interface SearchHit {
+  id: string
+  score: number
+  matchedTerms: string[]
+}
+
+interface IndexedDocument {
+  length: number // Weighted term count, used for length normalisation
+  terms: string[]
+}
+
+// Whitespace, ASCII and Latin-1 punctuation, general and CJK punctuation and
+// their full-width forms. Any other character (Cyrillic, Greek, Arabic,
+// Devanagari, Hangul...) is part of a word.
+const SEPARATORS = /[\s\u0000-\u002f\u003a-\u0040\u005b-\u0060\u007b-\u00bf\u00d7\u00f7\u2000-\u206f\u3000-\u303f\uff00-\uff0f\uff1a-\uff20\uff3b-\uff40\uff5b-\uff65]+/
+
+// Kana and Han ideographs, written without spaces between words
+const CJK_RUN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]+/g
+
+// Every character and every pair of neighbours, so a query matches
+// anywhere inside the run without a word segmenter
+function cjkTerms(run: string): string[] {
+  const terms = run.split('')
+  for (let i = 0; i < run.length - 1; i++) {
+    terms.push(run.substr(i, 2))
+  }
+  return terms
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip diacritics so "café" matches "cafe"
+    .toLowerCase()
+    .replace(CJK_RUN, run => ` ${cjkTerms(run).join(' ')} `)
+    .split(SEPARATORS)
+    .filter(token => token.length > 0 && !STOP_WORDS.has(token))
+}
+
+/**
+ * Edit distance counting adjacent transpositions as one edit ("gardne" is
+ * one typo away from "garden"), giving up once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  let beforePrevious: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1)
+      }
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > max) return max + 1
+    beforePrevious = previous
+    previous = current
+  }
+  return previous[b.length]
+}
+
+function maxEditsFor(token: string): number {
+  if (token.length >= 8) return 2
+  if (token.length >= 4) return 1
+  return 0
+}
+
+export class InvertedIndex {
+  private postings = new Map<string, Map<string, number>>() // term -> docId -> weighted frequency
+  private documents = new Map<string, IndexedDocument>()
+  private totalLength = 0
+
+  get size(): number {
+    return this.documents.size
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id)
+  }
+
+  add(id: string, fields: SearchField[]): void {
+    this.remove(id)
+
+    const frequencies = new Map<string, number>()
+    let length = 0
+
+    fields.forEach(({ text, weight = 1 }) => {
+      if (!text) return
+      tokenize(text).forEach(token => {
+        frequencies.set(token, (frequencies.get(token) || 0) + weight)
+        length += weight
+      })
+    })
+
+    frequencies.forEach((frequency, term) => {
+      let posting = this.postings.get(term)
+      if (!posting) {
+        posting = new Map()
+        this.postings.set(term, posting)
+      }
+      posting.set(id, frequency)
+    })
+
+    this.documents.set(id, { length, terms: Array.from(frequencies.keys()) })
+    this.totalLength += length
+  }
+
+  remove(id: string): void {
+    const document = this.documents.get(id)
+    if (!document) return
+
+    document.terms.forEach(term => {
+      const posting = this.postings.get(term)
+      if (!posting) return
+      posting.delete(id)
+      if (posting.size === 0) this.postings.delete(term)
+    })
+
+    this.documents.delete(id)
+    this.totalLength -= document.length
+  }
+
+  clear(): void {
+    this.postings.clear()
+    this.documents.clear()
+    this.totalLength = 0
+  }
+
+  /**
+   * Rank documents against the query. Every query token has to match some
+   * term in a document for it to be returned.
+   */
+  search(query: string): SearchHit[] {
+    const tokens = Array.from(new Set(tokenize(query)))
+    if (tokens.length === 0 || this.documents.size === 0) return []
+
+    const averageLength = this.totalLength / this.documents.size || 1
+    const scores = new Map<string, number>()
+    const matchedTerms = new Map<string, Set<string>>()
+    const matchedTokens = new Map<string, number>()
+
+    for (const token of tokens) {
+      // Best score per document for this query token across its expansions
+      const tokenScores = new Map<string, { score: number; term: string }>()
+
+      this.expand(token).forEach(({ term, weight }) => {
+        const posting = this.postings.get(term)!
+        const idf = Math.log(1 + (this.documents.size - posting.size + 0.5) / (posting.size + 0.5))
+
+        posting.forEach((frequency, id) => {
+          const length = this.documents.get(id)!.length
+          const tf = (frequency * (BM25_K1 + 1)) /
+            (frequency + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength))
+          const score = weight * idf * tf
+          const best = tokenScores.get(id)
+          if (!best || score > best.score) {
+            tokenScores.set(id, { score, term })
+          }
+        })
+      })
+
+      tokenScores.forEach(({ score, term }, id) => {
+        matchedTokens.set(id, (matchedTokens.get(id) || 0) + 1)
+        scores.set(id, (scores.get(id) || 0) + score)
+        if (!matchedTerms.has(id)) matchedTerms.set(id, new Set())
+        matchedTerms.get(id)!.add(term)
+      })
+    }
+
+    return Array.from(matchedTokens.keys())
+      .filter(id => matchedTokens.get(id) === tokens.length)
+      .map(id => ({
+        id,
+        score: scores.get(id) || 0,
+        matchedTerms: Array.from(matchedTerms.get(id) || [])
+      }))
+      .sort((a, b) => b.score - a.score)
+  }
+
+  // Index terms a query token may stand for, with how much each one counts
+  private expand(token: string): { term: string; weight: number }[] {
+    const expansions: { term: string; weight: number }[] = []
+    const maxEdits = maxEditsFor(token)
+
+    this.postings.forEach((_, term) => {
+      if (term === token) {
+        expansions.push({ term, weight: 1 })
+      } else if (token.length >= MIN_PREFIX_LENGTH && term.startsWith(token)) {
+        expansions.push({ term, weight: PREFIX_MATCH_WEIGHT })
+      } else if (maxEdits > 0) {
+        const distance = editDistance(token, term, maxEdits)
+        if (distance <= maxEdits) {
+          expansions.push({ term, weight: FUZZY_MATCH_WEIGHT / distance })
+        }
+      }
+    })
+
+    return expansions
+  }
+}
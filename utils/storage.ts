@@ -1,4 +1,8 @@
 import { Memory, UserProfile, MemoryReaction, MemoryComment, MemoryEngagement } from '../types/memory'
+import { MemoryRepository } from './memory-repository'
+import { MemorySearchService } from './memory-search'
+import { NotificationService } from './notifications'
+import { MediaMetadataService } from './media-metadata'
 
 const STORAGE_KEYS = {
   MEMORIES: 'etherith_memories',
@@ -10,8 +14,120 @@ const STORAGE_KEYS = {
 }
 
 export class LocalStorage {
+  // IndexedDB-backed memory cache. Callers should await `initialize()` before
+  // the first read; without IndexedDB memories stay under the legacy key.
+  private static memoryCache: Map<string, Memory> | null = null
+  private static initializePromise: Promise<void> | null = null
+  // While the repository opens, memories are served from a snapshot of the
+  // legacy key and writes are held, so the migration can't lose them
+  private static pending: { memories: Map<string, Memory>; writes: Map<string, Memory | null> } | null = null
+  private static storageEstimate: { usage: number; quota: number } | null = null
+
+  static initialize(): Promise<void> {
+    if (!this.initializePromise) {
+      this.initializePromise = this.initializeRepository()
+    }
+    return this.initializePromise
+  }
+
+  static isRepositoryReady(): boolean {
+    return this.memoryCache !== null
+  }
+
+  private static async initializeRepository(): Promise<void> {
+    if (!MemoryRepository.isSupported()) {
+      console.warn('⚠️ IndexedDB unavailable, memories stay in localStorage')
+      return
+    }
+
+    const pending = {
+      memories: new Map(this.readLegacyMemories().map(memory => [memory.id, memory] as [string, Memory])),
+      writes: new Map<string, Memory | null>()
+    }
+    this.pending = pending
+
+    try {
+      await MemoryRepository.migrateFromLocalStorage()
+
+      const records = await MemoryRepository.getAllMemoryRecords()
+      const blobs = await MemoryRepository.getAllBlobs()
+      const blobUrls = new Map(blobs.map(blob => [blob.memoryId, URL.createObjectURL(blob.data)]))
+
+      const cache = new Map<string, Memory>()
+      records.forEach(({ hasFileBlob, ...memory }) => {
+        cache.set(memory.id, {
+          ...memory,
+          fileData: hasFileBlob ? blobUrls.get(memory.id) : undefined
+        })
+      })
+
+      pending.writes.forEach((memory, id) => {
+        if (memory) {
+          cache.set(id, memory)
+          this.persistMemory(memory)
+        } else if (cache.delete(id)) {
+          this.removeFromRepository(id)
+        }
+      })
+
+      this.pending = null
+      this.memoryCache = cache
+      MemorySearchService.invalidate()
+      await MemoryRepository.requestPersistence()
+      await this.refreshStorageEstimate()
+      console.log(`✅ Memory repository ready with ${cache.size} memories`)
+    } catch (error) {
+      console.error('❌ Failed to initialize memory repository, using localStorage:', error)
+      this.pending = null
+      this.initializePromise = null
+      // Writes held during the attempt go to the legacy key instead
+      pending.writes.forEach((memory, id) => {
+        try {
+          if (memory) this.saveMemory(memory)
+          else this.deleteMemory(id)
+        } catch (writeError) {
+          console.error(`❌ Failed to write memory ${id} to localStorage:`, writeError)
+          NotificationService.notifyStorageError(memory ? 'save' : 'delete', memory || { id }, writeError, this.getUserProfile()?.id)
+        }
+      })
+    }
+  }
+
+  private static readLegacyMemories(): Memory[] {
+    const data = localStorage.getItem(STORAGE_KEYS.MEMORIES)
+    return data ? JSON.parse(data) : []
+  }
+
+  private static async refreshStorageEstimate(): Promise<void> {
+    try {
+      this.storageEstimate = await MemoryRepository.estimateUsage()
+    } catch (error) {
+      console.warn('⚠️ Unable to estimate storage usage:', error)
+    }
+  }
+
+  private static persistMemory(memory: Memory): void {
+    MemoryRepository.putMemory(memory)
+      .then(() => this.refreshStorageEstimate())
+      .catch(error => {
+        console.error(`❌ Failed to persist memory ${memory.id}:`, error)
+        NotificationService.notifyStorageError('save', memory, error, this.getUserProfile()?.id)
+      })
+  }
+
+  private static removeFromRepository(id: string): void {
+    MemoryRepository.deleteMemory(id).catch(error => {
+      console.error(`❌ Failed to delete memory ${id} from repository:`, error)
+      NotificationService.notifyStorageError('delete', { id }, error, this.getUserProfile()?.id)
+    })
+  }
+
   // Storage quota management
   static getStorageSize(): number {
+    if (this.isRepositoryReady() && this.storageEstimate) {
+      return this.storageEstimate.usage
+    }
+
     let totalSize = 0
     for (let key in localStorage) {
       if (localStorage.hasOwnProperty(key)) {
@@ -22,6 +138,10 @@ export class LocalStorage {
   }
 
   static getStorageQuota(): number {
+    if (this.isRepositoryReady() && this.storageEstimate?.quota) {
+      return this.storageEstimate.quota
+    }
+
     // Most browsers have 5-10MB localStorage limit
     return 5 * 1024 * 1024 // 5MB in bytes
   }
@@ -32,24 +152,22 @@ export class LocalStorage {
     return currentSize > (quota * 0.8) // 80% of quota
   }
 
-  static cleanupOldMemories(): void {
-    const memories = this.getAllMemories()
-    if (memories.length === 0) return
-
-    // Sort by timestamp (oldest first)
-    const sortedMemories = memories.sort((a, b) => a.timestamp - b.timestamp)
-    
-    // Remove oldest 20% of memories
-    const memoriesToRemove = Math.floor(sortedMemories.length * 0.2)
-    const memoriesToKeep = sortedMemories.slice(memoriesToRemove)
-    
-    console.log(`🧹 Storage cleanup: Removing ${memoriesToRemove} old memories, keeping ${memoriesToKeep.length}`)
-    localStorage.setItem(STORAGE_KEYS.MEMORIES, JSON.stringify(memoriesToKeep))
-  }
-
-
   // Memory operations
   static saveMemory(memory: Memory): void {
+    if (this.memoryCache) {
+      this.memoryCache.set(memory.id, memory)
+      this.persistMemory(memory)
+      MemorySearchService.indexMemory(memory)
+      return
+    }
+
+    if (this.pending) {
+      this.pending.memories.set(memory.id, memory)
+      this.pending.writes.set(memory.id, memory)
+      MemorySearchService.indexMemory(memory)
+      return
+    }
+
     try {
       const memories = this.getAllMemories()
       const existingIndex = memories.findIndex(m => m.id === memory.id)
@@ -61,37 +179,27 @@ export class LocalStorage {
       }
       
       localStorage.setItem(STORAGE_KEYS.MEMORIES, JSON.stringify(memories))
+      MemorySearchService.indexMemory(memory)
     } catch (error) {
       if (error instanceof DOMException && error.name === 'QuotaExceededError') {
-        console.warn('⚠️ Storage quota exceeded, attempting cleanup...')
-        this.cleanupOldMemories()
-        
-        // Try again after cleanup
-        try {
-          const memories = this.getAllMemories()
-          const existingIndex = memories.findIndex(m => m.id === memory.id)
-          
-          if (existingIndex >= 0) {
-            memories[existingIndex] = memory
-          } else {
-            memories.push(memory)
-          }
-          
-          localStorage.setItem(STORAGE_KEYS.MEMORIES, JSON.stringify(memories))
-          console.log('✅ Memory saved after cleanup')
-        } catch (retryError) {
-          console.error('❌ Still unable to save after cleanup:', retryError)
-          throw new Error('Storage is full. Please clear some data or use a different browser.')
-        }
-      } else {
-        throw error
+        // Never drop archived memories to make room; let the caller decide
+        console.error('❌ Storage quota exceeded while saving memory:', memory.id)
+        throw new Error('Storage is full. Please clear some data or use a different browser.')
       }
+      throw error
     }
   }
 
   static getAllMemories(): Memory[] {
-    const data = localStorage.getItem(STORAGE_KEYS.MEMORIES)
-    return data ? JSON.parse(data) : []
+    if (this.memoryCache) {
+      return Array.from(this.memoryCache.values())
+    }
+
+    if (this.pending) {
+      return Array.from(this.pending.memories.values())
+    }
+
+    return this.readLegacyMemories()
   }
 
   static getPublicMemories(): Memory[] {
@@ -103,16 +211,41 @@ export class LocalStorage {
   }
 
   static getMemoryById(id: string): Memory | null {
+    if (this.memoryCache) {
+      return this.memoryCache.get(id) || null
+    }
+
     const memories = this.getAllMemories()
     return memories.find(memory => memory.id === id) || null
   }
 
   static deleteMemory(id: string): boolean {
+    if (this.memoryCache) {
+      const existing = this.memoryCache.get(id)
+      if (!existing) return false
+
+      this.memoryCache.delete(id)
+      if (existing.fileData?.startsWith('blob:')) {
+        URL.revokeObjectURL(existing.fileData)
+      }
+      this.removeFromRepository(id)
+      MemorySearchService.removeMemory(id)
+      return true
+    }
+
+    if (this.pending) {
+      if (!this.pending.memories.delete(id)) return false
+      this.pending.writes.set(id, null)
+      MemorySearchService.removeMemory(id)
+      return true
+    }
+
     const memories = this.getAllMemories()
     const filteredMemories = memories.filter(memory => memory.id !== id)
     
     if (filteredMemories.length < memories.length) {
       localStorage.setItem(STORAGE_KEYS.MEMORIES, JSON.stringify(filteredMemories))
+      MemorySearchService.removeMemory(id)
       return true
     }
     return false
@@ -136,53 +269,14 @@ export class LocalStorage {
     }
   }
 
-  // Search functionality
+  // Search functionality (ranked; see MemorySearchService for discovered memories too)
   static searchMemories(query: string, filters?: {
     fileType?: string
     visibility?: 'public' | 'private'
     authorId?: string
     tags?: string[]
   }): Memory[] {
-    let memories = this.getAllMemories()
-
-    // Apply visibility filter
-    if (filters?.visibility) {
-      memories = memories.filter(memory => memory.visibility === filters.visibility)
-    } else if (!filters?.authorId) {
-      // If no specific user, only show public memories
-      memories = memories.filter(memory => memory.visibility === 'public')
-    }
-
-    // Apply file type filter
-    if (filters?.fileType) {
-      memories = memories.filter(memory => memory.fileType === filters.fileType)
-    }
-
-    // Apply author filter
-    if (filters?.authorId) {
-      memories = memories.filter(memory => memory.authorId === filters.authorId)
-    }
-
-    // Apply tags filter
-    if (filters?.tags && filters.tags.length > 0) {
-      memories = memories.filter(memory => 
-        memory.tags && memory.tags.some(tag => filters.tags!.includes(tag))
-      )
-    }
-
-    // Apply text search
-    if (query) {
-      const searchQuery = query.toLowerCase()
-      memories = memories.filter(memory => 
-        memory.title.toLowerCase().includes(searchQuery) ||
-        memory.content.toLowerCase().includes(searchQuery) ||
-        memory.memoryNote.toLowerCase().includes(searchQuery) ||
-        (memory.tags && memory.tags.some(tag => tag.toLowerCase().includes(searchQuery)))
-      )
-    }
-
-    // Sort by timestamp (newest first)
-    return memories.sort((a, b) => b.timestamp - a.timestamp)
+    return MemorySearchService.search(query, filters).map(result => result.memory)
   }
 
   // Utility functions
@@ -230,6 +324,7 @@ export class LocalStorage {
 
     filteredReactions.push(newReaction)
     localStorage.setItem(STORAGE_KEYS.REACTIONS, JSON.stringify(filteredReactions))
+    NotificationService.notifyReaction(newReaction, this.getMemoryById(memoryId), this.getUserProfile()?.id)
   }
 
   static removeReaction(memoryId: string, userId: string): void {
@@ -252,6 +347,20 @@ export class LocalStorage {
     return reactions.find(r => r.memoryId === memoryId && r.userId === userId) || null
   }
 
+  // Add reactions from another device; a user keeps one reaction per memory, so local ones win
+  static mergeReactions(incoming: MemoryReaction[]): number {
+    const reactions = this.getAllReactions()
+    const known = new Set(reactions.map(r => `${r.memoryId}:${r.userId}`))
+    const added = incoming.filter(r => !known.has(`${r.memoryId}:${r.userId}`))
+
+    if (added.length > 0) {
+      localStorage.setItem(STORAGE_KEYS.REACTIONS, JSON.stringify(reactions.concat(added)))
+      const localUserId = this.getUserProfile()?.id
+      added.forEach(r => NotificationService.notifyReaction(r, this.getMemoryById(r.memoryId), localUserId))
+    }
+    return added.length
+  }
+
   // Comment operations
   static addComment(memoryId: string, userId: string, username: string, userAvatar: string | undefined, content: string): MemoryComment {
     const comments = this.getAllComments()
@@ -268,6 +377,7 @@ export class LocalStorage {
 
     comments.push(newComment)
     localStorage.setItem(STORAGE_KEYS.COMMENTS, JSON.stringify(comments))
+    NotificationService.notifyComment(newComment, this.getMemoryById(memoryId), this.getUserProfile()?.id)
     return newComment
   }
 
@@ -296,6 +406,19 @@ export class LocalStorage {
       .sort((a, b) => a.timestamp - b.timestamp) // Oldest first for comments
   }
 
+  static mergeComments(incoming: MemoryComment[]): number {
+    const comments = this.getAllComments()
+    const known = new Set(comments.map(c => c.id))
+    const added = incoming.filter(c => !known.has(c.id))
+
+    if (added.length > 0) {
+      localStorage.setItem(STORAGE_KEYS.COMMENTS, JSON.stringify(comments.concat(added)))
+      const localUserId = this.getUserProfile()?.id
+      added.forEach(c => NotificationService.notifyComment(c, this.getMemoryById(c.memoryId), localUserId))
+    }
+    return added.length
+  }
+
   // Engagement aggregation
   static getMemoryEngagement(memoryId: string): MemoryEngagement {
     const reactions = this.getReactionsForMemory(memoryId)
@@ -329,16 +452,37 @@ export class LocalStorage {
 
   // Clear all data (for testing/reset)
   static clearAllData(): void {
+    if (this.memoryCache) {
+      this.memoryCache.clear()
+      MemoryRepository.clear().catch(error => {
+        console.error('❌ Failed to clear memory repository:', error)
+      })
+    }
     localStorage.removeItem(STORAGE_KEYS.MEMORIES)
     localStorage.removeItem(STORAGE_KEYS.USER_PROFILE)
     localStorage.removeItem(STORAGE_KEYS.SETTINGS)
     localStorage.removeItem(STORAGE_KEYS.REACTIONS)
     localStorage.removeItem(STORAGE_KEYS.COMMENTS)
     localStorage.removeItem(STORAGE_KEYS.ENGAGEMENTS)
+    NotificationService.reset()
+    MediaMetadataService.setLocationConsent(false)
   }
 
   // Clear large file data to free up localStorage space
   static clearLargeFileData(): void {
+    if (this.memoryCache) {
+      this.getAllMemories().forEach(memory => {
+        if (memory.fileData && memory.fileSize && memory.fileSize > 1024 * 1024) {
+          console.log(`Clearing large file data for memory: ${memory.title}`)
+          this.memoryCache!.set(memory.id, { ...memory, fileData: undefined })
+          MemoryRepository.deleteBlob(memory.id).catch(error => {
+            console.error(`❌ Failed to clear file data for memory ${memory.id}:`, error)
+          })
+        }
+      })
+      return
+    }
+
     const memories = this.getAllMemories()
     const updatedMemories = memories.map(memory => {
       // Remove fileData for files larger than 1MB
@@ -363,6 +507,15 @@ export class LocalStorage {
     const memories = this.getAllMemories()
     const largeFiles = memories.filter(m => m.fileSize && m.fileSize > 1024 * 1024)
     
+    if (this.isRepositoryReady()) {
+      return {
+        totalSize: memories.reduce((sum, m) => sum + (m.fileSize || 0), 0),
+        memoriesCount: memories.length,
+        largeFilesCount: largeFiles.length,
+        localStorageUsed: this.getStorageSize()
+      }
+    }
+
     // Estimate localStorage usage
     const memoriesData = localStorage.getItem(STORAGE_KEYS.MEMORIES) || ''
     const profileData = localStorage.getItem(STORAGE_KEYS.USER_PROFILE) || ''
@@ -0,0 +1,320 @@
+import { DiffOperation, MergeConflictHunk } from '../types/logux-file-sync'
+
+// Myers O(ND) diff over lines (refined to characters inside changed lines)
+// and a diff3-style three-way merge used by the Logux file sync engine
+
+// A changed region: old[oldStart, oldEnd) was replaced by new[newStart, newEnd)
+export interface DiffHunk {
+  oldStart: number
+  oldEnd: number
+  newStart: number
+  newEnd: number
+}
+
+export interface TextMergeResult {
+  content: string
+  conflicts: MergeConflictHunk[]
+}
+
+export interface MergeLabels {
+  ours?: string
+  theirs?: string
+}
+
+// Changed line hunks up to this many characters are refined to character edits
+const CHAR_DIFF_LIMIT = 4000
+
+// The edit search keeps O(D²) numbers, so beyond this many edits the changed
+// middle is reported as one replacement instead
+const MAX_EDIT_DISTANCE = 1000
+
+type EditOp = 'equal' | 'delete' | 'insert'
+
+// Split into lines, keeping each line's terminator so joining is lossless
+export function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || []
+}
+
+// Minimal edit script between two sequences (Myers, "An O(ND) Difference
+// Algorithm"). Each round keeps only its diagonals [-d, d], so memory is O(D²).
+// Returns null when the sequences are more than MAX_EDIT_DISTANCE edits apart.
+function shortestEditScript(a: string[], b: string[]): EditOp[] | null {
+  const n = a.length
+  const m = b.length
+  const max = n + m
+  if (max === 0) return []
+  if (Math.abs(n - m) > MAX_EDIT_DISTANCE) return null
+
+  const offset = max
+  const v: number[] = new Array(2 * max + 2).fill(0)
+  const trace: number[][] = []
+  let found = false
+
+  for (let d = 0; d <= max && !found; d++) {
+    if (d > MAX_EDIT_DISTANCE) return null
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1
+      let y = x - k
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        found = true
+        break
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1))
+  }
+
+  const ops: EditOp[] = []
+  let x = n
+  let y = m
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1]
+    const at = (k: number) => previous[k + d - 1]
+    const k = x - y
+    const down = k === -d || (k !== d && at(k - 1) < at(k + 1))
+    const previousK = down ? k + 1 : k - 1
+    const previousX = at(previousK)
+    const previousY = previousX - previousK
+
+    while (x > previousX && y > previousY) {
+      ops.push('equal')
+      x--
+      y--
+    }
+    ops.push(down ? 'insert' : 'delete')
+    x = previousX
+    y = previousY
+  }
+
+  while (x > 0 && y > 0) {
+    ops.push('equal')
+    x--
+    y--
+  }
+
+  return ops.reverse()
+}
+
+// Changed regions between two sequences, in ascending order
+export function diffSequences(a: string[], b: string[]): DiffHunk[] {
+  // The common prefix and suffix never need the O(ND) search
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++
+
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++
+
+  const ops = shortestEditScript(
+    a.slice(prefix, a.length - suffix),
+    b.slice(prefix, b.length - suffix)
+  )
+  if (!ops) {
+    return [{ oldStart: prefix, oldEnd: a.length - suffix, newStart: prefix, newEnd: b.length - suffix }]
+  }
+
+  const hunks: DiffHunk[] = []
+  let i = prefix
+  let j = prefix
+  let current: DiffHunk | null = null
+
+  for (const op of ops) {
+    if (op === 'equal') {
+      if (current) hunks.push(current)
+      current = null
+      i++
+      j++
+      continue
+    }
+
+    if (!current) current = { oldStart: i, oldEnd: i, newStart: j, newEnd: j }
+    if (op === 'delete') current.oldEnd = ++i
+    else current.newEnd = ++j
+  }
+  if (current) hunks.push(current)
+
+  return hunks
+}
+
+function lineOffsets(lines: string[]): number[] {
+  const offsets = [0]
+  lines.forEach(line => offsets.push(offsets[offsets.length - 1] + line.length))
+  return offsets
+}
+
+function toOperation(position: number, removed: string, inserted: string): DiffOperation {
+  if (!removed) return { type: 'insert', position, content: inserted }
+  if (!inserted) return { type: 'delete', position, content: '', length: removed.length }
+  return { type: 'replace', position, content: inserted, length: removed.length }
+}
+
+// Edit operations turning oldText into newText; positions index oldText
+export function diffText(oldText: string, newText: string): DiffOperation[] {
+  const oldLines = splitLines(oldText)
+  const newLines = splitLines(newText)
+  const oldOffsets = lineOffsets(oldLines)
+  const newOffsets = lineOffsets(newLines)
+  const operations: DiffOperation[] = []
+
+  diffSequences(oldLines, newLines).forEach(hunk => {
+    const position = oldOffsets[hunk.oldStart]
+    const removed = oldText.slice(position, oldOffsets[hunk.oldEnd])
+    const inserted = newText.slice(newOffsets[hunk.newStart], newOffsets[hunk.newEnd])
+
+    if (!removed || !inserted || removed.length + inserted.length > CHAR_DIFF_LIMIT) {
+      operations.push(toOperation(position, removed, inserted))
+      return
+    }
+
+    diffSequences(removed.split(''), inserted.split('')).forEach(change => {
+      operations.push(toOperation(
+        position + change.oldStart,
+        removed.slice(change.oldStart, change.oldEnd),
+        inserted.slice(change.newStart, change.newEnd)
+      ))
+    })
+  })
+
+  return operations
+}
+
+export function applyDiffOperations(text: string, operations: DiffOperation[]): string {
+  let result = ''
+  let cursor = 0
+
+  operations.forEach(operation => {
+    if (operation.position < cursor || operation.position > text.length) {
+      throw new Error(`Diff operation at ${operation.position} is out of order or out of range`)
+    }
+
+    result += text.slice(cursor, operation.position)
+    if (operation.type !== 'delete') result += operation.content
+    cursor = operation.position + (operation.type === 'insert' ? 0 : operation.length || 0)
+  })
+
+  return result + text.slice(cursor)
+}
+
+// Where an offset into the old text lands once the operations are applied.
+// Text inserted exactly at the offset ends up after it.
+export function mapOffset(offset: number, operations: DiffOperation[]): number {
+  let shift = 0
+
+  for (const operation of operations) {
+    if (operation.position >= offset) break
+
+    const removed = operation.type === 'insert' ? 0 : operation.length || 0
+    const inserted = operation.type === 'delete' ? 0 : operation.content.length
+
+    // Offsets inside replaced text move to the start of the replacement
+    if (operation.position + removed > offset) return operation.position + shift
+    shift += inserted - removed
+  }
+
+  return offset + shift
+}
+
+interface SidedHunk extends DiffHunk {
+  side: 'ours' | 'theirs'
+}
+
+// Base lines [start, end) with one side's hunks inside that range applied
+function applyHunks(base: string[], start: number, end: number, hunks: SidedHunk[], lines: string[]): string {
+  let result = ''
+  let position = start
+
+  hunks.forEach(hunk => {
+    result += base.slice(position, hunk.oldStart).join('') + lines.slice(hunk.newStart, hunk.newEnd).join('')
+    position = hunk.oldEnd
+  })
+
+  return result + base.slice(position, end).join('')
+}
+
+function withTrailingNewline(text: string): string {
+  return !text || text.endsWith('\n') ? text : `${text}\n`
+}
+
+// Three-way merge of two descendants of base. Edits to separate regions are
+// combined; regions both sides changed differently become conflicts and are
+// written with conflict markers in the merged content.
+export function mergeText(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: MergeLabels = {}
+): TextMergeResult {
+  if (ours === theirs || theirs === base) return { content: ours, conflicts: [] }
+  if (ours === base) return { content: theirs, conflicts: [] }
+
+  const baseLines = splitLines(base)
+  const sides = { ours: splitLines(ours), theirs: splitLines(theirs) }
+  const changes: SidedHunk[] = [
+    ...diffSequences(baseLines, sides.ours).map(hunk => ({ ...hunk, side: 'ours' as const })),
+    ...diffSequences(baseLines, sides.theirs).map(hunk => ({ ...hunk, side: 'theirs' as const }))
+  ].sort((a, b) => a.oldStart - b.oldStart || a.oldEnd - b.oldEnd)
+
+  const conflicts: MergeConflictHunk[] = []
+  let content = ''
+  let cursor = 0
+  let i = 0
+
+  while (i < changes.length) {
+    const group = [changes[i]]
+    const start = changes[i].oldStart
+    let end = changes[i].oldEnd
+    i++
+
+    // Overlapping ranges, or two edits anchored at the same line, are one region
+    while (i < changes.length && (changes[i].oldStart < end || changes[i].oldStart === start)) {
+      end = Math.max(end, changes[i].oldEnd)
+      group.push(changes[i])
+      i++
+    }
+
+    content += baseLines.slice(cursor, start).join('')
+    cursor = end
+
+    const oursHunks = group.filter(hunk => hunk.side === 'ours')
+    const theirsHunks = group.filter(hunk => hunk.side === 'theirs')
+    const oursRegion = applyHunks(baseLines, start, end, oursHunks, sides.ours)
+    const theirsRegion = applyHunks(baseLines, start, end, theirsHunks, sides.theirs)
+
+    if (!theirsHunks.length || oursRegion === theirsRegion) {
+      content += oursRegion
+      continue
+    }
+    if (!oursHunks.length) {
+      content += theirsRegion
+      continue
+    }
+
+    conflicts.push({
+      baseStart: start,
+      base: baseLines.slice(start, end).join(''),
+      ours: oursRegion,
+      theirs: theirsRegion
+    })
+    content += [
+      `<<<<<<< ${labels.ours || 'ours'}\n`,
+      withTrailingNewline(oursRegion),
+      '=======\n',
+      withTrailingNewline(theirsRegion),
+      `>>>>>>> ${labels.theirs || 'theirs'}\n`
+    ].join('')
+  }
+
+  return { content: content + baseLines.slice(cursor).join(''), conflicts }
+}
@@ -0,0 +1,220 @@
+import { promises as fs, createWriteStream, openAsBlob } from 'fs'
+import os from 'os'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import type { PinMetadata, PinPolicy } from './pinning'
+
+// Server-side bookkeeping for chunked uploads
+// Each session is a directory holding session.json plus one file per received
+// part. Received parts are read from the directory listing, so an interrupted
+// upload resumes from whatever made it to disk.
+
+const UPLOAD_ROOT = path.join(os.tmpdir(), 'etherith-uploads')
+const SESSION_FILE = 'session.json'
+
+export const MAX_CHUNKED_UPLOAD_SIZE = 2 * 1024 * 1024 * 1024 // 2GB
+export const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024 // 5MB
+export const MIN_CHUNK_SIZE = 256 * 1024
+export const MAX_CHUNK_SIZE = 8 * 1024 * 1024
+const SESSION_TTL = 24 * 60 * 60 * 1000 // 24 hours
+
+export interface UploadSession {
+  uploadId: string
+  fileName: string
+  mimeType: string
+  size: number
+  chunkSize: number
+  totalChunks: number
+  receivedChunks: number[] // Derived from the part files on disk
+  metadata?: PinMetadata
+  pinPolicy?: PinPolicy
+  createdAt: number
+  updatedAt: number
+}
+
+export class UploadSessionStore {
+  static async create(params: {
+    fileName: string
+    mimeType: string
+    size: number
+    chunkSize?: number
+    metadata?: UploadSession['metadata']
+    pinPolicy?: PinPolicy
+  }): Promise<UploadSession> {
+    if (!Number.isInteger(params.size) || params.size <= 0) {
+      throw new Error('File size must be a positive integer')
+    }
+    if (params.size > MAX_CHUNKED_UPLOAD_SIZE) {
+      throw new Error(`File exceeds the ${MAX_CHUNKED_UPLOAD_SIZE / 1024 / 1024 / 1024}GB upload limit`)
+    }
+
+    const chunkSize = Math.min(Math.max(params.chunkSize || DEFAULT_CHUNK_SIZE, MIN_CHUNK_SIZE), MAX_CHUNK_SIZE)
+    const now = Date.now()
+
+    const session: UploadSession = {
+      uploadId: randomUUID(),
+      fileName: params.fileName,
+      mimeType: params.mimeType || 'application/octet-stream',
+      size: params.size,
+      chunkSize,
+      totalChunks: Math.ceil(params.size / chunkSize),
+      receivedChunks: [],
+      metadata: params.metadata,
+      pinPolicy: params.pinPolicy,
+      createdAt: now,
+      updatedAt: now
+    }
+
+    await fs.mkdir(this.getSessionDir(session.uploadId), { recursive: true })
+    await this.save(session)
+
+    // Opportunistic cleanup of abandoned sessions
+    this.cleanupExpired().catch(error => console.warn('Upload session cleanup failed:', error))
+
+    return session
+  }
+
+  static async get(uploadId: string): Promise<UploadSession | null> {
+    if (!isValidUploadId(uploadId)) {
+      return null
+    }
+
+    try {
+      const sessionDir = this.getSessionDir(uploadId)
+      const session: UploadSession = JSON.parse(await fs.readFile(path.join(sessionDir, SESSION_FILE), 'utf8'))
+      const files = await fs.readdir(sessionDir)
+
+      session.receivedChunks = files
+        .map(file => file.match(/^part-(\d+)$/)?.[1])
+        .filter((index): index is string => index !== undefined)
+        .map(Number)
+        .sort((a, b) => a - b)
+
+      return session
+    } catch {
+      return null
+    }
+  }
+
+  /**
+   * Stream one part to disk. The part is written to a temporary file and only
+   * renamed into place once complete, so a dropped connection never leaves a
+   * truncated part behind.
+   */
+  static async writePart(uploadId: string, index: number, body: Readable): Promise<UploadSession> {
+    const session = await this.get(uploadId)
+    if (!session) {
+      throw new Error('Upload session not found')
+    }
+
+    if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+      throw new Error(`Part index ${index} is out of range`)
+    }
+
+    const partPath = this.getPartPath(uploadId, index)
+    const tempPath = `${partPath}.${randomUUID()}.tmp`
+
+    try {
+      await pipeline(body, createWriteStream(tempPath))
+
+      const { size } = await fs.stat(tempPath)
+      const expectedSize = getExpectedPartSize(session, index)
+      if (size !== expectedSize) {
+        throw new Error(`Part ${index} has ${size} bytes, expected ${expectedSize}`)
+      }
+
+      await fs.rename(tempPath, partPath)
+    } catch (error) {
+      await fs.rm(tempPath, { force: true })
+      throw error
+    }
+
+    await this.save({ ...session, updatedAt: Date.now() })
+    return (await this.get(uploadId)) || session
+  }
+
+  static isComplete(session: UploadSession): boolean {
+    return session.receivedChunks.length === session.totalChunks
+  }
+
+  static getMissingChunks(session: UploadSession): number[] {
+    return Array.from({ length: session.totalChunks }, (_, index) => index)
+      .filter(index => !session.receivedChunks.includes(index))
+  }
+
+  static getPartPaths(session: UploadSession): string[] {
+    return Array.from({ length: session.totalChunks }, (_, index) => this.getPartPath(session.uploadId, index))
+  }
+
+  /**
+   * Assemble the parts into one File backed by the part files on disk, so
+   * providers stream the content instead of buffering it in memory.
+   */
+  static async openAsFile(session: UploadSession): Promise<File> {
+    const parts = await Promise.all(this.getPartPaths(session).map(partPath => openAsBlob(partPath)))
+    return new File(parts, session.metadata?.name || session.fileName, {
+      type: session.metadata?.mimeType || session.mimeType
+    })
+  }
+
+  static async remove(uploadId: string): Promise<void> {
+    if (!isValidUploadId(uploadId)) return
+    await fs.rm(this.getSessionDir(uploadId), { recursive: true, force: true })
+  }
+
+  static async cleanupExpired(maxAge: number = SESSION_TTL): Promise<number> {
+    let entries: string[]
+    try {
+      entries = await fs.readdir(UPLOAD_ROOT)
+    } catch {
+      return 0
+    }
+
+    const cutoff = Date.now() - maxAge
+    let removed = 0
+
+    for (const uploadId of entries) {
+      // Fall back to the directory mtime so a session still being created is spared
+      const session = await this.get(uploadId)
+      const updatedAt = session
+        ? session.updatedAt
+        : (await fs.stat(path.join(UPLOAD_ROOT, uploadId)).catch(() => null))?.mtimeMs ?? 0
+
+      if (updatedAt < cutoff) {
+        await this.remove(uploadId)
+        removed++
+      }
+    }
+
+    return removed
+  }
+
+  private static async save(session: UploadSession): Promise<void> {
+    const sessionPath = path.join(this.getSessionDir(session.uploadId), SESSION_FILE)
+    const tempPath = `${sessionPath}.${randomUUID()}.tmp`
+    const { receivedChunks, ...persisted } = session
+    await fs.writeFile(tempPath, JSON.stringify(persisted))
+    await fs.rename(tempPath, sessionPath)
+  }
+
+  private static getSessionDir(uploadId: string): string {
+    return path.join(UPLOAD_ROOT, uploadId)
+  }
+
+  private static getPartPath(uploadId: string, index: number): string {
+    return path.join(this.getSessionDir(uploadId), `part-${index}`)
+  }
+}
+
+// Upload ids come from the client, so never let one escape UPLOAD_ROOT
+function isValidUploadId(uploadId: string): boolean {
+  return /^[0-9a-f-]{36}$/.test(uploadId)
+}
+
+function getExpectedPartSize(session: UploadSession, index: number): number {
+  return index === session.totalChunks - 1
+    ? session.size - session.chunkSize * (session.totalChunks - 1)
+    : session.chunkSize
+}
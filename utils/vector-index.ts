@@ -0,0 +1,97 @@
+// In-memory cosine similarity index over embedding vectors
+// Vectors are normalised when added so a search is one dot product per
+// document. Linear scan; a personal archive is small enough not to need ANN.
+
+export interface VectorHit {
+  id: string
+  score: number // Cosine similarity, -1 to 1
+}
+
+export interface VectorSearchOptions {
+  limit?: number
+  minScore?: number
+  exclude?: string[]
+}
+
+function normalize(vector: number[]): number[] | null {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return length > 0 ? vector.map(value => value / length) : null
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i]
+  }
+  return sum
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0
+  const normalA = normalize(a)
+  const normalB = normalize(b)
+  return normalA && normalB ? dot(normalA, normalB) : 0
+}
+
+export class VectorIndex {
+  private vectors = new Map<string, number[]>()
+  private dimensions = 0
+
+  get size(): number {
+    return this.vectors.size
+  }
+
+  has(id: string): boolean {
+    return this.vectors.has(id)
+  }
+
+  get(id: string): number[] | undefined {
+    return this.vectors.get(id)
+  }
+
+  add(id: string, vector: number[]): void {
+    const normal = normalize(vector)
+    if (!normal) {
+      this.remove(id)
+      return
+    }
+    if (this.dimensions === 0) {
+      this.dimensions = normal.length
+    } else if (normal.length !== this.dimensions) {
+      throw new Error(`Vector has ${normal.length} dimensions, index expects ${this.dimensions}`)
+    }
+
+    this.vectors.set(id, normal)
+  }
+
+  remove(id: string): void {
+    this.vectors.delete(id)
+    if (this.vectors.size === 0) this.dimensions = 0
+  }
+
+  clear(): void {
+    this.vectors.clear()
+    this.dimensions = 0
+  }
+
+  /**
+   * Documents most similar to the query vector, best first
+   */
+  search(vector: number[], options: VectorSearchOptions = {}): VectorHit[] {
+    const query = normalize(vector)
+    if (!query || query.length !== this.dimensions) return []
+
+    const exclude = new Set(options.exclude || [])
+    const minScore = options.minScore ?? -1
+    const hits: VectorHit[] = []
+
+    this.vectors.forEach((document, id) => {
+      if (exclude.has(id)) return
+      const score = dot(query, document)
+      if (score >= minScore) hits.push({ id, score })
+    })
+
+    hits.sort((a, b) => b.score - a.score)
+    return options.limit ? hits.slice(0, options.limit) : hits
+  }
+}
@@ -0,0 +1,165 @@
+// Minimal zip reader/writer for Etherith archives
+// Archives are written uncompressed (most of their bytes are already
+// compressed media). Reading also accepts deflated entries where the browser
+// provides DecompressionStream, so archives re-zipped by other tools import.
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+  modifiedAt?: number
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+
+const METHOD_STORE = 0
+const METHOD_DEFLATE = 8
+const FLAG_UTF8 = 0x0800
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date/time as stored in zip headers
+function toDosDateTime(timestamp: number): { date: number; time: number } {
+  const d = new Date(timestamp)
+  const year = Math.max(d.getFullYear(), 1980)
+  return {
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2)
+  }
+}
+
+export function createZip(entries: ZipEntry[]): Blob {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = []
+  const centralDirectory: Uint8Array[] = []
+  let offset = 0
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name)
+    const crc = crc32(entry.data)
+    const { date, time } = toDosDateTime(entry.modifiedAt || Date.now())
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, LOCAL_FILE_HEADER, true)
+    local.setUint16(4, 20, true) // Version needed to extract
+    local.setUint16(6, FLAG_UTF8, true)
+    local.setUint16(8, METHOD_STORE, true)
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, entry.data.length, true)
+    local.setUint32(22, entry.data.length, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, CENTRAL_DIRECTORY_HEADER, true)
+    central.setUint16(4, 20, true) // Version made by
+    central.setUint16(6, 20, true)
+    central.setUint16(8, FLAG_UTF8, true)
+    central.setUint16(10, METHOD_STORE, true)
+    central.setUint16(12, time, true)
+    central.setUint16(14, date, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, entry.data.length, true)
+    central.setUint32(24, entry.data.length, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+
+    parts.push(new Uint8Array(local.buffer), name, entry.data)
+    centralDirectory.push(new Uint8Array(central.buffer), name)
+    offset += 30 + name.length + entry.data.length
+  })
+
+  const directorySize = centralDirectory.reduce((sum, part) => sum + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, directorySize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' })
+}
+
+export async function readZip(data: ArrayBuffer | Uint8Array): Promise<ZipEntry[]> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const decoder = new TextDecoder()
+
+  // The end record sits at the end, possibly followed by a comment
+  let endOffset = -1
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i
+      break
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Not a zip archive')
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true)
+  let offset = view.getUint32(endOffset + 16, true)
+  const entries: ZipEntry[] = []
+
+  for (let index = 0; index < entryCount; index++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt zip central directory')
+    }
+
+    const method = view.getUint16(offset + 10, true)
+    const crc = view.getUint32(offset + 16, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue // Directory entry
+
+    const dataStart = localOffset + 30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true)
+    const raw = bytes.slice(dataStart, dataStart + compressedSize)
+    const data = method === METHOD_STORE ? raw : await inflate(raw, method, name)
+
+    if (crc32(data) !== crc) {
+      throw new Error(`Checksum mismatch for ${name}`)
+    }
+
+    entries.push({ name, data })
+  }
+
+  return entries
+}
+
+async function inflate(data: Uint8Array, method: number, name: string): Promise<Uint8Array> {
+  if (method !== METHOD_DEFLATE || typeof DecompressionStream === 'undefined') {
+    throw new Error(`Unsupported compression for ${name}`)
+  }
+
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
@@ -0,0 +1,14 @@
+// Custom service worker code, bundled by next-pwa into the generated sw.js
+
+// Focus an open Etherith tab (or open one) when a notification is clicked
+self.addEventListener('notificationclick', event => {
+  event.notification.close()
+  const url = (event.notification.data && event.notification.data.url) || '/memory-vault'
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(clients => {
+      const client = clients.find(c => new URL(c.url).pathname === url)
+      return client ? client.focus() : self.clients.openWindow(url)
+    })
+  )
+})
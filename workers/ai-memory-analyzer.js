@@ -24,6 +24,11 @@ export default {
       })
     }
 
+    // POST /embed with { texts } returns vectors for semantic search
+    if (new URL(request.url).pathname === '/embed') {
+      return embedTexts(request, env)
+    }
+
     try {
       const formData = await request.formData()
       const file = formData.get('file')
@@ -32,6 +37,7 @@ export default {
       const memoryNote = formData.get('memoryNote')
       const fileType = formData.get('fileType')
       const fileName = formData.get('fileName')
+      const exif = parseExif(formData.get('exif'))
 
       if (!file && !content) {
         return new Response(JSON.stringify({ error: 'File or content is required' }), {
@@ -44,6 +50,7 @@ export default {
       let fileContent = content
       let detectedFileType = fileType
       let detectedFileName = fileName
+      let media = null
 
       if (file) {
         detectedFileName = file.name || 'unknown'
@@ -64,10 +71,27 @@ export default {
             console.warn('PDF conversion failed, using filename for analysis:', error)
             fileContent = `File: ${detectedFileName} (${file.type})`
           }
+        } else if (file.type.startsWith('image/') || file.type.startsWith('audio/')) {
+          // Describe what is in the photo or recording so the text models
+          // work from its content rather than its filename
+          media = file.type.startsWith('image/')
+            ? await describeImage(file, env)
+            : { transcript: await transcribeAudio(file, env) }
+
+          fileContent = [
+            `${detectedFileType === 'image' ? 'Photo' : 'Recording'}: ${detectedFileName}`,
+            media.caption && `Shows: ${media.caption}`,
+            media.ocrText && `Text in the image: ${media.ocrText}`,
+            media.transcript && `Transcript: ${media.transcript}`,
+            describeExif(exif),
+            content
+          ].filter(Boolean).join('\n')
         } else {
           // For other file types, create a description
           fileContent = `File: ${detectedFileName} (${file.type}) - ${content || 'No additional description provided'}`
         }
+      } else if (exif) {
+        fileContent = [content, describeExif(exif)].filter(Boolean).join('\n')
       }
 
       // Analyze content with multiple AI models in parallel
@@ -99,7 +123,14 @@ export default {
           type: detectedFileType,
           mimeType: file.type,
           size: file.size
-        } : null
+        } : null,
+        media: media || exif ? { ...media, exif } : null
+      }
+
+      // The year a photo was taken is a useful tag for browsing
+      if (exif?.takenAt) {
+        const year = String(new Date(exif.takenAt).getUTCFullYear())
+        if (!analysis.tags.includes(year)) analysis.tags = [...analysis.tags.slice(0, 4), year]
       }
 
       return new Response(JSON.stringify({
@@ -278,6 +309,113 @@ async function categorizeContent(content, fileType, env) {
   }
 }
 
+// Larger files are not sent to the vision and speech models
+const MAX_MEDIA_BYTES = 10 * 1024 * 1024
+
+/**
+ * Caption an image and read any visible text from it
+ */
+async function describeImage(file, env) {
+  if (file.size > MAX_MEDIA_BYTES) return {}
+
+  const image = [...new Uint8Array(await file.arrayBuffer())]
+
+  const run = async (prompt) => {
+    try {
+      const response = await env.AI.run('@cf/llava-hf/llava-1.5-7b-hf', { image, prompt, max_tokens: 256 })
+      return response.description?.trim() || ''
+    } catch (error) {
+      console.error('Image analysis error:', error)
+      return ''
+    }
+  }
+
+  const [caption, ocrText] = await Promise.all([
+    run('Describe this photo in one or two sentences: who or what is in it, where, and what is happening.'),
+    run('Transcribe any legible text in this image exactly as written. If there is no text, reply with NONE.')
+  ])
+
+  return {
+    caption: caption || undefined,
+    ocrText: ocrText && !/^none\.?$/i.test(ocrText) ? ocrText : undefined
+  }
+}
+
+/**
+ * Transcribe speech in an audio recording
+ */
+async function transcribeAudio(file, env) {
+  if (file.size > MAX_MEDIA_BYTES) return undefined
+
+  try {
+    const response = await env.AI.run('@cf/openai/whisper', {
+      audio: [...new Uint8Array(await file.arrayBuffer())]
+    })
+    return response.text?.trim() || undefined
+  } catch (error) {
+    console.error('Transcription error:', error)
+    return undefined
+  }
+}
+
+/**
+ * EXIF fields read by the app, sent as JSON
+ */
+function parseExif(value) {
+  if (!value) return null
+  try {
+    const exif = JSON.parse(value)
+    return exif && typeof exif === 'object' ? exif : null
+  } catch {
+    return null
+  }
+}
+
+function describeExif(exif) {
+  if (!exif) return ''
+  const parts = []
+  if (exif.takenAt) parts.push(`Taken ${new Date(exif.takenAt).toDateString()}`)
+  if (exif.camera) parts.push(`with ${exif.camera}`)
+  return parts.join(' ')
+}
+
+const EMBEDDING_MODEL = '@cf/baai/bge-small-en-v1.5'
+const MAX_EMBED_TEXTS = 64
+
+/**
+ * Embed a batch of texts with one model so the vectors can be compared
+ */
+async function embedTexts(request, env) {
+  const headers = {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  }
+
+  try {
+    const { texts } = await request.json()
+    if (!Array.isArray(texts) || texts.length === 0 || texts.length > MAX_EMBED_TEXTS ||
+        !texts.every(text => typeof text === 'string')) {
+      return new Response(JSON.stringify({ error: `texts must be 1-${MAX_EMBED_TEXTS} strings` }), { status: 400, headers })
+    }
+
+    const response = await env.AI.run(EMBEDDING_MODEL, {
+      text: texts.map(text => text.substring(0, 2000) || ' ')
+    })
+
+    return new Response(JSON.stringify({
+      success: true,
+      model: EMBEDDING_MODEL,
+      vectors: response.data
+    }), { status: 200, headers })
+  } catch (error) {
+    console.error('Embedding error:', error)
+    return new Response(JSON.stringify({
+      success: false,
+      error: error.message || 'Embedding failed'
+    }), { status: 500, headers })
+  }
+}
+
 /**
  * Calculate overall confidence in the analysis
  */